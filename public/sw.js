@@ -0,0 +1,34 @@
+// public/sw.js — Web Push 수신 (구독은 /mypage/notifications 에서 등록)
+// payload: { title, body, link }  (src/lib/notificationChannels.ts sendPush)
+
+self.addEventListener("push", (event) => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch {
+    payload = { body: event.data ? event.data.text() : "" };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title || "이모탈", {
+      body: payload.body || "",
+      icon: "/icon192.png",
+      badge: "/icon192.png",
+      data: { link: payload.link || "/" },
+    })
+  );
+});
+
+// 알림 클릭 → 열린 창이 있으면 그 창에서, 없으면 새 창으로 link 이동
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.link || "/", self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((windows) => {
+      const existing = windows.find((w) => w.url.startsWith(self.location.origin));
+      if (existing) return existing.navigate(url).then((w) => (w || existing).focus());
+      return self.clients.openWindow(url);
+    })
+  );
+});
@@ -0,0 +1,56 @@
+// scripts/create-admin.mjs
+// ───────────────────────────────────────────────────────────────
+// 관리자 계정 생성 / 비밀번호 재설정 (첫 superadmin 부트스트랩용)
+//
+//   NEXT_PUBLIC_SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... \
+//   node scripts/create-admin.mjs <username> <password> [role]
+//
+//   role: viewer | operator | treasurer | superadmin (기본 superadmin)
+//   이미 있는 ID 면 비밀번호/역할을 갱신하고 다시 활성화한다.
+//   해시 형식은 src/lib/adminAuth.ts 의 hashPassword 와 같다 (scrypt$N$r$p$salt$hash)
+// ───────────────────────────────────────────────────────────────
+import { randomBytes, scryptSync } from "node:crypto";
+import { createClient } from "@supabase/supabase-js";
+
+const ROLES = ["viewer", "operator", "treasurer", "superadmin"];
+const [username, password, role = "superadmin"] = process.argv.slice(2);
+
+if (!username || !password) {
+  console.error("사용법: node scripts/create-admin.mjs <username> <password> [role]");
+  process.exit(1);
+}
+if (password.length < 10) {
+  console.error("❌ 비밀번호는 10자 이상이어야 합니다");
+  process.exit(1);
+}
+if (!ROLES.includes(role)) {
+  console.error(`❌ role 은 ${ROLES.join(" | ")} 중 하나여야 합니다`);
+  process.exit(1);
+}
+
+const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+if (!url || !serviceKey) {
+  console.error("❌ NEXT_PUBLIC_SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY 가 필요합니다");
+  process.exit(1);
+}
+
+const N = 16384;
+const R = 8;
+const P = 1;
+const salt = randomBytes(16);
+const key = scryptSync(password, salt, 64, { N, r: R, p: P });
+const passwordHash = ["scrypt", N, R, P, salt.toString("base64"), key.toString("base64")].join("$");
+
+const supabase = createClient(url, serviceKey, { auth: { persistSession: false } });
+const { data, error } = await supabase
+  .from("admin_users")
+  .upsert({ username, password_hash: passwordHash, role, active: true }, { onConflict: "username" })
+  .select("id, username, role")
+  .single();
+
+if (error) {
+  console.error("❌ 관리자 저장 실패:", error.message);
+  process.exit(1);
+}
+console.log("✅ 관리자 저장:", data);
@@ -0,0 +1,81 @@
+// scripts/remote-signer-stub.mjs
+// ───────────────────────────────────────────────────────────────
+// 로컬 개발용 원격 서명 서비스 스텁 (src/lib/signer.ts 의 remote 프로토콜)
+//
+//   STUB_SIGNER_KEYS='{"payout":"0x...","gas":"0x..."}' \
+//   STUB_SIGNER_TOKEN=dev-token PORT=8787 node scripts/remote-signer-stub.mjs
+//
+//   PAYOUT_SIGNER_URL=http://127.0.0.1:8787 PAYOUT_SIGNER_TOKEN=dev-token
+//   GAS_SIGNER_URL=http://127.0.0.1:8787    GAS_SIGNER_TOKEN=dev-token
+//
+//   GET  /address?keyId=        → { address }
+//   POST /sign-transaction      { keyId, transaction } → { signedTx }
+//   POST /sign-message          { keyId, message }     → { signature }
+//   POST /sign-typed-data       { keyId, typedData }   → { signature }
+//
+// ⚠️ 키를 평문으로 들고 있는 스텁이다. 운영에서는 KMS 등 실제 서명 서비스를 쓴다.
+// ───────────────────────────────────────────────────────────────
+import { createServer } from "node:http";
+import { Wallet } from "ethers";
+import { signTransaction } from "thirdweb";
+import { signMessage, signTypedData } from "thirdweb/utils";
+
+const PORT = Number(process.env.PORT ?? 8787);
+const TOKEN = process.env.STUB_SIGNER_TOKEN;
+const KEYS = JSON.parse(process.env.STUB_SIGNER_KEYS ?? "{}");
+
+// signer.ts 가 bigint 를 0x 문자열로 보내므로 되돌린다
+const BIGINT_FIELDS = ["value", "gas", "gasPrice", "maxFeePerGas", "maxPriorityFeePerGas"];
+
+function keyOf(keyId) {
+  const privateKey = KEYS[keyId];
+  if (!privateKey) throw Object.assign(new Error(`unknown keyId: ${keyId}`), { status: 404 });
+  return privateKey;
+}
+
+function send(res, status, body) {
+  res.writeHead(status, { "content-type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+async function readBody(req) {
+  let raw = "";
+  for await (const chunk of req) raw += chunk;
+  return raw ? JSON.parse(raw) : {};
+}
+
+createServer(async (req, res) => {
+  try {
+    if (TOKEN && req.headers.authorization !== `Bearer ${TOKEN}`) {
+      return send(res, 401, { error: "unauthorized" });
+    }
+    const url = new URL(req.url ?? "/", `http://${req.headers.host}`);
+
+    if (req.method === "GET" && url.pathname === "/address") {
+      const address = new Wallet(keyOf(url.searchParams.get("keyId"))).address;
+      return send(res, 200, { address });
+    }
+    if (req.method !== "POST") return send(res, 404, { error: "not found" });
+
+    const body = await readBody(req);
+    const privateKey = keyOf(body.keyId);
+
+    if (url.pathname === "/sign-transaction") {
+      const transaction = { ...body.transaction };
+      for (const f of BIGINT_FIELDS) if (transaction[f] != null) transaction[f] = BigInt(transaction[f]);
+      console.log("✍️ sign-transaction", body.keyId, transaction.to, transaction.nonce);
+      return send(res, 200, { signedTx: signTransaction({ transaction, privateKey }) });
+    }
+    if (url.pathname === "/sign-message") {
+      return send(res, 200, { signature: signMessage({ message: body.message, privateKey }) });
+    }
+    if (url.pathname === "/sign-typed-data") {
+      return send(res, 200, { signature: signTypedData({ ...body.typedData, privateKey }) });
+    }
+    return send(res, 404, { error: "not found" });
+  } catch (e) {
+    send(res, e?.status ?? 500, { error: e?.message ?? String(e) });
+  }
+}).listen(PORT, "127.0.0.1", () => {
+  console.log(`🔐 remote signer stub: http://127.0.0.1:${PORT} (keys: ${Object.keys(KEYS).join(", ") || "없음"})`);
+});
@@ -0,0 +1,204 @@
+// src/app/admin/audit/page.tsx
+"use client";
+
+import { Fragment, useCallback, useEffect, useState } from "react";
+import AdminAuth from "@/components/AdminAuth";
+
+const PAGE_SIZE = 50;
+
+type AuditEntry = {
+  id: number;
+  created_at: string;
+  actor: string;
+  actor_role: string | null;
+  action: string;
+  target_table: string | null;
+  target_id: string | null;
+  before: any;
+  after: any;
+  meta: any;
+  ip: string | null;
+  user_agent: string | null;
+};
+
+const toJsonText = (v: any) => (v == null ? "-" : JSON.stringify(v, null, 2));
+
+export default function AdminAuditPage() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  // 검색 조건
+  const [q, setQ] = useState("");
+  const [actor, setActor] = useState("");
+  const [action, setAction] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [offset, setOffset] = useState(0);
+
+  const load = useCallback(
+    async (nextOffset: number) => {
+      try {
+        setLoading(true);
+        setErr(null);
+        const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(nextOffset) });
+        if (q.trim()) params.set("q", q.trim());
+        if (actor.trim()) params.set("actor", actor.trim());
+        if (action.trim()) params.set("action", action.trim());
+        if (from) params.set("from", from);
+        if (to) params.set("to", to);
+
+        const res = await fetch(`/api/admin/audit?${params}`, { cache: "no-store" });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data?.message || "감사 로그 조회 실패");
+        setEntries(data.entries ?? []);
+        setTotal(data.total ?? 0);
+        setOffset(nextOffset);
+      } catch (e: any) {
+        setErr(e?.message ?? "감사 로그 조회 실패");
+      } finally {
+        setLoading(false);
+      }
+    },
+    [q, actor, action, from, to]
+  );
+
+  useEffect(() => {
+    load(0);
+    // 최초 1회만 자동 조회, 이후는 검색 버튼
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  return (
+    <AdminAuth>
+      <section className="space-y-4">
+        <h1 className="text-xl font-semibold">🧾 감사로그</h1>
+        <p className="text-sm text-gray-600">
+          관리자 변경 작업 기록입니다. 기록은 수정/삭제할 수 없습니다. 행을 누르면 변경 전/후 값을 볼 수 있습니다.
+        </p>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            value={q}
+            onChange={(e) => setQ(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && load(0)}
+            placeholder="검색 (관리자 / 작업 / 대상 / IP)"
+            className="border rounded px-3 py-2 text-sm w-64"
+          />
+          <input
+            value={actor}
+            onChange={(e) => setActor(e.target.value)}
+            placeholder="관리자 ID"
+            className="border rounded px-3 py-2 text-sm w-32"
+          />
+          <input
+            value={action}
+            onChange={(e) => setAction(e.target.value)}
+            placeholder="작업 (예: payout)"
+            className="border rounded px-3 py-2 text-sm w-40"
+          />
+          <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="border rounded px-2 py-2 text-sm" />
+          <span className="text-gray-400">~</span>
+          <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="border rounded px-2 py-2 text-sm" />
+          <button onClick={() => load(0)} className="bg-gray-800 text-white rounded px-4 py-2 text-sm">
+            검색
+          </button>
+        </div>
+
+        {loading && <div>불러오는 중…</div>}
+        {err && <div className="text-red-500">{err}</div>}
+
+        {!loading && !err && (
+          <div className="rounded-lg border border-gray-200 overflow-auto w-full max-h-[70vh]">
+            <table className="w-full text-sm table-auto">
+              <thead className="bg-gray-50 sticky top-0 z-10">
+                <tr>
+                  {["시각", "관리자", "역할", "작업", "대상", "IP"].map((h) => (
+                    <th key={h} className="px-3 py-2 text-left font-medium text-gray-700 border-b whitespace-nowrap">
+                      {h}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {entries.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="px-3 py-6 text-center text-gray-500">
+                      기록이 없습니다.
+                    </td>
+                  </tr>
+                )}
+
+                {entries.map((e) => (
+                  <Fragment key={e.id}>
+                    <tr
+                      className="odd:bg-white even:bg-gray-50 align-top cursor-pointer hover:bg-blue-50"
+                      onClick={() => setExpanded(expanded === e.id ? null : e.id)}
+                    >
+                      <td className="px-3 py-2 border-b whitespace-nowrap">
+                        {new Date(e.created_at).toLocaleString("ko-KR", { timeZone: "Asia/Seoul" })}
+                      </td>
+                      <td className="px-3 py-2 border-b whitespace-nowrap">{e.actor}</td>
+                      <td className="px-3 py-2 border-b whitespace-nowrap text-gray-500">{e.actor_role ?? "-"}</td>
+                      <td className="px-3 py-2 border-b whitespace-nowrap font-mono">{e.action}</td>
+                      <td className="px-3 py-2 border-b whitespace-nowrap">
+                        {e.target_table ?? "-"}
+                        {e.target_id && <span className="text-gray-500"> #{e.target_id}</span>}
+                      </td>
+                      <td className="px-3 py-2 border-b whitespace-nowrap text-gray-500" title={e.user_agent ?? ""}>
+                        {e.ip ?? "-"}
+                      </td>
+                    </tr>
+                    {expanded === e.id && (
+                      <tr className="bg-gray-50">
+                        <td colSpan={6} className="px-3 py-3 border-b">
+                          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                            {[
+                              ["변경 전", e.before],
+                              ["변경 후", e.after],
+                              ["상세", e.meta],
+                            ].map(([label, value]) => (
+                              <div key={label}>
+                                <div className="text-xs font-semibold text-gray-600 mb-1">{label}</div>
+                                <pre className="text-xs bg-white border rounded p-2 overflow-auto max-h-64 whitespace-pre-wrap break-all">
+                                  {toJsonText(value)}
+                                </pre>
+                              </div>
+                            ))}
+                          </div>
+                          <div className="text-xs text-gray-400 mt-2 break-all">{e.user_agent}</div>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="flex items-center gap-2 text-sm">
+          <button
+            onClick={() => load(Math.max(0, offset - PAGE_SIZE))}
+            disabled={loading || offset === 0}
+            className="px-3 py-1 rounded border disabled:opacity-40"
+          >
+            이전
+          </button>
+          <span className="text-gray-600">
+            {total === 0 ? 0 : offset + 1}–{Math.min(offset + PAGE_SIZE, total)} / {total}
+          </span>
+          <button
+            onClick={() => load(offset + PAGE_SIZE)}
+            disabled={loading || offset + PAGE_SIZE >= total}
+            className="px-3 py-1 rounded border disabled:opacity-40"
+          >
+            다음
+          </button>
+        </div>
+      </section>
+    </AdminAuth>
+  );
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import { Suspense, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+
+function AdminLoginForm() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const handleLogin = async () => {
+    if (loading) return;
+    setLoading(true);
+    try {
+      const res = await fetch("/api/admin/session", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username, password }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.message || "로그인 실패");
+
+      const next = searchParams.get("next");
+      router.replace(next && next.startsWith("/admin") ? next : "/admin");
+    } catch (e: any) {
+      alert(e?.message ?? "로그인 실패");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="p-10 max-w-md mx-auto">
+      <h2 className="text-lg font-bold mb-4">🔐 관리자 로그인</h2>
+      <input
+        className="border p-2 w-full mb-2"
+        placeholder="관리자 ID"
+        value={username}
+        onChange={(e) => setUsername(e.target.value)}
+      />
+      <input
+        type="password"
+        className="border p-2 w-full mb-4"
+        placeholder="비밀번호"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        onKeyDown={(e) => e.key === "Enter" && handleLogin()}
+      />
+      <button
+        className="bg-blue-600 text-white px-4 py-2 rounded w-full disabled:opacity-50"
+        onClick={handleLogin}
+        disabled={loading}
+      >
+        {loading ? "확인 중…" : "로그인"}
+      </button>
+    </div>
+  );
+}
+
+export default function AdminLoginPage() {
+  return (
+    <Suspense>
+      <AdminLoginForm />
+    </Suspense>
+  );
+}
@@ -0,0 +1,292 @@
+// src/app/admin/products/page.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import Image from "next/image";
+import AdminAuth from "@/components/AdminAuth";
+import { passPeriodLabel, type PassProduct } from "@/lib/passCatalog";
+
+type Draft = {
+  id: string;
+  name_ko: string;
+  name_en: string;
+  price: string;
+  months: string;
+  bonus_days: string;
+  unlimited: boolean;
+  sort: string;
+  image: string;
+  active: boolean;
+};
+
+const EMPTY_DRAFT: Draft = {
+  id: "",
+  name_ko: "",
+  name_en: "",
+  price: "",
+  months: "1",
+  bonus_days: "0",
+  unlimited: false,
+  sort: "0",
+  image: "",
+  active: true,
+};
+
+const toDraft = (p: PassProduct): Draft => ({
+  id: p.id,
+  name_ko: p.name_ko,
+  name_en: p.name_en ?? "",
+  price: String(p.price),
+  months: String(p.months),
+  bonus_days: String(p.bonus_days),
+  unlimited: p.unlimited,
+  sort: String(p.sort),
+  image: p.image ?? "",
+  active: p.active,
+});
+
+export default function AdminProductsPage() {
+  const [products, setProducts] = useState<PassProduct[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  // 편집 폼 (editing = 수정 중인 상품 ID, null 이면 새 상품)
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const load = async () => {
+    try {
+      setLoading(true);
+      setErr(null);
+      const res = await fetch("/api/admin/products", { cache: "no-store" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.message || "상품 조회 실패");
+      setProducts(data.products ?? []);
+    } catch (e: any) {
+      setErr(e?.message ?? "상품 조회 실패");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const set = <K extends keyof Draft>(key: K, value: Draft[K]) => setDraft((d) => ({ ...d, [key]: value }));
+
+  const resetForm = () => {
+    setDraft(EMPTY_DRAFT);
+    setEditing(null);
+  };
+
+  const handleSave = async () => {
+    const payload = {
+      name_ko: draft.name_ko,
+      name_en: draft.name_en,
+      price: Number(draft.price),
+      months: Number(draft.months || 0),
+      bonus_days: Number(draft.bonus_days || 0),
+      unlimited: draft.unlimited,
+      sort: Number(draft.sort || 0),
+      image: draft.image,
+      active: draft.active,
+    };
+
+    setSaving(true);
+    try {
+      const res = editing
+        ? await fetch(`/api/admin/products/${editing}`, {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(payload),
+          })
+        : await fetch("/api/admin/products", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ id: draft.id.trim(), ...payload }),
+          });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.message || "저장 실패");
+      alert(editing ? "✅ 상품이 수정되었습니다 (이후 구매부터 적용)" : "✅ 상품이 추가되었습니다");
+      resetForm();
+      load();
+    } catch (e: any) {
+      alert(`❌ ${e?.message ?? e}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (p: PassProduct) => {
+    if (!confirm(`${p.name_ko} 상품을 ${p.active ? "판매 중지" : "판매 재개"}할까요?`)) return;
+    try {
+      const res = await fetch(`/api/admin/products/${p.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ active: !p.active }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.message || "변경 실패");
+      load();
+    } catch (e: any) {
+      alert(`❌ ${e?.message ?? e}`);
+    }
+  };
+
+  return (
+    <AdminAuth>
+      <section className="space-y-4">
+        <h1 className="text-xl font-semibold">🛒 상품관리</h1>
+        <p className="text-sm text-gray-600">
+          스토어에 표시되는 패스 상품입니다. 가격/기간 변경은 이후 구매부터 적용되며, 이미 판매된 상품은 삭제 대신 판매 중지합니다.
+        </p>
+
+        {loading && <div>불러오는 중…</div>}
+        {err && <div className="text-red-500">{err}</div>}
+
+        {!loading && !err && (
+          <div className="rounded-lg border border-gray-200 overflow-auto w-full">
+            <table className="w-full text-sm table-auto">
+              <thead className="bg-gray-50">
+                <tr>
+                  {["정렬", "ID", "상품명", "영문명", "가격(USDT)", "기간", "판매", ""].map((h) => (
+                    <th key={h} className="px-3 py-2 text-left font-medium text-gray-700 border-b whitespace-nowrap">
+                      {h}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {products.length === 0 && (
+                  <tr>
+                    <td colSpan={8} className="px-3 py-6 text-center text-gray-500">
+                      등록된 상품이 없습니다.
+                    </td>
+                  </tr>
+                )}
+
+                {products.map((p) => (
+                  <tr key={p.id} className={`odd:bg-white even:bg-gray-50 ${p.active ? "" : "text-gray-400"}`}>
+                    <td className="px-3 py-2 border-b">{p.sort}</td>
+                    <td className="px-3 py-2 border-b font-mono">{p.id}</td>
+                    <td className="px-3 py-2 border-b whitespace-nowrap">
+                      <div className="flex items-center gap-2">
+                        {p.image && <Image src={p.image} alt="" width={24} height={24} unoptimized className="w-6 h-6" />}
+                        {p.name_ko}
+                      </div>
+                    </td>
+                    <td className="px-3 py-2 border-b whitespace-nowrap">{p.name_en ?? "-"}</td>
+                    <td className="px-3 py-2 border-b">{p.price}</td>
+                    <td className="px-3 py-2 border-b whitespace-nowrap">{passPeriodLabel(p)}</td>
+                    <td className="px-3 py-2 border-b">{p.active ? "판매 중" : "중지"}</td>
+                    <td className="px-3 py-2 border-b whitespace-nowrap space-x-1">
+                      <button
+                        onClick={() => {
+                          setDraft(toDraft(p));
+                          setEditing(p.id);
+                        }}
+                        className="px-2 py-1 text-xs rounded border text-blue-600"
+                      >
+                        수정
+                      </button>
+                      <button onClick={() => handleToggleActive(p)} className="px-2 py-1 text-xs rounded border text-gray-600">
+                        {p.active ? "판매 중지" : "판매 재개"}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="rounded-lg border border-gray-200 p-4 space-y-3 max-w-2xl">
+          <h2 className="font-semibold">{editing ? `상품 수정: ${editing}` : "새 상품"}</h2>
+          <div className="grid grid-cols-2 gap-2 text-sm">
+            <label className="space-y-1">
+              <span className="text-gray-600">상품 ID (영문 소문자/숫자/-)</span>
+              <input
+                value={draft.id}
+                onChange={(e) => set("id", e.target.value)}
+                disabled={!!editing}
+                placeholder="pass-300"
+                className="w-full border rounded px-2 py-1.5 disabled:bg-gray-100"
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-gray-600">가격 (USDT)</span>
+              <input value={draft.price} onChange={(e) => set("price", e.target.value)} className="w-full border rounded px-2 py-1.5" />
+            </label>
+            <label className="space-y-1">
+              <span className="text-gray-600">상품명 (한국어)</span>
+              <input value={draft.name_ko} onChange={(e) => set("name_ko", e.target.value)} className="w-full border rounded px-2 py-1.5" />
+            </label>
+            <label className="space-y-1">
+              <span className="text-gray-600">상품명 (영문)</span>
+              <input value={draft.name_en} onChange={(e) => set("name_en", e.target.value)} className="w-full border rounded px-2 py-1.5" />
+            </label>
+            <label className="space-y-1">
+              <span className="text-gray-600">기간 (개월)</span>
+              <input
+                type="number"
+                min={0}
+                value={draft.months}
+                onChange={(e) => set("months", e.target.value)}
+                disabled={draft.unlimited}
+                className="w-full border rounded px-2 py-1.5 disabled:bg-gray-100"
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-gray-600">추가 일수</span>
+              <input
+                type="number"
+                min={0}
+                value={draft.bonus_days}
+                onChange={(e) => set("bonus_days", e.target.value)}
+                disabled={draft.unlimited}
+                className="w-full border rounded px-2 py-1.5 disabled:bg-gray-100"
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-gray-600">정렬 순서</span>
+              <input type="number" value={draft.sort} onChange={(e) => set("sort", e.target.value)} className="w-full border rounded px-2 py-1.5" />
+            </label>
+            <label className="space-y-1">
+              <span className="text-gray-600">이미지 경로</span>
+              <input
+                value={draft.image}
+                onChange={(e) => set("image", e.target.value)}
+                placeholder="/pass-300.png"
+                className="w-full border rounded px-2 py-1.5"
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={draft.unlimited} onChange={(e) => set("unlimited", e.target.checked)} />
+              <span>무제한</span>
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={draft.active} onChange={(e) => set("active", e.target.checked)} />
+              <span>판매 중</span>
+            </label>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="bg-gray-800 text-white rounded px-4 py-2 text-sm disabled:opacity-50"
+            >
+              {saving ? "저장 중…" : editing ? "수정 저장" : "상품 추가"}
+            </button>
+            {editing && (
+              <button onClick={resetForm} className="border rounded px-4 py-2 text-sm">
+                취소
+              </button>
+            )}
+          </div>
+        </div>
+      </section>
+    </AdminAuth>
+  );
+}
@@ -0,0 +1,349 @@
+// src/app/admin/promos/page.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import AdminAuth from "@/components/AdminAuth";
+import type { PromoCode, PromoDiscountType } from "@/lib/promoCodes";
+
+type Draft = {
+  code: string;
+  discount_type: PromoDiscountType;
+  discount_value: string;
+  bonus_days: string;
+  max_redemptions: string;
+  per_user_limit: string;
+  valid_from: string;
+  valid_until: string;
+  referrer_codes: string;
+  center_ids: string;
+  active: boolean;
+  note: string;
+};
+
+const EMPTY_DRAFT: Draft = {
+  code: "",
+  discount_type: "percent",
+  discount_value: "",
+  bonus_days: "0",
+  max_redemptions: "",
+  per_user_limit: "1",
+  valid_from: "",
+  valid_until: "",
+  referrer_codes: "",
+  center_ids: "",
+  active: true,
+  note: "",
+};
+
+const toDraft = (p: PromoCode): Draft => ({
+  code: p.code,
+  discount_type: p.discount_type,
+  discount_value: String(p.discount_value),
+  bonus_days: String(p.bonus_days),
+  max_redemptions: p.max_redemptions ? String(p.max_redemptions) : "",
+  per_user_limit: p.per_user_limit ? String(p.per_user_limit) : "",
+  valid_from: p.valid_from ?? "",
+  valid_until: p.valid_until ?? "",
+  referrer_codes: (p.referrer_codes ?? []).join(", "),
+  center_ids: (p.center_ids ?? []).join(", "),
+  active: p.active,
+  note: p.note ?? "",
+});
+
+const benefitLabel = (p: PromoCode) =>
+  [
+    p.discount_value > 0 && (p.discount_type === "percent" ? `${p.discount_value}% 할인` : `${p.discount_value} USDT 할인`),
+    p.bonus_days > 0 && `+${p.bonus_days}일`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+export default function AdminPromosPage() {
+  const [promos, setPromos] = useState<PromoCode[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  // 편집 폼 (editing = 수정 중인 코드, null 이면 새 코드)
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const load = async () => {
+    try {
+      setLoading(true);
+      setErr(null);
+      const res = await fetch("/api/admin/promos", { cache: "no-store" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.message || "프로모션 코드 조회 실패");
+      setPromos(data.promos ?? []);
+    } catch (e: any) {
+      setErr(e?.message ?? "프로모션 코드 조회 실패");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const set = <K extends keyof Draft>(key: K, value: Draft[K]) => setDraft((d) => ({ ...d, [key]: value }));
+
+  const resetForm = () => {
+    setDraft(EMPTY_DRAFT);
+    setEditing(null);
+  };
+
+  const handleSave = async () => {
+    const payload = {
+      discount_type: draft.discount_type,
+      discount_value: Number(draft.discount_value || 0),
+      bonus_days: Number(draft.bonus_days || 0),
+      max_redemptions: draft.max_redemptions || null,
+      per_user_limit: draft.per_user_limit || null,
+      valid_from: draft.valid_from,
+      valid_until: draft.valid_until,
+      referrer_codes: draft.referrer_codes,
+      center_ids: draft.center_ids,
+      active: draft.active,
+      note: draft.note,
+    };
+
+    setSaving(true);
+    try {
+      const res = editing
+        ? await fetch(`/api/admin/promos/${encodeURIComponent(editing)}`, {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(payload),
+          })
+        : await fetch("/api/admin/promos", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ code: draft.code.trim(), ...payload }),
+          });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.message || "저장 실패");
+      alert(editing ? "✅ 코드가 수정되었습니다" : "✅ 코드가 추가되었습니다");
+      resetForm();
+      load();
+    } catch (e: any) {
+      alert(`❌ ${e?.message ?? e}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (p: PromoCode) => {
+    if (!confirm(`${p.code} 코드를 ${p.active ? "사용 중지" : "다시 사용"}할까요?`)) return;
+    try {
+      const res = await fetch(`/api/admin/promos/${encodeURIComponent(p.code)}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ active: !p.active }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.message || "변경 실패");
+      load();
+    } catch (e: any) {
+      alert(`❌ ${e?.message ?? e}`);
+    }
+  };
+
+  return (
+    <AdminAuth>
+      <section className="space-y-4">
+        <h1 className="text-xl font-semibold">🏷️ 프로모션 코드</h1>
+        <p className="text-sm text-gray-600">
+          패스 결제 시 입력하는 할인 코드입니다. 할인은 결제 금액(업그레이드면 크레딧 차감 후)에 적용되고, 수당은 할인 후 실제
+          결제액 기준입니다. 추천인 / 센터를 지정하면 해당 회원만 사용할 수 있습니다.
+        </p>
+
+        {loading && <div>불러오는 중…</div>}
+        {err && <div className="text-red-500">{err}</div>}
+
+        {!loading && !err && (
+          <div className="rounded-lg border border-gray-200 overflow-auto w-full">
+            <table className="w-full text-sm table-auto">
+              <thead className="bg-gray-50">
+                <tr>
+                  {["코드", "혜택", "사용", "회원별", "기간", "대상", "상태", "메모", ""].map((h) => (
+                    <th key={h} className="px-3 py-2 text-left font-medium text-gray-700 border-b whitespace-nowrap">
+                      {h}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {promos.length === 0 && (
+                  <tr>
+                    <td colSpan={9} className="px-3 py-6 text-center text-gray-500">
+                      등록된 코드가 없습니다.
+                    </td>
+                  </tr>
+                )}
+
+                {promos.map((p) => (
+                  <tr key={p.code} className={`odd:bg-white even:bg-gray-50 ${p.active ? "" : "text-gray-400"}`}>
+                    <td className="px-3 py-2 border-b font-mono">{p.code}</td>
+                    <td className="px-3 py-2 border-b whitespace-nowrap">{benefitLabel(p)}</td>
+                    <td className="px-3 py-2 border-b whitespace-nowrap">
+                      {p.redeemed_count ?? 0} / {p.max_redemptions ?? "∞"}
+                    </td>
+                    <td className="px-3 py-2 border-b">{p.per_user_limit ?? "∞"}</td>
+                    <td className="px-3 py-2 border-b whitespace-nowrap">
+                      {p.valid_from || p.valid_until ? `${p.valid_from ?? ""} ~ ${p.valid_until ?? ""}` : "-"}
+                    </td>
+                    <td className="px-3 py-2 border-b">
+                      {p.referrer_codes?.length ? <div>추천인: {p.referrer_codes.join(", ")}</div> : null}
+                      {p.center_ids?.length ? <div>센터: {p.center_ids.join(", ")}</div> : null}
+                      {!p.referrer_codes?.length && !p.center_ids?.length && "전체"}
+                    </td>
+                    <td className="px-3 py-2 border-b whitespace-nowrap">{p.active ? "사용 중" : "중지"}</td>
+                    <td className="px-3 py-2 border-b">{p.note ?? ""}</td>
+                    <td className="px-3 py-2 border-b whitespace-nowrap space-x-1">
+                      <button
+                        onClick={() => {
+                          setDraft(toDraft(p));
+                          setEditing(p.code);
+                        }}
+                        className="px-2 py-1 text-xs rounded border text-blue-600"
+                      >
+                        수정
+                      </button>
+                      <button onClick={() => handleToggleActive(p)} className="px-2 py-1 text-xs rounded border text-gray-600">
+                        {p.active ? "사용 중지" : "다시 사용"}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="rounded-lg border border-gray-200 p-4 space-y-3 max-w-2xl">
+          <h2 className="font-semibold">{editing ? `코드 수정: ${editing}` : "새 코드"}</h2>
+          <div className="grid grid-cols-2 gap-2 text-sm">
+            <label className="space-y-1">
+              <span className="text-gray-600">코드 (영문/숫자/-/_)</span>
+              <input
+                value={draft.code}
+                onChange={(e) => set("code", e.target.value.toUpperCase())}
+                disabled={!!editing}
+                placeholder="WELCOME10"
+                className="w-full border rounded px-2 py-1.5 font-mono disabled:bg-gray-100"
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-gray-600">할인 방식</span>
+              <select
+                value={draft.discount_type}
+                onChange={(e) => set("discount_type", e.target.value as PromoDiscountType)}
+                className="w-full border rounded px-2 py-1.5"
+              >
+                <option value="percent">비율 (%)</option>
+                <option value="fixed">정액 (USDT)</option>
+              </select>
+            </label>
+            <label className="space-y-1">
+              <span className="text-gray-600">할인 값 ({draft.discount_type === "percent" ? "%" : "USDT"})</span>
+              <input
+                value={draft.discount_value}
+                onChange={(e) => set("discount_value", e.target.value)}
+                placeholder="0"
+                className="w-full border rounded px-2 py-1.5"
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-gray-600">추가 일수</span>
+              <input
+                type="number"
+                min={0}
+                value={draft.bonus_days}
+                onChange={(e) => set("bonus_days", e.target.value)}
+                className="w-full border rounded px-2 py-1.5"
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-gray-600">전체 사용 한도 (비우면 무제한)</span>
+              <input
+                type="number"
+                min={1}
+                value={draft.max_redemptions}
+                onChange={(e) => set("max_redemptions", e.target.value)}
+                className="w-full border rounded px-2 py-1.5"
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-gray-600">회원별 사용 한도 (비우면 무제한)</span>
+              <input
+                type="number"
+                min={1}
+                value={draft.per_user_limit}
+                onChange={(e) => set("per_user_limit", e.target.value)}
+                className="w-full border rounded px-2 py-1.5"
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-gray-600">시작일 (KST)</span>
+              <input
+                type="date"
+                value={draft.valid_from}
+                onChange={(e) => set("valid_from", e.target.value)}
+                className="w-full border rounded px-2 py-1.5"
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-gray-600">종료일 (KST, 포함)</span>
+              <input
+                type="date"
+                value={draft.valid_until}
+                onChange={(e) => set("valid_until", e.target.value)}
+                className="w-full border rounded px-2 py-1.5"
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-gray-600">추천인 ref_code (쉼표 구분, 비우면 전체)</span>
+              <input
+                value={draft.referrer_codes}
+                onChange={(e) => set("referrer_codes", e.target.value)}
+                className="w-full border rounded px-2 py-1.5"
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-gray-600">센터 ID (쉼표 구분, 비우면 전체)</span>
+              <input
+                value={draft.center_ids}
+                onChange={(e) => set("center_ids", e.target.value)}
+                className="w-full border rounded px-2 py-1.5"
+              />
+            </label>
+            <label className="space-y-1 col-span-2">
+              <span className="text-gray-600">메모</span>
+              <input value={draft.note} onChange={(e) => set("note", e.target.value)} className="w-full border rounded px-2 py-1.5" />
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={draft.active} onChange={(e) => set("active", e.target.checked)} />
+              <span>사용 중</span>
+            </label>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="bg-gray-800 text-white rounded px-4 py-2 text-sm disabled:opacity-50"
+            >
+              {saving ? "저장 중…" : editing ? "수정 저장" : "코드 추가"}
+            </button>
+            {editing && (
+              <button onClick={resetForm} className="border rounded px-4 py-2 text-sm">
+                취소
+              </button>
+            )}
+          </div>
+        </div>
+      </section>
+    </AdminAuth>
+  );
+}
@@ -1,74 +1,614 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { Fragment, useEffect, useMemo, useState } from "react";
 import { supabase } from "@/lib/supabaseClient";
+import { PAYOUT_STATUSES, canTransition, type PayoutStatus } from "@/lib/payoutStatus";
+import AdminAuth, { useAdmin } from "@/components/AdminAuth";
 
 /* =========================
    툴바 (이전 단계에서 만든 것)
 ========================= */
 function RewardToolbar() {
   const [loadingCalc, setLoadingCalc] = useState(false);
-  const [loadingPay, setLoadingPay] = useState(false);
+  const [loadingConfirm, setLoadingConfirm] = useState(false);
+  const [preview, setPreview] = useState<CalcPreview | null>(null);
+  // 정산 기간 (비우면 직전 완료 주 월~일)
+  const [periodStart, setPeriodStart] = useState("");
+  const [periodEnd, setPeriodEnd] = useState("");
+  const busy = loadingCalc || loadingConfirm;
 
+  // 1단계: 미리보기 (DB 변경 없음)
   const handleCalculate = async () => {
-    if (loadingCalc || loadingPay) return;
+    if (busy) return;
     setLoadingCalc(true);
     try {
-      const res = await fetch("/api/admin/rewards/calc", { method: "POST" });
+      if (!!periodStart !== !!periodEnd) throw new Error("기간 시작/종료를 모두 입력하거나 모두 비워 주세요");
+      const res = await fetch("/api/admin/rewards/calc", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(periodStart ? { period_start: periodStart, period_end: periodEnd } : {}),
+      });
       const data = await res.json();
       if (!res.ok) throw new Error(data?.message || "리워드 계산 실패");
+      setPreview(data as CalcPreview);
+    } catch (e: any) {
+      alert(`❌ 계산 오류: ${e.message ?? e}`);
+    } finally {
+      setLoadingCalc(false);
+    }
+  };
+
+  // 2단계: 미리보기 결과 확정 저장
+  const handleCommit = async () => {
+    if (busy || !preview) return;
+    const { new: n, changed, paid } = preview.summary;
+    if (!confirm(`신규 ${n}건 / 변경 ${changed}건을 저장할까요?` + (paid ? `\n(이미 지급된 ${paid}건은 제외됩니다)` : ""))) return;
+
+    setLoadingCalc(true);
+    try {
+      const res = await fetch("/api/admin/rewards/calc", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          confirm: true,
+          previewHash: preview.previewHash,
+          period_start: preview.period.start,
+          period_end: preview.period.end,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.message || "리워드 저장 실패");
       alert(
-        `✅ 리워드 계산 완료\n집계일: ${data?.rewardDate}\n범위: ${data?.period?.start} ~ ${data?.period?.end}\n저장건수: ${data?.inserted ?? 0}`
+        `✅ 리워드 저장 완료\n집계일: ${data?.rewardDate}\n범위: ${data?.period?.start} ~ ${data?.period?.end}\n신규:${data?.inserted ?? 0} / 변경:${data?.updated ?? 0} / 취소:${data?.cancelled ?? 0}\n근거 내역: ${data?.items ?? 0}건` +
+          (data?.refused?.length ? `\n⚠️ 지급된 행 거부: ${data.refused.join(", ")}` : "") +
+          (data?.keptStatus?.length ? `\n⚠️ 실패 상태 유지(재시도 필요): ${data.keptStatus.join(", ")}` : "")
       );
+      setPreview(null);
     } catch (e: any) {
-      alert(`❌ 계산 오류: ${e.message ?? e}`);
+      alert(`❌ 저장 오류: ${e.message ?? e}`);
     } finally {
       setLoadingCalc(false);
     }
   };
 
-  const handlePayout = async () => {
-    if (loadingCalc || loadingPay) return;
-    if (!confirm("보류(pending) 대상에게 USDT 송금을 실행할까요?")) return;
+  const handleConfirm = async () => {
+    if (busy) return;
+    setLoadingConfirm(true);
+    try {
+      const res = await fetch("/api/admin/rewards/confirm", { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.message || "확정 확인 실패");
+      alert(
+        `✅ 온체인 확인 완료 (블록 ${data?.headBlock})\n확인:${data?.checked ?? 0}\n확정:${data?.completed ?? 0}\n실패:${data?.failed ?? 0}\n대기:${data?.waiting ?? 0}`
+      );
+    } catch (e: any) {
+      alert(`❌ 확인 오류: ${e.message ?? e}`);
+    } finally {
+      setLoadingConfirm(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="w-full flex items-center gap-3 mb-4">
+        <div className="flex items-center gap-1 text-sm text-gray-700">
+          <input
+            type="date"
+            value={periodStart}
+            onChange={(e) => setPeriodStart(e.target.value)}
+            className="border rounded-lg px-2 py-1"
+            disabled={busy}
+          />
+          ~
+          <input
+            type="date"
+            value={periodEnd}
+            onChange={(e) => setPeriodEnd(e.target.value)}
+            className="border rounded-lg px-2 py-1"
+            disabled={busy}
+          />
+        </div>
+
+        <button
+          onClick={handleCalculate}
+          disabled={busy}
+          className="px-4 py-2 rounded-xl bg-blue-600 text-white disabled:opacity-50"
+        >
+          {loadingCalc ? "계산 중…" : "리워드 계산 (미리보기)"}
+        </button>
+
+        <button
+          onClick={handleConfirm}
+          disabled={busy}
+          className="px-4 py-2 rounded-xl bg-gray-800 text-white disabled:opacity-50"
+        >
+          {loadingConfirm ? "확인 중…" : "온체인 확정 확인"}
+        </button>
+      </div>
+
+      {preview && (
+        <RewardCalcPreview
+          preview={preview}
+          busy={busy}
+          onCommit={handleCommit}
+          onClose={() => setPreview(null)}
+        />
+      )}
+    </>
+  );
+}
+
+/* =========================
+   지급 승인 (maker → checker → 송금)
+========================= */
+type PayoutApprovalRow = {
+  id: string;
+  reward_date: string;
+  status: "prepared" | "approved" | "rejected" | "executed";
+  row_count: number;
+  total_amount: number;
+  batch_hash: string;
+  prepared_by: string;
+  prepared_at: string;
+  approved_by: string | null;
+  approved_at: string | null;
+  rejected_by: string | null;
+  reject_reason: string | null;
+  executed_at: string | null;
+};
+
+const APPROVAL_LABEL: Record<PayoutApprovalRow["status"], string> = {
+  prepared: "승인 대기",
+  approved: "승인됨",
+  rejected: "반려",
+  executed: "실행됨",
+};
+
+function PayoutApprovalsPanel() {
+  const [rewardDate, setRewardDate] = useState(() => new Date(Date.now() + 9 * 3600_000).toISOString().slice(0, 10));
+  const [approvals, setApprovals] = useState<PayoutApprovalRow[]>([]);
+  const [loadingPay, setLoadingPay] = useState(false);
+  const [working, setWorking] = useState(false);
+  const [batchMode, setBatchMode] = useState(false);
+  const busy = loadingPay || working;
+  const me = useAdmin()?.username ?? "";
+
+  const load = async () => {
+    try {
+      const res = await fetch(`/api/admin/rewards/approvals?rewardDate=${rewardDate}`, { cache: "no-store" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.message || "조회 실패");
+      setApprovals(data.approvals ?? []);
+    } catch (e: any) {
+      alert(`❌ 지급 묶음 조회 오류: ${e.message ?? e}`);
+    }
+  };
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [rewardDate]);
+
+  // maker: 정산일의 지급 대상 전체를 묶음으로
+  const handlePrepare = async () => {
+    if (busy) return;
+    if (!confirm(`${rewardDate} 지급 대상(pending / failed)을 승인 요청 묶음으로 만들까요?`)) return;
+    setWorking(true);
+    try {
+      const res = await fetch("/api/admin/rewards/approvals", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ rewardDate }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.message || "묶음 준비 실패");
+      const a = data.approval as PayoutApprovalRow;
+      alert(`📝 승인 요청 생성\n${a.row_count}건 / ${fmt(a.total_amount)} USDT\n해시: ${a.batch_hash.slice(0, 16)}…\n다른 관리자의 승인이 필요합니다.`);
+    } catch (e: any) {
+      alert(`❌ ${e.message ?? e}`);
+    } finally {
+      setWorking(false);
+      load();
+    }
+  };
+
+  // checker: 해시를 확인하고 승인
+  const handleApprove = async (a: PayoutApprovalRow) => {
+    if (busy) return;
+    const msg =
+      `정산일 ${a.reward_date}\n${a.row_count}건 / ${fmt(a.total_amount)} USDT\n준비: ${a.prepared_by}\n` +
+      `묶음 해시: ${a.batch_hash}\n\n위 내용으로 송금을 승인할까요?`;
+    if (!confirm(msg)) return;
+    setWorking(true);
+    try {
+      const res = await fetch(`/api/admin/rewards/approvals/${a.id}/approve`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ batchHash: a.batch_hash }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.message || "승인 실패");
+      alert("✅ 승인 완료");
+    } catch (e: any) {
+      alert(`❌ ${e.message ?? e}`);
+    } finally {
+      setWorking(false);
+      load();
+    }
+  };
+
+  const handleReject = async (a: PayoutApprovalRow) => {
+    if (busy) return;
+    const reason = prompt("반려 사유를 입력하세요", "반려");
+    if (reason === null) return;
+    setWorking(true);
+    try {
+      const res = await fetch(`/api/admin/rewards/approvals/${a.id}/reject`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reason }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.message || "반려 실패");
+      alert(`↩️ 반려 완료 (해제된 행: ${data?.released ?? 0}건)`);
+    } catch (e: any) {
+      alert(`❌ ${e.message ?? e}`);
+    } finally {
+      setWorking(false);
+      load();
+    }
+  };
+
+  const handlePayout = async (approval: PayoutApprovalRow) => {
+    if (busy) return;
+    const modeText = batchMode ? "멀티센드 일괄" : "건별";
+    const mode = batchMode ? "batch" : "single";
 
     setLoadingPay(true);
     try {
+      // 1) 사전 점검 (잔액 / 가스 / 일일 한도)
+      const checkRes = await fetch("/api/admin/rewards/transfer", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ approvalId: approval.id, dryRun: true, mode, onShortfall: "partial" }),
+      });
+      const check = await checkRes.json();
+      if (!checkRes.ok) throw new Error(check?.message || "사전 점검 실패");
+
+      const pf = check?.preflight;
+      if (!pf) {
+        alert("ℹ️ 이 묶음에 남은 송금 대상이 없습니다.");
+        return;
+      }
+
+      const info =
+        `대상 ${pf.targetCount}건 / ${pf.targetAmount} USDT\n` +
+        `지갑 잔액: ${pf.usdtBalance} USDT, ${Number(pf.maticBalance).toFixed(4)} MATIC\n` +
+        `예상 가스비: ${Number(pf.estimatedGasCost).toFixed(4)} MATIC` +
+        (pf.dailyCap !== null ? `\n일일 한도: ${pf.dailyCap} (오늘 ${pf.spentToday} 지급)` : "");
+
+      let onShortfall: "refuse" | "partial" = "refuse";
+      if (pf.ok) {
+        if (!confirm(`${info}\n\n승인 묶음(${approval.id.slice(0, 8)})의 USDT ${modeText} 송금을 실행할까요?`)) return;
+      } else {
+        const reasons = pf.shortfalls.join("\n");
+        if (!pf.selectedCount) {
+          alert(`🛑 송금 불가\n${reasons}\n\n${info}`);
+          return;
+        }
+        const msg =
+          `⚠️ ${reasons}\n\n${info}\n\n` +
+          `우선순위 ${pf.selectedCount}건 / ${pf.selectedAmount} USDT 만 ${modeText} 송금할까요?\n(나머지 ${pf.deferredIds.length}건은 보류)`;
+        if (!confirm(msg)) return;
+        onShortfall = "partial";
+      }
+
+      // 2) 실제 송금
       const res = await fetch("/api/admin/rewards/transfer", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ dryRun: false }),
+        body: JSON.stringify({ approvalId: approval.id, dryRun: false, mode, onShortfall }),
       });
       const data = await res.json();
       if (!res.ok) throw new Error(data?.message || "송금 실행 실패");
+      if (data?.refused) {
+        alert(`🛑 송금 거부\n${(data?.preflight?.shortfalls ?? []).join("\n")}`);
+        return;
+      }
 
       alert(
-        `✅ 송금 완료\n처리:${data?.processed ?? 0}\n성공:${data?.completed ?? 0}\n실패:${data?.failed ?? 0}`
+        `✅ 송금 완료\n처리:${data?.processed ?? 0}\n전송(확정 대기):${data?.broadcast ?? 0}\n실패:${data?.failed ?? 0}` +
+          (data?.deferred ? `\n보류(잔액/한도 부족): ${data.deferred}건` : "") +
+          (data?.batches?.length ? `\n배치: ${data.batches.length}건` : "") +
+          (data?.halted ? "\n⚠️ 전송 상태 불명 건 발생 → 배치 중단됨 (재실행 시 이어서 처리)" : "")
       );
     } catch (e: any) {
       alert(`❌ 송금 오류: ${e.message ?? e}`);
     } finally {
       setLoadingPay(false);
+      load();
     }
   };
 
   return (
-    <div className="w-full flex items-center gap-3 mb-4">
-      <button
-        onClick={handleCalculate}
-        disabled={loadingCalc || loadingPay}
-        className="px-4 py-2 rounded-xl bg-blue-600 text-white disabled:opacity-50"
-      >
-        {loadingCalc ? "계산 중…" : "리워드 계산"}
-      </button>
-
-      <button
-        onClick={handlePayout}
-        disabled={loadingCalc || loadingPay}
-        className="px-4 py-2 rounded-xl bg-emerald-600 text-white disabled:opacity-50"
-      >
-        {loadingPay ? "송금 중…" : "리워드 송금"}
-      </button>
-    </div>
+    <section className="mb-6 rounded-xl border bg-white p-4">
+      <div className="flex flex-wrap items-center gap-3 mb-3">
+        <h2 className="font-semibold">지급 승인</h2>
+        <input
+          type="date"
+          value={rewardDate}
+          onChange={(e) => setRewardDate(e.target.value)}
+          className="border rounded-lg px-2 py-1 text-sm"
+          disabled={busy}
+        />
+        <button
+          onClick={handlePrepare}
+          disabled={busy}
+          className="px-4 py-2 rounded-xl bg-blue-600 text-white disabled:opacity-50"
+        >
+          {working ? "처리 중…" : "지급 묶음 준비 (승인 요청)"}
+        </button>
+        <label className="flex items-center gap-1 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={batchMode}
+            onChange={(e) => setBatchMode(e.target.checked)}
+            disabled={busy}
+          />
+          멀티센드 일괄 송금
+        </label>
+        <span className="text-xs text-gray-500">
+          준비한 관리자와 다른 관리자가 승인해야 송금할 수 있습니다. (현재: {me || "-"})
+        </span>
+      </div>
+
+      <div className="overflow-auto">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 text-left">묶음</th>
+              <th className="px-3 py-2 text-left">상태</th>
+              <th className="px-3 py-2 text-right">건수</th>
+              <th className="px-3 py-2 text-right">합계</th>
+              <th className="px-3 py-2 text-left">해시</th>
+              <th className="px-3 py-2 text-left">준비</th>
+              <th className="px-3 py-2 text-left">승인</th>
+              <th className="px-3 py-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {approvals.length === 0 && (
+              <tr>
+                <td colSpan={8} className="px-3 py-4 text-center text-gray-500">
+                  지급 묶음이 없습니다.
+                </td>
+              </tr>
+            )}
+            {approvals.map((a) => (
+              <tr key={a.id} className="border-t">
+                <td className="px-3 py-2 font-mono">{a.id.slice(0, 8)}</td>
+                <td className="px-3 py-2" title={a.reject_reason ?? undefined}>{APPROVAL_LABEL[a.status]}</td>
+                <td className="px-3 py-2 text-right">{a.row_count}</td>
+                <td className="px-3 py-2 text-right">{fmt(a.total_amount)}</td>
+                <td className="px-3 py-2 font-mono" title={a.batch_hash}>{a.batch_hash.slice(0, 12)}…</td>
+                <td className="px-3 py-2">{a.prepared_by} <span className="text-xs text-gray-500">{a.prepared_at?.slice(0, 16).replace("T", " ")}</span></td>
+                <td className="px-3 py-2">
+                  {a.approved_by ?? a.rejected_by ?? "-"}{" "}
+                  <span className="text-xs text-gray-500">{a.approved_at?.slice(0, 16).replace("T", " ")}</span>
+                </td>
+                <td className="px-3 py-2 whitespace-nowrap space-x-2">
+                  {a.status === "prepared" && (
+                    <button
+                      onClick={() => handleApprove(a)}
+                      disabled={busy || a.prepared_by === me}
+                      title={a.prepared_by === me ? "준비한 관리자는 승인할 수 없습니다" : undefined}
+                      className="px-2 py-1 text-xs rounded border text-blue-600 disabled:opacity-40"
+                    >
+                      승인
+                    </button>
+                  )}
+                  {(a.status === "approved" || a.status === "executed") && (
+                    <button
+                      onClick={() => handlePayout(a)}
+                      disabled={busy}
+                      className="px-2 py-1 text-xs rounded bg-emerald-600 text-white disabled:opacity-50"
+                    >
+                      {loadingPay ? "송금 중…" : "송금"}
+                    </button>
+                  )}
+                  {a.status !== "rejected" && (
+                    <button
+                      onClick={() => handleReject(a)}
+                      disabled={busy}
+                      className="px-2 py-1 text-xs rounded border text-red-600 disabled:opacity-50"
+                    >
+                      반려
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
+
+/* =========================
+   계산 미리보기 (diff + 근거 내역)
+========================= */
+type CalcAmounts = {
+  ref_code: string;
+  name: string | null;
+  wallet_address: string | null;
+  referral_amount: number | null;
+  center_amount: number | null;
+  adjustment_amount: number | null; // 회수/이월 상계
+  carry_out?: number;
+  carry_reason?: string | null;
+  plan_versions: number[] | null;
+};
+
+type CalcPreview = {
+  rewardDate: string;
+  period: { start: string; end: string };
+  previewHash: string;
+  overlaps: { period_start: string; period_end: string; reward_date: string }[];
+  doubleCounted: { enrollment_id: string; kind: string; level: number | null; beneficiary_ref_code: string; reward_date: string }[];
+  summary: { new: number; changed: number; unchanged: number; paid: number; orphaned: number };
+  rows: {
+    kind: "new" | "changed" | "unchanged" | "paid";
+    ref_code: string;
+    computed: CalcAmounts;
+    existing: (CalcAmounts & { status: string }) | null;
+  }[];
+  orphaned: (CalcAmounts & { status: string })[];
+  items: Record<
+    string,
+    { enrollment_id: string; source_ref_code: string; pass_type: string | null; base_amount: number; kind: string; level: number | null; skipped: string[]; rate: number; amount: number; enrolled_at: string; plan_version: number }[]
+  >;
+};
+
+const DIFF_LABEL: Record<CalcPreview["rows"][number]["kind"], string> = {
+  new: "🆕 신규",
+  changed: "✏️ 변경",
+  unchanged: "= 동일",
+  paid: "⛔ 지급됨(덮어쓰기 불가)",
+};
+
+const fmt = (n: number | null | undefined) => Number(n ?? 0).toFixed(2);
+
+function RewardCalcPreview({
+  preview,
+  busy,
+  onCommit,
+  onClose,
+}: {
+  preview: CalcPreview;
+  busy: boolean;
+  onCommit: () => void;
+  onClose: () => void;
+}) {
+  const [openRef, setOpenRef] = useState<string | null>(null);
+  const { summary } = preview;
+  const blocked = preview.overlaps.length > 0 || preview.doubleCounted.length > 0;
+  const writable = blocked ? 0 : summary.new + summary.changed;
+
+  return (
+    <section className="mb-6 border rounded-xl p-4 space-y-3 bg-gray-50">
+      <div className="flex flex-wrap items-center gap-3">
+        <h2 className="font-semibold">
+          계산 미리보기 · 정산일 {preview.rewardDate} ({preview.period.start} ~ {preview.period.end})
+        </h2>
+        <span className="text-sm text-gray-600">
+          신규 {summary.new} / 변경 {summary.changed} / 동일 {summary.unchanged} / 지급됨 {summary.paid}
+          {summary.orphaned ? ` / 계산에서 빠진 기존 행 ${summary.orphaned} (지급 전이면 저장 시 취소)` : ""}
+        </span>
+        <div className="ml-auto flex gap-2">
+          <button onClick={onClose} className="px-3 py-2 rounded-lg border bg-white" disabled={busy}>
+            닫기
+          </button>
+          <button
+            onClick={onCommit}
+            disabled={busy || blocked}
+            className="px-3 py-2 rounded-lg bg-blue-600 text-white disabled:opacity-50"
+          >
+            확정 저장 ({writable}건)
+          </button>
+        </div>
+      </div>
+
+      {preview.overlaps.length > 0 && (
+        <p className="text-sm text-red-600">
+          ⛔ 이미 확정된 기간과 겹쳐 저장할 수 없습니다:{" "}
+          {preview.overlaps.map((o) => `${o.period_start} ~ ${o.period_end} (정산일 ${o.reward_date})`).join(", ")}
+        </p>
+      )}
+
+      {preview.doubleCounted.length > 0 && (
+        <p className="text-sm text-red-600">
+          ⛔ 다른 정산에 이미 집계된 결제 {preview.doubleCounted.length}건:{" "}
+          {preview.doubleCounted
+            .slice(0, 10)
+            .map((d) => `${d.enrollment_id}(${d.kind}${d.level ? ` L${d.level}` : ""} → ${d.beneficiary_ref_code}, ${d.reward_date})`)
+            .join(", ")}
+        </p>
+      )}
+
+      <div className="overflow-x-auto border rounded-xl bg-white">
+        <table className="min-w-[900px] w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 text-left">구분</th>
+              <th className="px-3 py-2 text-left">ref_code</th>
+              <th className="px-3 py-2 text-left">name</th>
+              <th className="px-3 py-2 text-right">추천 (기존 → 계산)</th>
+              <th className="px-3 py-2 text-right">센터 (기존 → 계산)</th>
+              <th className="px-3 py-2 text-right">조정 (회수/이월)</th>
+              <th className="px-3 py-2 text-left">정책</th>
+              <th className="px-3 py-2 text-left">기존 status</th>
+              <th className="px-3 py-2 text-left">근거</th>
+            </tr>
+          </thead>
+          <tbody>
+            {preview.rows.length === 0 && (
+              <tr>
+                <td className="px-3 py-6 text-center text-gray-500" colSpan={9}>
+                  집계 대상이 없습니다.
+                </td>
+              </tr>
+            )}
+            {preview.rows.map((r) => (
+              <Fragment key={r.ref_code}>
+                <tr className={`border-t ${r.kind === "paid" ? "bg-red-50" : ""}`}>
+                  <td className="px-3 py-2 whitespace-nowrap">{DIFF_LABEL[r.kind]}</td>
+                  <td className="px-3 py-2">{r.ref_code}</td>
+                  <td className="px-3 py-2">{r.computed.name}</td>
+                  <td className="px-3 py-2 text-right">
+                    {r.existing ? `${fmt(r.existing.referral_amount)} → ` : ""}{fmt(r.computed.referral_amount)}
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    {r.existing ? `${fmt(r.existing.center_amount)} → ` : ""}{fmt(r.computed.center_amount)}
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    {r.existing ? `${fmt(r.existing.adjustment_amount)} → ` : ""}{fmt(r.computed.adjustment_amount)}
+                    {r.computed.carry_out ? (
+                      <span title={r.computed.carry_reason ?? undefined}> (이월 {fmt(r.computed.carry_out)})</span>
+                    ) : null}
+                  </td>
+                  <td className="px-3 py-2">{(r.computed.plan_versions ?? []).map((v) => `v${v}`).join(", ")}</td>
+                  <td className="px-3 py-2">{r.existing?.status ?? "-"}</td>
+                  <td className="px-3 py-2">
+                    <button
+                      className="text-blue-600 underline"
+                      onClick={() => setOpenRef(openRef === r.ref_code ? null : r.ref_code)}
+                    >
+                      {preview.items[r.ref_code]?.length ?? 0}건
+                    </button>
+                  </td>
+                </tr>
+                {openRef === r.ref_code && (
+                  <tr className="bg-gray-50">
+                    <td colSpan={9} className="px-6 py-2">
+                      <ul className="text-xs space-y-1">
+                        {(preview.items[r.ref_code] ?? []).map((it) => (
+                          <li key={`${it.enrollment_id}-${it.kind}`}>
+                            {it.enrolled_at?.replace("T", " ").slice(0, 16)} · {it.source_ref_code} · {it.pass_type ?? "-"} ·{" "}
+                            {fmt(it.base_amount)} × {it.kind === "referral" ? `추천 L${it.level}` : "센터"} {it.rate * 100}% = {fmt(it.amount)} · 정책 v{it.plan_version}
+                            {it.skipped?.length ? ` · 압축(건너뜀: ${it.skipped.join(", ")})` : ""}
+                          </li>
+                        ))}
+                      </ul>
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
   );
 }
 
@@ -81,23 +621,39 @@ type TransferRow = {
   name: string | null;
   wallet_address: string | null;
   referral_amount: number | null;
+  level_amounts: Record<string, number> | null; // 추천 단계별 내역
   center_amount: number | null;
   total_amount: number | null;
-  status: "pending" | "completed" | "failed" | string;
+  status: PayoutStatus | string;
   tx_hash: string | null;
+  confirmations: number | null;
+  block_number: number | null;
+  batch_id: string | null;
   error_message: string | null;
   executed_at: string | null;  // timestamptz
   reward_date: string | null;  // date
+  period_start: string | null; // date (집계 기간)
+  period_end: string | null;   // date
   created_at: string | null;   // timestamptz
 };
 
+// 온체인 확정 상태 표시
+function confirmationLabel(r: TransferRow) {
+  if (r.status === "completed") return `✅ 확정${r.block_number ? ` (#${r.block_number})` : ""}`;
+  if (r.status === "broadcast") {
+    return r.block_number ? `⏳ ${r.confirmations ?? 0} 블록 (#${r.block_number})` : "⏳ 채굴 대기";
+  }
+  if (r.status === "processing") return "🔒 전송 준비";
+  return "-";
+}
+
 function RewardTransfersTable() {
   const [rows, setRows] = useState<TransferRow[]>([]);
   const [loading, setLoading] = useState(false);
 
   // 필터/페이지네이션
   const [rewardDate, setRewardDate] = useState<string>(""); // YYYY-MM-DD
-  const [statusFilter, setStatusFilter] = useState<string>(""); // '', 'pending', 'completed', 'failed'
+  const [statusFilter, setStatusFilter] = useState<string>(""); // '' = 전체, 그 외 PAYOUT_STATUSES
   const [page, setPage] = useState(1);
   const pageSize = 20;
 
@@ -118,7 +674,7 @@ function RewardTransfersTable() {
       let query = supabase
         .from("reward_transfers")
         .select(
-          "id, ref_code, name, wallet_address, referral_amount, center_amount, total_amount, status, tx_hash, error_message, executed_at, reward_date, created_at",
+          "id, ref_code, name, wallet_address, referral_amount, level_amounts, center_amount, total_amount, status, tx_hash, confirmations, block_number, batch_id, error_message, executed_at, reward_date, period_start, period_end, created_at",
           { count: "exact" }
         )
         .order("created_at", { ascending: false })
@@ -143,6 +699,24 @@ function RewardTransfersTable() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [rewardDate, statusFilter, page]);
 
+  const handleCancel = async (r: TransferRow) => {
+    if (!r.id) return;
+    if (!confirm(`${r.ref_code} (${r.reward_date}) 지급을 취소할까요?`)) return;
+    try {
+      const res = await fetch("/api/admin/rewards/cancel", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ids: [r.id] }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.message || "취소 실패");
+      if (!data?.cancelled?.length) alert("⚠️ 현재 상태에서는 취소할 수 없습니다.");
+      fetchData();
+    } catch (e: any) {
+      alert(`❌ 취소 실패: ${e?.message ?? e}`);
+    }
+  };
+
   const resetAndReload = () => {
     setPage(1);
     fetchData();
@@ -170,9 +744,9 @@ function RewardTransfersTable() {
             className="border rounded-lg px-3 py-2"
           >
             <option value="">전체</option>
-            <option value="pending">pending</option>
-            <option value="completed">completed</option>
-            <option value="failed">failed</option>
+            {PAYOUT_STATUSES.map((s) => (
+              <option key={s} value={s}>{s}</option>
+            ))}
           </select>
         </div>
 
@@ -201,17 +775,20 @@ function RewardTransfersTable() {
               <th className="px-3 py-2 text-right">center_amount</th>
               <th className="px-3 py-2 text-right">total_amount</th>
               <th className="px-3 py-2 text-left">status</th>
+              <th className="px-3 py-2 text-left">확정(confirmations)</th>
               <th className="px-3 py-2 text-left">tx_hash</th>
+              <th className="px-3 py-2 text-left">batch</th>
               <th className="px-3 py-2 text-left">error_message</th>
               <th className="px-3 py-2 text-left">executed_at</th>
               <th className="px-3 py-2 text-left">reward_date</th>
               <th className="px-3 py-2 text-left">created_at</th>
+              <th className="px-3 py-2 text-left"></th>
             </tr>
           </thead>
           <tbody>
             {rows.length === 0 && !loading && (
               <tr>
-                <td className="px-3 py-6 text-center text-gray-500" colSpan={12}>
+                <td className="px-3 py-6 text-center text-gray-500" colSpan={15}>
                   데이터가 없습니다.
                 </td>
               </tr>
@@ -221,15 +798,34 @@ function RewardTransfersTable() {
                 <td className="px-3 py-2">{r.ref_code}</td>
                 <td className="px-3 py-2">{r.name}</td>
                 <td className="px-3 py-2 break-all">{r.wallet_address}</td>
-                <td className="px-3 py-2 text-right">{Number(r.referral_amount ?? 0).toFixed(2)}</td>
+                <td
+                  className="px-3 py-2 text-right"
+                  title={Object.entries(r.level_amounts ?? {}).map(([lv, amt]) => `L${lv}: ${amt}`).join(" / ")}
+                >
+                  {Number(r.referral_amount ?? 0).toFixed(2)}
+                </td>
                 <td className="px-3 py-2 text-right">{Number(r.center_amount ?? 0).toFixed(2)}</td>
                 <td className="px-3 py-2 text-right font-medium">{Number(r.total_amount ?? 0).toFixed(2)}</td>
                 <td className="px-3 py-2">{r.status}</td>
+                <td className="px-3 py-2 whitespace-nowrap">{confirmationLabel(r)}</td>
                 <td className="px-3 py-2 break-all">{r.tx_hash}</td>
+                <td className="px-3 py-2 whitespace-nowrap" title={r.batch_id ?? ""}>{r.batch_id?.slice(0, 8) ?? "-"}</td>
                 <td className="px-3 py-2">{r.error_message}</td>
                 <td className="px-3 py-2">{r.executed_at?.replace("T", " ").replace("Z", "")}</td>
-                <td className="px-3 py-2">{r.reward_date}</td>
+                <td className="px-3 py-2" title={r.period_start ? `${r.period_start} ~ ${r.period_end}` : ""}>
+                  {r.reward_date}
+                </td>
                 <td className="px-3 py-2">{r.created_at?.replace("T", " ").replace("Z", "")}</td>
+                <td className="px-3 py-2">
+                  {canTransition(r.status, "cancelled") && (
+                    <button
+                      onClick={() => handleCancel(r)}
+                      className="px-2 py-1 text-xs rounded border text-red-600"
+                    >
+                      취소
+                    </button>
+                  )}
+                </td>
               </tr>
             ))}
           </tbody>
@@ -263,17 +859,22 @@ function RewardTransfersTable() {
 ========================= */
 export default function AdminRewardPage() {
   return (
-    <main className="p-4">
-      <h1 className="text-xl font-semibold mb-2">리워드 송금</h1>
-      <p className="text-sm text-gray-600 mb-6">
-        계산 실행 → 분류별 확인 → 종합/송금 대상 관리 플로우.
-      </p>
-
-      {/* 버튼 툴바 */}
-      <RewardToolbar />
-
-      {/* reward_transfers 테이블 표시 */}
-      <RewardTransfersTable />
-    </main>
+    <AdminAuth>
+      <main className="p-4">
+        <h1 className="text-xl font-semibold mb-2">리워드 송금</h1>
+        <p className="text-sm text-gray-600 mb-6">
+          계산 실행 → 분류별 확인 → 지급 묶음 준비 → 다른 관리자 승인 → 송금 플로우.
+        </p>
+
+        {/* 버튼 툴바 */}
+        <RewardToolbar />
+
+        {/* 지급 승인 (maker / checker) */}
+        <PayoutApprovalsPanel />
+
+        {/* reward_transfers 테이블 표시 */}
+        <RewardTransfersTable />
+      </main>
+    </AdminAuth>
   );
 }
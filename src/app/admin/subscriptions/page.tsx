@@ -4,14 +4,20 @@
 import { useEffect, useMemo, useState } from "react";
 import { supabase } from "@/lib/supabaseClient";
 import AdminAuth from "@/components/AdminAuth";
+import type { PassProduct } from "@/lib/passCatalog";
+
+// 숨길 컬럼 목록 (컴포넌트 밖 상수 → useMemo 의존성 불필요)
+const hiddenColumns = ["created_at"];
 
 export default function AdminSubscriptionsPage() {
   const [rows, setRows] = useState<any[]>([]);
   const [loading, setLoading] = useState(false);
   const [err, setErr] = useState<string | null>(null);
 
-  // 숨길 컬럼 목록
-  const hiddenColumns = ["created_at"];
+  // 결제는 들어왔지만 회원/패스를 특정하지 못한 건 (purchase_payments.status = review)
+  const [reviews, setReviews] = useState<any[]>([]);
+  const [scanning, setScanning] = useState(false);
+  const [products, setProducts] = useState<PassProduct[]>([]);
 
   const loadAll = async () => {
     try {
@@ -33,10 +39,105 @@ export default function AdminSubscriptionsPage() {
     }
   };
 
+  const loadReviews = async () => {
+    try {
+      const res = await fetch("/api/admin/purchases?status=review", { cache: "no-store" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.message || "결제 확인 대기 조회 실패");
+      setReviews(data.payments || []);
+    } catch (e: any) {
+      setErr(e?.message ?? "결제 확인 대기 조회 실패");
+    }
+  };
+
+  const loadProducts = async () => {
+    try {
+      const res = await fetch("/api/admin/products", { cache: "no-store" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.message || "상품 조회 실패");
+      setProducts(data.products || []);
+    } catch (e: any) {
+      setErr(e?.message ?? "상품 조회 실패");
+    }
+  };
+
   useEffect(() => {
     loadAll();
+    loadReviews();
+    loadProducts();
   }, []);
 
+  // 결제 수신 로그 스캔 + 누락 수강 내역 복구 (cron 과 같은 작업)
+  const handleReconcile = async () => {
+    setScanning(true);
+    try {
+      const res = await fetch("/api/admin/purchases/reconcile", { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.message || "결제 스캔 실패");
+      alert(
+        `✅ 결제 스캔 완료 (블록 ${data.scan.fromBlock} ~ ${data.scan.toBlock}, 수신 ${data.scan.found}건)\n` +
+          `복구: ${data.matched}건 / 이미 기록: ${data.recorded}건 / 확인 필요: ${data.review}건` +
+          (data.failed ? ` / 오류: ${data.failed}건` : "")
+      );
+      loadAll();
+      loadReviews();
+    } catch (e: any) {
+      alert(`❌ ${e?.message ?? e}`);
+    } finally {
+      setScanning(false);
+    }
+  };
+
+  const handleAssign = async (p: any) => {
+    const refCode = prompt(`${p.from_wallet} 의 ${p.amount} USDT 결제를 배정할 회원 ref_code`, p.ref_code ?? "");
+    if (!refCode) return;
+    const productId = prompt(
+      `상품 ID를 입력하세요 (${products.map((x) => `${x.id}: ${x.name_ko}`).join(" / ")})`,
+      p.product_id ?? [...products].sort((a, b) => b.price - a.price).find((x) => x.price <= Number(p.amount))?.id ?? ""
+    );
+    if (!productId) return;
+    // 할인 결제가 결제 확인에서 거부된 경우 (사용 기간 / 한도는 보지 않음)
+    const promoCode = prompt("프로모션 코드 (없으면 비워두세요)", "");
+    if (promoCode === null) return;
+
+    try {
+      const res = await fetch(`/api/admin/purchases/${p.id}/assign`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ref_code: refCode.trim(),
+          product_id: productId.trim(),
+          promo_code: promoCode.trim() || undefined,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.message || "배정 실패");
+      alert("✅ 수강 내역이 생성되었습니다");
+      loadAll();
+      loadReviews();
+    } catch (e: any) {
+      alert(`❌ ${e?.message ?? e}`);
+    }
+  };
+
+  const handleIgnore = async (p: any) => {
+    const note = prompt(`${p.amount} USDT 입금을 패스 결제가 아닌 것으로 처리합니다.\n메모를 입력하세요`, "패스 결제 아님");
+    if (note === null) return;
+
+    try {
+      const res = await fetch(`/api/admin/purchases/${p.id}/ignore`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ note }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.message || "처리 실패");
+      loadReviews();
+    } catch (e: any) {
+      alert(`❌ ${e?.message ?? e}`);
+    }
+  };
+
   // 동적 컬럼(숨김 제외)
   const columns = useMemo(
     () =>
@@ -46,6 +147,27 @@ export default function AdminSubscriptionsPage() {
     [rows]
   );
 
+  // 환불/부정 결제 → 수당 회수
+  const handleRefund = async (row: any) => {
+    if (!row?.id) return;
+    const reason = prompt(`${row.ref_code} 결제를 환불 처리합니다.\n사유를 입력하세요 (예: 환불, 부정 결제)`, "환불");
+    if (reason === null) return;
+
+    try {
+      const res = await fetch(`/api/admin/enrollments/${row.id}/refund`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reason }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.message || "환불 처리 실패");
+      alert(`✅ 환불 처리 완료\n지급 전 수당 차감: ${data.removed}건\n회수(다음 정산 상계): ${data.clawedBack}건`);
+      loadAll();
+    } catch (e: any) {
+      alert(`❌ ${e?.message ?? e}`);
+    }
+  };
+
   const toText = (v: any) => {
     if (v === null || v === undefined) return "";
     if (typeof v === "string" || typeof v === "number" || typeof v === "boolean")
@@ -69,8 +191,64 @@ export default function AdminSubscriptionsPage() {
           <button onClick={loadAll} className="bg-gray-800 text-white rounded px-4 py-2">
             새로고침
           </button>
+          <button
+            onClick={handleReconcile}
+            disabled={scanning}
+            className="bg-blue-600 text-white rounded px-4 py-2 disabled:opacity-50"
+          >
+            {scanning ? "스캔 중…" : "결제 스캔"}
+          </button>
         </div>
 
+        {reviews.length > 0 && (
+          <div className="rounded-lg border border-amber-300 bg-amber-50 p-3 space-y-2">
+            <h2 className="font-semibold text-amber-800">⚠️ 결제 확인 대기 ({reviews.length})</h2>
+            <p className="text-xs text-amber-700">
+              결제는 들어왔지만 회원 또는 패스를 특정하지 못한 건입니다. 회원에게 배정하거나 무시 처리하세요.
+            </p>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600">
+                  <th className="px-2 py-1">수신</th>
+                  <th className="px-2 py-1">보낸 지갑</th>
+                  <th className="px-2 py-1">금액</th>
+                  <th className="px-2 py-1">사유</th>
+                  <th className="px-2 py-1">트랜잭션</th>
+                  <th className="px-2 py-1" />
+                </tr>
+              </thead>
+              <tbody>
+                {reviews.map((p) => (
+                  <tr key={p.id} className="border-t border-amber-200">
+                    <td className="px-2 py-1 whitespace-nowrap">{String(p.detected_at).slice(0, 16)}</td>
+                    <td className="px-2 py-1 font-mono text-xs">{p.from_wallet}</td>
+                    <td className="px-2 py-1 whitespace-nowrap">{p.amount} USDT</td>
+                    <td className="px-2 py-1">{p.review_reason}</td>
+                    <td className="px-2 py-1">
+                      <a
+                        href={`https://polygonscan.com/tx/${p.tx_hash}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="underline font-mono text-xs"
+                      >
+                        {p.tx_hash.slice(0, 10)}…
+                      </a>
+                    </td>
+                    <td className="px-2 py-1 whitespace-nowrap space-x-1">
+                      <button onClick={() => handleAssign(p)} className="px-2 py-1 text-xs rounded border text-blue-600">
+                        배정
+                      </button>
+                      <button onClick={() => handleIgnore(p)} className="px-2 py-1 text-xs rounded border text-gray-600">
+                        무시
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
         {loading && <div>불러오는 중…</div>}
         {err && <div className="text-red-500">{err}</div>}
 
@@ -87,13 +265,14 @@ export default function AdminSubscriptionsPage() {
                       {c}
                     </th>
                   ))}
+                  <th className="px-3 py-2 border-b" />
                 </tr>
               </thead>
               <tbody>
                 {rows.length === 0 && (
                   <tr>
                     <td
-                      colSpan={columns.length || 1}
+                      colSpan={columns.length + 1}
                       className="px-3 py-6 text-center text-gray-500"
                     >
                       데이터가 없습니다.
@@ -111,6 +290,18 @@ export default function AdminSubscriptionsPage() {
                         {toText(r[c])}
                       </td>
                     ))}
+                    <td className="px-3 py-2 border-b whitespace-nowrap">
+                      {r.refunded_at ? (
+                        <span className="text-xs text-gray-500">환불됨</span>
+                      ) : (
+                        <button
+                          onClick={() => handleRefund(r)}
+                          className="px-2 py-1 text-xs rounded border text-red-600"
+                        >
+                          환불 처리
+                        </button>
+                      )}
+                    </td>
                   </tr>
                 ))}
               </tbody>
@@ -33,12 +33,18 @@ export default function AdminUsersPage() {
   const saveEdit = async () => {
     if (!editing) return;
     const { id, col } = editing;
-    const { error } = await supabase.from("users").update({ [col]: editValue }).eq("id", id);
+    // 서버 라우트에서 수정 + 감사 로그 기록
+    const res = await fetch(`/api/admin/users/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ col, value: editValue }),
+    });
+    const data = await res.json().catch(() => ({}));
 
-    if (error) {
-      alert("저장 실패: " + error.message);
+    if (!res.ok) {
+      alert("저장 실패: " + (data?.message ?? res.status));
     } else {
-      setUsers((prev) => prev.map((u) => (u.id === id ? { ...u, [col]: editValue } : u)));
+      setUsers((prev) => prev.map((u) => (u.id === id ? { ...u, ...data.user } : u)));
     }
     setEditing(null);
     setEditValue("");
@@ -0,0 +1,94 @@
+// app/api/admin/admins/route.ts
+// 관리자 계정 관리 (superadmin 전용)
+import { NextResponse } from "next/server";
+import { createAdmin, listAdmins, requireAdmin, updateAdmin } from "@/lib/adminAuth";
+import { isAdminRole } from "@/lib/adminSession";
+import { recordAudit } from "@/lib/adminAudit";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(req: Request) {
+  const auth = await requireAdmin(req, "superadmin");
+  if (auth.response) return auth.response;
+
+  try {
+    return NextResponse.json({ admins: await listAdmins() });
+  } catch (e: any) {
+    console.error("[/api/admin/admins] error:", e);
+    return NextResponse.json({ message: e?.message ?? "서버 오류" }, { status: 500 });
+  }
+}
+
+// 생성 { username, password, role }
+export async function POST(req: Request) {
+  const auth = await requireAdmin(req, "superadmin");
+  if (auth.response) return auth.response;
+
+  let body: any = {};
+  try { body = await req.json(); } catch {}
+  const username = String(body?.username ?? "").trim();
+  const password = String(body?.password ?? "");
+  const role = body?.role ?? "viewer";
+
+  if (!username || password.length < 10) {
+    return NextResponse.json({ message: "username 과 10자 이상의 password 가 필요합니다" }, { status: 400 });
+  }
+  if (!isAdminRole(role)) return NextResponse.json({ message: `알 수 없는 역할: ${role}` }, { status: 400 });
+
+  try {
+    const admin = await createAdmin(username, password, role);
+    console.log("👤 관리자 생성:", username, role, "by", auth.admin.username);
+    await recordAudit(req, auth.admin, {
+      action: "admin_users.create",
+      table: "admin_users",
+      targetId: admin.id,
+      after: { username: admin.username, role: admin.role, active: admin.active },
+    });
+    return NextResponse.json({ admin });
+  } catch (e: any) {
+    console.error("[/api/admin/admins] error:", e);
+    return NextResponse.json({ message: e?.message ?? "생성 실패" }, { status: 400 });
+  }
+}
+
+// 수정 { username, role?, active?, password? }
+export async function PATCH(req: Request) {
+  const auth = await requireAdmin(req, "superadmin");
+  if (auth.response) return auth.response;
+
+  let body: any = {};
+  try { body = await req.json(); } catch {}
+  const username = String(body?.username ?? "").trim();
+  if (!username) return NextResponse.json({ message: "username 이 필요합니다" }, { status: 400 });
+  if (body?.role !== undefined && !isAdminRole(body.role)) {
+    return NextResponse.json({ message: `알 수 없는 역할: ${body.role}` }, { status: 400 });
+  }
+  if (body?.password !== undefined && String(body.password).length < 10) {
+    return NextResponse.json({ message: "password 는 10자 이상이어야 합니다" }, { status: 400 });
+  }
+  // 자기 자신을 잠그는 실수 방지
+  if (username === auth.admin.username && (body?.active === false || (body?.role && body.role !== "superadmin"))) {
+    return NextResponse.json({ message: "자기 계정의 권한은 내릴 수 없습니다" }, { status: 400 });
+  }
+
+  try {
+    const admin = await updateAdmin(username, {
+      role: body?.role,
+      active: typeof body?.active === "boolean" ? body.active : undefined,
+      password: body?.password,
+    });
+    if (!admin) return NextResponse.json({ message: "관리자를 찾을 수 없습니다" }, { status: 404 });
+    console.log("👤 관리자 수정:", username, { role: body?.role, active: body?.active }, "by", auth.admin.username);
+    await recordAudit(req, auth.admin, {
+      action: "admin_users.update",
+      table: "admin_users",
+      targetId: admin.id,
+      after: { username: admin.username, role: admin.role, active: admin.active },
+      meta: { password_changed: body?.password !== undefined },
+    });
+    return NextResponse.json({ admin });
+  } catch (e: any) {
+    console.error("[/api/admin/admins] error:", e);
+    return NextResponse.json({ message: e?.message ?? "수정 실패" }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+// app/api/admin/audit/route.ts
+// 감사 로그 검색 (?q=&actor=&action=&table=&targetId=&from=&to=&limit=&offset=)
+import { NextRequest, NextResponse } from "next/server";
+import { listAuditLog } from "@/lib/adminAudit";
+import { requireAdmin } from "@/lib/adminAuth";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(req: NextRequest) {
+  const auth = await requireAdmin(req, "operator");
+  if (auth.response) return auth.response;
+
+  const p = req.nextUrl.searchParams;
+  try {
+    const result = await listAuditLog({
+      q: p.get("q") || undefined,
+      actor: p.get("actor") || undefined,
+      action: p.get("action") || undefined,
+      table: p.get("table") || undefined,
+      targetId: p.get("targetId") || undefined,
+      from: p.get("from") || undefined,
+      to: p.get("to") || undefined,
+      limit: Number(p.get("limit") ?? 50),
+      offset: Number(p.get("offset") ?? 0),
+    });
+    return NextResponse.json(result);
+  } catch (e: any) {
+    console.error("[/api/admin/audit] error:", e);
+    return NextResponse.json({ message: e?.message ?? "조회 실패" }, { status: 500 });
+  }
+}
@@ -0,0 +1,54 @@
+// app/api/admin/commission-plans/route.ts
+import { NextResponse } from "next/server";
+import { createCommissionPlan, loadCommissionPlans } from "@/lib/commissionPlans";
+import { requireAdmin } from "@/lib/adminAuth";
+import { recordAudit } from "@/lib/adminAudit";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(req: Request) {
+  const auth = await requireAdmin(req, "viewer");
+  if (auth.response) return auth.response;
+
+  try {
+    const plans = await loadCommissionPlans();
+    return NextResponse.json({ plans });
+  } catch (e: any) {
+    console.error("[/api/admin/commission-plans] error:", e);
+    return NextResponse.json({ message: e?.message ?? "서버 오류" }, { status: 500 });
+  }
+}
+
+// 새 버전 추가 (기존 버전 수정 불가)
+export async function POST(req: Request) {
+  const auth = await requireAdmin(req, "superadmin");
+  if (auth.response) return auth.response;
+
+  let body: any = {};
+  try { body = await req.json(); } catch {}
+
+  if (!body?.effective_from || !Array.isArray(body?.level_rates)) {
+    return NextResponse.json({ message: "effective_from, level_rates 가 필요합니다" }, { status: 400 });
+  }
+
+  try {
+    const plan = await createCommissionPlan({
+      name: body.name ?? null,
+      effective_from: body.effective_from,
+      level_rates: body.level_rates.map(Number),
+      center_rate: Number(body.center_rate ?? 0),
+      skip_inactive: body.skip_inactive ?? true,
+      pass_rules: body.pass_rules ?? {},
+    });
+    await recordAudit(req, auth.admin, {
+      action: "commission_plans.create",
+      table: "commission_plans",
+      targetId: plan?.id,
+      after: plan,
+    });
+    return NextResponse.json({ plan });
+  } catch (e: any) {
+    console.error("[/api/admin/commission-plans] error:", e);
+    return NextResponse.json({ message: e?.message ?? "정책 생성 실패" }, { status: 400 });
+  }
+}
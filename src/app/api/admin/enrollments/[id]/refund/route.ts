@@ -0,0 +1,34 @@
+// app/api/admin/enrollments/[id]/refund/route.ts
+import { NextResponse } from "next/server";
+import { refundEnrollment } from "@/lib/commissionAdjustments";
+import { requireAdmin } from "@/lib/adminAuth";
+import { recordAudit } from "@/lib/adminAudit";
+
+// 환불/부정 결제 처리 → 발생한 수당 회수
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await requireAdmin(req, "operator");
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+  let body: any = {};
+  try { body = await req.json(); } catch {}
+  const reason: string = String(body?.reason ?? "").trim() || "환불";
+
+  try {
+    const result = await refundEnrollment(id, reason);
+    if (result.alreadyRefunded) {
+      return NextResponse.json({ message: "이미 환불 처리된 결제입니다", ...result }, { status: 409 });
+    }
+    await recordAudit(req, auth.admin, {
+      action: "enrollments.refund",
+      table: "enrollments",
+      targetId: id,
+      after: { refund_reason: reason },
+      meta: result,
+    });
+    return NextResponse.json(result);
+  } catch (e: any) {
+    console.error("[/api/admin/enrollments/refund] error:", e);
+    return NextResponse.json({ message: e?.message ?? "환불 처리 실패" }, { status: 500 });
+  }
+}
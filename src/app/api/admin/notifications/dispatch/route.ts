@@ -0,0 +1,31 @@
+// app/api/admin/notifications/dispatch/route.ts
+import { NextResponse } from "next/server";
+import { runNotificationDispatch } from "@/lib/notifications";
+import { requireAdmin } from "@/lib/adminAuth";
+import { recordAudit } from "@/lib/adminAudit";
+
+export const dynamic = "force-dynamic";
+
+// ✅ cron(GET) / 관리자 수동 실행(POST) 공용 — 봇 오류 수집 + 대기 알림을 이메일 / 텔레그램 / 푸시로 발송
+export async function GET(req: Request) { return POST(req); }
+
+export async function POST(req: Request) {
+  const auth = await requireAdmin(req, "operator", { allowCron: true });
+  if (auth.response) return auth.response;
+
+  try {
+    const summary = await runNotificationDispatch();
+    console.log("▶ notification dispatch", summary);
+    if (summary.sent || summary.failed) {
+      await recordAudit(req, auth.admin, {
+        action: "notifications.dispatch",
+        table: "notification_deliveries",
+        meta: summary,
+      });
+    }
+    return NextResponse.json(summary);
+  } catch (e: any) {
+    console.error("[/api/admin/notifications/dispatch] error:", e);
+    return NextResponse.json({ message: e?.message ?? "서버 오류" }, { status: 500 });
+  }
+}
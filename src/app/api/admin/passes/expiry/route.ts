@@ -0,0 +1,31 @@
+// app/api/admin/passes/expiry/route.ts
+import { NextResponse } from "next/server";
+import { runPassExpiry } from "@/lib/passExpiry";
+import { requireAdmin } from "@/lib/adminAuth";
+import { recordAudit } from "@/lib/adminAudit";
+
+export const dynamic = "force-dynamic";
+
+// ✅ cron(GET) / 관리자 수동 실행(POST) 공용 — 만료 예정·만료 알림 + 만료 패스의 봇 자동 중지
+export async function GET(req: Request) { return POST(req); }
+
+export async function POST(req: Request) {
+  const auth = await requireAdmin(req, "operator", { allowCron: true });
+  if (auth.response) return auth.response;
+
+  try {
+    const summary = await runPassExpiry();
+    console.log("▶ pass expiry run", summary);
+    if (summary.stopped || summary.stopFailed) {
+      await recordAudit(req, auth.admin, {
+        action: "passes.expiry",
+        table: "bot_settings",
+        meta: summary,
+      });
+    }
+    return NextResponse.json(summary);
+  } catch (e: any) {
+    console.error("[/api/admin/passes/expiry] error:", e);
+    return NextResponse.json({ message: e?.message ?? "서버 오류" }, { status: 500 });
+  }
+}
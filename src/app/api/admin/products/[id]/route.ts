@@ -0,0 +1,35 @@
+// app/api/admin/products/[id]/route.ts
+import { NextResponse } from "next/server";
+import { getPassProduct, updatePassProduct } from "@/lib/passProducts";
+import { requireAdmin } from "@/lib/adminAuth";
+import { recordAudit } from "@/lib/adminAudit";
+
+// 상품 수정 / 판매 중지 (넘어온 필드만 변경, 이후 구매부터 적용)
+export async function PATCH(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const auth = await requireAdmin(req, "superadmin");
+  if (auth.response) return auth.response;
+
+  let body: any = {};
+  try { body = await req.json(); } catch {}
+  const input = { ...body };
+  delete input.id; // ID 는 변경 불가
+
+  try {
+    const before = await getPassProduct(id);
+    if (!before) return NextResponse.json({ message: "상품을 찾을 수 없습니다" }, { status: 404 });
+
+    const product = await updatePassProduct(id, input);
+    await recordAudit(req, auth.admin, {
+      action: "pass_products.update",
+      table: "pass_products",
+      targetId: id,
+      before,
+      after: product,
+    });
+    return NextResponse.json({ product });
+  } catch (e: any) {
+    console.error("[/api/admin/products] error:", e);
+    return NextResponse.json({ message: e?.message ?? "상품 수정 실패" }, { status: 400 });
+  }
+}
@@ -0,0 +1,44 @@
+// app/api/admin/products/route.ts
+import { NextResponse } from "next/server";
+import { createPassProduct, listPassProducts } from "@/lib/passProducts";
+import { requireAdmin } from "@/lib/adminAuth";
+import { recordAudit } from "@/lib/adminAudit";
+
+export const dynamic = "force-dynamic";
+
+// 전체 상품 (판매 중지 포함)
+export async function GET(req: Request) {
+  const auth = await requireAdmin(req, "viewer");
+  if (auth.response) return auth.response;
+
+  try {
+    return NextResponse.json({ products: await listPassProducts() });
+  } catch (e: any) {
+    console.error("[/api/admin/products] error:", e);
+    return NextResponse.json({ message: e?.message ?? "서버 오류" }, { status: 500 });
+  }
+}
+
+// 상품 추가 { id, price, months, bonus_days, unlimited, active, sort, name_ko, name_en, image }
+export async function POST(req: Request) {
+  const auth = await requireAdmin(req, "superadmin");
+  if (auth.response) return auth.response;
+
+  let body: any = {};
+  try { body = await req.json(); } catch {}
+  const { id, ...input } = body ?? {};
+
+  try {
+    const product = await createPassProduct(String(id ?? "").trim(), input);
+    await recordAudit(req, auth.admin, {
+      action: "pass_products.create",
+      table: "pass_products",
+      targetId: product.id,
+      after: product,
+    });
+    return NextResponse.json({ product });
+  } catch (e: any) {
+    console.error("[/api/admin/products] error:", e);
+    return NextResponse.json({ message: e?.message ?? "상품 추가 실패" }, { status: 400 });
+  }
+}
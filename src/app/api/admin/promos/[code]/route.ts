@@ -0,0 +1,35 @@
+// app/api/admin/promos/[code]/route.ts
+import { NextResponse } from "next/server";
+import { getPromoCode, updatePromoCode } from "@/lib/promoCodes";
+import { requireAdmin } from "@/lib/adminAuth";
+import { recordAudit } from "@/lib/adminAudit";
+
+// 코드 수정 / 사용 중지 (넘어온 필드만 변경, 이미 사용된 건은 그대로)
+export async function PATCH(req: Request, { params }: { params: Promise<{ code: string }> }) {
+  const { code } = await params;
+  const auth = await requireAdmin(req, "operator");
+  if (auth.response) return auth.response;
+
+  let body: any = {};
+  try { body = await req.json(); } catch {}
+  const input = { ...body };
+  delete input.code; // 코드는 변경 불가
+
+  try {
+    const before = await getPromoCode(code);
+    if (!before) return NextResponse.json({ message: "코드를 찾을 수 없습니다" }, { status: 404 });
+
+    const promo = await updatePromoCode(code, input);
+    await recordAudit(req, auth.admin, {
+      action: "promo_codes.update",
+      table: "promo_codes",
+      targetId: before.code,
+      before,
+      after: promo,
+    });
+    return NextResponse.json({ promo });
+  } catch (e: any) {
+    console.error("[/api/admin/promos] error:", e);
+    return NextResponse.json({ message: e?.message ?? "코드 수정 실패" }, { status: 400 });
+  }
+}
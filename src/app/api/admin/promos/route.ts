@@ -0,0 +1,45 @@
+// app/api/admin/promos/route.ts
+import { NextResponse } from "next/server";
+import { createPromoCode, listPromoCodes } from "@/lib/promoCodes";
+import { requireAdmin } from "@/lib/adminAuth";
+import { recordAudit } from "@/lib/adminAudit";
+
+export const dynamic = "force-dynamic";
+
+// 프로모션 코드 목록 (사용 횟수 포함)
+export async function GET(req: Request) {
+  const auth = await requireAdmin(req, "viewer");
+  if (auth.response) return auth.response;
+
+  try {
+    return NextResponse.json({ promos: await listPromoCodes() });
+  } catch (e: any) {
+    console.error("[/api/admin/promos] error:", e);
+    return NextResponse.json({ message: e?.message ?? "서버 오류" }, { status: 500 });
+  }
+}
+
+// 코드 추가 { code, discount_type, discount_value, bonus_days, max_redemptions, per_user_limit,
+//            valid_from, valid_until, referrer_codes, center_ids, active, note }
+export async function POST(req: Request) {
+  const auth = await requireAdmin(req, "operator");
+  if (auth.response) return auth.response;
+
+  let body: any = {};
+  try { body = await req.json(); } catch {}
+  const { code, ...input } = body ?? {};
+
+  try {
+    const promo = await createPromoCode(String(code ?? ""), input, auth.admin.username);
+    await recordAudit(req, auth.admin, {
+      action: "promo_codes.create",
+      table: "promo_codes",
+      targetId: promo.code,
+      after: promo,
+    });
+    return NextResponse.json({ promo });
+  } catch (e: any) {
+    console.error("[/api/admin/promos] error:", e);
+    return NextResponse.json({ message: e?.message ?? "코드 추가 실패" }, { status: 400 });
+  }
+}
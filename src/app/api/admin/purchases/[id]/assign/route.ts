@@ -0,0 +1,44 @@
+// app/api/admin/purchases/[id]/assign/route.ts
+import { NextResponse } from "next/server";
+import { assignReceivedPayment } from "@/lib/purchaseReconcile";
+import { requireAdmin } from "@/lib/adminAuth";
+import { recordAudit } from "@/lib/adminAudit";
+
+// 검토 대기 결제를 회원·패스에 배정 { ref_code, product_id, promo_code?, note? }
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const auth = await requireAdmin(req, "operator");
+  if (auth.response) return auth.response;
+
+  let body: any = {};
+  try { body = await req.json(); } catch {}
+  const refCode = String(body?.ref_code ?? "").trim();
+  const productId = String(body?.product_id ?? "").trim();
+  const promoCode = String(body?.promo_code ?? "").trim() || undefined;
+  if (!refCode || !productId) {
+    return NextResponse.json({ message: "ref_code, product_id 가 필요합니다" }, { status: 400 });
+  }
+
+  try {
+    const result = await assignReceivedPayment(
+      id,
+      auth.admin.username,
+      refCode,
+      productId,
+      body?.note || undefined,
+      promoCode
+    );
+    if (!result.ok) return NextResponse.json({ message: result.message }, { status: 409 });
+    await recordAudit(req, auth.admin, {
+      action: "purchases.assign",
+      table: "purchase_payments",
+      targetId: id,
+      after: result.payment,
+      meta: { product_id: productId, promo_code: promoCode ?? null },
+    });
+    return NextResponse.json({ payment: result.payment });
+  } catch (e: any) {
+    console.error("[/api/admin/purchases/assign] error:", e);
+    return NextResponse.json({ message: e?.message ?? "배정 실패" }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+// app/api/admin/purchases/[id]/ignore/route.ts
+import { NextResponse } from "next/server";
+import { ignoreReceivedPayment } from "@/lib/purchaseReconcile";
+import { requireAdmin } from "@/lib/adminAuth";
+import { recordAudit } from "@/lib/adminAudit";
+
+// 패스 결제가 아닌 입금으로 처리 { note }
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const auth = await requireAdmin(req, "operator");
+  if (auth.response) return auth.response;
+
+  let body: any = {};
+  try { body = await req.json(); } catch {}
+  const note: string = String(body?.note ?? "").trim() || "패스 결제 아님";
+
+  try {
+    const result = await ignoreReceivedPayment(id, auth.admin.username, note);
+    if (!result.ok) return NextResponse.json({ message: result.message }, { status: 409 });
+    await recordAudit(req, auth.admin, {
+      action: "purchases.ignore",
+      table: "purchase_payments",
+      targetId: id,
+      after: { status: result.payment.status, note },
+    });
+    return NextResponse.json({ payment: result.payment });
+  } catch (e: any) {
+    console.error("[/api/admin/purchases/ignore] error:", e);
+    return NextResponse.json({ message: e?.message ?? "처리 실패" }, { status: 500 });
+  }
+}
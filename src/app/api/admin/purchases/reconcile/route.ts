@@ -0,0 +1,31 @@
+// app/api/admin/purchases/reconcile/route.ts
+import { NextResponse } from "next/server";
+import { runPurchaseReconcile } from "@/lib/purchaseReconcile";
+import { requireAdmin } from "@/lib/adminAuth";
+import { recordAudit } from "@/lib/adminAudit";
+
+export const dynamic = "force-dynamic";
+
+// ✅ cron(GET) / 관리자 수동 실행(POST) 공용 — 결제 수신 로그 스캔 + 누락 수강 내역 복구
+export async function GET(req: Request) { return POST(req); }
+
+export async function POST(req: Request) {
+  const auth = await requireAdmin(req, "operator", { allowCron: true });
+  if (auth.response) return auth.response;
+
+  try {
+    const summary = await runPurchaseReconcile();
+    console.log("▶ purchase reconcile run", summary);
+    if (summary.matched || summary.review) {
+      await recordAudit(req, auth.admin, {
+        action: "purchases.reconcile",
+        table: "purchase_payments",
+        meta: summary,
+      });
+    }
+    return NextResponse.json(summary);
+  } catch (e: any) {
+    console.error("[/api/admin/purchases/reconcile] error:", e);
+    return NextResponse.json({ message: e?.message ?? "서버 오류" }, { status: 500 });
+  }
+}
@@ -0,0 +1,20 @@
+// app/api/admin/purchases/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { listReceivedPayments, type ReceivedPaymentStatus } from "@/lib/purchaseReconcile";
+import { requireAdmin } from "@/lib/adminAuth";
+
+export const dynamic = "force-dynamic";
+
+// 패스 결제 수신 기록 (?status=review)
+export async function GET(req: NextRequest) {
+  const auth = await requireAdmin(req, "viewer");
+  if (auth.response) return auth.response;
+
+  const status = (req.nextUrl.searchParams.get("status") || undefined) as ReceivedPaymentStatus | undefined;
+  try {
+    return NextResponse.json({ payments: await listReceivedPayments(status) });
+  } catch (e: any) {
+    console.error("[/api/admin/purchases] error:", e);
+    return NextResponse.json({ message: e?.message ?? "조회 실패" }, { status: 500 });
+  }
+}
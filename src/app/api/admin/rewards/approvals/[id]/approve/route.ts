@@ -0,0 +1,33 @@
+// app/api/admin/rewards/approvals/[id]/approve/route.ts
+import { NextResponse } from "next/server";
+import { approveApproval } from "@/lib/payoutApprovals";
+import { requireAdmin } from "@/lib/adminAuth";
+import { recordAudit } from "@/lib/adminAudit";
+
+// checker: 준비자와 다른 관리자(treasurer 이상)가 확인한 batchHash 로 승인
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const auth = await requireAdmin(req, "treasurer");
+  if (auth.response) return auth.response;
+
+  let body: any = {};
+  try { body = await req.json(); } catch {}
+  if (!body?.batchHash) return NextResponse.json({ message: "batchHash 가 없습니다" }, { status: 400 });
+
+  try {
+    const result = await approveApproval(id, auth.admin.username, String(body.batchHash));
+    if (!result.ok) return NextResponse.json({ message: result.message }, { status: 409 });
+    await recordAudit(req, auth.admin, {
+      action: "payout_approvals.approve",
+      table: "payout_approvals",
+      targetId: id,
+      before: { status: "prepared" },
+      after: { status: result.approval.status, approved_by: result.approval.approved_by },
+      meta: { batch_hash: result.approval.batch_hash, total_amount: result.approval.total_amount },
+    });
+    return NextResponse.json({ approval: result.approval });
+  } catch (e: any) {
+    console.error("[/api/admin/rewards/approvals/approve] error:", e);
+    return NextResponse.json({ message: e?.message ?? "승인 실패" }, { status: 500 });
+  }
+}
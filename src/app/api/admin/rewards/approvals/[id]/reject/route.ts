@@ -0,0 +1,31 @@
+// app/api/admin/rewards/approvals/[id]/reject/route.ts
+import { NextResponse } from "next/server";
+import { rejectApproval } from "@/lib/payoutApprovals";
+import { requireAdmin } from "@/lib/adminAuth";
+import { recordAudit } from "@/lib/adminAudit";
+
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const auth = await requireAdmin(req, "operator");
+  if (auth.response) return auth.response;
+
+  let body: any = {};
+  try { body = await req.json(); } catch {}
+  const reason: string = String(body?.reason ?? "").trim() || "반려";
+
+  try {
+    const result = await rejectApproval(id, auth.admin.username, reason);
+    if (!result.ok) return NextResponse.json({ message: result.message }, { status: 409 });
+    await recordAudit(req, auth.admin, {
+      action: "payout_approvals.reject",
+      table: "payout_approvals",
+      targetId: id,
+      after: { status: result.approval.status, reject_reason: reason },
+      meta: { released: result.rows.map((r) => r.id) },
+    });
+    return NextResponse.json({ approval: result.approval, released: result.rows.length });
+  } catch (e: any) {
+    console.error("[/api/admin/rewards/approvals/reject] error:", e);
+    return NextResponse.json({ message: e?.message ?? "반려 실패" }, { status: 500 });
+  }
+}
@@ -0,0 +1,48 @@
+// app/api/admin/rewards/approvals/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { listApprovals, prepareApproval } from "@/lib/payoutApprovals";
+import { requireAdmin } from "@/lib/adminAuth";
+import { recordAudit } from "@/lib/adminAudit";
+import { getKSTDateString } from "@/lib/dateUtil";
+
+export const dynamic = "force-dynamic";
+
+// 지급 묶음 목록 (?rewardDate=YYYY-MM-DD)
+export async function GET(req: NextRequest) {
+  const auth = await requireAdmin(req, "viewer");
+  if (auth.response) return auth.response;
+
+  const rewardDate = req.nextUrl.searchParams.get("rewardDate") || undefined;
+  try {
+    return NextResponse.json({ approvals: await listApprovals(rewardDate) });
+  } catch (e: any) {
+    console.error("[/api/admin/rewards/approvals] error:", e);
+    return NextResponse.json({ message: e?.message ?? "조회 실패" }, { status: 500 });
+  }
+}
+
+// maker: 지급 묶음 준비 { rewardDate?, ids?, note? }
+export async function POST(req: Request) {
+  const auth = await requireAdmin(req, "operator");
+  if (auth.response) return auth.response;
+
+  let body: any = {};
+  try { body = await req.json(); } catch {}
+  const rewardDate: string = body?.rewardDate || getKSTDateString();
+  const ids: string[] | undefined = Array.isArray(body?.ids) && body.ids.length ? body.ids : undefined;
+
+  try {
+    const result = await prepareApproval(rewardDate, auth.admin.username, { ids, note: body?.note || undefined });
+    if (!result.ok) return NextResponse.json({ message: result.message }, { status: 409 });
+    await recordAudit(req, auth.admin, {
+      action: "payout_approvals.prepare",
+      table: "payout_approvals",
+      targetId: result.approval.id,
+      after: result.approval,
+    });
+    return NextResponse.json({ approval: result.approval });
+  } catch (e: any) {
+    console.error("[/api/admin/rewards/approvals] error:", e);
+    return NextResponse.json({ message: e?.message ?? "지급 묶음 준비 실패" }, { status: 500 });
+  }
+}
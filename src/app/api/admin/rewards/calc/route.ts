@@ -1,150 +1,114 @@
 // /src/app/api/admin/rewards/calc/route.ts
 import { NextResponse } from "next/server";
-import { supabase } from "@/lib/supabaseClient"; // ✅ anon 클라이언트(현재 RLS disabled 가정)
-import { getKSTISOString, getLastWeekRangeKST } from "@/lib/dateUtil";
+import { getLastWeekRangeKST, getPeriodRangeKST } from "@/lib/dateUtil";
+import { commitRewards, computeRewards, diffRewards, hashRewards } from "@/lib/rewardCalc";
+import { findDoubleCounted } from "@/lib/commissionItems";
+import { ensureRewardPeriod, findOverlappingPeriods, rewardDateFor, validatePeriod } from "@/lib/rewardPeriods";
+import { requireAdmin } from "@/lib/adminAuth";
+import { recordAudit } from "@/lib/adminAudit";
 
 export const dynamic = "force-dynamic";
 
-/** 분배율(구독료 기준)
- *  - 추천: 50%
- *  - 센터: 20%
- *  (남은 30%는 집계 제외)
+/**
+ * body
+ *  - { period_start?, period_end? }              : 미리보기 (계산 + 기존 행과 diff, DB 변경 없음)
+ *  - { period_start?, period_end?, confirm: true, previewHash } : 미리보기와 같은 결과일 때만 저장
+ *  기간을 생략하면 직전 완료 주(월~일), 정산일은 period_end 다음날
+ *  미리보기는 viewer, 저장은 operator 이상
  */
-const REFERRAL_RATE = 0.5;
-const CENTER_RATE = 0.2;
-
-/** (선택) pass_type → 기본가
- *  tuition 값이 '개월 수' 등으로 들어오는 경우 보정에 사용
- *  필요 없으면 비워도 됩니다.
- */
-const PRICE_BY_PASS: Record<string, number> = {
-  "100 ": 100,
-  "300 ": 300,
-  // 필요 시 추가
-};
-
-type EnrollmentRow = {
-  ref_code: string;
-  ref_by: string | null;
-  center_id: string | null;
-  pass_type: string | null;
-  tuition: number | null;
-  memo: string | null;
-  created_at: string;
-};
-
-type UserSlim = {
-  ref_code: string;
-  name: string | null;
-  wallet_address: string | null;
-};
-
-type Bucket = { ref_code: string; referral_amount: number; center_amount: number };
+export async function POST(req: Request) {
+  let body: any = {};
+  try { body = await req.json(); } catch {}
+  const confirm: boolean = body?.confirm === true;
+
+  const auth = await requireAdmin(req, confirm ? "operator" : "viewer");
+  if (auth.response) return auth.response;
+
+  // 기간 결정 (둘 다 주거나 둘 다 생략)
+  let range = getLastWeekRangeKST();
+  if (body?.period_start || body?.period_end) {
+    const invalid = validatePeriod(String(body.period_start ?? ""), String(body.period_end ?? ""));
+    if (invalid) return NextResponse.json({ message: invalid }, { status: 400 });
+    range = getPeriodRangeKST(body.period_start, body.period_end);
+  }
+  const rewardDate = rewardDateFor(range.period_end);
+  const period = { start: range.period_start, end: range.period_end };
 
-export async function POST() {
   try {
-    // ✅ 이번 주 월요일 실행 가정 → 전주 월~일 집계
-    const todayKst = getKSTISOString().slice(0, 10); // YYYY-MM-DD
-    const range = getLastWeekRangeKST(todayKst);     // { gte, lt, period_start, period_end }
-
-    // 1) enrollments: 전주 범위 + "결제 완료" 만 로드
-    const { data: enrolls, error: loadErr } = await supabase
-      .from("enrollments")
-      .select(
-        "ref_code, ref_by, center_id, pass_type, tuition, memo, created_at"
-      )
-      .gte("created_at", range.gte)
-      .lt("created_at", range.lt)
-      .eq("memo", "결제 완료");
-
-    if (loadErr) throw loadErr;
-    const rows = (enrolls ?? []) as EnrollmentRow[];
-    if (!rows.length) {
-      return NextResponse.json({ inserted: 0, updated: 0, message: "집계 대상 없음" });
+    const overlaps = await findOverlappingPeriods(range.period_start, range.period_end);
+    const buckets = await computeRewards(range);
+    const previewHash = hashRewards(rewardDate, range, buckets);
+
+    if (!confirm) {
+      const diff = await diffRewards(rewardDate, range, buckets);
+      const doubleCounted = await findDoubleCounted(rewardDate, buckets);
+      const items = Object.fromEntries(buckets.map((b) => [b.ref_code, b.items]));
+      return NextResponse.json({ dryRun: true, rewardDate, period, overlaps, doubleCounted, previewHash, ...diff, items });
     }
 
-    // 2) 수혜자별 합산 버킷 (추천 50 / 센터 20)
-    const buckets = new Map<string, Bucket>();
-
-    for (const r of rows) {
-      // 금액 결정: tuition(숫자) 우선
-      let base = Number(r.tuition ?? 0);
-
-      // tuition 이 1~12 같은 '개월 수'로 들어오면 pass 가격과 곱해서 보정
-      const passPrice = PRICE_BY_PASS[String(r.pass_type ?? "")] ?? 0;
-      if (passPrice > 0 && base > 0 && base <= 12) {
-        base = base * passPrice;
-      }
-
-      if (!base || base <= 0) continue;
-
-      // 추천 50%
-      if (r.ref_by) {
-        const k = String(r.ref_by);
-        const b = buckets.get(k) ?? { ref_code: k, referral_amount: 0, center_amount: 0 };
-        b.referral_amount += Math.floor(base * REFERRAL_RATE * 100) / 100; // 소수점 2자리 버림
-        buckets.set(k, b);
-      }
-
-      // 센터 20%
-      if (r.center_id) {
-        const k = String(r.center_id);
-        const b = buckets.get(k) ?? { ref_code: k, referral_amount: 0, center_amount: 0 };
-        b.center_amount += Math.floor(base * CENTER_RATE * 100) / 100;
-        buckets.set(k, b);
-      }
+    // 겹치는 기간이 있으면 같은 enrollment 가 두 번 집계되므로 거부
+    if (overlaps.length) {
+      return NextResponse.json(
+        { message: "이미 확정된 정산 기간과 겹칩니다", overlaps },
+        { status: 409 }
+      );
     }
 
-    if (buckets.size === 0) {
-      return NextResponse.json({ inserted: 0, updated: 0, message: "금액 집계 0" });
+    if (body?.previewHash !== previewHash) {
+      return NextResponse.json(
+        { message: "미리보기 이후 집계 결과가 변경되었습니다. 다시 미리보기 하세요.", previewHash },
+        { status: 409 }
+      );
     }
 
-    // 3) 수혜자 프로필(name, wallet_address) 보강
-    const beneficiaryCodes = Array.from(buckets.keys());
-    const { data: benUsers, error: benErr } = await supabase
-      .from("users")
-      .select("ref_code, name, wallet_address")
-      .in("ref_code", beneficiaryCodes);
-    if (benErr) throw benErr;
+    if (!buckets.length) {
+      return NextResponse.json({ inserted: 0, updated: 0, refused: [], rewardDate, period, message: "집계 대상 없음" });
+    }
 
-    const benMap = new Map(
-      (benUsers as UserSlim[] | null)?.map(u => [u.ref_code, u]) ?? []
+    try {
+      await ensureRewardPeriod(range.period_start, range.period_end);
+    } catch (e: any) {
+      return NextResponse.json({ message: e?.message ?? "정산 기간 확정 실패" }, { status: 409 });
+    }
+    const { inserted, updated, refused, cancelled, keptStatus, items, conflicts } = await commitRewards(
+      rewardDate,
+      range,
+      buckets
     );
-
-    // 4) 업서트 payload 구성
-    //    ⚠️ reward_transfers.total_amount 는 generated column이므로 넣지 않습니다.
-    const rewardDate = todayKst;        // 실행일(월요일)을 정산일로 기록
-    const nowIso = getKSTISOString();
-
-    const upsertRows = beneficiaryCodes.map(code => {
-      const b = buckets.get(code)!;
-      const u = benMap.get(code);
-      return {
-        ref_code: code,
-        name: u?.name ?? null,
-        wallet_address: u?.wallet_address ?? null,
-        referral_amount: Math.round((b.referral_amount ?? 0) * 100) / 100,
-        center_amount: Math.round((b.center_amount ?? 0) * 100) / 100,
-        status: "pending" as const,
-        reward_date: rewardDate,
-        created_at: nowIso,
-        // reward_transfers 에 period_start/end 컬럼이 있으면 아래 2줄 주석해제
-        // period_start: range.period_start,
-        // period_end: range.period_end,
-      };
+    if (conflicts.length) {
+      return NextResponse.json(
+        { message: "다른 정산에 이미 집계된 결제가 포함되어 있습니다", doubleCounted: conflicts },
+        { status: 409 }
+      );
+    }
+    if (refused.length) console.warn("⚠️ 이미 지급된 행 → 덮어쓰기 거부:", refused);
+    if (keptStatus.length) console.warn("⚠️ 금액만 갱신, 상태 유지(운영자 재시도 필요):", keptStatus);
+
+    await recordAudit(req, auth.admin, {
+      action: "rewards.calc.confirm",
+      table: "reward_transfers",
+      targetId: rewardDate,
+      meta: {
+        period,
+        previewHash,
+        inserted: inserted.length,
+        updated: updated.length,
+        cancelled: cancelled.length,
+        items,
+        refused,
+        keptStatus,
+      },
     });
 
-    // 5) 업서트 (유니크 키: ref_code + reward_date)
-    const { data: up, error: upErr } = await supabase
-      .from("reward_transfers")
-      .upsert(upsertRows, { onConflict: "ref_code,reward_date" })
-      .select("id");
-    if (upErr) throw upErr;
-
     return NextResponse.json({
-      inserted: up?.length ?? 0,
+      inserted: inserted.length,
+      updated: updated.length,
+      cancelled: cancelled.length,
+      items,
+      refused,
+      keptStatus,
       rewardDate,
-      period: { start: range.period_start, end: range.period_end },
+      period,
     });
   } catch (e: any) {
     console.error("[/api/admin/rewards/calc] error:", e);
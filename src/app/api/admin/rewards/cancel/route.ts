@@ -0,0 +1,29 @@
+// app/api/admin/rewards/cancel/route.ts
+import { NextResponse } from "next/server";
+import { cancelTransfers } from "@/lib/payoutEngine";
+import { requireAdmin } from "@/lib/adminAuth";
+import { recordAudit } from "@/lib/adminAudit";
+
+export async function POST(req: Request) {
+  const auth = await requireAdmin(req, "operator");
+  if (auth.response) return auth.response;
+
+  let body: any = {};
+  try { body = await req.json(); } catch {}
+  const ids: string[] = Array.isArray(body?.ids) ? body.ids : [];
+  if (!ids.length) return NextResponse.json({ message: "ids 가 없습니다" }, { status: 400 });
+
+  try {
+    const cancelled = await cancelTransfers(ids, body?.reason || undefined);
+    await recordAudit(req, auth.admin, {
+      action: "rewards.cancel",
+      table: "reward_transfers",
+      after: { status: "cancelled", ids: cancelled },
+      meta: { requested: ids, reason: body?.reason ?? null },
+    });
+    return NextResponse.json({ cancelled, ignored: ids.filter((id) => !cancelled.includes(id)) });
+  } catch (e: any) {
+    console.error("[/api/admin/rewards/cancel] error:", e);
+    return NextResponse.json({ message: e?.message ?? "취소 실패" }, { status: 500 });
+  }
+}
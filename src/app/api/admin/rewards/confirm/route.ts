@@ -0,0 +1,36 @@
+// app/api/admin/rewards/confirm/route.ts
+import { NextResponse } from "next/server";
+import { confirmBroadcastTransfers } from "@/lib/payoutConfirmations";
+import { requireAdmin } from "@/lib/adminAuth";
+import { recordAudit } from "@/lib/adminAudit";
+
+export const dynamic = "force-dynamic";
+
+// ✅ cron(GET) / 관리자 수동 실행(POST) 공용
+export async function GET(req: Request) { return POST(req); }
+
+export async function POST(req: Request) {
+  const auth = await requireAdmin(req, "operator", { allowCron: true });
+  if (auth.response) return auth.response;
+
+  let body: any = {};
+  try { body = await req.json(); } catch {}
+  const rewardDate: string | undefined = body?.rewardDate || undefined;
+
+  try {
+    const summary = await confirmBroadcastTransfers({ rewardDate });
+    console.log("▶ confirm run", { rewardDate, ...summary, results: undefined });
+    if (summary.completed || summary.failed) {
+      await recordAudit(req, auth.admin, {
+        action: "rewards.confirm",
+        table: "reward_transfers",
+        targetId: rewardDate ?? null,
+        meta: { ...summary, results: summary.results.map((r) => ({ id: r.id, status: r.status })) },
+      });
+    }
+    return NextResponse.json(summary);
+  } catch (e: any) {
+    console.error("[/api/admin/rewards/confirm] error:", e);
+    return NextResponse.json({ message: e?.message ?? "서버 오류" }, { status: 500 });
+  }
+}
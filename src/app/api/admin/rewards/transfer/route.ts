@@ -1,76 +1,76 @@
 // app/api/admin/rewards/transfer/route.ts
-import { supabase } from "@/lib/supabaseClient";
 import { NextResponse } from "next/server";
-import { sendUSDT } from "@/lib/sendUSDT";
-import { getKSTDateString, getKSTISOString } from "@/lib/dateUtil";
+import { resumePayout, runPayout } from "@/lib/payoutEngine";
+import { getKSTDateString } from "@/lib/dateUtil";
+import { verifyApproval } from "@/lib/payoutApprovals";
+import { requireAdmin } from "@/lib/adminAuth";
+import { recordAudit } from "@/lib/adminAudit";
 
 export async function GET(req: Request) { return POST(req); }
 
-export async function POST(req?: Request) {
+// 실제 자금이 움직이므로 treasurer 이상
+export async function POST(req: Request) {
+  const auth = await requireAdmin(req, "treasurer");
+  if (auth.response) return auth.response;
+
   let body: any = {};
-  if (req) { try { body = await req.json(); } catch {} }
-  const today = getKSTDateString();
-  const rewardDate: string = body?.rewardDate || today;
+  try { body = await req.json(); } catch {}
+  const rewardDate: string = body?.rewardDate || getKSTDateString();
   const retryFailed: boolean = body?.retryFailed ?? true;   // ← 기본 재시도 ON
-  const minAmount: number = Number(body?.minAmount ?? 0);
-  const limit: number = Math.min(Number(body?.limit ?? 500), 1000);
-  const dryRun: boolean = !!body?.dryRun;
-
-  console.log("▶ transfer run", { rewardDate, retryFailed, minAmount, limit, dryRun });
-
-  // 1) 대상 조회
-  let q = supabase
-    .from("reward_transfers")
-    .select("id, ref_code, wallet_address, total_amount, status, reward_date")
-    .eq("reward_date", rewardDate);
-
-  q = retryFailed ? q.in("status", ["pending", "failed"]) : q.eq("status", "pending");
-  if (minAmount > 0) q = q.gt("total_amount", minAmount);
-
-  const { data: transfers, error } = await q.order("total_amount", { ascending: false }).limit(limit);
-  if (error) return NextResponse.json({ message: "대상 로드 실패", detail: error }, { status: 500 });
-
-  const targets = (transfers ?? []).filter(r => !!r.wallet_address && Number(r.total_amount) > 0);
-  if (targets.length === 0) return NextResponse.json({ processed: 0, completed: 0, failed: 0, rewardDate });
+  const resumeOnly: boolean = !!body?.resumeOnly;  // 중단된 배치 정리만
 
-  if (dryRun) {
-    return NextResponse.json({ processed: targets.length, completed: targets.length, failed: 0, rewardDate, dryRun: true });
+  if (resumeOnly) {
+    const resumed = await resumePayout(rewardDate);
+    await recordAudit(req, auth.admin, {
+      action: "payout.resume",
+      table: "reward_transfers",
+      targetId: rewardDate,
+      meta: { resumed },
+    });
+    return NextResponse.json({ rewardDate, resumed });
   }
 
-  // 2) 전송 루프
-  let processed = 0, completed = 0, failed = 0;
-  const results: any[] = [];
-
-  for (const t of targets) {
-    processed += 1;
-    const id = t.id as string;
-    const to = t.wallet_address as string;
-    const amount = Number(t.total_amount);
-
-    try {
-      const { transactionHash } = await sendUSDT(to, amount);
-
-      await supabase.from("reward_transfers").update({
-        tx_hash: transactionHash,
-        status: "completed",             // ✅ 성공 시 completed
-        error_message: null,
-        executed_at: getKSTISOString(),
-      }).eq("id", id);
+  // 승인된 지급 묶음 없이는 송금 불가
+  const approvalId: string = body?.approvalId ?? "";
+  if (!approvalId) {
+    return NextResponse.json({ message: "승인된 지급 묶음(approvalId)이 필요합니다" }, { status: 400 });
+  }
 
-      completed += 1;
-      results.push({ id, ref_code: t.ref_code, tx_hash: transactionHash });
-    } catch (e: any) {
-      const msg = e?.message || "transfer_failed";
-      await supabase.from("reward_transfers").update({
-        status: "failed",
-        error_message: msg,
-        executed_at: getKSTISOString(),
-      }).eq("id", id);
+  try {
+    const verified = await verifyApproval(approvalId);
+    if (!verified.ok) return NextResponse.json({ message: verified.message }, { status: 409 });
 
-      failed += 1;
-      results.push({ id, ref_code: t.ref_code, error: msg });
+    const summary = await runPayout({
+      approvalId,
+      source: "admin",
+      statuses: retryFailed ? ["pending", "failed"] : ["pending"],
+      minAmount: Number(body?.minAmount ?? 0),
+      limit: Number(body?.limit ?? 500),
+      dryRun: !!body?.dryRun,
+      mode: body?.mode === "batch" ? "batch" : "single",  // batch = 멀티센드
+      onShortfall: body?.onShortfall === "partial" ? "partial" : body?.onShortfall === "refuse" ? "refuse" : undefined,
+    });
+    if (!summary.dryRun) {
+      await recordAudit(req, auth.admin, {
+        action: "payout.transfer",
+        table: "payout_approvals",
+        targetId: approvalId,
+        meta: {
+          rewardDate,
+          mode: summary.mode,
+          processed: summary.processed,
+          broadcast: summary.broadcast,
+          failed: summary.failed,
+          refused: summary.refused,
+          deferred: summary.deferred,
+          batches: summary.batches,
+          results: summary.results.map((r) => ({ id: r.id, status: r.status, tx_hash: r.tx_hash ?? null })),
+        },
+      });
     }
+    return NextResponse.json(summary);
+  } catch (e: any) {
+    console.error("[/api/admin/rewards/transfer] error:", e);
+    return NextResponse.json({ message: e?.message ?? "송금 실행 실패" }, { status: 500 });
   }
-
-  return NextResponse.json({ processed, completed, failed, rewardDate, results });
 }
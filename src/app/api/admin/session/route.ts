@@ -0,0 +1,54 @@
+// app/api/admin/session/route.ts
+// 관리자 로그인(POST) / 현재 세션(GET) / 로그아웃(DELETE)
+import { NextResponse } from "next/server";
+import { getAdminIdentity, loginAdmin } from "@/lib/adminAuth";
+import { recordAudit } from "@/lib/adminAudit";
+import { ADMIN_SESSION_COOKIE, adminSessionCookieOptions, signAdminSession } from "@/lib/adminSession";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const admin = await getAdminIdentity();
+    if (!admin) return NextResponse.json({ message: "로그인이 필요합니다" }, { status: 401 });
+    return NextResponse.json({ admin });
+  } catch (e: any) {
+    console.error("[/api/admin/session] error:", e);
+    return NextResponse.json({ message: e?.message ?? "서버 오류" }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  let body: any = {};
+  try { body = await req.json(); } catch {}
+  const username = String(body?.username ?? "").trim();
+  const password = String(body?.password ?? "");
+  if (!username || !password) {
+    return NextResponse.json({ message: "아이디와 비밀번호를 입력하세요" }, { status: 400 });
+  }
+
+  try {
+    const admin = await loginAdmin(username, password);
+    if (!admin) {
+      await recordAudit(req, null, { action: "admin.login_failed", table: "admin_users", meta: { username } });
+      return NextResponse.json({ message: "아이디 또는 비밀번호가 틀렸습니다" }, { status: 401 });
+    }
+    await recordAudit(req, admin, { action: "admin.login", table: "admin_users", targetId: admin.username });
+
+    const res = NextResponse.json({ admin });
+    res.cookies.set(ADMIN_SESSION_COOKIE, await signAdminSession(admin.username, admin.role), adminSessionCookieOptions);
+    return res;
+  } catch (e: any) {
+    console.error("[/api/admin/session] error:", e);
+    return NextResponse.json({ message: e?.message ?? "로그인 실패" }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request) {
+  const admin = await getAdminIdentity().catch(() => null);
+  if (admin) await recordAudit(req, admin, { action: "admin.logout", table: "admin_users", targetId: admin.username });
+
+  const res = NextResponse.json({ ok: true });
+  res.cookies.set(ADMIN_SESSION_COOKIE, "", { ...adminSessionCookieOptions, maxAge: 0 });
+  return res;
+}
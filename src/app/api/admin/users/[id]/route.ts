@@ -0,0 +1,54 @@
+// app/api/admin/users/[id]/route.ts
+// 유저 정보 단일 컬럼 수정 (/admin/users 인라인 편집) — 변경 전/후를 감사 로그에 남긴다
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { requireAdmin } from "@/lib/adminAuth";
+import { recordAudit } from "@/lib/adminAudit";
+
+// 관리 화면에서 수정할 수 없는 컬럼 (키 / 거래소 자격증명)
+const LOCKED_COLUMNS = ["id", "created_at", "api_key", "secret_key"];
+
+// { col, value }
+export async function PATCH(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await requireAdmin(req, "operator");
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+  let body: any = {};
+  try { body = await req.json(); } catch {}
+  const col = String(body?.col ?? "");
+  const value = body?.value ?? null;
+
+  if (!/^[a-z_][a-z0-9_]*$/.test(col)) return NextResponse.json({ message: "col 이 올바르지 않습니다" }, { status: 400 });
+  if (LOCKED_COLUMNS.includes(col)) {
+    return NextResponse.json({ message: `${col} 은(는) 수정할 수 없습니다` }, { status: 400 });
+  }
+
+  try {
+    const { data: before, error: loadErr } = await supabaseAdmin.from("users").select("*").eq("id", id).maybeSingle();
+    if (loadErr) throw loadErr;
+    if (!before) return NextResponse.json({ message: "유저를 찾을 수 없습니다" }, { status: 404 });
+    if (!(col in before)) return NextResponse.json({ message: `알 수 없는 컬럼: ${col}` }, { status: 400 });
+
+    const { data: after, error } = await supabaseAdmin
+      .from("users")
+      .update({ [col]: value })
+      .eq("id", id)
+      .select("*")
+      .single();
+    if (error) return NextResponse.json({ message: error.message }, { status: 400 });
+
+    await recordAudit(req, auth.admin, {
+      action: "users.update",
+      table: "users",
+      targetId: id,
+      before: { [col]: before[col] },
+      after: { [col]: after[col] },
+      meta: { ref_code: before.ref_code ?? null },
+    });
+    return NextResponse.json({ user: after });
+  } catch (e: any) {
+    console.error("[/api/admin/users] error:", e);
+    return NextResponse.json({ message: e?.message ?? "저장 실패" }, { status: 500 });
+  }
+}
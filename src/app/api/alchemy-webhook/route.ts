@@ -1,6 +1,9 @@
 // ✅ 실제 알림 수신 처리
 import { NextRequest, NextResponse } from "next/server";
-import { supabase } from "@/lib/supabaseClient";
+import { supabaseAdmin as supabase } from "@/lib/supabaseAdmin";
+import { PASS_RECEIVER } from "@/lib/passCatalog";
+import { recordPaymentsFromTx } from "@/lib/purchaseReconcile";
+import { notifyUser } from "@/lib/notifications";
 
 const USDT = "0xc2132D05D31c914a87C6611C10748AEb04B58e8F";
 
@@ -24,6 +27,14 @@ export async function POST(req: NextRequest) {
     )
       continue;
 
+    // ✅ 패스 결제 수신 → purchase_payments (대조/복구는 /api/admin/purchases/reconcile)
+    if (toAddress.toLowerCase() === PASS_RECEIVER.toLowerCase()) {
+      await recordPaymentsFromTx(hash).catch((e) =>
+        console.warn("⚠️ 패스 결제 수신 기록 실패:", hash, e?.message ?? e)
+      );
+      continue;
+    }
+
     const usdtAmount = parseFloat(value);
 
     // ✅ 중복 트랜잭션 해시 체크
@@ -31,9 +42,9 @@ export async function POST(req: NextRequest) {
       .from("usdt_history")
       .select("id")
       .eq("tx_hash", hash)
-      .maybeSingle();
+      .limit(1);
 
-    if (existing) {
+    if (existing?.length) {
       console.log("⚠️ 중복 트랜잭션 해시. 기록 생략:", hash);
       continue;
     }
@@ -57,6 +68,16 @@ export async function POST(req: NextRequest) {
     });
 
     console.log("✅ 외부입금 기록:", toAddress, usdtAmount, hash);
+
+    await notifyUser({
+      refCode: user.ref_code,
+      kind: "deposit_received",
+      title: "USDT 가 입금되었습니다",
+      body: `${usdtAmount} USDT 입금이 확인되었습니다.`,
+      link: "/mypage/history/usdt",
+      data: { amount: usdtAmount, tx_hash: hash },
+      dedupeKey: `deposit_received:${hash.toLowerCase()}:${toAddress.toLowerCase()}`,
+    });
   }
 
   return NextResponse.json({ ok: true });
@@ -0,0 +1,23 @@
+// 📁 src/app/api/auth/nonce/route.ts
+// 지갑 로그인 1단계 — 서명할 메시지 발급 (?wallet=0x...)
+import { NextRequest, NextResponse } from "next/server";
+import { issueLoginNonce, isWalletAddress, USER_NONCE_COOKIE, userNonceCookieOptions } from "@/lib/userSession";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(req: NextRequest) {
+  const wallet = req.nextUrl.searchParams.get("wallet");
+  if (!isWalletAddress(wallet)) {
+    return NextResponse.json({ error: "wallet 이 올바르지 않습니다" }, { status: 400 });
+  }
+
+  try {
+    const { message, token } = await issueLoginNonce(wallet, req.nextUrl.host);
+    const res = NextResponse.json({ message });
+    res.cookies.set(USER_NONCE_COOKIE, token, userNonceCookieOptions);
+    return res;
+  } catch (e: any) {
+    console.error("❌ 로그인 nonce 발급 실패:", e?.message ?? e);
+    return NextResponse.json({ error: "로그인 준비 실패" }, { status: 500 });
+  }
+}
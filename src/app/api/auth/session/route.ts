@@ -0,0 +1,65 @@
+// 📁 src/app/api/auth/session/route.ts
+// 지갑 로그인(POST) / 현재 세션(GET) / 로그아웃(DELETE)
+import { NextRequest, NextResponse } from "next/server";
+import { verifySignature } from "thirdweb/auth";
+import { polygon } from "thirdweb/chains";
+import { client } from "@/lib/client";
+import { getSessionWallet } from "@/lib/walletAuth";
+import {
+  isWalletAddress,
+  loginMessageFromNonce,
+  signUserSession,
+  USER_NONCE_COOKIE,
+  USER_SESSION_COOKIE,
+  userNonceCookieOptions,
+  userSessionCookieOptions,
+} from "@/lib/userSession";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  const wallet = await getSessionWallet();
+  if (!wallet) return NextResponse.json({ error: "로그인이 필요합니다" }, { status: 401 });
+  return NextResponse.json({ wallet });
+}
+
+// { wallet, signature } — /api/auth/nonce 에서 받은 메시지에 대한 서명
+export async function POST(req: NextRequest) {
+  let body: any = {};
+  try { body = await req.json(); } catch {}
+  const wallet = String(body?.wallet ?? "").toLowerCase();
+  const signature = String(body?.signature ?? "");
+  if (!isWalletAddress(wallet) || !signature) {
+    return NextResponse.json({ error: "wallet, signature 가 필요합니다" }, { status: 400 });
+  }
+
+  const message = await loginMessageFromNonce(req.cookies.get(USER_NONCE_COOKIE)?.value, wallet);
+  if (!message) {
+    return NextResponse.json({ error: "로그인 요청이 만료되었습니다. 다시 시도하세요." }, { status: 401 });
+  }
+
+  const valid = await verifySignature({ message, signature, address: wallet, client, chain: polygon }).catch(
+    () => false
+  );
+  if (!valid) {
+    console.warn("⚠️ 지갑 로그인 서명 검증 실패:", wallet);
+    return NextResponse.json({ error: "서명이 올바르지 않습니다" }, { status: 401 });
+  }
+
+  try {
+    const res = NextResponse.json({ wallet });
+    res.cookies.set(USER_SESSION_COOKIE, await signUserSession(wallet), userSessionCookieOptions);
+    res.cookies.set(USER_NONCE_COOKIE, "", { ...userNonceCookieOptions, maxAge: 0 }); // nonce 1회용
+    console.log("🔑 지갑 로그인:", wallet);
+    return res;
+  } catch (e: any) {
+    console.error("❌ 지갑 로그인 실패:", e?.message ?? e);
+    return NextResponse.json({ error: "로그인 실패" }, { status: 500 });
+  }
+}
+
+export async function DELETE() {
+  const res = NextResponse.json({ ok: true });
+  res.cookies.set(USER_SESSION_COOKIE, "", { ...userSessionCookieOptions, maxAge: 0 });
+  return res;
+}
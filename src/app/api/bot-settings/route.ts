@@ -0,0 +1,82 @@
+// 📁 src/app/api/bot-settings/route.ts
+// 봇 세팅 조회 / 저장 — ref_code 는 로그인 세션 / 서명한 지갑의 유저로 고정 (다른 유저 세팅 / API 키 덮어쓰기 불가)
+// OKX API 키 3종은 브라우저에 내려주지 않는다 (등록 여부만)
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { requireUserSession, requireWallet } from "@/lib/walletAuth";
+
+export const dynamic = "force-dynamic";
+
+const SETTINGS_COLUMNS = "ref_code, inst_id, coin_qty, leverage, tp_diff, sl_diff, enabled, updated_at";
+
+// 사용자가 바꿀 수 있는 컬럼과 값 검사
+const FIELDS: Record<string, (v: any) => boolean> = {
+  inst_id: (v) => typeof v === "string" && /^[A-Z0-9]+-USDT-SWAP$/.test(v),
+  coin_qty: (v) => typeof v === "number" && v > 0,
+  leverage: (v) => Number.isInteger(v) && v > 0 && v <= 125,
+  tp_diff: (v) => typeof v === "number" && v > 0,
+  sl_diff: (v) => typeof v === "number" && v > 0,
+  enabled: (v) => typeof v === "boolean",
+  okx_api_key: (v) => typeof v === "string" && v.trim().length > 0,
+  okx_api_secret: (v) => typeof v === "string" && v.trim().length > 0,
+  okx_api_passphrase: (v) => typeof v === "string" && v.trim().length > 0,
+};
+
+export async function GET() {
+  const auth = await requireUserSession({ requireUser: true });
+  if (auth.response) return auth.response;
+
+  try {
+    const { data, error } = await supabaseAdmin
+      .from("bot_settings")
+      .select(`${SETTINGS_COLUMNS}, okx_api_key, okx_api_secret, okx_api_passphrase`)
+      .eq("ref_code", auth.user!.ref_code)
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) return NextResponse.json({ settings: null, has_api: false });
+
+    const { okx_api_key, okx_api_secret, okx_api_passphrase, ...settings } = data as any;
+    return NextResponse.json({ settings, has_api: !!okx_api_key && !!okx_api_secret && !!okx_api_passphrase });
+  } catch (e: any) {
+    console.error("❌ 봇 세팅 조회 실패:", e?.message ?? e);
+    return NextResponse.json({ error: "봇 세팅 조회 실패", detail: e?.message ?? e }, { status: 500 });
+  }
+}
+
+// { ref_code?, inst_id?, coin_qty?, leverage?, tp_diff?, sl_diff?, enabled?, okx_api_* ? }
+export async function PATCH(req: Request) {
+  const auth = await requireWallet(req, { requireUser: true });
+  if (auth.response) return auth.response;
+
+  const refCode = auth.user!.ref_code;
+  if (auth.body?.ref_code && auth.body.ref_code !== refCode) {
+    return NextResponse.json({ error: "다른 유저의 봇 세팅은 변경할 수 없습니다" }, { status: 403 });
+  }
+
+  const patch: Record<string, any> = {};
+  for (const [key, valid] of Object.entries(FIELDS)) {
+    if (auth.body?.[key] === undefined) continue;
+    if (!valid(auth.body[key])) {
+      return NextResponse.json({ error: `${key} 값이 올바르지 않습니다` }, { status: 400 });
+    }
+    patch[key] = typeof auth.body[key] === "string" ? auth.body[key].trim() : auth.body[key];
+  }
+  if (!Object.keys(patch).length) {
+    return NextResponse.json({ error: "변경할 항목이 없습니다" }, { status: 400 });
+  }
+
+  try {
+    const { data, error } = await supabaseAdmin
+      .from("bot_settings")
+      .upsert({ ref_code: refCode, ...patch, updated_at: new Date().toISOString() }, { onConflict: "ref_code" })
+      .select(SETTINGS_COLUMNS)
+      .single();
+    if (error) throw error;
+
+    console.log("🤖 봇 세팅 저장:", refCode, Object.keys(patch).filter((k) => !k.startsWith("okx_api_")));
+    return NextResponse.json({ settings: data });
+  } catch (e: any) {
+    console.error("❌ 봇 세팅 저장 실패:", e?.message ?? e);
+    return NextResponse.json({ error: "봇 세팅 저장 실패", detail: e?.message ?? e }, { status: 500 });
+  }
+}
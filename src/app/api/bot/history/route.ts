@@ -1,9 +1,14 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { requireUserSession } from "@/lib/walletAuth";
+
+// ref_code 는 로그인 세션의 지갑으로 결정 (요청 본문 무시)
+export async function POST() {
+  const auth = await requireUserSession({ requireUser: true });
+  if (auth.response) return auth.response;
+  const ref_code = auth.user!.ref_code;
 
-export async function POST(req: NextRequest) {
   try {
-    const { ref_code } = await req.json();
     const url = process.env.NEXT_PUBLIC_SUPABASE_URL!;
     const key = process.env.SUPABASE_SERVICE_ROLE_KEY!; // 서버 전용
     const sb = createClient(url, key);
@@ -2,9 +2,9 @@
 import { NextResponse } from "next/server";
 import { polygon } from "thirdweb/chains";
 import { client } from "@/lib/client";
-import { privateKeyToAccount } from "thirdweb/wallets";
 import { prepareTransaction, sendTransaction, toWei } from "thirdweb";
 import { createClient } from "@supabase/supabase-js";
+import { getSigner } from "@/lib/signer";
 
 const isProd = process.env.NODE_ENV === "production";
 
@@ -45,13 +45,9 @@ export async function POST(req: Request) {
     }
 
     // ── ② 환경변수 확인 ─────────────────────────────────────────
-    const adminPk = process.env.ADMIN_PRIVATE_KEY;
     const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
     const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
 
-    if (!adminPk) {
-      return json({ ok: false, stage: "env", error: "ADMIN_PRIVATE_KEY not set" }, 500);
-    }
     if (!supabaseUrl || !serviceRoleKey) {
       return json({ ok: false, stage: "env", error: "Supabase server env not set" }, 500);
     }
@@ -80,12 +76,12 @@ export async function POST(req: Request) {
       return json({ ok: true, skipped: true });
     }
 
-    // ── ⑤ 운영자 지갑 준비 ─────────────────────────────────────
+    // ── ⑤ 가스 지급용 지갑 준비 (리워드 지급 지갑과 분리) ───────
     let admin;
     try {
-      admin = privateKeyToAccount({ client, privateKey: adminPk });
+      admin = await getSigner("gas");
     } catch (e: any) {
-      return json({ ok: false, stage: "admin_wallet", error: "failed to init admin wallet", detail: describeError(e) }, 500);
+      return json({ ok: false, stage: "gas_wallet", error: "failed to init gas wallet", detail: describeError(e) }, 500);
     }
 
     // ── ⑥ 0.5 MATIC 전송 준비/보내기 ────────────────────────────
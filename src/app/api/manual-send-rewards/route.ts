@@ -1,10 +1,14 @@
 // 📁 src/app/api/manual-send-rewards/route.ts
 import { NextRequest, NextResponse } from "next/server";
-import { supabase } from "@/lib/supabaseClient";
-import { sendUSDT } from "@/lib/sendUSDT";
+import { runApprovedPayouts } from "@/lib/payoutEngine";
 import { getKSTISOString } from "@/lib/dateUtil";
+import { requireAdmin } from "@/lib/adminAuth";
+import { recordAudit } from "@/lib/adminAudit";
 
 export async function GET(req: NextRequest) {
+  const auth = await requireAdmin(req, "treasurer");
+  if (auth.response) return auth.response;
+
   const date = req.nextUrl.searchParams.get("date");
   if (!date) {
     return NextResponse.json({ error: "날짜가 없습니다" }, { status: 400 });
@@ -13,56 +17,18 @@ export async function GET(req: NextRequest) {
   console.log("✅ [MANUAL SEND] 실행됨:", getKSTISOString());
   console.log("📆 지정 날짜:", date);
 
-  const { data: transfers, error } = await supabase
-    .from("reward_transfers")
-    .select("ref_code, wallet_address, total_amount")
-    .eq("reward_date", date)
-    .eq("status", "failed"); // ✅ failed만 처리
-
-  if (error || !transfers) {
-    console.error("❌ 송금 대상 조회 실패:", error);
-    return NextResponse.json({ error: "송금 대상 조회 실패", detail: error }, { status: 500 });
-  }
-
-  console.log("📌 송금 대상 수:", transfers.length);
-
-  const results: any[] = [];
-  for (const entry of transfers) {
-    const total = Number(entry.total_amount);
-    if (isNaN(total) || total <= 0 || !entry.wallet_address) {
-      console.warn("⚠️ 잘못된 송금 대상:", entry.ref_code, entry.total_amount);
-      results.push({ ...entry, status: "skipped", reason: "금액 또는 주소 오류" });
-      continue;
-    }
-
-    let status = "failed";
-    let tx_hash = null;
-    let error_message = "";
-
-    try {
-      const { transactionHash } = await sendUSDT(entry.wallet_address, total);
-      tx_hash = transactionHash;
-      status = "completed";
-      console.log("✅ 송금 성공:", tx_hash);
-    } catch (err: any) {
-      status = "failed";
-      error_message = err.message || "송금 중 오류";
-      console.error("❌ 송금 실패:", entry.wallet_address, error_message);
-    }
-
-    await supabase
-      .from("reward_transfers")
-      .update({
-        tx_hash,
-        status,
-        error_message,
-        executed_at: getKSTISOString(),
-      })
-      .eq("ref_code", entry.ref_code)
-      .eq("reward_date", date);
-
-    results.push({ ...entry, tx_hash, status });
+  try {
+    // ✅ 승인된 묶음의 failed만 처리
+    const summary = await runApprovedPayouts(date, { statuses: ["failed"], source: "manual" });
+    await recordAudit(req, auth.admin, {
+      action: "payout.manual_send",
+      table: "reward_transfers",
+      targetId: date,
+      meta: { ...summary, summaries: undefined },
+    });
+    return NextResponse.json({ success: true, count: summary.processed, ...summary });
+  } catch (e: any) {
+    console.error("❌ 송금 실행 실패:", e);
+    return NextResponse.json({ error: "송금 실행 실패", detail: e?.message ?? e }, { status: 500 });
   }
-
-  return NextResponse.json({ success: true, count: results.length, results });
 }
@@ -0,0 +1,42 @@
+// 📁 src/app/api/notifications/preferences/route.ts
+// 내 알림 설정 (마이페이지 > 알림 설정) — 로그인 세션 / 서명한 지갑의 회원만
+import { NextResponse } from "next/server";
+import { requireUserSession, requireWallet } from "@/lib/walletAuth";
+import { getNotificationPreferences, saveNotificationPreferences } from "@/lib/notifications";
+import { isChannelConfigured } from "@/lib/notificationChannels";
+
+export const dynamic = "force-dynamic";
+
+// 서버에 설정이 없는 채널은 화면에서 끈다
+const availableChannels = () => ({
+  email: isChannelConfigured("email"),
+  telegram: isChannelConfigured("telegram"),
+  push: isChannelConfigured("push"),
+});
+
+export async function GET() {
+  const auth = await requireUserSession({ requireUser: true });
+  if (auth.response) return auth.response;
+
+  try {
+    const preferences = await getNotificationPreferences(auth.user!.ref_code);
+    return NextResponse.json({ preferences, channels: availableChannels() });
+  } catch (e: any) {
+    console.error("❌ 알림 설정 조회 실패:", e?.message ?? e);
+    return NextResponse.json({ error: "알림 설정 조회 실패", detail: e?.message ?? e }, { status: 500 });
+  }
+}
+
+// { email?, email_enabled?, telegram_chat_id?, telegram_enabled?, push_enabled?, muted_kinds? }
+export async function PATCH(req: Request) {
+  const auth = await requireWallet(req, { requireUser: true });
+  if (auth.response) return auth.response;
+
+  try {
+    const preferences = await saveNotificationPreferences(auth.user!.ref_code, auth.body ?? {});
+    return NextResponse.json({ preferences, channels: availableChannels() });
+  } catch (e: any) {
+    console.warn("⚠️ 알림 설정 저장 실패:", e?.message ?? e);
+    return NextResponse.json({ error: e?.message ?? "알림 설정 저장 실패" }, { status: 400 });
+  }
+}
@@ -0,0 +1,53 @@
+// 📁 src/app/api/notifications/push/route.ts
+// Web Push 구독 등록 / 해제 (브라우저 PushSubscription.toJSON() 그대로)
+import { NextResponse } from "next/server";
+import { requireWallet } from "@/lib/walletAuth";
+import { deletePushSubscription, savePushSubscription } from "@/lib/notifications";
+import { isAllowedPushEndpoint } from "@/lib/notificationChannels";
+
+// { endpoint, keys: { p256dh, auth } }
+export async function POST(req: Request) {
+  const auth = await requireWallet(req, { requireUser: true });
+  if (auth.response) return auth.response;
+
+  const endpoint = String(auth.body?.endpoint ?? "").trim();
+  const p256dh = String(auth.body?.keys?.p256dh ?? "").trim();
+  const authKey = String(auth.body?.keys?.auth ?? "").trim();
+  if (!p256dh || !authKey) {
+    return NextResponse.json({ error: "푸시 구독 정보가 올바르지 않습니다" }, { status: 400 });
+  }
+  // 서버가 endpoint 로 직접 요청하므로 알려진 푸시 서비스만 허용
+  if (!isAllowedPushEndpoint(endpoint)) {
+    return NextResponse.json({ error: "지원하지 않는 푸시 서비스 주소입니다" }, { status: 400 });
+  }
+
+  try {
+    const result = await savePushSubscription(
+      auth.user!.ref_code,
+      { endpoint, p256dh, auth: authKey },
+      req.headers.get("user-agent")
+    );
+    if (!result.ok) return NextResponse.json({ error: result.message }, { status: 409 });
+    return NextResponse.json({ ok: true });
+  } catch (e: any) {
+    console.error("❌ 푸시 구독 저장 실패:", e?.message ?? e);
+    return NextResponse.json({ error: "푸시 구독 저장 실패", detail: e?.message ?? e }, { status: 500 });
+  }
+}
+
+// { endpoint } — 내 구독만 삭제
+export async function DELETE(req: Request) {
+  const auth = await requireWallet(req, { requireUser: true });
+  if (auth.response) return auth.response;
+
+  const endpoint = String(auth.body?.endpoint ?? "").trim();
+  if (!endpoint) return NextResponse.json({ error: "endpoint 가 필요합니다" }, { status: 400 });
+
+  try {
+    await deletePushSubscription(endpoint, auth.user!.ref_code);
+    return NextResponse.json({ ok: true });
+  } catch (e: any) {
+    console.error("❌ 푸시 구독 삭제 실패:", e?.message ?? e);
+    return NextResponse.json({ error: "푸시 구독 삭제 실패", detail: e?.message ?? e }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+// 📁 src/app/api/notifications/test/route.ts
+// 테스트 알림 — 켜 둔 채널로 바로 발송하고 채널별 결과를 돌려준다 (muted_kinds 와 무관)
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { requireWallet } from "@/lib/walletAuth";
+import { dispatchNotification, queueNotification, type NotificationRow } from "@/lib/notifications";
+import { getKSTISOString } from "@/lib/dateUtil";
+
+export async function POST(req: Request) {
+  const auth = await requireWallet(req, { requireUser: true });
+  if (auth.response) return auth.response;
+
+  try {
+    const id = await queueNotification({
+      refCode: auth.user!.ref_code,
+      kind: "test",
+      title: "테스트 알림",
+      body: `알림 설정이 정상입니다. (${getKSTISOString().slice(0, 19).replace("T", " ")})`,
+      link: "/mypage/notifications",
+    });
+    if (!id) throw new Error("테스트 알림 저장 실패");
+
+    const { data, error } = await supabaseAdmin
+      .from("notifications")
+      .select("id, ref_code, kind, title, body, link, data, created_at, dispatched_at")
+      .eq("id", id)
+      .single();
+    if (error) throw error;
+
+    const results = await dispatchNotification(data as NotificationRow);
+    if (!results.length) {
+      return NextResponse.json({ error: "켜져 있는 알림 채널이 없습니다" }, { status: 400 });
+    }
+    return NextResponse.json({ results });
+  } catch (e: any) {
+    console.error("❌ 테스트 알림 실패:", e?.message ?? e);
+    return NextResponse.json({ error: "테스트 알림 실패", detail: e?.message ?? e }, { status: 500 });
+  }
+}
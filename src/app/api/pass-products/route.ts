@@ -0,0 +1,15 @@
+// 📁 src/app/api/pass-products/route.ts
+// 판매 중인 패스 상품 목록 (스토어 / 결제 모달)
+import { NextResponse } from "next/server";
+import { listPassProducts } from "@/lib/passProducts";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    return NextResponse.json({ products: await listPassProducts({ activeOnly: true }) });
+  } catch (e: any) {
+    console.error("❌ 패스 상품 조회 실패:", e?.message ?? e);
+    return NextResponse.json({ error: "상품 조회 실패", detail: e?.message ?? e }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+// 📁 src/app/api/purchases/quote/route.ts
+// 패스 결제 견적 — 신규 / 연장 / 업그레이드(크레딧 차감) 결제 금액과 기간 (src/lib/subscriptions.ts)
+//   조회 전용이라 로그인 세션으로 확인 (요청 서명 없음)
+//   결제 모달은 이 amount_due 만큼 전송하고, /api/purchases/verify 가 같은 규칙으로 다시 계산해 확인한다
+import { NextRequest, NextResponse } from "next/server";
+import { requireUserSession } from "@/lib/walletAuth";
+import { getPassProduct } from "@/lib/passProducts";
+import { quotePurchase } from "@/lib/subscriptions";
+import { applyPromoCode } from "@/lib/promoCodes";
+
+export const dynamic = "force-dynamic";
+
+// ?product_id=&promo_code=  (코드가 쓸 수 없으면 400 + 사유)
+export async function GET(req: NextRequest) {
+  const auth = await requireUserSession({ requireUser: true });
+  if (auth.response) return auth.response;
+
+  try {
+    const product = await getPassProduct(req.nextUrl.searchParams.get("product_id") ?? "", { activeOnly: true });
+    if (!product) {
+      return NextResponse.json({ error: "판매 중인 패스가 아닙니다" }, { status: 400 });
+    }
+    const priced = await applyPromoCode(
+      [await quotePurchase(auth.user!.ref_code, product)],
+      req.nextUrl.searchParams.get("promo_code"),
+      auth.user!
+    );
+    if (!priced.ok) {
+      return NextResponse.json({ error: priced.message, promo: true }, { status: 400 });
+    }
+    return NextResponse.json({ quote: priced.quotes[0] });
+  } catch (e: any) {
+    console.error("❌ 패스 견적 실패:", e?.message ?? e);
+    return NextResponse.json({ error: "견적 조회 실패", detail: e?.message ?? e }, { status: 500 });
+  }
+}
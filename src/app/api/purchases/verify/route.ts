@@ -0,0 +1,45 @@
+// 📁 src/app/api/purchases/verify/route.ts
+// 패스 결제 확인 — 서명한 지갑이 보낸 USDT 전송을 체인에서 확인한 뒤에만 enrollments 행을 만든다
+//   202 = 아직 블록 확인 전 (잠시 후 같은 요청 재시도), 409 = 이미 사용된 tx_hash
+import { NextResponse } from "next/server";
+import { requireWallet } from "@/lib/walletAuth";
+import { getPassProduct } from "@/lib/passProducts";
+import { isTxHash, verifyPassPurchase } from "@/lib/passPurchases";
+
+const STATUS_BY_REASON = { pending: 202, duplicate: 409, invalid: 400 } as const;
+
+// { tx_hash, product_id, promo_code? }
+export async function POST(req: Request) {
+  const auth = await requireWallet(req, { requireUser: true });
+  if (auth.response) return auth.response;
+
+  const txHash = String(auth.body?.tx_hash ?? "");
+  if (!isTxHash(txHash)) {
+    return NextResponse.json({ error: "tx_hash 가 올바르지 않습니다" }, { status: 400 });
+  }
+
+  try {
+    // 견적 이후 판매 중지된 상품이어도 이미 보낸 결제는 확인한다
+    const product = await getPassProduct(String(auth.body?.product_id ?? ""));
+    if (!product) {
+      return NextResponse.json({ error: "패스 상품을 찾을 수 없습니다" }, { status: 400 });
+    }
+
+    const result = await verifyPassPurchase(
+      auth.user!,
+      product,
+      { txHash, wallet: auth.wallet },
+      auth.body?.promo_code ? String(auth.body.promo_code) : null
+    );
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.message, pending: result.reason === "pending" },
+        { status: STATUS_BY_REASON[result.reason] }
+      );
+    }
+    return NextResponse.json({ enrollment: result.enrollment });
+  } catch (e: any) {
+    console.error("❌ 패스 결제 확인 실패:", e?.message ?? e);
+    return NextResponse.json({ error: "결제 확인 실패", detail: e?.message ?? e }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { getKSTISOString } from "@/lib/dateUtil"; // joined_date는 DB가 자동 계산
+import { requireUserSession } from "@/lib/walletAuth";
 
 // ✅ 서버 전용: 서비스 롤 키 사용
 const supabase = createClient(
@@ -35,9 +36,13 @@ async function generateNextReferralCode(): Promise<string> {
 
 export async function POST(req: NextRequest) {
   try {
-    const body = await req.json();
+    // 지갑 주소는 로그인 세션에서만 (본문 주소는 세션과 같을 때만 허용)
+    const auth = await requireUserSession();
+    if (auth.response) return auth.response;
+
+    const body = await req.json().catch(() => ({}));
     const {
-      wallet_address,
+      wallet_address = auth.wallet,
       email = "",
       phone = "01000000000",
       ref_by = "MK1001",
@@ -46,11 +51,10 @@ export async function POST(req: NextRequest) {
       okx_uid = null,    // 선택값
     } = body;
 
-    if (!wallet_address) {
-      return NextResponse.json({ error: "지갑 주소는 필수입니다." }, { status: 400 });
-    }
-
     const normalizedAddress = String(wallet_address).toLowerCase();
+    if (normalizedAddress !== auth.wallet) {
+      return NextResponse.json({ error: "로그인한 지갑과 주소가 다릅니다." }, { status: 403 });
+    }
 
     // 🔍 중복 사용자 확인(지갑 → 이메일 순)
     let existing: any = null;
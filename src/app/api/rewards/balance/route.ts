@@ -0,0 +1,19 @@
+// 📁 src/app/api/rewards/balance/route.ts
+// 내 적립 잔액 (마이페이지) — 로그인 세션의 회원만
+import { NextResponse } from "next/server";
+import { requireUserSession } from "@/lib/walletAuth";
+import { getRewardBalance } from "@/lib/rewardBalance";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  const auth = await requireUserSession({ requireUser: true });
+  if (auth.response) return auth.response;
+
+  try {
+    return NextResponse.json(await getRewardBalance(auth.user!.ref_code));
+  } catch (e: any) {
+    console.error("❌ 적립 잔액 조회 실패:", e);
+    return NextResponse.json({ error: "적립 잔액 조회 실패", detail: e?.message ?? e }, { status: 500 });
+  }
+}
@@ -1,23 +1,25 @@
 // src/app/api/start-bot/route.ts
-import { NextRequest } from "next/server";
+import { requireUserSession } from "@/lib/walletAuth";
+import { callRemoteBot } from "@/lib/remoteBot";
+import { getSubscription } from "@/lib/subscriptions";
 
-export async function POST(req: NextRequest) {
-  const REMOTE = process.env.REMOTE_API_BASE || "https://snowmart.co.kr";
+// ref_code 는 로그인 세션의 지갑으로 결정 (다른 유저의 봇 제어 불가)
+export async function POST() {
+  const auth = await requireUserSession({ requireUser: true });
+  if (auth.response) return auth.response;
+  const refCode = auth.user!.ref_code;
 
   try {
-    const body = await req.json();
-
-    // 15초 타임아웃
-    const controller = new AbortController();
-    const timer = setTimeout(() => controller.abort(), 15000);
-
-    const r = await fetch(`${REMOTE}/start-bot`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(body),
-      signal: controller.signal,
-    }).finally(() => clearTimeout(timer));
+    // 패스가 만료되면 만료 작업(passExpiry.ts)이 봇을 끈다 → 다시 켜는 것도 막는다
+    const sub = await getSubscription(refCode);
+    if (!sub?.active) {
+      return new Response(JSON.stringify({ success: false, detail: "유효한 패스가 없어 봇을 시작할 수 없습니다" }), {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
 
+    const r = await callRemoteBot("start-bot", refCode);
     const text = await r.text();
     return new Response(text, {
       status: r.status,
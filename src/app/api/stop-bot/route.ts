@@ -1,22 +1,14 @@
 // src/app/api/stop-bot/route.ts
-import { NextRequest } from "next/server";
+import { requireUserSession } from "@/lib/walletAuth";
+import { callRemoteBot } from "@/lib/remoteBot";
 
-export async function POST(req: NextRequest) {
-  const REMOTE = process.env.REMOTE_API_BASE || "https://snowmart.co.kr";
+// ref_code 는 로그인 세션의 지갑으로 결정 (다른 유저의 봇 제어 불가)
+export async function POST() {
+  const auth = await requireUserSession({ requireUser: true });
+  if (auth.response) return auth.response;
 
   try {
-    const body = await req.json();
-
-    const controller = new AbortController();
-    const timer = setTimeout(() => controller.abort(), 15000);
-
-    const r = await fetch(`${REMOTE}/stop-bot`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(body),
-      signal: controller.signal,
-    }).finally(() => clearTimeout(timer));
-
+    const r = await callRemoteBot("stop-bot", auth.user!.ref_code);
     const text = await r.text();
     return new Response(text, {
       status: r.status,
@@ -0,0 +1,50 @@
+// 📁 src/app/api/users/me/route.ts
+// 내 정보 수정 (마이페이지 / 가입 정보 / 초대 코드) — 서명한 지갑의 users 행만
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { requireWallet } from "@/lib/walletAuth";
+
+// 사용자가 직접 바꿀 수 있는 컬럼
+const EDITABLE = ["name", "email", "phone", "okx_uid"] as const;
+
+// { name?, email?, phone?, okx_uid?, ref_by? }  — ref_by 는 비어 있을 때 한 번만
+export async function PATCH(req: Request) {
+  const auth = await requireWallet(req, { requireUser: true });
+  if (auth.response) return auth.response;
+
+  const patch: Record<string, string> = {};
+  for (const key of EDITABLE) {
+    if (auth.body?.[key] === undefined) continue;
+    patch[key] = String(auth.body[key] ?? "").trim();
+  }
+
+  const user = auth.user!;
+  if (auth.body?.ref_by !== undefined) {
+    const refBy = String(auth.body.ref_by ?? "").trim();
+    if (user.ref_by) return NextResponse.json({ error: "추천인은 이미 등록되어 있습니다" }, { status: 409 });
+    if (!refBy || refBy === user.ref_code) {
+      return NextResponse.json({ error: "추천 코드가 올바르지 않습니다" }, { status: 400 });
+    }
+    const { data: referrer } = await supabaseAdmin.from("users").select("ref_code").eq("ref_code", refBy).maybeSingle();
+    if (!referrer) return NextResponse.json({ error: "존재하지 않는 추천 코드입니다" }, { status: 400 });
+    patch.ref_by = refBy;
+  }
+
+  if (!Object.keys(patch).length) {
+    return NextResponse.json({ error: "변경할 항목이 없습니다" }, { status: 400 });
+  }
+
+  try {
+    let q = supabaseAdmin.from("users").update(patch).eq("id", user.id);
+    if (patch.ref_by) q = q.is("ref_by", null);
+    const { data, error } = await q.select("*").maybeSingle();
+    if (error) throw error;
+    if (!data) return NextResponse.json({ error: "추천인은 이미 등록되어 있습니다" }, { status: 409 });
+
+    const { api_key, secret_key, ...safe } = data as any;
+    return NextResponse.json({ user: safe });
+  } catch (e: any) {
+    console.error("❌ 내 정보 수정 실패:", e?.message ?? e);
+    return NextResponse.json({ error: "내 정보 수정 실패", detail: e?.message ?? e }, { status: 500 });
+  }
+}
@@ -0,0 +1,100 @@
+// 📁 src/app/api/withdrawals/route.ts
+// 출금 기록 — 사용자가 보낸 USDT 전송을 usdt_history 에 남긴다
+//   보낸 사람 = 서명한 지갑, 받는 사람이 내부 유저면 입금(in) 행도 함께
+//   본문의 금액 / tx_hash 는 믿지 않고 영수증에서 서명 지갑 → to, 정확히 amount 인 USDT Transfer 를 확인한다
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { requireWallet } from "@/lib/walletAuth";
+import { getKSTDateString } from "@/lib/dateUtil";
+import { findReceipt, getUSDTTransfersInReceipt, toUSDTUnits } from "@/lib/sendUSDT";
+
+// { to, amount, tx_hash }
+export async function POST(req: Request) {
+  const auth = await requireWallet(req, { requireUser: true });
+  if (auth.response) return auth.response;
+
+  const to = String(auth.body?.to ?? "").toLowerCase();
+  const amount = Number(auth.body?.amount);
+  const txHash = String(auth.body?.tx_hash ?? "");
+  if (!/^0x[a-f0-9]{40}$/.test(to)) {
+    return NextResponse.json({ error: "받는 주소가 올바르지 않습니다" }, { status: 400 });
+  }
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return NextResponse.json({ error: "금액이 올바르지 않습니다" }, { status: 400 });
+  }
+  if (!/^0x[a-fA-F0-9]{64}$/.test(txHash)) {
+    return NextResponse.json({ error: "tx_hash 가 올바르지 않습니다" }, { status: 400 });
+  }
+
+  const sender = auth.user!;
+  const today = getKSTDateString();
+
+  try {
+    // 같은 트랜잭션의 출금은 한 번만 기록 (대소문자 무관)
+    const { data: existing, error: dupErr } = await supabaseAdmin
+      .from("usdt_history")
+      .select("id, direction")
+      .in("tx_hash", [txHash, txHash.toLowerCase()]);
+    if (dupErr) throw dupErr;
+    if (existing?.some((r) => r.direction === "out")) {
+      return NextResponse.json({ error: "이미 기록된 출금입니다" }, { status: 409 });
+    }
+
+    // 체인에서 직접 확인: 성공한 tx 안에 서명 지갑 → to, amount 와 같은 USDT Transfer
+    const receipt = await findReceipt(txHash as `0x${string}`);
+    if (!receipt) {
+      return NextResponse.json({ error: "트랜잭션이 아직 블록에 포함되지 않았습니다", pending: true }, { status: 202 });
+    }
+    if (receipt.status !== "success") {
+      return NextResponse.json({ error: "실패한 트랜잭션입니다" }, { status: 400 });
+    }
+    const matched = getUSDTTransfersInReceipt(receipt, to).some(
+      (t) => t.from === auth.wallet.toLowerCase() && toUSDTUnits(t.amount) === toUSDTUnits(amount)
+    );
+    if (!matched) {
+      console.warn("⚠️ 출금 기록 검증 실패:", sender.ref_code, txHash, { to, amount });
+      return NextResponse.json({ error: `내 지갑에서 ${to} 로 ${amount} USDT 가 전송된 기록이 없습니다` }, { status: 400 });
+    }
+
+    const { data: receiver, error: recvErr } = await supabaseAdmin
+      .from("users")
+      .select("ref_code")
+      .eq("wallet_address", to)
+      .maybeSingle();
+    if (recvErr) console.warn("수신자 조회 실패:", recvErr.message);
+    const receiverRef: string | null = receiver?.ref_code ?? null;
+
+    const { error: outErr } = await supabaseAdmin.from("usdt_history").insert({
+      ref_code: sender.ref_code,
+      direction: "out",
+      amount,
+      tx_hash: txHash.toLowerCase(),
+      status: "completed",
+      wallet_address: auth.wallet,
+      purpose: receiverRef ? "user" : "external",
+      reward_date: today,
+    });
+    if (outErr) throw outErr;
+    console.log("[✅ 출금(out) 기록 성공]", sender.ref_code, amount);
+
+    // 내부 유저인 경우에만 입금(in) 기록 — 웹훅이 먼저 남긴 입금이 있으면 생략
+    if (receiverRef && !existing?.some((r) => r.direction === "in")) {
+      const { error: inErr } = await supabaseAdmin.from("usdt_history").insert({
+        ref_code: receiverRef,
+        direction: "in",
+        amount,
+        tx_hash: txHash.toLowerCase(),
+        status: "completed",
+        wallet_address: to,
+        purpose: "user",
+        reward_date: today,
+      });
+      if (inErr) console.warn("❌ 유저간 입금(in) 기록 실패:", inErr.message);
+    }
+
+    return NextResponse.json({ success: true, internal: !!receiverRef });
+  } catch (e: any) {
+    console.error("❌ 출금 기록 실패:", e?.message ?? e);
+    return NextResponse.json({ error: "출금 기록 실패", detail: e?.message ?? e }, { status: 500 });
+  }
+}
@@ -3,7 +3,9 @@
 
 import { Suspense, useEffect, useMemo, useState } from "react";
 import { useSearchParams, useRouter } from "next/navigation";
+import { useActiveAccount } from "thirdweb/react";
 import { supabase } from "@/lib/supabaseClient";
+import { walletFetch } from "@/lib/walletRequest";
 import { ShieldCheck } from "lucide-react";
 
 export const dynamic = "force-dynamic";
@@ -20,6 +22,7 @@ function OkxConnectInner() {
   const router = useRouter();
   const sp = useSearchParams();
   const refCode = sp.get("ref") ?? "";
+  const account = useActiveAccount();
 
   // (선택 표시용)
   const [name, setName] = useState("");
@@ -71,6 +74,10 @@ function OkxConnectInner() {
       alert("진입 코인 수(coin_qty)는 1 이상의 정수여야 합니다.");
       return;
     }
+    if (!account) {
+      alert("지갑이 연결되지 않았습니다.");
+      return;
+    }
     if (walletAddress && !/^0x[a-fA-F0-9]{40}$/.test(walletAddress)) {
       alert("지갑 주소 형식이 올바르지 않습니다. (0x로 시작 42자)");
       return;
@@ -88,15 +95,13 @@ function OkxConnectInner() {
         okx_api_passphrase: passphrase.trim(),
         tp_diff: preset.tp,
         sl_diff: preset.sl,
-        updated_at: new Date().toISOString(),
       };
 
-      const { error } = await supabase
-        .from("bot_settings")
-        .upsert(payload, { onConflict: "ref_code", ignoreDuplicates: false });
-
-      if (error) {
-        alert("저장 실패: " + error.message);
+      // API 키는 서버에서 저장 (서명한 지갑의 ref_code 와 다르면 거부)
+      try {
+        await walletFetch(account, "/api/bot-settings", { method: "PATCH", body: payload });
+      } catch (err: any) {
+        alert("저장 실패: " + (err?.message ?? err));
         return;
       }
 
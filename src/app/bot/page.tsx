@@ -7,8 +7,8 @@ import TopBar from "@/components/TopBar";
 import BottomNav from "@/components/BottomNav";
 import { supabase } from "@/lib/supabaseClient";
 import { useActiveAccount } from "thirdweb/react";
+import { ensureUserSession } from "@/lib/walletRequest";
 import PassCard from "@/components/PassCard";
-import { getKSTDateString } from "@/lib/dateUtil";
 
 // 카드 컴포넌트
 import OkxApiCard from "@/components/CoinWApiCard";          // ✅ 변경: CoinW → OKX
@@ -24,10 +24,8 @@ export default function BotPage() {
   const [instId, setInstId] = useState("XRP-USDT-SWAP");  // ✅ 기본 인스트루먼트
   const [coinQty, setcoinQty] = useState("1");          // ✅ 계약 수(문자열 상태로 보관 → 저장 시 정수 변환)
 
-  // ===== API (OKX) =====
-  const [okxApiKey, setOkxApiKey] = useState("");
-  const [okxApiSecret, setOkxApiSecret] = useState("");
-  const [okxApiPassphrase, setOkxApiPassphrase] = useState("");
+  // ===== API (OKX) ===== 키 원문은 서버에만 있고 등록 여부만 받는다
+  const [hasApi, setHasApi] = useState(false);
 
   // ===== 유저/상태 =====
   const account = useActiveAccount();
@@ -50,16 +48,13 @@ export default function BotPage() {
       return;
     }
     try {
-      const todayKst = getKSTDateString();
       const { data, error } = await supabase
-        .from("enrollments")
-        .select("id")
+        .from("subscriptions")
+        .select("active")
         .eq("ref_code", refCode)
-        .ilike("memo", "%결제 완료%")
-        .gte("pass_expired_at", todayKst)
-        .limit(1);
+        .maybeSingle();
 
-      setHasMembership(!error && !!data && data.length > 0);
+      setHasMembership(!error && !!data?.active);
     } catch {
       setHasMembership(false);
     }
@@ -81,24 +76,26 @@ export default function BotPage() {
       setRefCode(userRow.ref_code);
       setName(userRow.name ?? "");
 
-      const { data: botRow } = await supabase
-        .from("bot_settings")
-        .select("inst_id, coin_qty, okx_api_key, okx_api_secret, okx_api_passphrase, enabled")
-        .eq("ref_code", userRow.ref_code)
-        .maybeSingle();
-
-      if (botRow) {
-        setInstId(botRow.inst_id || "XRP-USDT-SWAP");
-        setcoinQty(String(botRow.coin_qty ?? "1"));
-        setOkxApiKey(botRow.okx_api_key ?? "");
-        setOkxApiSecret(botRow.okx_api_secret ?? "");
-        setOkxApiPassphrase(botRow.okx_api_passphrase ?? "");
-        setBotStatus(botRow.enabled ? "running" : "stopped");
-      } else {
-        setBotStatus("stopped");
+      // 봇 세팅은 로그인 세션으로 서버에서 (/api/bot-settings)
+      if (!account) return;
+      try {
+        await ensureUserSession(account);
+        const res = await fetch("/api/bot-settings", { cache: "no-store" });
+        const { settings: botRow, has_api } = res.ok ? await res.json() : ({} as any);
+
+        setHasApi(!!has_api);
+        if (botRow) {
+          setInstId(botRow.inst_id || "XRP-USDT-SWAP");
+          setcoinQty(String(botRow.coin_qty ?? "1"));
+          setBotStatus(botRow.enabled ? "running" : "stopped");
+        } else {
+          setBotStatus("stopped");
+        }
+      } catch (e: any) {
+        console.warn("⚠️ 봇 세팅 조회 실패:", e?.message ?? e);
       }
     })();
-  }, [walletAddress]);
+  }, [walletAddress, account]);
 
   // refCode 준비되면 멤버십 1회 확인
   useEffect(() => {
@@ -170,9 +167,6 @@ export default function BotPage() {
     return () => document.removeEventListener("visibilitychange", onVisible);
   }, [checkMembership]);
 
-  // OKX API 3종이 모두 있어야 true
-  const hasApi = !!okxApiKey && !!okxApiSecret && !!okxApiPassphrase;
-
   return (
     <>
       <main className="min-h-screen bg-[#f5f7fa] pb-24">
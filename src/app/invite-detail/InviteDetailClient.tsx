@@ -2,16 +2,41 @@
 
 import { useEffect, useState } from "react";
 import { useSearchParams, useRouter } from "next/navigation";
+import { useActiveAccount } from "thirdweb/react";
 import { supabase } from "@/lib/supabaseClient";
 
+// 이 초대회원의 결제로 내가 받은 수당 1건 (commission_items)
+type CommissionItem = {
+  enrollment_id: string;
+  kind: "referral" | "center";
+  level: number | null;
+  rate: number;
+  base_amount: number;
+  amount: number;
+  enrolled_at: string | null;
+  reward_date: string;
+  reward_transfers: { status: string; tx_hash: string | null } | null;
+};
+
+const PAYOUT_LABEL: Record<string, string> = {
+  pending: "지급 예정",
+  processing: "지급 중",
+  broadcast: "지급 중",
+  completed: "지급 완료",
+  failed: "지급 지연",
+  skipped: "보류",
+  cancelled: "취소",
+};
+
 export default function InviteDetailClient() {
   const searchParams = useSearchParams();
   const router = useRouter();
   const refCode = searchParams.get("code");
+  const account = useActiveAccount();
 
   const [name, setName] = useState("");
   const [membership, setMembership] = useState<any | null>(null);
-  const [history, setHistory] = useState<{ date: string; amount: number }[]>([]);
+  const [items, setItems] = useState<CommissionItem[]>([]);
 
   // KST(UTC+9) YYYY-MM-DD 포맷터
   const toKSTDate = (d?: string | Date | null) => {
@@ -78,29 +103,30 @@ export default function InviteDetailClient() {
       }
       setMembership(enrollments?.[0] ?? null);
 
-      // 리워드 내역 조회
-      const { data: historyData, error: historyError } = await supabase
-        .from("reward_transfers")
-        .select("created_at, total_amount")
-        .eq("ref_code", refCode)
-        .order("created_at", { ascending: false });
+      // 이 회원의 결제 → 나에게 발생한 수당 (결제 건별)
+      if (!account?.address) return;
+      const { data: me } = await supabase
+        .from("users")
+        .select("ref_code")
+        .eq("wallet_address", account.address.toLowerCase())
+        .maybeSingle();
+      if (!me?.ref_code) return;
 
-      if (historyError) {
-        console.error("❌ 리워드 기록 조회 실패:", historyError.message);
-      }
+      const { data: itemData, error: itemError } = await supabase
+        .from("commission_items")
+        .select("enrollment_id, kind, level, rate, base_amount, amount, enrolled_at, reward_date, reward_transfers(status, tx_hash)")
+        .eq("beneficiary_ref_code", me.ref_code)
+        .eq("source_ref_code", refCode)
+        .order("enrolled_at", { ascending: false });
 
-      if (historyData) {
-        const formatted = historyData.map((item: any) => {
-          const kst = new Date(new Date(item.created_at).getTime() + 9 * 60 * 60 * 1000);
-          const dateStr = `${kst.getFullYear()}. ${kst.getMonth() + 1}. ${kst.getDate()}.`;
-          return { date: dateStr, amount: item.total_amount };
-        });
-        setHistory(formatted);
+      if (itemError) {
+        console.error("❌ 수당 내역 조회 실패:", itemError.message);
       }
+      setItems((itemData ?? []) as unknown as CommissionItem[]);
     };
 
     fetchData();
-  }, [refCode]);
+  }, [refCode, account?.address]);
 
   // 표시용 파생값
   const membershipTitle =
@@ -149,6 +175,39 @@ export default function InviteDetailClient() {
             </div>
           )}
         </div>
+
+        {/* 이 회원의 결제로 발생한 내 수당 */}
+        <h2 className="font-semibold text-sm text-gray-700 mt-6 mb-2 pl-2">수당 발생 내역</h2>
+
+        <div className="bg-white rounded-xl shadow p-4 flex flex-col space-y-2">
+          {items.length ? (
+            items.map((it) => (
+              <div
+                key={`${it.enrollment_id}-${it.kind}-${it.level ?? 0}`}
+                className="flex items-center justify-between border-b last:border-b-0 pb-2"
+              >
+                <div>
+                  <p className="text-xs text-gray-900">
+                    {toKSTDate(it.enrolled_at) ?? "-"} 결제 {Number(it.base_amount).toFixed(2)} USDT
+                  </p>
+                  <p className="text-[11px] text-gray-500">
+                    {it.kind === "referral" ? `추천 ${it.level ?? 1}단계` : "센터"} {Math.round(it.rate * 1000) / 10}% · 정산일 {it.reward_date}
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p className="text-sm font-semibold text-blue-600">+{Number(it.amount).toFixed(2)}</p>
+                  <p className="text-[11px] text-gray-500">
+                    {PAYOUT_LABEL[it.reward_transfers?.status ?? ""] ?? "-"}
+                  </p>
+                </div>
+              </div>
+            ))
+          ) : (
+            <div className="text-center text-sm text-gray-500 py-6">
+              아직 발생한 수당이 없어요
+            </div>
+          )}
+        </div>
       </div>
     </main>
   );
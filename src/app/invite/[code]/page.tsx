@@ -4,6 +4,7 @@ import { useEffect } from "react";
 import { useRouter, useParams } from "next/navigation";
 import { useActiveAccount } from "thirdweb/react";
 import { supabase } from "@/lib/supabaseClient";
+import { walletFetch } from "@/lib/walletRequest";
 
 export default function InviteRedirectPage() {
   const router = useRouter();
@@ -37,18 +38,14 @@ export default function InviteRedirectPage() {
         return;
       }
 
-      if (!user?.ref_by) {
-        const { error: updateError } = await supabase
-          .from("users")
-          .update({ ref_by: code })
-          .eq("wallet_address", wallet);
-
-        if (updateError) {
-          console.error("❌ 추천코드 저장 실패:", updateError.message);
-        } else {
+      if (user && !user.ref_by) {
+        try {
+          await walletFetch(account, "/api/users/me", { method: "PATCH", body: { ref_by: code } });
           console.log("✅ 추천코드 저장 완료");
+        } catch (e: any) {
+          console.error("❌ 추천코드 저장 실패:", e?.message ?? e);
         }
-      } else {
+      } else if (user) {
         console.log("ℹ️ 이미 추천인 설정됨:", user.ref_by);
       }
 
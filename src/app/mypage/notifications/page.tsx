@@ -0,0 +1,277 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useActiveAccount } from "thirdweb/react";
+import TopBar from "@/components/TopBar";
+import BottomNav from "@/components/BottomNav";
+import { ensureUserSession, walletFetch } from "@/lib/walletRequest";
+import {
+  NOTIFICATION_KIND_LABELS,
+  type NotificationChannel,
+  type NotificationPreferences,
+} from "@/lib/notificationKinds";
+
+const VAPID_PUBLIC_KEY = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY ?? "";
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  email: "이메일",
+  telegram: "텔레그램",
+  push: "브라우저 푸시",
+};
+
+// VAPID 공개키 (base64url) → applicationServerKey
+function urlBase64ToUint8Array(base64: string) {
+  const padded = (base64 + "=".repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, "+").replace(/_/g, "/");
+  const raw = atob(padded);
+  return Uint8Array.from(raw, (c) => c.charCodeAt(0));
+}
+
+const pushSupported = () =>
+  typeof window !== "undefined" && "serviceWorker" in navigator && "PushManager" in window && "Notification" in window;
+
+export default function NotificationSettingsPage() {
+  const account = useActiveAccount();
+
+  const [prefs, setPrefs] = useState<NotificationPreferences | null>(null);
+  const [channels, setChannels] = useState<Record<NotificationChannel, boolean> | null>(null);
+  const [emailInput, setEmailInput] = useState("");
+  const [chatIdInput, setChatIdInput] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [testing, setTesting] = useState(false);
+
+  // 로그인 세션으로 내 설정 조회
+  useEffect(() => {
+    if (!account) return;
+    ensureUserSession(account)
+      .then(() => fetch("/api/notifications/preferences", { cache: "no-store" }))
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!data) return;
+        setPrefs(data.preferences);
+        setChannels(data.channels);
+        setEmailInput(data.preferences.email ?? "");
+        setChatIdInput(data.preferences.telegram_chat_id ?? "");
+      })
+      .catch((err) => console.warn("⚠️ 알림 설정 조회 실패:", err));
+  }, [account]);
+
+  const save = async (patch: Partial<NotificationPreferences>) => {
+    if (!account) return false;
+    setSaving(true);
+    try {
+      const data = await walletFetch(account, "/api/notifications/preferences", { method: "PATCH", body: patch });
+      setPrefs(data.preferences);
+      return true;
+    } catch (e: any) {
+      alert("저장 실패: " + (e?.message ?? e));
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // 브라우저 푸시: 권한 요청 → 서비스워커 구독 → 서버 등록 (끌 때는 구독 해제)
+  const togglePush = async (enabled: boolean) => {
+    if (!account) return;
+    if (!pushSupported()) {
+      alert("이 브라우저는 푸시 알림을 지원하지 않습니다.");
+      return;
+    }
+    try {
+      const registration = await navigator.serviceWorker.register("/sw.js");
+      if (enabled) {
+        const permission = await Notification.requestPermission();
+        if (permission !== "granted") {
+          alert("브라우저 알림 권한이 필요합니다.");
+          return;
+        }
+        const subscription =
+          (await registration.pushManager.getSubscription()) ??
+          (await registration.pushManager.subscribe({
+            userVisibleOnly: true,
+            applicationServerKey: urlBase64ToUint8Array(VAPID_PUBLIC_KEY),
+          }));
+        await walletFetch(account, "/api/notifications/push", { method: "POST", body: subscription.toJSON() });
+      } else {
+        const subscription = await registration.pushManager.getSubscription();
+        if (subscription) {
+          await walletFetch(account, "/api/notifications/push", {
+            method: "DELETE",
+            body: { endpoint: subscription.endpoint },
+          });
+          await subscription.unsubscribe();
+        }
+      }
+      await save({ push_enabled: enabled });
+    } catch (e: any) {
+      console.error("❌ 푸시 설정 실패:", e);
+      alert("푸시 설정 실패: " + (e?.message ?? e));
+    }
+  };
+
+  const toggleKind = (kind: string, on: boolean) => {
+    if (!prefs) return;
+    const muted = on ? prefs.muted_kinds.filter((k) => k !== kind) : [...prefs.muted_kinds, kind];
+    save({ muted_kinds: muted });
+  };
+
+  const sendTest = async () => {
+    if (!account) return;
+    setTesting(true);
+    try {
+      const data = await walletFetch(account, "/api/notifications/test", { method: "POST", body: {} });
+      const lines = (data.results ?? []).map(
+        (r: any) =>
+          `${CHANNEL_LABELS[r.channel as NotificationChannel]}: ${r.status === "sent" ? "✅ 발송" : `❌ 실패 (${r.error})`}`
+      );
+      alert(lines.join("\n"));
+    } catch (e: any) {
+      alert("테스트 알림 실패: " + (e?.message ?? e));
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  if (!account || !prefs || !channels) {
+    return (
+      <main className="min-h-screen flex items-center justify-center bg-[#f5f7fa]">
+        <p className="text-gray-500 text-sm">알림 설정 불러오는 중...</p>
+      </main>
+    );
+  }
+
+  return (
+    <>
+      <TopBar title="알림 설정" showBack />
+      <main className="min-h-screen bg-[#f5f7fa] pb-16 w-full">
+        <div className="px-4 pt-2 max-w-[500px] mx-auto">
+          {/* 받을 채널 */}
+          <section className="mb-2">
+            <h2 className="text-md font-semibold text-gray-700 mb-1 pl-2">받을 채널</h2>
+            <div className="bg-white rounded-xl shadow border text-sm divide-y divide-gray-200">
+              {/* 이메일 */}
+              <div className="px-4 py-3 space-y-2">
+                <ToggleRow
+                  label="이메일"
+                  checked={prefs.email_enabled}
+                  disabled={!channels.email || saving}
+                  onChange={(v) => save({ email_enabled: v, email: emailInput })}
+                />
+                <div className="flex gap-2">
+                  <input
+                    type="email"
+                    value={emailInput}
+                    onChange={(e) => setEmailInput(e.target.value)}
+                    placeholder="알림 받을 이메일"
+                    className="flex-1 border rounded px-2 py-1"
+                  />
+                  <button
+                    onClick={() => save({ email: emailInput })}
+                    disabled={saving || emailInput === (prefs.email ?? "")}
+                    className="text-blue-500 disabled:text-gray-300"
+                  >
+                    저장
+                  </button>
+                </div>
+              </div>
+
+              {/* 텔레그램 */}
+              <div className="px-4 py-3 space-y-2">
+                <ToggleRow
+                  label="텔레그램"
+                  checked={prefs.telegram_enabled}
+                  disabled={!channels.telegram || saving}
+                  onChange={(v) => save({ telegram_enabled: v, telegram_chat_id: chatIdInput })}
+                />
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={chatIdInput}
+                    onChange={(e) => setChatIdInput(e.target.value)}
+                    placeholder="텔레그램 chat id"
+                    className="flex-1 border rounded px-2 py-1"
+                  />
+                  <button
+                    onClick={() => save({ telegram_chat_id: chatIdInput })}
+                    disabled={saving || chatIdInput === (prefs.telegram_chat_id ?? "")}
+                    className="text-blue-500 disabled:text-gray-300"
+                  >
+                    저장
+                  </button>
+                </div>
+                <p className="text-xs text-gray-500">알림 봇에게 /start 를 보낸 뒤 받은 chat id 를 입력하세요.</p>
+              </div>
+
+              {/* 브라우저 푸시 */}
+              <div className="px-4 py-3">
+                <ToggleRow
+                  label="브라우저 푸시"
+                  checked={prefs.push_enabled}
+                  disabled={!channels.push || !VAPID_PUBLIC_KEY || saving}
+                  onChange={togglePush}
+                />
+              </div>
+
+              {(!channels.email || !channels.telegram || !channels.push) && (
+                <p className="px-4 py-2 text-xs text-gray-500">
+                  회색으로 표시된 채널은 현재 서비스에서 제공하지 않습니다.
+                </p>
+              )}
+            </div>
+          </section>
+
+          {/* 알림 종류 */}
+          <section className="mb-2">
+            <h2 className="text-md font-semibold text-gray-700 mb-1 pl-2">알림 종류</h2>
+            <div className="bg-white rounded-xl shadow border text-sm divide-y divide-gray-200">
+              {Object.entries(NOTIFICATION_KIND_LABELS).map(([kind, label]) => (
+                <div key={kind} className="px-4 py-3">
+                  <ToggleRow
+                    label={label}
+                    checked={!prefs.muted_kinds.includes(kind)}
+                    disabled={saving}
+                    onChange={(v) => toggleKind(kind, v)}
+                  />
+                </div>
+              ))}
+            </div>
+          </section>
+
+          <button
+            onClick={sendTest}
+            disabled={testing}
+            className="w-full bg-blue-600 text-white py-2 rounded-lg font-semibold mb-4 disabled:opacity-50"
+          >
+            {testing ? "발송 중..." : "테스트 알림 보내기"}
+          </button>
+        </div>
+        <BottomNav />
+      </main>
+    </>
+  );
+}
+
+function ToggleRow({
+  label,
+  checked,
+  disabled,
+  onChange,
+}: {
+  label: string;
+  checked: boolean;
+  disabled?: boolean;
+  onChange: (checked: boolean) => void;
+}) {
+  return (
+    <label className={`flex justify-between items-center ${disabled ? "text-gray-400" : ""}`}>
+      <span>{label}</span>
+      <input
+        type="checkbox"
+        checked={checked}
+        disabled={disabled}
+        onChange={(e) => onChange(e.target.checked)}
+        className="w-4 h-4"
+      />
+    </label>
+  );
+}
@@ -6,6 +6,8 @@ import { useActiveAccount, useActiveWallet } from "thirdweb/react";
 import BottomNav from "@/components/BottomNav";
 import TopBar from "@/components/TopBar";
 import { supabase } from "@/lib/supabaseClient";
+import type { RewardBalance } from "@/lib/rewardBalance";
+import { ensureUserSession, walletFetch } from "@/lib/walletRequest";
 
 export default function MyPage() {
   const account = useActiveAccount();
@@ -17,6 +19,19 @@ export default function MyPage() {
   const [nameInput, setNameInput] = useState("");
   const [phoneInput, setPhoneInput] = useState("");
   const [uidInput, setUidInput] = useState("");
+  const [balance, setBalance] = useState<RewardBalance | null>(null);
+
+  // 내 정보 수정은 지갑 서명 후 서버에서 (/api/users/me)
+  const saveField = async (col: "name" | "phone" | "okx_uid", value: string) => {
+    if (!account) return;
+    try {
+      await walletFetch(account, "/api/users/me", { method: "PATCH", body: { [col]: value } });
+      setEditingField(null);
+      setUserData({ ...userData, [col]: value });
+    } catch (e: any) {
+      alert("저장 실패: " + (e?.message ?? e));
+    }
+  };
 
   useEffect(() => {
     const fetchUserData = async () => {
@@ -51,6 +66,16 @@ export default function MyPage() {
     fetchUserData();
   }, [account]);
 
+  // 적립 잔액 (최소 지급액 미만 이월분 포함) — 로그인 세션으로 서버에서
+  useEffect(() => {
+    if (!account) return;
+    ensureUserSession(account)
+      .then(() => fetch("/api/rewards/balance", { cache: "no-store" }))
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => setBalance(data))
+      .catch((err) => console.warn("⚠️ 적립 잔액 조회 실패:", err));
+  }, [account]);
+
   if (!account) {
     return (
       <main className="min-h-screen flex items-center justify-center bg-[#f5f7fa]">
@@ -89,17 +114,7 @@ export default function MyPage() {
                   setEditingField("name");
                   setNameInput(userData?.name || "");
                 }}
-                onSave={async () => {
-                  const { error } = await supabase
-                    .from("users")
-                    .update({ name: nameInput })
-                    .eq("wallet_address", account.address.toLowerCase());
-
-                  if (!error) {
-                    setEditingField(null);
-                    setUserData({ ...userData, name: nameInput });
-                  }
-                }}
+                onSave={() => saveField("name", nameInput)}
                 inputValue={nameInput}
                 onInputChange={setNameInput}
               />
@@ -113,17 +128,7 @@ export default function MyPage() {
                   setEditingField("phone");
                   setPhoneInput(userData?.phone || "");
                 }}
-                onSave={async () => {
-                  const { error } = await supabase
-                    .from("users")
-                    .update({ phone: phoneInput })
-                    .eq("wallet_address", account.address.toLowerCase());
-
-                  if (!error) {
-                    setEditingField(null);
-                    setUserData({ ...userData, phone: phoneInput });
-                  }
-                }}
+                onSave={() => saveField("phone", phoneInput)}
                 inputValue={phoneInput}
                 onInputChange={setPhoneInput}
               />
@@ -159,23 +164,41 @@ export default function MyPage() {
                   setEditingField("okx_uid");
                   setUidInput(userData?.okx_uid || "");
                 }}
-                onSave={async () => {
-                  const { error } = await supabase
-                    .from("users")
-                    .update({ okx_uid: uidInput })
-                    .eq("wallet_address", account.address.toLowerCase());
-
-                  if (!error) {
-                    setEditingField(null);
-                    setUserData({ ...userData, okx_uid: uidInput });
-                  }
-                }}
+                onSave={() => saveField("okx_uid", uidInput)}
                 inputValue={uidInput}
                 onInputChange={setUidInput}
               />
             </div>
           </section>
 
+          {/* 리워드 적립 잔액 */}
+          {balance && (
+            <section className="mb-2">
+              <h2 className="text-md font-semibold text-gray-700 mb-1 pl-2">리워드 잔액</h2>
+              <div className="bg-white rounded-xl shadow border text-sm divide-y divide-gray-200">
+                <div className="flex justify-between px-4 py-3">
+                  <span>미지급 적립 잔액</span>
+                  <span className="font-semibold text-gray-800">{balance.accrued.toFixed(2)} USDT</span>
+                </div>
+                <div className="flex justify-between px-4 py-3 text-gray-600">
+                  <span>송금 대기</span>
+                  <span>{balance.scheduled.toFixed(2)} USDT</span>
+                </div>
+                <div className="flex justify-between px-4 py-3 text-gray-600">
+                  <span>다음 정산 이월</span>
+                  <span>{balance.carried.toFixed(2)} USDT</span>
+                </div>
+                <div className="flex justify-between px-4 py-3 text-gray-600">
+                  <span>누적 지급 완료</span>
+                  <span>{balance.paid.toFixed(2)} USDT</span>
+                </div>
+                <p className="px-4 py-2 text-xs text-gray-500">
+                  정산 금액이 {balance.min_payout} USDT 미만이면 송금하지 않고 다음 정산으로 이월됩니다.
+                </p>
+              </div>
+            </section>
+          )}
+
           {/* 내역관리 */}
           <section className="mb-2">
             <h2 className="text-md font-semibold text-gray-700 mb-1 pl-2">내역관리</h2>
@@ -187,6 +210,13 @@ export default function MyPage() {
                 <span>USDT 입출금 내역</span>
                 <img src="/icon-go.png" alt="이동" className="w-4 h-4" />
               </button>
+              <button
+                onClick={() => router.push("/mypage/notifications")}
+                className="w-full px-4 py-3 hover:bg-gray-50 flex justify-between items-center"
+              >
+                <span>알림 설정</span>
+                <img src="/icon-go.png" alt="이동" className="w-4 h-4" />
+              </button>
             </div>
           </section>
 
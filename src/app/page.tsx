@@ -11,6 +11,7 @@ import { polygon } from "thirdweb/chains";
 import { client } from "@/lib/client";
 import { toast } from "react-hot-toast";
 import { supabase } from "@/lib/supabaseClient";
+import { ensureUserSession } from "@/lib/walletRequest";
 
 export default function MainPage() {
   const account = useActiveAccount();
@@ -31,17 +32,19 @@ useEffect(() => {
     }
   }
 
-  // ✅ /api/register 호출
-  fetch("/api/register", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      wallet_address: account.address.toLowerCase(),
-      ref_by: refBy,
-    }),
-  })
+  // ✅ 지갑 로그인(세션) → /api/register 호출 (지갑 주소는 서버가 세션에서 읽음)
+  ensureUserSession(account)
+    .then(() =>
+      fetch("/api/register", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          ref_by: refBy,
+        }),
+      })
+    )
     .then((res) => res.json())
     .then(async () => {
       // ✅ 유저 정보 불러오기 (ref_code, name 포함)
@@ -3,7 +3,7 @@
 import { useState } from "react";
 import { useRouter } from "next/navigation";
 import { useActiveAccount } from "thirdweb/react";
-import { supabase } from "@/lib/supabaseClient";
+import { walletFetch } from "@/lib/walletRequest";
 import { ChevronLeft } from "lucide-react";
 
 export default function RegisterInfoPage() {
@@ -37,22 +37,21 @@ export default function RegisterInfoPage() {
     const fullPhone = `+82${phone}`;
 
     setSaving(true);
-    const { error } = await supabase
-      .from("users")
-      .update({
-        name: name.trim(),
-        email: email.trim(),
-        phone: fullPhone,
-        okx_uid: okxUid.trim(), // ✅ 컬럼명 변경
-      })
-      .eq("wallet_address", account.address.toLowerCase());
-
-    setSaving(false);
-
-    if (error) {
-      alert("저장 실패: " + error.message);
-    } else {
+    try {
+      await walletFetch(account, "/api/users/me", {
+        method: "PATCH",
+        body: {
+          name: name.trim(),
+          email: email.trim(),
+          phone: fullPhone,
+          okx_uid: okxUid.trim(), // ✅ 컬럼명 변경
+        },
+      });
       router.push("/bot");
+    } catch (e: any) {
+      alert("저장 실패: " + (e?.message ?? e));
+    } finally {
+      setSaving(false);
     }
   };
 
@@ -11,30 +11,17 @@ import TopBar from "@/components/TopBar";
 import BottomNav from "@/components/BottomNav";
 import PassPurchaseModal from "@/components/PassPurchaseModal";
 import { client } from "@/lib/client";
+import { passName, passPeriodLabel, type PassProduct } from "@/lib/passCatalog";
+import { retryPendingPurchases } from "@/lib/pendingPurchases";
 
 // ✅ 구독 상태 조회용
 import { supabase } from "@/lib/supabaseClient";
 
 const USDT_ADDRESS = "0xc2132D05D31c914a87C6611C10748AEb04B58e8F";
 
-// 제목 비교 시 공백 차이 방지
-const normalize = (s: string) => (s || "").replace(/\s+/g, "").toLowerCase().trim();
-// 숫자 비교 보강용(100/300/600/1200)
-const leadNum = (s?: string) => {
-  const m = (s ?? "").toString().match(/\d+/);
-  return m ? m[0] : "";
-};
-
-// (선택) 가격→타이틀 매핑 (유지)
-const PASS_TITLE_BY_PRICE: Record<number, string> = {
-  100: "100 USDT",
-  300: "300 USDT",
-  600: "600 USDT",
-  1200: "1200 USDT",
-};
-
 type CurrentPass = {
   title: string;
+  productId: string | null;
   expiresAt: string; // YYYY-MM-DD
 };
 
@@ -46,12 +33,8 @@ export default function HomePage() {
   const balanceCalled = useRef(false);
 
   const [usdtBalance, setUsdtBalance] = useState("조회 중...");
-  const [selectedPass, setSelectedPass] = useState<{
-    name: string;
-    period: string;
-    price: number;
-    image: string;
-  } | null>(null);
+  const [selectedPass, setSelectedPass] = useState<PassProduct | null>(null);
+  const [products, setProducts] = useState<PassProduct[]>([]);
 
   // ✅ 구독 상태
   const [hasMembership, setHasMembership] = useState(false);
@@ -91,7 +74,7 @@ export default function HomePage() {
     }
   };
 
-  // ✅ 구독 유효성만 체크: pass_expired_at >= TODAY
+  // ✅ 구독 유효성 체크: subscriptions.active (만료일 >= 오늘 KST)
   const checkMembership = async (wallet?: string) => {
     const w = (wallet || account?.address || "").toLowerCase();
     if (!w) {
@@ -118,27 +101,20 @@ export default function HomePage() {
         return;
       }
 
-      // 오늘 기준 유효 구독 조회
-      const today = new Date().toISOString().slice(0, 10);
-      const { data: enrolls } = await supabase
-        .from("enrollments")
-        .select("pass_type, pass_expired_at")
+      // 현재 구독 (subscriptions 뷰: 연장분까지 포함한 최종 만료일)
+      const { data: sub } = await supabase
+        .from("subscriptions")
+        .select("pass_type, product_id, expires_at, active")
         .eq("ref_code", rc)
-        .gte("pass_expired_at", today)
-        .order("pass_expired_at", { ascending: false })
-        .limit(1);
-
-      if (enrolls && enrolls.length > 0) {
-        // pass_type은 TEXT로 저장됨 → 문자열로 처리
-        const e = enrolls[0] as { pass_type: string; pass_expired_at: string };
-        // 혹시 숫자만 들어오는 경우를 대비한 fallback
-        const numericKey = parseInt(leadNum(e.pass_type) || "", 10);
-        const title =
-          (e.pass_type ?? "").toString().trim() ||
-          (isFinite(numericKey) ? PASS_TITLE_BY_PRICE[numericKey] : "이모탈 멤버십");
+        .maybeSingle();
 
+      if (sub?.active) {
         setHasMembership(true);
-        setCurrentPass({ title, expiresAt: e.pass_expired_at });
+        setCurrentPass({
+          title: (sub.pass_type ?? "").toString().trim() || "이모탈 멤버십",
+          productId: sub.product_id ?? null,
+          expiresAt: sub.expires_at,
+        });
       } else {
         setHasMembership(false);
         setCurrentPass(null);
@@ -150,12 +126,28 @@ export default function HomePage() {
     }
   };
 
+  // ✅ 판매 중인 패스 목록 (pass_products)
+  useEffect(() => {
+    fetch("/api/pass-products")
+      .then((res) => res.json())
+      .then((json) => setProducts(json.products ?? []))
+      .catch((err) => console.error("pass products error:", err));
+  }, []);
+
   // ✅ 초기 구독 상태 로드
   useEffect(() => {
     if (!account?.address) return;
     checkMembership(account.address);
   }, [account?.address]);
 
+  // ✅ 결제 후 확인되지 못한 건(창 닫힘 등) 재확인
+  useEffect(() => {
+    if (!account) return;
+    retryPendingPurchases(account).then((created) => {
+      if (created > 0) checkMembership(account.address);
+    });
+  }, [account]);
+
   // ✅ 구독 테이블 실시간 반영
   useEffect(() => {
     if (!refCode) return;
@@ -250,47 +242,32 @@ export default function HomePage() {
         <section className="bg-white rounded-xl shadow px-4 py-3">
           <h3 className="text-sm font-bold text-blue-500 mb-2">이모탈멤버십 구독하기</h3>
 
-          {[
-            { title: "100 USDT ", price: "1 USDT / 1개월", image: "/pass-300.png" },
-            { title: "300 USDT", price: "300 USDT / 3개월 + 7일", image: "/pass-1800.png" },
-            { title: "600 USDT", price: "600 USDT / 6개월 + 1개월", image: "/pass-3600.png" },
-            { title: "1200 USDT", price: "1200 USDT / 12개월 + 3개월", image: "/pass-vip.png" },
-          ].map((pass, idx) => {
-            const priceNum = parseFloat(pass.price.replace("USDT", "").split("/")[0].trim());
-
-            // ✅ 현재 활성 패스만 구독중으로 표시 (문자 정규화 + 숫자 비교)
-            const isThisActive =
-              !!currentPass &&
-              (normalize(currentPass.title) === normalize(pass.title) ||
-                leadNum(currentPass.title) === leadNum(pass.title));
+          {products.map((pass) => {
+            // ✅ 현재 활성 패스 (상품 ID 비교)
+            const isThisActive = !!currentPass && currentPass.productId === pass.id;
 
             return (
-              <div key={idx} className="flex items-center justify-between py-2">
+              <div key={pass.id} className="flex items-center justify-between py-2">
                 <div className="flex items-center space-x-3">
-                  <img src={pass.image} className="w-9 h-9" />
+                  <img src={pass.image || "/pass-300.png"} className="w-9 h-9" />
                   <div>
-                    <p className="font-bold text-gray-800 text-sm">{pass.title}</p>
-                    <p className="text-[12px] text-gray-500">{pass.price}</p>
+                    <p className="font-bold text-gray-800 text-sm">{passName(pass)}</p>
+                    <p className="text-[12px] text-gray-500">
+                      {pass.price} USDT / {passPeriodLabel(pass)}
+                    </p>
                   </div>
                 </div>
 
+                {/* 구독 중에도 구매 가능: 같은 패스는 만료일부터 연장, 더 비싼 패스는 업그레이드 (결제 모달 견적) */}
                 <button
-                  onClick={() =>
-                    setSelectedPass({
-                      name: pass.title,
-                      period: pass.price.split("/")[1].trim(),
-                      price: priceNum,
-                      image: pass.image,
-                    })
-                  }
-                  disabled={isThisActive}
+                  onClick={() => setSelectedPass(pass)}
                   className={`text-[12px] font-semibold px-3 py-1 rounded-full ${
                     isThisActive
-                      ? "bg-gray-200 text-gray-500 cursor-not-allowed"
+                      ? "bg-emerald-500 text-white hover:bg-emerald-600"
                       : "bg-blue-500 text-white hover:bg-blue-600"
                   }`}
                 >
-                  {isThisActive ? "구독중" : "구독신청"}
+                  {isThisActive ? "연장하기" : hasMembership ? "변경하기" : "구독신청"}
                 </button>
               </div>
             );
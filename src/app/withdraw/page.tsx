@@ -7,14 +7,14 @@ import {
   getContract,
   prepareContractCall,
   sendTransaction,
+  waitForReceipt,
 } from "thirdweb";
 import { polygon } from "thirdweb/chains";
 import { balanceOf } from "thirdweb/extensions/erc20";
 import { client } from "@/lib/client";
 import { useRouter } from "next/navigation";
 import { ChevronLeft } from "lucide-react";
-import { supabase } from "@/lib/supabaseClient";
-import { getKSTDateString, getKSTISOString } from "@/lib/dateUtil";
+import { walletFetch } from "@/lib/walletRequest";
 
 const USDT_ADDRESS = "0xc2132D05D31c914a87C6611C10748AEb04B58e8F";
 
@@ -54,36 +54,6 @@ export default function WithdrawPage() {
     fetchBalance();
   }, [account]); // eslint-disable-line react-hooks/exhaustive-deps
 
-  // =============================
-  // ✅ 추가: DB 보조 유틸 함수들
-  // =============================
-
-  // users 테이블에서 지갑주소(소문자)로 유저 찾기
-  async function findUserByWalletLower(addrLower: string) {
-    const { data, error } = await supabase
-      .from("users")
-      .select("ref_code, wallet_address")
-      .eq("wallet_address", addrLower)
-      .maybeSingle();
-    if (error) throw error;
-    return data ?? null;
-  }
-
-  // usdt_history에 한 줄 기록 (예외 throw)
-  async function insertUsdtHistory(row: {
-    ref_code: string;
-    direction: "in" | "out";
-    amount: number;
-    tx_hash: string;
-    status: "pending" | "completed" | "failed";
-    wallet_address: string | null;
-    purpose: "user" | "reward" | "external" | null;
-    reward_date: string; // KST 'YYYY-MM-DD'
-  }) {
-    const { error } = await supabase.from("usdt_history").insert(row);
-    if (error) throw error;
-  }
-
   // =============================
   // ✅ 수정: 출금 처리
   // =============================
@@ -108,7 +78,6 @@ export default function WithdrawPage() {
     setStatus("출금 처리 중...");
 
     try {
-      const senderWallet = account.address.toLowerCase();
       const receiverWallet = toAddress.toLowerCase();
       const amountInWei = BigInt(Math.floor(amountNumber * 10 ** 6));
 
@@ -125,71 +94,19 @@ export default function WithdrawPage() {
       });
 
       const txHash = result.transactionHash;
+      // 서버가 영수증으로 전송 내역을 확인하므로 블록 포함까지 기다린다
+      await waitForReceipt({ client, chain: polygon, transactionHash: txHash });
       console.log("✅ 트랜잭션 성공:", txHash);
       setStatus(`✅ 출금 성공! TX: ${txHash}`);
 
-      const today = getKSTDateString();
-      const now = getKSTISOString(); // 현재는 미사용이지만 기존 import 유지
-
-      // ====== 보낸 사람 ref_code 조회 ======
-      let senderRef = "unknown";
-      try {
-        const { data: me } = await supabase
-          .from("users")
-          .select("ref_code")
-          .eq("wallet_address", senderWallet)
-          .maybeSingle();
-        if (me?.ref_code) senderRef = me.ref_code;
-      } catch (e) {
-        console.warn("❌ ref_code 조회 실패(보낸사람):", e);
-      }
-
-      // ====== 항상 출금자(out) 기록 ======
-      // 외부 전송이면 purpose를 "external"로 바꾸고 싶다면 아래 줄을 "external"로 바꾸세요.
-      let outPurpose: "user" | "external" = "user";
-
-      // 수신자가 내부 유저인지 먼저 조회 (에러 무시하고 null 처리)
-      let receiverRef: string | null = null;
+      // ====== 출금 기록 (서버에서 보낸/받는 사람 확인 후 usdt_history 저장) ======
       try {
-        const internalUser = await findUserByWalletLower(receiverWallet);
-        receiverRef = internalUser?.ref_code ?? null;
-        if (!receiverRef) outPurpose = "external";
-      } catch (e) {
-        console.warn("수신자 조회 실패:", e);
-        outPurpose = "external";
-      }
-
-      await insertUsdtHistory({
-        ref_code: senderRef, // 가능하면 users에 항상 존재하도록 보장
-        direction: "out",
-        amount: amountNumber,
-        tx_hash: txHash, // 해시 그대로 사용 (“-recv” 같은 접미사 제거)
-        status: "completed",
-        wallet_address: senderWallet,
-        purpose: outPurpose,
-        reward_date: today,
-      });
-      console.log("[✅ 출금(out) 기록 성공]");
-
-      // ====== 내부 유저인 경우에만 입금(in) 기록 ======
-      if (receiverRef) {
-        try {
-          await insertUsdtHistory({
-            ref_code: receiverRef, // FK 존재 보장
-            direction: "in",
-            amount: amountNumber,
-            tx_hash: txHash,
-            status: "completed",
-            wallet_address: receiverWallet,
-            purpose: "user",
-            reward_date: today,
-          });
-          console.log("✅ 유저간 입금(in) 기록 성공");
-        } catch (e: any) {
-          console.warn("❌ 유저간 입금(in) 기록 실패:", e?.message || e);
-        }
-      } else {
-        console.info("[외부 지갑] in 기록 생략");
+        await walletFetch(account, "/api/withdrawals", {
+          body: { to: receiverWallet, amount: amountNumber, tx_hash: txHash },
+        });
+        console.log("[✅ 출금 기록 성공]");
+      } catch (e: any) {
+        console.warn("❌ 출금 기록 실패:", e?.message || e);
       }
 
       // ====== 잔액 갱신 ======
@@ -1,47 +1,37 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { createContext, useContext, useEffect, useState } from "react";
+import { usePathname, useRouter } from "next/navigation";
+import type { AdminRole } from "@/lib/adminSession";
 
-const ADMIN_PASSWORD = process.env.NEXT_PUBLIC_ADMIN_PASSWORD;
+export type AdminInfo = { username: string; role: AdminRole };
 
+const AdminContext = createContext<AdminInfo | null>(null);
+
+// 현재 로그인한 관리자 (AdminAuth 안에서만 값이 있음)
+export function useAdmin() {
+  return useContext(AdminContext);
+}
+
+// 세션은 서버(HTTP-only 쿠키)에서 검증 — 여기서는 누가 로그인했는지만 가져온다
 export default function AdminAuth({ children }: { children: React.ReactNode }) {
-  const [authorized, setAuthorized] = useState(false);
-  const [password, setPassword] = useState("");
+  const router = useRouter();
+  const pathname = usePathname();
+  const [admin, setAdmin] = useState<AdminInfo | null>(null);
 
   useEffect(() => {
-    const saved = localStorage.getItem("admin_access");
-    if (saved === "granted") setAuthorized(true);
-  }, []);
-
-  const handleLogin = () => {
-    if (password === ADMIN_PASSWORD) {
-      localStorage.setItem("admin_access", "granted");
-      setAuthorized(true);
-    } else {
-      alert("비밀번호가 틀렸습니다.");
-    }
-  };
-
-  if (!authorized) {
-    return (
-      <div className="p-10 max-w-md mx-auto">
-        <h2 className="text-lg font-bold mb-4">🔐 관리자 비밀번호 입력</h2>
-        <input
-          type="password"
-          className="border p-2 w-full mb-4"
-          placeholder="비밀번호"
-          value={password}
-          onChange={(e) => setPassword(e.target.value)}
-        />
-        <button
-          className="bg-blue-600 text-white px-4 py-2 rounded w-full"
-          onClick={handleLogin}
-        >
-          확인
-        </button>
-      </div>
-    );
+    fetch("/api/admin/session", { cache: "no-store" })
+      .then(async (res) => {
+        if (!res.ok) throw new Error("unauthorized");
+        const data = await res.json();
+        setAdmin(data.admin);
+      })
+      .catch(() => router.replace(`/admin/login?next=${encodeURIComponent(pathname ?? "/admin")}`));
+  }, [router, pathname]);
+
+  if (!admin) {
+    return <div className="p-10 text-center text-gray-500">관리자 확인 중…</div>;
   }
 
-  return <>{children}</>;
+  return <AdminContext.Provider value={admin}>{children}</AdminContext.Provider>;
 }
@@ -2,7 +2,8 @@
 "use client";
 
 import { useMemo, useState } from "react";
-import { supabase } from "@/lib/supabaseClient";
+import { useActiveAccount } from "thirdweb/react";
+import { walletFetch } from "@/lib/walletRequest";
 import { startBot, stopBot } from "@/lib/botApi";
 
 type Props = {
@@ -25,13 +26,14 @@ export default function BotControlCard({
   const [showStartModal, setShowStartModal] = useState(false);
   const [showStopModal, setShowStopModal] = useState(false);
   const [busy, setBusy] = useState(false);
+  const account = useActiveAccount();
 
   const qtyNum = useMemo(() => Number(coinQty), [coinQty]);
   // ✅ 소수 허용 + 최소 0.001
   const qtyValid = !Number.isNaN(qtyNum) && qtyNum >= 0.001;
 
   async function doStart() {
-    if (!refCode) return;
+    if (!refCode || !account) return;
     if (!hasApi) {
       alert("❗ 먼저 OKX API를 저장해주세요.");
       return;
@@ -48,16 +50,11 @@ export default function BotControlCard({
 
     setBusy(true);
     try {
-      await supabase
-        .from("bot_settings")
-        .upsert(
-          { ref_code: refCode, enabled: true, updated_at: new Date().toISOString() },
-          { onConflict: "ref_code" }
-        );
+      await walletFetch(account, "/api/bot-settings", { method: "PATCH", body: { ref_code: refCode, enabled: true } });
 
       onRunningChange?.(true);
 
-      startBot(refCode).catch((e) => console.warn("startBot error:", e));
+      startBot().catch((e) => console.warn("startBot error:", e));
       alert("🚀 봇 실행 시작됨");
     } catch (e: any) {
       console.error(e);
@@ -69,19 +66,14 @@ export default function BotControlCard({
   }
 
   async function doStop() {
-    if (!refCode) return;
+    if (!refCode || !account) return;
     setBusy(true);
     try {
-      await supabase
-        .from("bot_settings")
-        .upsert(
-          { ref_code: refCode, enabled: false, updated_at: new Date().toISOString() },
-          { onConflict: "ref_code" }
-        );
+      await walletFetch(account, "/api/bot-settings", { method: "PATCH", body: { ref_code: refCode, enabled: false } });
 
       onRunningChange?.(false);
 
-      stopBot(refCode).catch((e) => console.warn("stopBot error:", e));
+      stopBot().catch((e) => console.warn("stopBot error:", e));
       alert("🛑 봇 중지 완료");
     } catch (e: any) {
       console.error(e);
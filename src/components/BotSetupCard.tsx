@@ -2,7 +2,9 @@
 "use client";
 
 import { useEffect, useMemo, useState } from "react";
+import { useActiveAccount } from "thirdweb/react";
 import { supabase } from "@/lib/supabaseClient";
+import { walletFetch } from "@/lib/walletRequest";
 import { ChevronRight } from "lucide-react";
 
 type Props = {
@@ -43,6 +45,7 @@ export default function BotSetupCard({
   const [lev, setLev] = useState<number>(leverage ?? 20);
   const [loading, setLoading] = useState(false);
   const [savingInst, setSavingInst] = useState(false);
+  const account = useActiveAccount();
 
   useEffect(() => {
     if (!refCode) return;
@@ -80,22 +83,13 @@ export default function BotSetupCard({
     const d = DEFAULTS[next] ?? DEFAULTS["XRP-USDT-SWAP"];
     setQty(String(d.coinQty));
 
-    if (!refCode) return;
+    if (!refCode || !account) return;
     try {
       setSavingInst(true);
-      const { error } = await supabase
-        .from("bot_settings")
-        .upsert(
-          {
-            ref_code: refCode,
-            inst_id: next,
-            tp_diff: d.tp,
-            sl_diff: d.sl,
-            updated_at: new Date().toISOString(),
-          },
-          { onConflict: "ref_code" }
-        );
-      if (error) throw error;
+      await walletFetch(account, "/api/bot-settings", {
+        method: "PATCH",
+        body: { ref_code: refCode, inst_id: next, tp_diff: d.tp, sl_diff: d.sl },
+      });
     } catch (e) {
       console.error("인스트 변경 자동 저장 실패:", e);
       alert("❌ 인스트 변경 자동 저장 실패");
@@ -121,7 +115,7 @@ export default function BotSetupCard({
   );
 
   async function handleSave() {
-    if (!refCode) return;
+    if (!refCode || !account) return;
     if (qtyInvalid) {
       alert("❗ 코인 수량은 0보다 큰 숫자로 입력하세요.");
       return;
@@ -134,24 +128,17 @@ export default function BotSetupCard({
     const nQty = Number(qty);
 
     setLoading(true);
-    const { error } = await supabase
-      .from("bot_settings")
-      .upsert(
-        {
-          ref_code: refCode,
-          inst_id: inst,
-          coin_qty: nQty,
-          leverage: Math.trunc(lev),
-          updated_at: new Date().toISOString(),
-        },
-        { onConflict: "ref_code" }
-      );
-    setLoading(false);
-
-    if (error) {
-      console.error("세팅 저장 실패:", error.message);
+    try {
+      await walletFetch(account, "/api/bot-settings", {
+        method: "PATCH",
+        body: { ref_code: refCode, inst_id: inst, coin_qty: nQty, leverage: Math.trunc(lev) },
+      });
+    } catch (e: any) {
+      console.error("세팅 저장 실패:", e?.message ?? e);
       alert("❌ 세팅 저장 실패");
       return;
+    } finally {
+      setLoading(false);
     }
 
     onSaved?.({ instId: inst, coinQty: nQty, leverage: Math.trunc(lev) });
@@ -68,11 +68,7 @@ export default function BotStatusCard({ refCode }: Props) {
 
     try {
       // 1) 실시간 상태(백엔드 FastAPI 프록시)
-      const resp = await fetch("/api/bot/status", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ ref_code: effectiveRefCode }),
-      });
+      const resp = await fetch("/api/bot/status", { method: "POST" }); // ref_code 는 로그인 세션으로
       const json = (await resp.json()) as any;
 
       // /api/bot/status 응답 호환 처리
@@ -87,11 +83,7 @@ export default function BotStatusCard({ refCode }: Props) {
       }
 
       // 2) 최신 히스토리(Supabase) — 상태/메시지/시간
-      const resp2 = await fetch("/api/bot/history", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ ref_code: effectiveRefCode }),
-      });
+      const resp2 = await fetch("/api/bot/history", { method: "POST" }); // ref_code 는 로그인 세션으로
       const hist = await resp2.json();
 
       let nextStatus: BotStatus = realtime;
@@ -1,7 +1,9 @@
 "use client";
 
 import { useEffect, useState } from "react";
+import { useActiveAccount } from "thirdweb/react";
 import { supabase } from "@/lib/supabaseClient";
+import { walletFetch } from "@/lib/walletRequest";
 
 interface Props {
   walletAddress: string;
@@ -10,6 +12,7 @@ interface Props {
 export default function CoinWUidInput({ walletAddress }: Props) {
   const [uid, setUid] = useState("");
   const [saved, setSaved] = useState(false);
+  const account = useActiveAccount();
 
   useEffect(() => {
     if (!walletAddress) return;
@@ -29,12 +32,13 @@ export default function CoinWUidInput({ walletAddress }: Props) {
   }, [walletAddress]);
 
   const handleSave = async () => {
-    if (!uid || !walletAddress) return;
-    await supabase
-      .from("users")
-      .update({ okx_uid: uid })
-      .eq("wallet_address", walletAddress.toLowerCase());
-    setSaved(true);
+    if (!uid || !account) return;
+    try {
+      await walletFetch(account, "/api/users/me", { method: "PATCH", body: { okx_uid: uid } });
+      setSaved(true);
+    } catch (e: any) {
+      alert("저장 실패: " + (e?.message ?? e));
+    }
   };
 
   if (!walletAddress) return null;
@@ -5,11 +5,11 @@ import { supabase } from '@/lib/supabaseClient';
 import { getKSTDateString } from '@/lib/dateUtil';
 import Link from 'next/link';
 
+// subscriptions 뷰: ref_code 별 현재 구독 (연장분까지 포함한 최종 만료일)
 type Row = {
   pass_type: string | null;
-  created_at: string | null;        // timestamptz
-  pass_expired_at: string | null;   // date (YYYY-MM-DD)
-  memo: string | null;
+  purchased_at: string | null;  // timestamptz
+  expires_at: string | null;    // date (YYYY-MM-DD)
 };
 
 export default function PassCard({ refCode }: { refCode: string }) {
@@ -22,15 +22,11 @@ export default function PassCard({ refCode }: { refCode: string }) {
 
     (async () => {
       setLoading(true);
-      const todayKst = getKSTDateString();
       const { data, error } = await supabase
-        .from('enrollments')
-        .select('pass_type, created_at, pass_expired_at, memo')
+        .from('subscriptions')
+        .select('pass_type, purchased_at, expires_at')
         .eq('ref_code', refCode)
-        .ilike('memo', '%결제 완료%')
-        .gte('pass_expired_at', todayKst)
-        .order('pass_expired_at', { ascending: false })
-        .limit(1)
+        .eq('active', true)
         .maybeSingle();
 
       if (!cancelled) {
@@ -64,8 +60,8 @@ export default function PassCard({ refCode }: { refCode: string }) {
     );
   }
 
-  const created = row.created_at?.slice(0, 10) ?? '';
-  const expired = row.pass_expired_at ?? '';
+  const created = row.purchased_at?.slice(0, 10) ?? '';
+  const expired = row.expires_at ?? '';
 
   // 남은 일수 계산
   let warningText: string | null = null;
@@ -5,9 +5,10 @@ import { useActiveAccount } from "thirdweb/react";
 import { getContract, prepareContractCall, sendTransaction, waitForReceipt } from "thirdweb";
 import { polygon } from "thirdweb/chains";
 import { client } from "@/lib/client";
-import { supabase } from "@/lib/supabaseClient";
-// ✅ KST 날짜(YYYY-MM-DD) 저장용
-import { getKSTDateString } from "@/lib/dateUtil";
+import { PASS_RECEIVER, passName, passPeriodLabel, type PassProduct } from "@/lib/passCatalog";
+import { addPendingPurchase, verifyPurchase } from "@/lib/pendingPurchases";
+import { ensureUserSession } from "@/lib/walletRequest";
+import type { PurchaseKind, PurchaseQuote } from "@/lib/subscriptions";
 
 /* --------------------------- 성공 모달 --------------------------- */
 function PurchaseSuccessModal({ amount, onClose }: { amount: number; onClose: () => void }) {
@@ -34,81 +35,17 @@ function PurchaseSuccessModal({ amount, onClose }: { amount: number; onClose: ()
 }
 
 interface PassPurchaseModalProps {
-  selected: {
-    name: string;
-    period: string; // "3개월 + 7일" / "6개월 + 1개월" / "12개월 + 3개월" / "1개월" / "무제한"
-    price: number;
-    image: string;
-  };
+  selected: PassProduct;
   usdtBalance: number;
   onClose: () => void;
   onPurchased?: () => void;
 }
 
 const USDT_ADDRESS = "0xc2132D05D31c914a87C6611C10748AEb04B58e8F";
-const RECEIVER = "0x19f6De78084a3de630Ae698F31beaa09Aa399613";
-
-/* ------------------------------------------------------------------------------------------------
-   기간 파싱/계산 유틸 (추가 증정 기간 포함)
--------------------------------------------------------------------------------------------------*/
-
-// 공백/제로폭/비정규 한글 조합 안전 처리
-function parsePeriod(period: string): { unlimited: boolean; months: number; days: number } {
-  const raw = (period ?? "").toString().normalize("NFKC");
-  const txt = raw.replace(/[\s\u00A0\u200B\u200C\u200D]+/g, "");
-
-  if (txt.includes("무제한")) return { unlimited: true, months: 0, days: 0 };
-
-  let months = 0;
-  let days = 0;
-
-  const monthRegex = /(\d+)개월/g;
-  const dayRegex = /(\d+)일/g;
-
-  let m: RegExpExecArray | null;
-  while ((m = monthRegex.exec(txt)) !== null) months += Number(m[1]);
-  while ((m = dayRegex.exec(txt)) !== null) days += Number(m[1]);
-
-  return { unlimited: false, months, days };
-}
-
-// Date에 개월/일 추가 (월 말 보정)
-function addMonthsAndDays(base: Date, months: number, days: number): Date {
-  const d = new Date(base);
-  const targetMonth = d.getMonth() + months;
-  const targetYear = d.getFullYear() + Math.floor(targetMonth / 12);
-  const normalizedMonth = ((targetMonth % 12) + 12) % 12;
-
-  const originalDate = d.getDate();
-  const endOfTargetMonth = new Date(targetYear, normalizedMonth + 1, 0).getDate();
-  const finalDate = Math.min(originalDate, endOfTargetMonth);
-
-  const afterMonths = new Date(
-    targetYear,
-    normalizedMonth,
-    finalDate,
-    d.getHours(),
-    d.getMinutes(),
-    d.getSeconds(),
-    d.getMilliseconds()
-  );
-
-  afterMonths.setDate(afterMonths.getDate() + days);
-  return afterMonths;
-}
-
-// 미리보기/저장 둘 다 동일 함수 사용
-function computeExpiry(period: string, base = new Date()): Date {
-  const { unlimited, months, days } = parsePeriod(period);
-  if (unlimited) {
-    const d = new Date(base);
-    d.setFullYear(2099);
-    return d;
-  }
-  return addMonthsAndDays(base, months, days);
-}
-
-/* ------------------------------------------------------------------------------------------------ */
+const KIND_LABEL: Record<PurchaseKind, string> = { new: "신규 구독", renewal: "기간 연장", upgrade: "업그레이드" };
+// 결제 확인 재시도 (블록 확인 대기)
+const VERIFY_ATTEMPTS = 10;
+const VERIFY_INTERVAL_MS = 3000;
 
 export default function PassPurchaseModal({
   selected,
@@ -117,9 +54,18 @@ export default function PassPurchaseModal({
   onPurchased,
 }: PassPurchaseModalProps) {
   const account = useActiveAccount();
-  const insufficient = usdtBalance < selected.price;
+  // 결제 금액 / 기간은 서버 견적 (연장은 현재 만료일부터, 업그레이드는 남은 기간 크레딧 차감)
+  const [quote, setQuote] = useState<PurchaseQuote | null>(null);
+  const [quoteError, setQuoteError] = useState("");
+  // 프로모션 코드 (서버 견적에서 검사, 쓸 수 없으면 사유 표시 후 코드 없는 견적으로)
+  const [promoInput, setPromoInput] = useState("");
+  const [promoCode, setPromoCode] = useState("");
+  const [promoError, setPromoError] = useState("");
+  const amountDue = quote?.amount_due ?? selected.price;
+  const insufficient = usdtBalance < amountDue;
   const [loading, setLoading] = useState(false);
   const [txHash, setTxHash] = useState("");
+  const [verified, setVerified] = useState(false);
   const [showSuccessModal, setShowSuccessModal] = useState(false);
 
   // 진행 메시지(선택)
@@ -168,13 +114,40 @@ export default function PassPurchaseModal({
     setGasStepMsg("");
   }
 
-  // UI 예상 만료일 프리뷰
-  const previewExpired = useMemo(() => {
-    const meta = parsePeriod(selected.period);
-    if (meta.unlimited) return "무제한";
-    const d = computeExpiry(selected.period);
-    return getKSTDateString(d); // YYYY-MM-DD (KST)
-  }, [selected.period]);
+  useEffect(() => {
+    if (!account) return;
+    let cancelled = false;
+    setQuote(null);
+    setQuoteError("");
+
+    (async () => {
+      try {
+        await ensureUserSession(account);
+        const params = new URLSearchParams({ product_id: selected.id });
+        if (promoCode) params.set("promo_code", promoCode);
+        const res = await fetch(`/api/purchases/quote?${params}`, { cache: "no-store" });
+        const data = await res.json();
+        if (!res.ok && data?.promo) {
+          if (!cancelled) {
+            setPromoError(data.error);
+            setPromoCode("");
+          }
+          return;
+        }
+        if (!res.ok) throw new Error(data?.error || "견적 조회 실패");
+        if (!cancelled) setQuote(data.quote);
+      } catch (e: any) {
+        if (!cancelled) setQuoteError(e?.message ?? "견적 조회 실패");
+      }
+    })();
+
+    return () => { cancelled = true; };
+  }, [account, selected.id, promoCode]);
+
+  const handleApplyPromo = () => {
+    setPromoError("");
+    setPromoCode(promoInput.trim().toUpperCase());
+  };
 
   const handlePurchase = async () => {
     if (!account?.address) {
@@ -182,6 +155,11 @@ export default function PassPurchaseModal({
       return;
     }
 
+    if (!quote) {
+      alert("결제 금액을 확인하는 중입니다. 잠시 후 다시 시도해주세요.");
+      return;
+    }
+
     if (insufficient) {
       alert("잔액이 부족합니다.");
       return;
@@ -193,12 +171,12 @@ export default function PassPurchaseModal({
       await ensureGasIfNeeded(account.address);
 
       // 2) USDT 전송
-      const amount = BigInt(Math.floor(selected.price * 1e6));
+      const amount = BigInt(Math.round(quote.amount_due * 1e6));
 
       const tx = prepareContractCall({
         contract,
         method: "function transfer(address _to, uint256 _value) returns (bool)",
-        params: [RECEIVER, amount],
+        params: [PASS_RECEIVER, amount],
       });
 
       const result = await sendTransaction({
@@ -207,50 +185,29 @@ export default function PassPurchaseModal({
       });
 
       setTxHash(result.transactionHash);
-      setShowSuccessModal(true);
-
-      // 3) Supabase 저장
-      const { data: user, error: userError } = await supabase
-        .from("users")
-        .select("ref_code, ref_by, center_id, name, inviter_name, wallet_address")
-        .eq("wallet_address", account.address.toLowerCase()) // 대소문자 통일
-        .maybeSingle();
-
-      if (userError) {
-        console.error("❌ 유저 정보 조회 실패:", userError);
-      }
-
-      // 기간 계산
-      const expired = computeExpiry(selected.period, new Date());
-
-      // enrollments insert (created_at은 DB 기본값 KST 자동 저장)
-      const { error: insertError } = await supabase.from("enrollments").insert({
-        ref_code: user?.ref_code ?? null,
-        ref_by: user?.ref_by ?? null,
-        center_id: user?.center_id ?? null,
-        name: user?.name ?? null,
-        inviter_name: user?.inviter_name ?? null, // 테이블에 있으면 유지
-        pass_type: selected.name,
-        pass_expired_at: getKSTDateString(expired), // date 컬럼 (YYYY-MM-DD)
-        memo: "결제 완료",
-        tuition: selected.price, // numeric
-        // created_at_kst 전송하지 않음 ✅ (DB 자동)
-      });
-
-      if (insertError) {
-        console.error(
-          "❌ 수강 내역 저장 실패:",
-          insertError.message,
-          // @ts-ignore
-          insertError.details,
-          // @ts-ignore
-          insertError.hint,
-          // @ts-ignore
-          insertError.code
-        );
+      const pending = {
+        tx_hash: result.transactionHash,
+        product_id: selected.id,
+        promo_code: quote.promo_code,
+      };
+      // 창이 닫혀도 스토어 재방문 시 다시 확인할 수 있게 먼저 저장
+      addPendingPurchase({ ...pending, wallet: account.address });
+
+      // 3) 서버가 체인에서 결제를 확인한 뒤에만 수강 내역 생성 (만료일도 서버 계산)
+      setGasStepMsg("결제 확인 중...");
+      await waitForReceipt({ client, chain: polygon, transactionHash: result.transactionHash });
+
+      for (let i = 0; i < VERIFY_ATTEMPTS; i++) {
+        const data = await verifyPurchase(account, pending);
+        if (data.enrollment) {
+          setVerified(true);
+          setShowSuccessModal(true);
+          onPurchased?.();
+          return;
+        }
+        await new Promise((r) => setTimeout(r, VERIFY_INTERVAL_MS));
       }
-
-      onPurchased?.();
+      alert("결제는 전송되었지만 확인이 지연되고 있습니다. 잠시 후 스토어에 다시 들어오면 자동으로 반영됩니다.");
     } catch (err: any) {
       console.error("❌ 결제 실패:", err);
       alert(`결제에 실패했습니다. ${err?.message ?? ""}`);
@@ -272,7 +229,7 @@ export default function PassPurchaseModal({
     <>
       {showSuccessModal && (
         <PurchaseSuccessModal
-          amount={selected.price}
+          amount={amountDue}
           onClose={() => {
             setShowSuccessModal(false);
             onClose();
@@ -305,21 +262,60 @@ export default function PassPurchaseModal({
           <div className="text-sm text-gray-600 mb-1">주문정보</div>
 
           <div className="flex items-center space-x-3 p-3 border rounded-xl my-2">
-            <img src={selected.image} className="w-12 h-12 rounded-lg" alt={selected.name} />
+            <img src={selected.image ?? "/pass-300.png"} className="w-12 h-12 rounded-lg" alt={passName(selected)} />
             <div>
-              <p className="font-semibold">{selected.name}</p>
+              <p className="font-semibold">{passName(selected)}</p>
               <p className="text-xs text-gray-500">
-                {selected.period}
-                {previewExpired ? ` · 예상 만료일: ${previewExpired}` : ""}
+                {passPeriodLabel(selected)}
+                {quote ? ` · ${KIND_LABEL[quote.kind]} · ${quote.starts_at} ~ ${quote.expires_at}` : ""}
               </p>
             </div>
           </div>
 
+          {quote && quote.credit > 0 && (
+            <div className="flex justify-between text-sm mt-3">
+              <span className="text-gray-500">기존 패스 잔여 기간 크레딧</span>
+              <span className="text-emerald-600">-{quote.credit.toLocaleString()} USDT</span>
+            </div>
+          )}
+
+          <div className="flex items-center gap-2 mt-3">
+            <input
+              value={promoInput}
+              onChange={(e) => setPromoInput(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleApplyPromo()}
+              placeholder="프로모션 코드"
+              disabled={loading}
+              className="flex-1 border rounded-md px-3 py-1.5 text-sm uppercase"
+            />
+            <button
+              onClick={handleApplyPromo}
+              disabled={loading || !promoInput.trim()}
+              className="px-3 py-1.5 rounded-md text-sm font-semibold bg-gray-100 text-gray-700 disabled:opacity-50"
+            >
+              적용
+            </button>
+          </div>
+          {promoError && <p className="text-xs text-red-500 mt-1">{promoError}</p>}
+
+          {quote?.promo_code && (
+            <div className="flex justify-between text-sm mt-3">
+              <span className="text-gray-500">프로모션 ({quote.promo_code})</span>
+              <span className="text-emerald-600">
+                {quote.discount > 0 && `-${quote.discount.toLocaleString()} USDT`}
+                {quote.discount > 0 && quote.bonus_days > 0 && " · "}
+                {quote.bonus_days > 0 && `+${quote.bonus_days}일`}
+              </span>
+            </div>
+          )}
+
           <div className="flex justify-between text-sm mt-3">
             <span className="text-gray-700 font-medium">결제 금액</span>
-            <span className="font-bold">{selected.price.toLocaleString()} USDT</span>
+            <span className="font-bold">{amountDue.toLocaleString()} USDT</span>
           </div>
 
+          {quoteError && <p className="text-xs text-red-500 mt-1">{quoteError}</p>}
+
           <div className="flex justify-between text-sm mt-1">
             <span className="text-gray-500">사용 가능한 USDT</span>
             <span className="text-gray-600">{usdtBalance} USDT</span>
@@ -335,9 +331,9 @@ export default function PassPurchaseModal({
 
           <button
             onClick={handlePurchase}
-            disabled={insufficient || loading}
+            disabled={insufficient || loading || !quote}
             className={`mt-4 w-full py-2 rounded-md text-white font-semibold text-sm ${
-              insufficient || loading ? "bg-blue-100 text-blue-400" : "bg-blue-600 hover:bg-blue-700"
+              insufficient || loading || !quote ? "bg-blue-100 text-blue-400" : "bg-blue-600 hover:bg-blue-700"
             }`}
           >
             {loading ? "결제 처리 중..." : "결제하기"}
@@ -345,7 +341,7 @@ export default function PassPurchaseModal({
 
           {txHash && (
             <div className="mt-3 text-center text-sm text-green-600">
-              ✅ 수강신청 완료!
+              {verified ? "✅ 수강신청 완료!" : "⏳ 결제 확인 중"}
               <br />
               트랜잭션 해시:
               <br />
@@ -4,6 +4,7 @@ import { ReactNode } from "react";
 import { ThirdwebProvider as TWProvider } from "thirdweb/react";
 import { inAppWallet } from "thirdweb/wallets";
 import { polygon } from "thirdweb/chains";
+import UserSessionSync from "@/components/UserSessionSync";
 
 const ThirdwebProvider = TWProvider as any;
 
@@ -14,6 +15,7 @@ export default function Providers({ children }: { children: ReactNode }) {
       autoConnect={true} // ✅ 자동 재연결 활성화만 유지
       wallets={[inAppWallet()]} // ❌ strategy 설정 제거
     >
+      <UserSessionSync />
       {children}
     </ThirdwebProvider>
   );
@@ -0,0 +1,24 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { useActiveAccount } from "thirdweb/react";
+import { clearUserSession, ensureUserSession } from "@/lib/walletRequest";
+
+// 연결된 지갑과 서버 로그인 세션을 맞춘다 (연결 → 로그인, 연결 해제 → 로그아웃)
+export default function UserSessionSync() {
+  const account = useActiveAccount();
+  const lastWallet = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (account) {
+      lastWallet.current = account.address.toLowerCase();
+      ensureUserSession(account).catch((e) => console.warn("⚠️ 지갑 로그인 실패:", e?.message ?? e));
+    } else if (lastWallet.current) {
+      // 자동 재연결 전(최초 undefined)에는 로그아웃하지 않는다
+      lastWallet.current = null;
+      clearUserSession();
+    }
+  }, [account]);
+
+  return null;
+}
@@ -1,19 +1,39 @@
 "use client";
 
+import { useEffect, useState } from "react";
 import Link from "next/link";
-import { usePathname } from "next/navigation";
+import { usePathname, useRouter } from "next/navigation";
 
 const tabs = [
   { href: "/admin/users", label: "유저정보" },
   { href: "/admin/subscriptions", label: "구독현황" },
+  { href: "/admin/products", label: "상품관리" },
+  { href: "/admin/promos", label: "프로모션" },
   { href: "/admin/rewards", label: "리워드송금" },
   { href: "/admin/bots", label: "봇운영현황" },
   { href: "/admin/account", label: "거래소세팅" },
   { href: "/admin/referrals", label: "추천구조" },
+  { href: "/admin/audit", label: "감사로그" },
 ];
 
 export default function AdminTopNav() {
   const pathname = usePathname();
+  const router = useRouter();
+  const [admin, setAdmin] = useState<{ username: string; role: string } | null>(null);
+
+  useEffect(() => {
+    if (pathname === "/admin/login") return setAdmin(null);
+    fetch("/api/admin/session", { cache: "no-store" })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => setAdmin(data?.admin ?? null))
+      .catch(() => setAdmin(null));
+  }, [pathname]);
+
+  const handleLogout = async () => {
+    await fetch("/api/admin/session", { method: "DELETE" }).catch(() => {});
+    setAdmin(null);
+    router.replace("/admin/login");
+  };
 
   return (
     <div className="sticky top-0 z-30 bg-white/80 backdrop-blur border-b">
@@ -36,7 +56,19 @@ export default function AdminTopNav() {
             );
           })}
           <div className="flex-1" />
-          {/* 우측에 관리자 메뉴/로그아웃 버튼 자리 */}
+          {admin && (
+            <div className="flex items-center gap-2 shrink-0 text-sm">
+              <span className="text-gray-600">
+                {admin.username} <span className="text-xs text-gray-400">({admin.role})</span>
+              </span>
+              <button
+                onClick={handleLogout}
+                className="px-3 py-1.5 rounded-md text-gray-600 hover:text-gray-900 hover:bg-gray-100"
+              >
+                로그아웃
+              </button>
+            </div>
+          )}
         </div>
       </div>
     </div>
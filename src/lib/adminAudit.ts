@@ -0,0 +1,112 @@
+// src/lib/adminAudit.ts
+// ───────────────────────────────────────────────────────────────
+// 관리자 감사 로그 (append-only, 서버 전용)
+//
+//  - 관리자 변경 작업을 하는 라우트는 작업 후 recordAudit 으로 남긴다
+//    (누가 / 무엇을 / 어떤 행을 / 전후 값 / IP / User-Agent)
+//  - 기록 실패가 본 작업을 되돌리지는 않는다 → 경고 로그만 남긴다
+//  - 테이블은 트리거로 수정/삭제가 막혀 있다 (migrations/…_admin_audit_log.sql)
+// ───────────────────────────────────────────────────────────────
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import type { AdminIdentity } from "@/lib/adminAuth";
+
+export type AuditEntry = {
+  id: number;
+  created_at: string;
+  actor: string;
+  actor_role: string | null;
+  action: string;
+  target_table: string | null;
+  target_id: string | null;
+  before: any;
+  after: any;
+  meta: any;
+  ip: string | null;
+  user_agent: string | null;
+};
+
+export type AuditInput = {
+  action: string;
+  table?: string;
+  targetId?: string | number | null;
+  before?: unknown;
+  after?: unknown;
+  meta?: unknown;
+};
+
+export type AuditQuery = {
+  q?: string;
+  actor?: string;
+  action?: string;
+  table?: string;
+  targetId?: string;
+  from?: string;   // YYYY-MM-DD (KST)
+  to?: string;     // YYYY-MM-DD (KST, 포함)
+  limit?: number;
+  offset?: number;
+};
+
+const MAX_LIMIT = 200;
+
+function clientIp(req: Request) {
+  const forwarded = req.headers.get("x-forwarded-for");
+  if (forwarded) return forwarded.split(",")[0].trim();
+  return req.headers.get("x-real-ip");
+}
+
+// undefined / bigint 등은 jsonb 에 넣을 수 없으므로 JSON 왕복으로 정리
+function toJson(value: unknown) {
+  if (value === undefined) return null;
+  return JSON.parse(JSON.stringify(value, (_k, v) => (typeof v === "bigint" ? v.toString() : v)) ?? "null");
+}
+
+/** 관리자 작업 기록 (실패해도 throw 하지 않음) */
+export async function recordAudit(req: Request, admin: AdminIdentity | null, entry: AuditInput) {
+  const row = {
+    actor: admin?.username ?? "anonymous",
+    actor_role: admin?.role ?? null,
+    action: entry.action,
+    target_table: entry.table ?? null,
+    target_id: entry.targetId == null ? null : String(entry.targetId),
+    before: toJson(entry.before),
+    after: toJson(entry.after),
+    meta: toJson(entry.meta),
+    ip: clientIp(req),
+    user_agent: req.headers.get("user-agent"),
+  };
+
+  const { error } = await supabaseAdmin.from("admin_audit_log").insert(row);
+  if (error) console.warn("⚠️ 감사 로그 기록 실패:", entry.action, error.message);
+}
+
+/** 감사 로그 검색 (최신순) */
+export async function listAuditLog(query: AuditQuery = {}): Promise<{ entries: AuditEntry[]; total: number }> {
+  const limit = Math.min(Math.max(Number(query.limit) || 50, 1), MAX_LIMIT);
+  const offset = Math.max(Number(query.offset) || 0, 0);
+
+  let q = supabaseAdmin
+    .from("admin_audit_log")
+    .select("*", { count: "exact" })
+    .order("created_at", { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (query.actor) q = q.eq("actor", query.actor);
+  if (query.action) q = q.ilike("action", `${query.action}%`);
+  if (query.table) q = q.eq("target_table", query.table);
+  if (query.targetId) q = q.eq("target_id", query.targetId);
+  if (query.from) q = q.gte("created_at", `${query.from}T00:00:00+09:00`);
+  if (query.to) q = q.lte("created_at", `${query.to}T23:59:59.999+09:00`);
+  if (query.q) {
+    // 값은 큰따옴표로 감싸 PostgREST 구분자(, . ( ))를 그대로 검색
+    const term = query.q.replace(/["\\%*]/g, "").trim();
+    if (term) {
+      q = q.or(
+        ["actor", "action", "target_table", "target_id", "ip"].map((col) => `${col}.ilike."*${term}*"`).join(",")
+      );
+    }
+  }
+
+  const { data, error, count } = await q;
+  if (error) throw error;
+  return { entries: (data ?? []) as AuditEntry[], total: count ?? 0 };
+}
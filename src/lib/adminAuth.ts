@@ -0,0 +1,172 @@
+// src/lib/adminAuth.ts
+// ───────────────────────────────────────────────────────────────
+// 관리자 인증 / 권한 (서버 전용)
+//
+//  - 로그인: admin_users 의 scrypt 해시와 비교 → 서명된 세션 쿠키 발급 (adminSession.ts)
+//  - middleware 는 세션 유무만 확인하고, 역할은 각 라우트에서 requireAdmin(req, role) 로 검사
+//  - requireAdmin 은 매 요청 admin_users 를 다시 읽는다 → 비활성화/역할 변경이 즉시 반영
+//  - cron 호출은 Authorization: Bearer CRON_SECRET 으로 허용할 라우트에서만 통과
+// ───────────────────────────────────────────────────────────────
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { getKSTISOString } from "@/lib/dateUtil";
+import {
+  ADMIN_SESSION_COOKIE,
+  hasRole,
+  isAdminRole,
+  verifyAdminSession,
+  type AdminRole,
+} from "@/lib/adminSession";
+
+export type AdminIdentity = {
+  username: string;
+  role: AdminRole;
+  cron?: boolean;
+};
+
+export type AdminUser = {
+  id: string;
+  username: string;
+  role: AdminRole;
+  active: boolean;
+  created_at: string;
+  last_login_at: string | null;
+};
+
+const ADMIN_COLUMNS = "id, username, role, active, created_at, last_login_at";
+
+const SCRYPT_N = 16384;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const KEY_LEN = 64;
+
+function scryptAsync(password: string, salt: Buffer, n: number, r: number, p: number) {
+  return new Promise<Buffer>((resolve, reject) =>
+    scrypt(password, salt, KEY_LEN, { N: n, r, p }, (err, key) => (err ? reject(err) : resolve(key)))
+  );
+}
+
+/** scrypt$N$r$p$salt$hash (scripts/create-admin.mjs 와 같은 형식) */
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt, SCRYPT_N, SCRYPT_R, SCRYPT_P);
+  return ["scrypt", SCRYPT_N, SCRYPT_R, SCRYPT_P, salt.toString("base64"), key.toString("base64")].join("$");
+}
+
+async function verifyPassword(password: string, stored: string) {
+  const [algo, n, r, p, salt, hash] = stored.split("$");
+  if (algo !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "base64");
+  const key = await scryptAsync(password, Buffer.from(salt, "base64"), Number(n), Number(r), Number(p));
+  return key.length === expected.length && timingSafeEqual(key, expected);
+}
+
+async function loadActiveAdmin(username: string) {
+  const { data, error } = await supabaseAdmin
+    .from("admin_users")
+    .select(`${ADMIN_COLUMNS}, password_hash`)
+    .eq("username", username)
+    .eq("active", true)
+    .maybeSingle();
+  if (error) throw error;
+  return data as (AdminUser & { password_hash: string }) | null;
+}
+
+/** 아이디/비밀번호 확인. 실패하면 null (실패 사유는 구분하지 않는다) */
+export async function loginAdmin(username: string, password: string): Promise<AdminIdentity | null> {
+  const admin = await loadActiveAdmin(username);
+  if (!admin || !(await verifyPassword(password, admin.password_hash))) {
+    console.warn("⚠️ 관리자 로그인 실패:", username);
+    return null;
+  }
+
+  await supabaseAdmin.from("admin_users").update({ last_login_at: getKSTISOString() }).eq("id", admin.id);
+  console.log("🔑 관리자 로그인:", admin.username, admin.role);
+  return { username: admin.username, role: admin.role };
+}
+
+/** 현재 요청의 관리자 (세션 쿠키 + DB 재확인). 없으면 null */
+export async function getAdminIdentity(): Promise<AdminIdentity | null> {
+  const store = await cookies();
+  const session = await verifyAdminSession(store.get(ADMIN_SESSION_COOKIE)?.value);
+  if (!session) return null;
+
+  const admin = await loadActiveAdmin(session.sub);
+  if (!admin || !isAdminRole(admin.role)) return null;
+  return { username: admin.username, role: admin.role };
+}
+
+function isCronRequest(req: Request) {
+  const secret = process.env.CRON_SECRET;
+  return !!secret && req.headers.get("authorization") === `Bearer ${secret}`;
+}
+
+/**
+ * 라우트 권한 검사.
+ *   const auth = await requireAdmin(req, "operator");
+ *   if (auth.response) return auth.response;
+ *   auth.admin.username ...
+ */
+export async function requireAdmin(
+  req: Request,
+  role: AdminRole,
+  opts: { allowCron?: boolean } = {}
+): Promise<{ admin: AdminIdentity; response?: undefined } | { admin?: undefined; response: NextResponse }> {
+  if (opts.allowCron && isCronRequest(req)) {
+    return { admin: { username: "cron", role, cron: true } };
+  }
+
+  const admin = await getAdminIdentity();
+  if (!admin) {
+    return { response: NextResponse.json({ message: "관리자 로그인이 필요합니다" }, { status: 401 }) };
+  }
+  if (!hasRole(admin.role, role)) {
+    return {
+      response: NextResponse.json(
+        { message: `권한이 없습니다 (필요: ${role}, 현재: ${admin.role})` },
+        { status: 403 }
+      ),
+    };
+  }
+  return { admin };
+}
+
+/* ------------------------- 계정 관리 (superadmin) ------------------------- */
+
+export async function listAdmins(): Promise<AdminUser[]> {
+  const { data, error } = await supabaseAdmin.from("admin_users").select(ADMIN_COLUMNS).order("created_at");
+  if (error) throw error;
+  return (data ?? []) as AdminUser[];
+}
+
+export async function createAdmin(username: string, password: string, role: AdminRole): Promise<AdminUser> {
+  const { data, error } = await supabaseAdmin
+    .from("admin_users")
+    .insert({ username, password_hash: await hashPassword(password), role })
+    .select(ADMIN_COLUMNS)
+    .single();
+  if (error?.code === "23505") throw new Error("이미 존재하는 관리자 ID 입니다");
+  if (error) throw error;
+  return data as AdminUser;
+}
+
+export async function updateAdmin(
+  username: string,
+  patch: { role?: AdminRole; active?: boolean; password?: string }
+): Promise<AdminUser | null> {
+  const update: Record<string, any> = {};
+  if (patch.role) update.role = patch.role;
+  if (typeof patch.active === "boolean") update.active = patch.active;
+  if (patch.password) update.password_hash = await hashPassword(patch.password);
+
+  const { data, error } = await supabaseAdmin
+    .from("admin_users")
+    .update(update)
+    .eq("username", username)
+    .select(ADMIN_COLUMNS)
+    .maybeSingle();
+  if (error) throw error;
+  return (data as AdminUser) ?? null;
+}
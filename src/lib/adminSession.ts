@@ -0,0 +1,57 @@
+// src/lib/adminSession.ts
+// ───────────────────────────────────────────────────────────────
+// 관리자 세션 토큰 (서명된 HTTP-only 쿠키)
+//
+//  - 토큰 = signedToken(payload, ADMIN_SESSION_SECRET)
+//  - middleware(Edge) 와 라우트(Node) 양쪽에서 쓰므로 Web Crypto 만 사용한다
+//  - 역할: viewer < operator < treasurer < superadmin
+// ───────────────────────────────────────────────────────────────
+import { signToken, tokenSecret, verifyToken } from "@/lib/signedToken";
+
+export const ADMIN_ROLES = ["viewer", "operator", "treasurer", "superadmin"] as const;
+export type AdminRole = (typeof ADMIN_ROLES)[number];
+
+export type AdminSession = {
+  sub: string;    // admin_users.username
+  role: AdminRole;
+  iat: number;    // 초
+  exp: number;    // 초
+};
+
+export const ADMIN_SESSION_COOKIE = "admin_session";
+export const ADMIN_SESSION_TTL_SEC = 12 * 60 * 60;
+
+export function isAdminRole(role: unknown): role is AdminRole {
+  return ADMIN_ROLES.includes(role as AdminRole);
+}
+
+/** role 이 required 이상인지 */
+export function hasRole(role: AdminRole, required: AdminRole) {
+  return ADMIN_ROLES.indexOf(role) >= ADMIN_ROLES.indexOf(required);
+}
+
+export async function signAdminSession(sub: string, role: AdminRole): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  const payload: AdminSession = { sub, role, iat: now, exp: now + ADMIN_SESSION_TTL_SEC };
+  return signToken(payload, tokenSecret("ADMIN_SESSION_SECRET"));
+}
+
+/** 서명/만료 검사. 유효하지 않으면 null */
+export async function verifyAdminSession(token: string | undefined | null): Promise<AdminSession | null> {
+  try {
+    const payload = await verifyToken<AdminSession>(token, tokenSecret("ADMIN_SESSION_SECRET"));
+    if (!payload?.sub || !isAdminRole(payload.role)) return null;
+    return payload;
+  } catch (e: any) {
+    console.warn("⚠️ 관리자 세션 검증 실패:", e?.message ?? e);
+    return null;
+  }
+}
+
+export const adminSessionCookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production",
+  sameSite: "lax" as const,
+  path: "/",
+  maxAge: ADMIN_SESSION_TTL_SEC,
+};
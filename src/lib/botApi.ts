@@ -1,10 +1,6 @@
 // src/lib/botApi.ts
-const API_BASE =
-  (process.env.NEXT_PUBLIC_REMOTE_API_BASE || "http://127.0.0.1:8000").replace(/\/+$/, "");
-
-function joinUrl(path: string) {
-  return `${API_BASE}${path.startsWith("/") ? path : `/${path}`}`;
-}
+// 봇 시작/중지는 같은 출처의 프록시(/api/start-bot, /api/stop-bot)로 보낸다.
+// 프록시가 로그인 세션 쿠키로 ref_code 를 정하므로 클라이언트는 ref_code 를 보내지 않는다.
 
 function withTimeout(ms: number) {
   const controller = new AbortController();
@@ -15,7 +11,7 @@ function withTimeout(ms: number) {
 async function postJSON<T = any>(path: string, body: unknown, timeoutMs = 15000): Promise<T> {
   const { controller, clear } = withTimeout(timeoutMs);
   try {
-    const res = await fetch(joinUrl(path), {
+    const res = await fetch(path, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify(body),
@@ -35,5 +31,5 @@ async function postJSON<T = any>(path: string, body: unknown, timeoutMs = 15000)
   }
 }
 
-export const startBot = (refCode: string) => postJSON("/start-bot", { ref_code: refCode });
-export const stopBot  = (refCode: string) => postJSON("/stop-bot",  { ref_code: refCode });
+export const startBot = () => postJSON("/api/start-bot", {});
+export const stopBot  = () => postJSON("/api/stop-bot",  {});
@@ -0,0 +1,210 @@
+// src/lib/commissionAdjustments.ts
+// ───────────────────────────────────────────────────────────────
+// 수당 조정 (환불 회수 / 이월)
+//
+//  - 환불된 enrollment 의 수당 항목은
+//      · 아직 지급 전인 행에 있으면 → 행에서 바로 빼고 항목 삭제 (이월된 행은 제외)
+//      · 이미 지급(진행)되었거나 금액이 carry_in 으로 이월된 행에 있으면 → 음수 clawback 항목 생성 (미상계)
+//  - 미상계 항목(clawback / carry_in)은 수혜자의 다음 정산 행에 붙어 상계된다
+//  - 상계 후 합계가 음수면 carry_out 으로 0 을 만들고 남은 음수는 다시 다음 정산으로
+// ───────────────────────────────────────────────────────────────
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { getKSTISOString } from "@/lib/dateUtil";
+import { EDITABLE_STATUSES } from "@/lib/payoutStatus";
+
+export type AdjustmentItem = {
+  id: string;
+  beneficiary_ref_code: string;
+  kind: "clawback" | "carry_in";
+  amount: number;
+  enrollment_id: string | null;
+  source_ref_code: string | null;
+  carried_from: string | null;
+  reason: string | null;
+  created_at: string;
+};
+
+const ADJUSTMENT_COLUMNS =
+  "id, beneficiary_ref_code, kind, amount, enrollment_id, source_ref_code, carried_from, reason, created_at";
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function toAdjustment(row: any): AdjustmentItem {
+  return { ...row, amount: Number(row.amount) };
+}
+
+/**
+ * rewardDate 정산에 상계할 조정 항목.
+ *  - 미상계 항목 전체
+ *  - 이 정산일의 지급 전 행에 이미 붙어 있는 항목 (재계산 시 다시 붙인다)
+ *  단, 이 정산일 행에서 나간 carry_in 은 제외 (자기 자신으로 돌아오는 이월)
+ */
+export async function loadPendingAdjustments(rewardDate: string): Promise<AdjustmentItem[]> {
+  const { data: sameDay, error: dayErr } = await supabaseAdmin
+    .from("reward_transfers")
+    .select("id, status")
+    .eq("reward_date", rewardDate);
+  if (dayErr) throw dayErr;
+
+  const sameDayIds = new Set((sameDay ?? []).map((r) => r.id as string));
+  const editableIds = (sameDay ?? [])
+    .filter((r) => EDITABLE_STATUSES.includes(r.status))
+    .map((r) => r.id as string);
+
+  const { data: unsettled, error } = await supabaseAdmin
+    .from("commission_items")
+    .select(ADJUSTMENT_COLUMNS)
+    .is("reward_transfer_id", null)
+    .in("kind", ["clawback", "carry_in"]);
+  if (error) throw error;
+
+  let attached: any[] = [];
+  if (editableIds.length) {
+    const { data, error: attErr } = await supabaseAdmin
+      .from("commission_items")
+      .select(ADJUSTMENT_COLUMNS)
+      .in("reward_transfer_id", editableIds)
+      .in("kind", ["clawback", "carry_in"]);
+    if (attErr) throw attErr;
+    attached = data ?? [];
+  }
+
+  return [...(unsettled ?? []), ...attached]
+    .filter((r) => !(r.kind === "carry_in" && r.carried_from && sameDayIds.has(r.carried_from)))
+    .map(toAdjustment);
+}
+
+/** 이월(carry_in)이 이미 다른 행에서 상계된 원 행 → 재계산하면 이월이 두 번 생기므로 잠근다 */
+export async function loadConsumedCarrySources(transferIds: string[]): Promise<Set<string>> {
+  if (!transferIds.length) return new Set();
+  const { data, error } = await supabaseAdmin
+    .from("commission_items")
+    .select("carried_from")
+    .eq("kind", "carry_in")
+    .in("carried_from", transferIds)
+    .not("reward_transfer_id", "is", null);
+  if (error) throw error;
+  return new Set((data ?? []).map((r) => r.carried_from as string));
+}
+
+// 낙관적 잠금 충돌 시 행을 다시 읽어 재시도하는 횟수
+const REMOVE_ATTEMPTS = 3;
+
+/**
+ * 지급 전 행에서 항목 금액을 직접 뺀다 (낙관적 잠금: 다시 읽은 금액이 그대로일 때만).
+ * 이월(carry_out)이 있는 행은 금액이 이미 carry_in 으로 넘어갔으므로 손대지 않는다 → clawback 으로 상계
+ */
+async function removeFromTransfer(item: any): Promise<boolean> {
+  if (!item.reward_transfer_id) return false;
+
+  for (let attempt = 0; attempt < REMOVE_ATTEMPTS; attempt++) {
+    // 같은 행의 다른 항목을 먼저 뺐을 수 있으므로 항목마다 다시 읽는다
+    const { data: t, error: loadErr } = await supabaseAdmin
+      .from("reward_transfers")
+      .select("id, status, referral_amount, center_amount, level_amounts")
+      .eq("id", item.reward_transfer_id)
+      .maybeSingle();
+    if (loadErr) throw loadErr;
+    if (!t || !EDITABLE_STATUSES.includes(t.status)) return false;
+
+    const { count: carried, error: carryErr } = await supabaseAdmin
+      .from("commission_items")
+      .select("id", { count: "exact", head: true })
+      .eq("reward_transfer_id", t.id)
+      .eq("kind", "carry_out");
+    if (carryErr) throw carryErr;
+    if (carried) return false;
+
+    const amount = Number(item.amount);
+    const patch: Record<string, any> = {};
+    if (item.kind === "referral") {
+      const levels = { ...(t.level_amounts ?? {}) };
+      const key = String(item.level ?? 1);
+      levels[key] = round2(Number(levels[key] ?? 0) - amount);
+      if (levels[key] <= 0) delete levels[key];
+      patch.referral_amount = round2(Number(t.referral_amount ?? 0) - amount);
+      patch.level_amounts = levels;
+    } else {
+      patch.center_amount = round2(Number(t.center_amount ?? 0) - amount);
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from("reward_transfers")
+      .update(patch)
+      .eq("id", t.id)
+      .in("status", EDITABLE_STATUSES)
+      .eq("referral_amount", t.referral_amount)
+      .eq("center_amount", t.center_amount)
+      .select("id");
+    if (error) throw error;
+    if (!data?.length) continue;
+
+    const { error: delErr } = await supabaseAdmin.from("commission_items").delete().eq("id", item.id);
+    if (delErr) throw delErr;
+    return true;
+  }
+  return false;
+}
+
+/**
+ * enrollment 환불 처리 + 수당 회수.
+ * 환불 표시를 먼저 남겨 새 수당 발생을 막고, 회수는 그 뒤에 한다.
+ * 회수 도중 실패해도 다시 호출하면 아직 회수되지 않은 항목만 이어서 처리한다
+ * (뺀 항목은 삭제되고, clawback 은 reverses_item_id 유니크로 한 번만 들어간다).
+ */
+export async function refundEnrollment(enrollmentId: string, reason: string) {
+  const nowIso = getKSTISOString();
+
+  // 이미 환불 표시가 있으면 시각 / 사유는 그대로 두고 남은 회수만 진행
+  const { data: marked, error: markErr } = await supabaseAdmin
+    .from("enrollments")
+    .update({ refunded_at: nowIso, refund_reason: reason })
+    .eq("id", enrollmentId)
+    .is("refunded_at", null)
+    .select("id");
+  if (markErr) throw markErr;
+  const newlyMarked = !!marked?.length;
+
+  const { data: items, error } = await supabaseAdmin
+    .from("commission_items")
+    .select("id, reward_transfer_id, enrollment_id, source_ref_code, beneficiary_ref_code, kind, level, rate, base_amount, amount")
+    .eq("enrollment_id", String(enrollmentId))
+    .in("kind", ["referral", "center"]);
+  if (error) throw error;
+
+  let removed = 0;
+  let clawedBack = 0;
+  for (const item of (items ?? []) as any[]) {
+    if (await removeFromTransfer(item)) {
+      removed++;
+      continue;
+    }
+
+    // 이미 지급(진행) / 이월됨 → 다음 정산에서 상계할 음수 항목
+    const { error: insErr } = await supabaseAdmin.from("commission_items").insert({
+      reward_transfer_id: null,
+      reward_date: null,
+      enrollment_id: item.enrollment_id,
+      source_ref_code: item.source_ref_code,
+      beneficiary_ref_code: item.beneficiary_ref_code,
+      kind: "clawback",
+      level: item.level,
+      rate: item.rate,
+      base_amount: item.base_amount,
+      amount: -Number(item.amount),
+      reverses_item_id: item.id,
+      reason,
+    });
+    // 23505 = 이미 회수된 항목
+    if (insErr && insErr.code !== "23505") throw insErr;
+    if (!insErr) clawedBack++;
+  }
+
+  // 이미 환불됐고 남은 회수도 없음 → 할 일 없음
+  if (!newlyMarked && removed === 0 && clawedBack === 0) {
+    return { alreadyRefunded: true, removed, clawedBack };
+  }
+
+  console.log("↩️ 환불 처리:", enrollmentId, { resumed: !newlyMarked, removed, clawedBack });
+  return { alreadyRefunded: false, removed, clawedBack };
+}
@@ -0,0 +1,149 @@
+// src/lib/commissionItems.ts
+// ───────────────────────────────────────────────────────────────
+// 수당 근거 (commission_items) — enrollment × 수혜자 × 단계 1행
+//
+//  - calc 확정 시 수정 가능한 지급 행의 items 를 통째로 다시 쓴다
+//  - 조정 항목(clawback / carry_in / carry_out)은 commissionAdjustments.ts 참고
+//  - (enrollment_id, kind, level) 은 전 기간 유일 → 같은 결제가 두 번 집계되지 않는다
+// ───────────────────────────────────────────────────────────────
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { EDITABLE_STATUSES } from "@/lib/payoutStatus";
+import type { RewardBucket, RewardItem } from "@/lib/rewardCalc";
+
+const IN_CHUNK = 500;
+
+export type DoubleCounted = {
+  enrollment_id: string;
+  kind: string;
+  level: number | null;
+  beneficiary_ref_code: string;
+  reward_date: string;
+};
+
+const keyOf = (it: { enrollment_id: string; kind: string; level: number | null }) =>
+  `${it.enrollment_id}:${it.kind}:${it.level ?? 0}`;
+
+/**
+ * 이번 계산의 items 중 이미 다른 정산(다른 기간, 또는 지급이 진행된 다른 수혜자)에
+ * 귀속된 것. 하나라도 있으면 확정하면 안 된다.
+ */
+export async function findDoubleCounted(rewardDate: string, buckets: RewardBucket[]): Promise<DoubleCounted[]> {
+  const computed = new Map<string, string>(); // key → 수혜자
+  for (const b of buckets) for (const it of b.items) computed.set(keyOf(it), b.ref_code);
+
+  const enrollmentIds = Array.from(new Set(buckets.flatMap((b) => b.items.map((it) => it.enrollment_id))));
+  const conflicts: DoubleCounted[] = [];
+
+  for (let i = 0; i < enrollmentIds.length; i += IN_CHUNK) {
+    const { data, error } = await supabaseAdmin
+      .from("commission_items")
+      .select("enrollment_id, kind, level, beneficiary_ref_code, reward_date, reward_transfers(status)")
+      .in("enrollment_id", enrollmentIds.slice(i, i + IN_CHUNK));
+    if (error) throw error;
+
+    for (const row of (data ?? []) as any[]) {
+      const beneficiary = computed.get(keyOf(row));
+      if (!beneficiary) continue;
+
+      const status = row.reward_transfers?.status;
+      const otherPeriod = row.reward_date !== rewardDate;
+      const lockedElsewhere = !EDITABLE_STATUSES.includes(status) && row.beneficiary_ref_code !== beneficiary;
+      if (otherPeriod || lockedElsewhere) {
+        conflicts.push({
+          enrollment_id: row.enrollment_id,
+          kind: row.kind,
+          level: row.level,
+          beneficiary_ref_code: row.beneficiary_ref_code,
+          reward_date: row.reward_date,
+        });
+      }
+    }
+  }
+  return conflicts;
+}
+
+/**
+ * 지급 행에서 계산으로 만든 항목을 지운다.
+ *  - referral / center / carry_out 삭제, 이 행에서 나간 미상계 carry_in 삭제
+ *  - 붙어 있던 조정 항목(clawback / 들어온 carry_in)은 미상계로 되돌린다
+ */
+export async function clearCommissionItems(transferIds: string[]) {
+  for (let i = 0; i < transferIds.length; i += IN_CHUNK) {
+    const ids = transferIds.slice(i, i + IN_CHUNK);
+
+    const { error: detachErr } = await supabaseAdmin
+      .from("commission_items")
+      .update({ reward_transfer_id: null, reward_date: null })
+      .in("reward_transfer_id", ids)
+      .in("kind", ["clawback", "carry_in"]);
+    if (detachErr) throw detachErr;
+
+    const { error: delErr } = await supabaseAdmin
+      .from("commission_items")
+      .delete()
+      .in("reward_transfer_id", ids)
+      .in("kind", ["referral", "center", "carry_out"]);
+    if (delErr) throw delErr;
+
+    const { error: carryErr } = await supabaseAdmin
+      .from("commission_items")
+      .delete()
+      .in("carried_from", ids)
+      .eq("kind", "carry_in")
+      .is("reward_transfer_id", null);
+    if (carryErr) throw carryErr;
+  }
+}
+
+/** 지급 행별 items 교체 (transferIds: ref_code → reward_transfers.id) */
+export async function replaceCommissionItems(
+  rewardDate: string,
+  transferIds: Map<string, string>,
+  buckets: RewardBucket[]
+) {
+  await clearCommissionItems(Array.from(transferIds.values()));
+
+  const toRow = (b: RewardBucket, it: RewardItem) => ({
+    reward_transfer_id: transferIds.get(b.ref_code)!,
+    reward_date: rewardDate,
+    enrollment_id: String(it.enrollment_id),
+    source_ref_code: it.source_ref_code,
+    beneficiary_ref_code: b.ref_code,
+    kind: it.kind,
+    level: it.level,
+    rate: it.rate,
+    base_amount: it.base_amount,
+    amount: it.amount,
+    plan_version: it.plan_version,
+    skipped_sponsors: it.skipped,
+    enrolled_at: it.enrolled_at,
+  });
+
+  const targets = buckets.filter((b) => transferIds.has(b.ref_code));
+  const rows: Record<string, any>[] = targets.flatMap((b) => b.items.map((it) => toRow(b, it)));
+
+  // 이월: 이번 행은 carry_out 으로 0 을 맞추고, 같은 금액을 다음 정산용 carry_in 으로
+  for (const b of targets.filter((b) => b.carry_out !== 0)) {
+    const id = transferIds.get(b.ref_code)!;
+    const base = { beneficiary_ref_code: b.ref_code, carried_from: id, reason: b.carry_reason, skipped_sponsors: [] };
+    rows.push({ ...base, kind: "carry_out", reward_transfer_id: id, reward_date: rewardDate, amount: -b.carry_out });
+    rows.push({ ...base, kind: "carry_in", reward_transfer_id: null, reward_date: null, amount: b.carry_out });
+  }
+
+  for (let i = 0; i < rows.length; i += IN_CHUNK) {
+    const { error } = await supabaseAdmin.from("commission_items").insert(rows.slice(i, i + IN_CHUNK));
+    if (error) throw error;
+  }
+
+  // 미상계 조정 항목을 이번 행에 붙인다 (다른 계산이 먼저 가져간 항목은 건너뜀)
+  for (const b of targets.filter((b) => b.adjustments.length)) {
+    const { error } = await supabaseAdmin
+      .from("commission_items")
+      .update({ reward_transfer_id: transferIds.get(b.ref_code)!, reward_date: rewardDate })
+      .in("id", b.adjustments.map((a) => a.id))
+      .is("reward_transfer_id", null);
+    if (error) throw error;
+  }
+
+  return rows.length;
+}
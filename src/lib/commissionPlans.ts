@@ -0,0 +1,131 @@
+// src/lib/commissionPlans.ts
+// ───────────────────────────────────────────────────────────────
+// 수당 정책 (commission_plans) — 버전별 비율/패스 가격
+//
+//  - 정책은 수정하지 않고 새 버전을 추가한다 (effective_from 이후 결제분부터 적용)
+//  - enrollment 는 "결제 시점에 유효했던" 정책으로 계산
+//  - pass_rules 에 pass_type 별 가격/비율 예외를 둘 수 있다 (키는 공백 제거 후 비교)
+//  - level_rates 길이 = 추천 지급 단계 수, skip_inactive = 비활성 후원자 압축 여부
+// ───────────────────────────────────────────────────────────────
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+
+export type PassRule = {
+  price?: number;
+  level_rates?: number[];
+  center_rate?: number;
+};
+
+export type CommissionPlan = {
+  id: string;
+  version: number;
+  name: string | null;
+  effective_from: string;
+  level_rates: number[];
+  center_rate: number;
+  skip_inactive: boolean;
+  pass_rules: Record<string, PassRule>;
+};
+
+// 특정 enrollment 에 적용되는 최종 규칙
+export type ResolvedRule = {
+  plan_id: string;
+  plan_version: number;
+  price: number;
+  level_rates: number[];
+  center_rate: number;
+  skip_inactive: boolean;
+};
+
+const PLAN_COLUMNS = "id, version, name, effective_from, level_rates, center_rate, skip_inactive, pass_rules";
+
+export function normalizePassType(passType: string | null | undefined) {
+  return String(passType ?? "").trim();
+}
+
+function toPlan(row: any): CommissionPlan {
+  return {
+    id: row.id,
+    version: Number(row.version),
+    name: row.name ?? null,
+    effective_from: row.effective_from,
+    level_rates: (row.level_rates ?? []).map(Number),
+    center_rate: Number(row.center_rate ?? 0),
+    skip_inactive: row.skip_inactive !== false,
+    pass_rules: Object.fromEntries(
+      Object.entries((row.pass_rules ?? {}) as Record<string, PassRule>).map(([k, v]) => [normalizePassType(k), v])
+    ),
+  };
+}
+
+/** effective_from 오름차순 전체 정책 */
+export async function loadCommissionPlans(): Promise<CommissionPlan[]> {
+  const { data, error } = await supabaseAdmin
+    .from("commission_plans")
+    .select(PLAN_COLUMNS)
+    .order("effective_from", { ascending: true });
+  if (error) throw error;
+  return (data ?? []).map(toPlan);
+}
+
+/** at 시점에 유효한 정책 (없으면 null) */
+export function planAt(plans: CommissionPlan[], at: string | Date): CommissionPlan | null {
+  const t = new Date(at).getTime();
+  let found: CommissionPlan | null = null;
+  for (const p of plans) {
+    if (new Date(p.effective_from).getTime() <= t) found = p;
+    else break;
+  }
+  return found;
+}
+
+export function resolveRule(plan: CommissionPlan, passType: string | null): ResolvedRule {
+  const rule = plan.pass_rules[normalizePassType(passType)] ?? {};
+  return {
+    plan_id: plan.id,
+    plan_version: plan.version,
+    price: Number(rule.price ?? 0),
+    level_rates: (rule.level_rates ?? plan.level_rates).map(Number),
+    center_rate: Number(rule.center_rate ?? plan.center_rate),
+    skip_inactive: plan.skip_inactive,
+  };
+}
+
+/** 새 정책 버전 추가 (기존 버전은 변경하지 않음) */
+export async function createCommissionPlan(input: {
+  name?: string | null;
+  effective_from: string;
+  level_rates: number[];
+  center_rate: number;
+  skip_inactive?: boolean;
+  pass_rules?: Record<string, PassRule>;
+}) {
+  const rates = [...input.level_rates, input.center_rate];
+  if (!input.level_rates.length || rates.some((r) => !(r >= 0 && r <= 1))) {
+    throw new Error("비율은 0~1 사이여야 합니다");
+  }
+  const total = rates.reduce((a, b) => a + b, 0);
+  if (total > 1) throw new Error(`비율 합계가 100%를 넘습니다 (${Math.round(total * 100)}%)`);
+
+  const { data: last } = await supabaseAdmin
+    .from("commission_plans")
+    .select("version")
+    .order("version", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const { data, error } = await supabaseAdmin
+    .from("commission_plans")
+    .insert({
+      version: Number(last?.version ?? 0) + 1,
+      name: input.name ?? null,
+      effective_from: input.effective_from,
+      level_rates: input.level_rates,
+      center_rate: input.center_rate,
+      skip_inactive: input.skip_inactive ?? true,
+      pass_rules: input.pass_rules ?? {},
+    })
+    .select(PLAN_COLUMNS)
+    .single();
+  if (error) throw error;
+  return toPlan(data);
+}
@@ -22,30 +22,31 @@ export function getKSTDateString(date?: Date): string {
   return getKSTISOString(date).slice(0, 10);
 }
 
-// 내부 헬퍼: Date -> KST 기준 YYYY-MM-DD
-function toKSTDateYYYYMMDD(d: Date): string {
-  return toKST(d).toISOString().slice(0, 10);
+// YYYY-MM-DD 에 n일 더하기 (달력 기준, 타임존 무관)
+export function addDaysYYYYMMDD(yyyymmdd: string, n: number): string {
+  const d = new Date(`${yyyymmdd}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + n);
+  return d.toISOString().slice(0, 10);
 }
 
-// ✅ 전주(월~일) KST 구간 반환 (월요일 실행 가정)
+// ✅ 임의 기간(양 끝 포함) KST 구간 → created_at 조회용 [gte, lt)
+export function getPeriodRangeKST(periodStart: string, periodEnd: string) {
+  return {
+    gte: `${periodStart} 00:00:00+09`,
+    lt:  `${addDaysYYYYMMDD(periodEnd, 1)} 00:00:00+09`,
+    period_start: periodStart,
+    period_end: periodEnd,
+  };
+}
+
+// ✅ 직전 완료 주(월~일) KST 구간 반환
 // todayKstYYYYMMDD를 넘기면 그 날짜를 기준으로 계산, 없으면 오늘(KST) 기준
+// (월요일이 아니어도 "가장 최근 월요일 이전 주"를 반환)
 export function getLastWeekRangeKST(todayKstYYYYMMDD?: string) {
   const today = todayKstYYYYMMDD ?? getKSTDateString(); // YYYY-MM-DD (KST)
 
-  // KST 자정 기준 시점(UTC로는 전날 15:00Z)
-  const baseKstMidnight = new Date(`${today}T00:00:00+09:00`);
+  const dow = new Date(`${today}T00:00:00Z`).getUTCDay(); // 0=일 … 1=월
+  const thisMonday = addDaysYYYYMMDD(today, -((dow + 6) % 7));
 
-  const MS = 24 * 60 * 60 * 1000;
-  const startUTC = new Date(baseKstMidnight.getTime() - 7 * MS); // 전주 월요일 KST 자정 순간의 UTC값
-  const endUTC   = new Date(baseKstMidnight.getTime() - 1 * MS); // 전주 일요일 KST 자정 순간의 UTC값
-
-  const startDate = toKSTDateYYYYMMDD(startUTC);
-  const endDate   = toKSTDateYYYYMMDD(endUTC);
-
-  return {
-    gte: `${startDate} 00:00:00+09`,
-    lt:  `${endDate} 23:59:59.999+09`,
-    period_start: startDate,
-    period_end: endDate,
-  };
+  return getPeriodRangeKST(addDaysYYYYMMDD(thisMonday, -7), addDaysYYYYMMDD(thisMonday, -1));
 }
@@ -0,0 +1,286 @@
+// src/lib/multisend.ts
+// ───────────────────────────────────────────────────────────────
+// 리워드 일괄 지급 (Disperse 호환 멀티센드 컨트랙트)
+//
+//  - 여러 수혜자를 disperseToken(token, recipients[], values[]) 한 트랜잭션으로 전송
+//  - 가스 한도 기준으로 청크 분할, 청크마다 reward_batches 1건 + 각 행에 batch_id 기록
+//  - 선점/nonce 예약/서명 선저장/체인 대조 규칙은 payoutLedger 와 동일
+//    (배치 내 행들은 같은 nonce·tx_hash 를 공유)
+//  - 확정(completed)은 행별로 confirmation worker 가 Transfer 로그를 검증해 처리
+// ───────────────────────────────────────────────────────────────
+import { getContract, prepareContractCall } from "thirdweb";
+import { allowance } from "thirdweb/extensions/erc20";
+import { client } from "@/lib/client";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { getKSTISOString } from "@/lib/dateUtil";
+import { MULTISEND_ADDRESS, USDT_ADDRESS, payoutChain } from "@/lib/payoutChain";
+import {
+  CLAIM_SKIP_MESSAGES,
+  claimTransfer,
+  markBroadcast,
+  markFailed,
+  reconcileTransfer,
+  reserveNonce,
+  resumeStaleTransfers,
+  type PayoutResult,
+  type RewardTransferRow,
+} from "@/lib/payoutLedger";
+import {
+  broadcastSignedTransaction,
+  estimateAdminGas,
+  getPayoutAccount,
+  signWithNonce,
+  toUSDTUnits,
+  waitForTxReceipt,
+} from "@/lib/sendUSDT";
+
+const DISPERSE_ABI = [
+  {
+    name: "disperseToken",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "token", type: "address" },
+      { name: "recipients", type: "address[]" },
+      { name: "values", type: "uint256[]" },
+    ],
+    outputs: [],
+  },
+] as const;
+
+const APPROVE_ABI = [
+  {
+    name: "approve",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "_spender", type: "address" },
+      { name: "_value", type: "uint256" },
+    ],
+    outputs: [{ name: "success", type: "bool" }],
+  },
+] as const;
+
+// 청크 가스 한도 (블록 가스 한도보다 충분히 작게)
+const MAX_BATCH_GAS = BigInt(process.env.MULTISEND_MAX_GAS ?? 8_000_000);
+const BASE_GAS = BigInt(60_000);
+const PER_RECIPIENT_GAS = BigInt(process.env.MULTISEND_GAS_PER_RECIPIENT ?? 40_000);
+
+export type BatchPayoutResult = PayoutResult & { batch_id?: string | null };
+
+function prepareDisperse(rows: RewardTransferRow[]) {
+  const contract = getContract({ address: MULTISEND_ADDRESS, chain: payoutChain, client, abi: DISPERSE_ABI });
+  return prepareContractCall({
+    contract,
+    method: "disperseToken",
+    params: [
+      USDT_ADDRESS,
+      rows.map((r) => r.wallet_address!),
+      rows.map((r) => toUSDTUnits(Number(r.total_amount))),
+    ],
+  });
+}
+
+// 가스 추정치 기준으로 1차 분할
+export function chunkByGas<T>(rows: T[]): T[][] {
+  const size = Math.max(1, Number((MAX_BATCH_GAS - BASE_GAS) / PER_RECIPIENT_GAS));
+  const chunks: T[][] = [];
+  for (let i = 0; i < rows.length; i += size) chunks.push(rows.slice(i, i + size));
+  return chunks;
+}
+
+// 배치 지급 예상 가스 (청크별 기본 + 수혜자별, approve 1회 포함)
+export function estimateBatchGas(recipientCount: number): bigint {
+  if (recipientCount <= 0) return BigInt(0);
+  const chunks = chunkByGas(Array.from({ length: recipientCount })).length;
+  return BASE_GAS * BigInt(chunks + 1) + PER_RECIPIENT_GAS * BigInt(recipientCount);
+}
+
+// 멀티센드 컨트랙트가 transferFrom 할 수 있도록 allowance 확보
+async function ensureAllowance(totalUnits: bigint) {
+  const owner = (await getPayoutAccount()).address;
+  const current = await allowance({
+    contract: getContract({ address: USDT_ADDRESS, chain: payoutChain, client }),
+    owner,
+    spender: MULTISEND_ADDRESS,
+  });
+  if (current >= totalUnits) return;
+
+  console.log("🔑 멀티센드 allowance 부족 → approve:", current.toString(), "→", totalUnits.toString());
+  const transaction = prepareContractCall({
+    contract: getContract({ address: USDT_ADDRESS, chain: payoutChain, client, abi: APPROVE_ABI }),
+    method: "approve",
+    params: [MULTISEND_ADDRESS, totalUnits],
+  });
+
+  const nonce = await reserveNonce(owner);
+  const signed = await signWithNonce(transaction, nonce);
+  await broadcastSignedTransaction(signed.signedTx);
+
+  const receipt = await waitForTxReceipt(signed.txHash);
+  if (!receipt || receipt.status !== "success") {
+    throw new Error(`approve 실패 (${signed.txHash})`);
+  }
+}
+
+async function updateBatch(batchId: string, patch: Record<string, any>) {
+  const { error } = await supabaseAdmin.from("reward_batches").update(patch).eq("id", batchId);
+  if (error) console.warn("⚠️ reward_batches 업데이트 오류:", error.message);
+}
+
+async function sendChunk(rows: RewardTransferRow[]): Promise<{ results: BatchPayoutResult[]; halted: boolean }> {
+  // 1) 실제 가스 추정 → 한도 초과면 반으로 나눠 재귀
+  const gas = await estimateAdminGas(prepareDisperse(rows)).catch(() => null);
+  if (gas !== null && gas > MAX_BATCH_GAS && rows.length > 1) {
+    const mid = Math.ceil(rows.length / 2);
+    const first = await sendChunk(rows.slice(0, mid));
+    if (first.halted) return first;
+    const second = await sendChunk(rows.slice(mid));
+    return { results: [...first.results, ...second.results], halted: second.halted };
+  }
+
+  const totalAmount = rows.reduce((acc, r) => acc + Number(r.total_amount), 0);
+
+  // 2) 배치 레코드 생성 + 행에 batch_id 기록
+  const { data: batch, error: batchErr } = await supabaseAdmin
+    .from("reward_batches")
+    .insert({
+      status: "processing",
+      contract_address: MULTISEND_ADDRESS.toLowerCase(),
+      recipient_count: rows.length,
+      total_amount: Math.round(totalAmount * 100) / 100,
+      created_at: getKSTISOString(),
+    })
+    .select("id")
+    .single();
+
+  if (batchErr || !batch) {
+    const msg = `배치 생성 실패: ${batchErr?.message ?? "unknown"}`;
+    const failed = await Promise.all(rows.map((r) => markFailed(r, msg)));
+    return { results: failed, halted: false };
+  }
+
+  const batchId = batch.id as string;
+  const ids = rows.map((r) => r.id);
+  const tag = (r: PayoutResult): BatchPayoutResult => ({ ...r, batch_id: batchId });
+
+  let signed: Awaited<ReturnType<typeof signWithNonce>>;
+  let nonce: number;
+  try {
+    nonce = await reserveNonce((await getPayoutAccount()).address);
+    signed = await signWithNonce(prepareDisperse(rows), nonce);
+
+    // ⚠️ 전송 "전"에 서명 원문/해시 저장 (배치 + 각 행)
+    const chainState = {
+      nonce,
+      from_address: signed.from.toLowerCase(),
+      signed_tx: signed.signedTx,
+      tx_hash: signed.txHash,
+    };
+    await updateBatch(batchId, chainState);
+
+    const { error } = await supabaseAdmin
+      .from("reward_transfers")
+      .update({ ...chainState, batch_id: batchId })
+      .in("id", ids)
+      .eq("status", "processing");
+    if (error) throw error;
+
+    rows = rows.map((r) => ({ ...r, ...chainState, batch_id: batchId }));
+  } catch (e: any) {
+    const msg = `배치 준비 실패: ${e?.message ?? e}`;
+    console.error("❌", msg);
+    await updateBatch(batchId, { status: "failed", error_message: msg });
+    const failed = await Promise.all(rows.map((r) => markFailed(r, msg)));
+    return { results: failed.map(tag), halted: false };
+  }
+
+  console.log(`📤 배치 송금 시작 - ${rows.length}명, 합계: ${totalAmount}, nonce: ${nonce}, batch: ${batchId}`);
+
+  // 3) 브로드캐스트
+  try {
+    await broadcastSignedTransaction(signed.signedTx);
+  } catch (e: any) {
+    console.error("❌ 배치 브로드캐스트 오류:", batchId, e?.message ?? e);
+    const results: BatchPayoutResult[] = [];
+    for (const r of rows) results.push(tag(await reconcileTransfer(r)));
+    const halted = results.some((r) => r.status === "processing");
+    await updateBatch(batchId, {
+      status: halted ? "processing" : results[0]?.status,
+      error_message: `브로드캐스트 오류: ${e?.message ?? e}`,
+    });
+    return { results, halted };
+  }
+
+  await updateBatch(batchId, { status: "broadcast", executed_at: getKSTISOString() });
+  const results = await Promise.all(rows.map(async (r) => tag(await markBroadcast(r))));
+  return { results, halted: false };
+}
+
+/**
+ * 대상 행들을 멀티센드 배치로 지급한다. (수혜자별 결과 반환)
+ */
+export async function payRewardTransfersBatched(rows: RewardTransferRow[]) {
+  if (!MULTISEND_ADDRESS) throw new Error("MULTISEND_ADDRESS 가 설정되지 않았습니다");
+
+  const resumed = await resumeStaleTransfers();
+  const results: BatchPayoutResult[] = [];
+  const claimed: RewardTransferRow[] = [];
+
+  for (const row of rows) {
+    const amount = Number(row.total_amount);
+    if (!row.wallet_address || !(amount > 0)) {
+      results.push({ id: row.id, ref_code: row.ref_code, status: "skipped", error: "금액 또는 주소 오류" });
+      continue;
+    }
+    const claim = await claimTransfer(row);
+    if (claim !== "claimed") {
+      results.push({ id: row.id, ref_code: row.ref_code, status: "skipped", error: CLAIM_SKIP_MESSAGES[claim] });
+      continue;
+    }
+    claimed.push({ ...row, status: "processing" });
+  }
+
+  if (!claimed.length) return { resumed, results, halted: false, batches: [] as string[] };
+
+  try {
+    const totalUnits = claimed.reduce((acc, r) => acc + toUSDTUnits(Number(r.total_amount)), BigInt(0));
+    await ensureAllowance(totalUnits);
+  } catch (e: any) {
+    // 아직 아무것도 전송하지 않았으므로 실패 처리해도 안전
+    const msg = `allowance 확보 실패: ${e?.message ?? e}`;
+    for (const r of claimed) results.push(await markFailed(r, msg));
+    return { resumed, results, halted: false, batches: [] as string[] };
+  }
+
+  let halted = false;
+  for (const chunk of chunkByGas(claimed)) {
+    if (halted) {
+      // 앞 배치 상태가 불명 → 뒤 nonce 가 막히므로 남은 행은 선점 해제
+      for (const r of chunk) results.push(await markFailed(r, "앞 배치 전송 상태 불명 → 미전송"));
+      continue;
+    }
+    const out = await sendChunk(chunk);
+    results.push(...out.results);
+    halted = out.halted;
+  }
+
+  const batches = Array.from(new Set(results.map((r) => r.batch_id).filter(Boolean))) as string[];
+  return { resumed, results, halted, batches };
+}
+
+/** 배치에 속한 행 상태가 모두 같아지면 배치 상태도 맞춘다. (confirmation worker 에서 호출) */
+export async function refreshBatchStatuses(batchIds: string[]) {
+  for (const batchId of batchIds) {
+    const { data, error } = await supabaseAdmin
+      .from("reward_transfers")
+      .select("status")
+      .eq("batch_id", batchId);
+    if (error || !data?.length) continue;
+
+    const statuses = new Set(data.map((r) => r.status));
+    if (statuses.size === 1) {
+      await updateBatch(batchId, { status: data[0].status });
+    }
+  }
+}
@@ -0,0 +1,148 @@
+// src/lib/notificationChannels.ts
+// ───────────────────────────────────────────────────────────────
+// 알림 채널 어댑터 (서버 전용) — notifications.ts 의 발송 단계에서 사용
+//
+//   email    : SMTP (nodemailer)        SMTP_HOST / SMTP_PORT / SMTP_SECURE / SMTP_USER / SMTP_PASS / NOTIFY_EMAIL_FROM
+//   telegram : Bot API sendMessage      TELEGRAM_BOT_TOKEN / TELEGRAM_API_BASE
+//   push     : Web Push (VAPID)         NEXT_PUBLIC_VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY / VAPID_SUBJECT
+//
+//  환경변수가 없는 채널은 꺼진 것으로 본다 (발송하지 않고 건너뜀).
+//  로컬 테스트: SMTP_HOST=localhost SMTP_PORT=1025 (MailHog 등), TELEGRAM_API_BASE=http://localhost:포트,
+//  Web Push 는 알려진 푸시 서비스(https)의 endpoint 만 받는다 (서버가 그 주소로 POST 하므로).
+//  로컬 서버로 받아 보려면 PUSH_ALLOW_ANY_ENDPOINT=true 로 제한을 풀고 그 주소로 구독을 등록한다.
+// ───────────────────────────────────────────────────────────────
+import nodemailer, { type Transporter } from "nodemailer";
+import webPush from "web-push";
+import type { NotificationChannel } from "@/lib/notificationKinds";
+
+export type ChannelMessage = {
+  title: string;
+  body: string;
+  link?: string | null;
+};
+
+export type PushTarget = {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+};
+
+const APP_URL = (process.env.NEXT_PUBLIC_APP_URL ?? "").replace(/\/$/, "");
+const TIMEOUT_MS = 15000;
+
+const absoluteLink = (link?: string | null) => (link ? (link.startsWith("/") ? `${APP_URL}${link}` : link) : null);
+
+/** 환경변수가 갖춰진 채널 */
+export function isChannelConfigured(channel: NotificationChannel) {
+  switch (channel) {
+    case "email":
+      return !!process.env.SMTP_HOST && !!process.env.NOTIFY_EMAIL_FROM;
+    case "telegram":
+      return !!process.env.TELEGRAM_BOT_TOKEN;
+    case "push":
+      return !!process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY && !!process.env.VAPID_PRIVATE_KEY && !!process.env.VAPID_SUBJECT;
+  }
+}
+
+/* ------------------------- email ------------------------- */
+
+let transporter: Transporter | null = null;
+
+function getTransporter() {
+  if (!transporter) {
+    transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port: Number(process.env.SMTP_PORT ?? 587),
+      secure: process.env.SMTP_SECURE === "true",
+      auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+      connectionTimeout: TIMEOUT_MS,
+    });
+  }
+  return transporter;
+}
+
+export async function sendEmail(to: string, msg: ChannelMessage) {
+  const link = absoluteLink(msg.link);
+  await getTransporter().sendMail({
+    from: process.env.NOTIFY_EMAIL_FROM,
+    to,
+    subject: msg.title,
+    text: link ? `${msg.body}\n\n${link}` : msg.body,
+  });
+}
+
+/* ------------------------- telegram ------------------------- */
+
+export async function sendTelegram(chatId: string, msg: ChannelMessage) {
+  const base = (process.env.TELEGRAM_API_BASE || "https://api.telegram.org").replace(/\/$/, "");
+  const link = absoluteLink(msg.link);
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), TIMEOUT_MS);
+  const res = await fetch(`${base}/bot${process.env.TELEGRAM_BOT_TOKEN}/sendMessage`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      chat_id: chatId,
+      text: [msg.title, msg.body, link].filter(Boolean).join("\n\n"),
+      disable_web_page_preview: true,
+    }),
+    signal: controller.signal,
+  }).finally(() => clearTimeout(timer));
+
+  const json = await res.json().catch(() => null);
+  if (!res.ok || !json?.ok) throw new Error(`telegram ${res.status}: ${json?.description ?? "sendMessage failed"}`);
+}
+
+/* ------------------------- web push ------------------------- */
+
+// 브라우저 푸시 서비스 (Chrome / Edge / Firefox / Safari)
+const PUSH_SERVICE_HOSTS = [
+  "fcm.googleapis.com",
+  "android.googleapis.com",
+  "updates.push.services.mozilla.com",
+  "web.push.apple.com",
+];
+const PUSH_SERVICE_SUFFIXES = [".notify.windows.com", ".push.apple.com"];
+
+/** 구독 endpoint 가 알려진 푸시 서비스인지 (PUSH_ALLOW_ANY_ENDPOINT=true 면 로컬 테스트용으로 통과) */
+export function isAllowedPushEndpoint(endpoint: string) {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+  if (process.env.PUSH_ALLOW_ANY_ENDPOINT === "true") return url.protocol === "https:" || url.protocol === "http:";
+  if (url.protocol !== "https:" || url.port || url.username || url.password) return false;
+  const host = url.hostname.toLowerCase();
+  return PUSH_SERVICE_HOSTS.includes(host) || PUSH_SERVICE_SUFFIXES.some((suffix) => host.endsWith(suffix));
+}
+
+let vapidReady = false;
+
+/** "gone" = 만료 / 해지된 구독 (호출 쪽에서 삭제) */
+export async function sendPush(target: PushTarget, msg: ChannelMessage): Promise<"sent" | "gone"> {
+  // 제한 전에 저장된 구독도 푸시 서비스가 아니면 보내지 않고 정리
+  if (!isAllowedPushEndpoint(target.endpoint)) return "gone";
+  if (!vapidReady) {
+    webPush.setVapidDetails(
+      process.env.VAPID_SUBJECT!,
+      process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY!,
+      process.env.VAPID_PRIVATE_KEY!
+    );
+    vapidReady = true;
+  }
+
+  try {
+    await webPush.sendNotification(
+      { endpoint: target.endpoint, keys: { p256dh: target.p256dh, auth: target.auth } },
+      JSON.stringify({ title: msg.title, body: msg.body, link: msg.link ?? "/" }),
+      { TTL: 24 * 60 * 60, timeout: TIMEOUT_MS }
+    );
+    return "sent";
+  } catch (e: any) {
+    if (e?.statusCode === 404 || e?.statusCode === 410) return "gone";
+    throw e;
+  }
+}
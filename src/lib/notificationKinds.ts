@@ -0,0 +1,32 @@
+// src/lib/notificationKinds.ts
+// 알림 종류 / 채널 (클라이언트 / 서버 공용) — 발송은 notifications.ts, 설정 화면은 /mypage/notifications
+
+export type NotificationKind =
+  | "reward_paid"
+  | "deposit_received"
+  | "bot_error"
+  | "bot_stopped"
+  | "pass_expiring"
+  | "pass_expired"
+  | "test";
+
+export type NotificationChannel = "email" | "telegram" | "push";
+
+// 설정 화면에서 끌 수 있는 종류 (test 제외)
+export const NOTIFICATION_KIND_LABELS: Record<Exclude<NotificationKind, "test">, string> = {
+  reward_paid: "리워드 지급",
+  deposit_received: "USDT 입금",
+  bot_error: "봇 오류",
+  bot_stopped: "봇 자동 중지",
+  pass_expiring: "패스 만료 예정",
+  pass_expired: "패스 만료",
+};
+
+export type NotificationPreferences = {
+  email: string | null;
+  email_enabled: boolean;
+  telegram_chat_id: string | null;
+  telegram_enabled: boolean;
+  push_enabled: boolean;
+  muted_kinds: string[];
+};
@@ -0,0 +1,351 @@
+// src/lib/notifications.ts
+// ───────────────────────────────────────────────────────────────
+// 사용자 알림 (서버 전용)
+//
+//  1) 쌓기 : 트리거(리워드 지급 완료, Alchemy 입금, 봇 error 기록, 패스 만료 작업)가 notifications 에 추가
+//            dedupe_key 가 같은 알림은 한 번만 (cron 재실행 / 중복 트리거 안전)
+//  2) 발송 : cron(/api/admin/notifications/dispatch)이 dispatched_at 이 없는 알림을 회원 설정에 따라 채널별 발송
+//            채널별 결과는 notification_deliveries — 실패하면 MAX_ATTEMPTS 까지 다음 실행에서 재시도
+//  채널 어댑터(SMTP / Telegram / Web Push)는 notificationChannels.ts
+// ───────────────────────────────────────────────────────────────
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { getKSTISOString } from "@/lib/dateUtil";
+import {
+  NOTIFICATION_KIND_LABELS,
+  type NotificationChannel,
+  type NotificationKind,
+  type NotificationPreferences,
+} from "@/lib/notificationKinds";
+import {
+  isChannelConfigured,
+  sendEmail,
+  sendPush,
+  sendTelegram,
+  type ChannelMessage,
+  type PushTarget,
+} from "@/lib/notificationChannels";
+
+export type NotificationInput = {
+  refCode: string;
+  kind: NotificationKind;
+  title: string;
+  body: string;
+  link?: string;
+  data?: Record<string, any>;
+  dedupeKey?: string;
+};
+
+export type NotificationRow = {
+  id: string;
+  ref_code: string;
+  kind: NotificationKind;
+  title: string;
+  body: string;
+  link: string | null;
+  data: any;
+  created_at: string;
+  dispatched_at: string | null;
+};
+
+type DeliveryRow = {
+  channel: NotificationChannel;
+  status: "sent" | "failed";
+  attempts: number;
+};
+
+export type DeliveryResult = { channel: NotificationChannel; status: "sent" | "failed"; error?: string };
+
+// 채널별 최대 발송 시도
+const MAX_ATTEMPTS = 3;
+// 한 번 실행에서 발송할 최대 알림 수
+const DISPATCH_LIMIT = 100;
+// 봇 error 기록을 알림으로 옮길 때 보는 범위 (중복은 회원별 시간 단위 dedupe_key 로 막는다)
+const BOT_ERROR_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  email: null,
+  email_enabled: false,
+  telegram_chat_id: null,
+  telegram_enabled: false,
+  push_enabled: false,
+  muted_kinds: [],
+};
+
+const PREFERENCE_COLUMNS = "email, email_enabled, telegram_chat_id, telegram_enabled, push_enabled, muted_kinds";
+
+/* ------------------------- 쌓기 ------------------------- */
+
+/** 알림 추가. 새로 쌓였으면 id (같은 dedupe_key 가 이미 있으면 null) */
+export async function queueNotification(input: NotificationInput): Promise<string | null> {
+  const { data, error } = await supabaseAdmin
+    .from("notifications")
+    .upsert(
+      {
+        ref_code: input.refCode,
+        kind: input.kind,
+        title: input.title,
+        body: input.body,
+        link: input.link ?? null,
+        data: input.data ?? null,
+        dedupe_key: input.dedupeKey ?? null,
+      },
+      { onConflict: "dedupe_key", ignoreDuplicates: true }
+    )
+    .select("id");
+  if (error) throw error;
+  return data?.[0]?.id ?? null;
+}
+
+/** 트리거용: 알림 실패가 본 작업(지급 / 입금 기록)을 막지 않도록 로그만 남긴다 */
+export async function notifyUser(input: NotificationInput) {
+  try {
+    await queueNotification(input);
+  } catch (e: any) {
+    console.warn("⚠️ 알림 추가 실패:", input.kind, input.refCode, e?.message ?? e);
+  }
+}
+
+/** 원격 봇이 남긴 bot_status_history error → bot_error 알림 (회원별 1시간에 1건) */
+export async function collectBotErrors(): Promise<number> {
+  const { data, error } = await supabaseAdmin
+    .from("bot_status_history")
+    .select("ref_code, message, created_at")
+    .eq("status", "error")
+    .gte("created_at", new Date(Date.now() - BOT_ERROR_LOOKBACK_MS).toISOString())
+    .order("created_at", { ascending: true })
+    .limit(500);
+  if (error) throw error;
+
+  let queued = 0;
+  for (const row of data ?? []) {
+    if (!row.ref_code) continue;
+    const hour = new Date(row.created_at).toISOString().slice(0, 13);
+    const id = await queueNotification({
+      refCode: row.ref_code,
+      kind: "bot_error",
+      title: "봇 오류가 발생했습니다",
+      body: row.message || "봇 실행 중 오류가 발생했습니다. 봇 화면에서 상태를 확인해주세요.",
+      link: "/bot",
+      data: { created_at: row.created_at },
+      dedupeKey: `bot_error:${row.ref_code}:${hour}`,
+    });
+    if (id) queued++;
+  }
+  return queued;
+}
+
+/* ------------------------- 회원 설정 ------------------------- */
+
+export async function getNotificationPreferences(refCode: string): Promise<NotificationPreferences> {
+  const { data, error } = await supabaseAdmin
+    .from("notification_preferences")
+    .select(PREFERENCE_COLUMNS)
+    .eq("ref_code", refCode)
+    .maybeSingle();
+  if (error) throw error;
+  return { ...DEFAULT_NOTIFICATION_PREFERENCES, ...(data ?? {}) };
+}
+
+// 입력 검증 → DB 행 (넘어온 필드만)
+function toPreferenceRow(input: Partial<NotificationPreferences>) {
+  const row: Record<string, any> = {};
+  if (input.email !== undefined) {
+    const email = String(input.email ?? "").trim();
+    if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) throw new Error("이메일 주소가 올바르지 않습니다");
+    row.email = email || null;
+  }
+  if (input.telegram_chat_id !== undefined) {
+    const chatId = String(input.telegram_chat_id ?? "").trim();
+    if (chatId && !/^(-?\d+|@\w{5,})$/.test(chatId)) throw new Error("텔레그램 chat id 가 올바르지 않습니다");
+    row.telegram_chat_id = chatId || null;
+  }
+  for (const key of ["email_enabled", "telegram_enabled", "push_enabled"] as const) {
+    if (input[key] !== undefined) row[key] = !!input[key];
+  }
+  if (input.muted_kinds !== undefined) {
+    const kinds = Array.isArray(input.muted_kinds) ? input.muted_kinds : [];
+    row.muted_kinds = kinds.filter((k) => k in NOTIFICATION_KIND_LABELS);
+  }
+  return row;
+}
+
+export async function saveNotificationPreferences(
+  refCode: string,
+  input: Partial<NotificationPreferences>
+): Promise<NotificationPreferences> {
+  const row = toPreferenceRow(input);
+  const merged = { ...(await getNotificationPreferences(refCode)), ...row } as NotificationPreferences;
+  if (merged.email_enabled && !merged.email) throw new Error("이메일 알림을 켜려면 이메일 주소가 필요합니다");
+  if (merged.telegram_enabled && !merged.telegram_chat_id) throw new Error("텔레그램 알림을 켜려면 chat id 가 필요합니다");
+
+  const { data, error } = await supabaseAdmin
+    .from("notification_preferences")
+    .upsert({ ref_code: refCode, ...row, updated_at: getKSTISOString() }, { onConflict: "ref_code" })
+    .select(PREFERENCE_COLUMNS)
+    .single();
+  if (error) throw error;
+  return { ...DEFAULT_NOTIFICATION_PREFERENCES, ...data } as NotificationPreferences;
+}
+
+/** endpoint 는 구독한 회원의 것 — 다른 회원이 같은 endpoint 로 등록해도 넘겨주지 않는다 */
+export async function savePushSubscription(
+  refCode: string,
+  target: PushTarget,
+  userAgent?: string | null
+): Promise<{ ok: true; message?: undefined } | { ok: false; message: string }> {
+  const row = {
+    ref_code: refCode,
+    endpoint: target.endpoint,
+    p256dh: target.p256dh,
+    auth: target.auth,
+    user_agent: userAgent ?? null,
+  };
+  const { error } = await supabaseAdmin.from("push_subscriptions").insert(row);
+  if (!error) return { ok: true };
+  if (error.code !== "23505") throw error;
+
+  // 이미 있는 endpoint → 내 구독일 때만 키 갱신
+  const { data, error: updErr } = await supabaseAdmin
+    .from("push_subscriptions")
+    .update({ p256dh: row.p256dh, auth: row.auth, user_agent: row.user_agent })
+    .eq("endpoint", target.endpoint)
+    .eq("ref_code", refCode)
+    .select("id");
+  if (updErr) throw updErr;
+  if (!data?.length) return { ok: false, message: "다른 계정에 등록된 푸시 구독입니다" };
+  return { ok: true };
+}
+
+export async function deletePushSubscription(endpoint: string, refCode?: string) {
+  let q = supabaseAdmin.from("push_subscriptions").delete().eq("endpoint", endpoint);
+  if (refCode) q = q.eq("ref_code", refCode);
+  const { error } = await q;
+  if (error) throw error;
+}
+
+async function loadPushTargets(refCode: string): Promise<PushTarget[]> {
+  const { data, error } = await supabaseAdmin
+    .from("push_subscriptions")
+    .select("endpoint, p256dh, auth")
+    .eq("ref_code", refCode);
+  if (error) throw error;
+  return (data ?? []) as PushTarget[];
+}
+
+/* ------------------------- 발송 ------------------------- */
+
+// 이 알림을 보낼 채널 (종류를 껐거나, 채널이 꺼졌거나, 서버에 설정이 없으면 제외)
+function channelsFor(prefs: NotificationPreferences, kind: NotificationKind, pushTargets: PushTarget[]) {
+  if (kind !== "test" && prefs.muted_kinds.includes(kind)) return [];
+  const channels: NotificationChannel[] = [];
+  if (prefs.email_enabled && prefs.email && isChannelConfigured("email")) channels.push("email");
+  if (prefs.telegram_enabled && prefs.telegram_chat_id && isChannelConfigured("telegram")) channels.push("telegram");
+  if (prefs.push_enabled && pushTargets.length && isChannelConfigured("push")) channels.push("push");
+  return channels;
+}
+
+async function sendToChannel(
+  channel: NotificationChannel,
+  prefs: NotificationPreferences,
+  pushTargets: PushTarget[],
+  msg: ChannelMessage
+) {
+  if (channel === "email") return sendEmail(prefs.email!, msg);
+  if (channel === "telegram") return sendTelegram(prefs.telegram_chat_id!, msg);
+
+  // 기기별 구독 중 하나라도 받으면 성공, 만료된 구독은 정리
+  let sent = 0;
+  let lastError: any = null;
+  for (const target of pushTargets) {
+    try {
+      if ((await sendPush(target, msg)) === "gone") await deletePushSubscription(target.endpoint);
+      else sent++;
+    } catch (e: any) {
+      lastError = e;
+    }
+  }
+  if (!sent) throw lastError ?? new Error("유효한 푸시 구독이 없습니다");
+}
+
+/** 알림 한 건 발송 (이미 보낸 채널 / 시도 초과 채널은 건너뜀). 더 재시도할 채널이 없으면 dispatched_at */
+export async function dispatchNotification(n: NotificationRow): Promise<DeliveryResult[]> {
+  const [prefs, pushTargets] = await Promise.all([getNotificationPreferences(n.ref_code), loadPushTargets(n.ref_code)]);
+
+  const { data: prev, error } = await supabaseAdmin
+    .from("notification_deliveries")
+    .select("channel, status, attempts")
+    .eq("notification_id", n.id);
+  if (error) throw error;
+  const prevByChannel = new Map(((prev ?? []) as DeliveryRow[]).map((d) => [d.channel, d]));
+
+  const msg: ChannelMessage = { title: n.title, body: n.body, link: n.link };
+  const results: DeliveryResult[] = [];
+  let retryLater = false;
+
+  for (const channel of channelsFor(prefs, n.kind, pushTargets)) {
+    const before = prevByChannel.get(channel);
+    if (before?.status === "sent" || (before && before.attempts >= MAX_ATTEMPTS)) continue;
+    const attempts = (before?.attempts ?? 0) + 1;
+
+    let result: DeliveryResult;
+    try {
+      await sendToChannel(channel, prefs, pushTargets, msg);
+      result = { channel, status: "sent" };
+    } catch (e: any) {
+      result = { channel, status: "failed", error: e?.message ?? String(e) };
+      if (attempts < MAX_ATTEMPTS) retryLater = true;
+      console.warn("⚠️ 알림 발송 실패:", channel, n.id, result.error);
+    }
+    results.push(result);
+
+    const { error: saveErr } = await supabaseAdmin.from("notification_deliveries").upsert(
+      {
+        notification_id: n.id,
+        channel,
+        status: result.status,
+        attempts,
+        last_error: result.error ?? null,
+        sent_at: result.status === "sent" ? getKSTISOString() : null,
+        updated_at: getKSTISOString(),
+      },
+      { onConflict: "notification_id,channel" }
+    );
+    if (saveErr) console.warn("⚠️ 알림 발송 기록 오류:", n.id, saveErr.message);
+  }
+
+  if (!retryLater) {
+    const { error: doneErr } = await supabaseAdmin
+      .from("notifications")
+      .update({ dispatched_at: getKSTISOString() })
+      .eq("id", n.id);
+    if (doneErr) throw doneErr;
+  }
+  return results;
+}
+
+/** 봇 error 수집 + 발송 대기 알림 발송 (cron / 관리자 수동 실행) */
+export async function runNotificationDispatch() {
+  const botErrors = await collectBotErrors();
+
+  const { data, error } = await supabaseAdmin
+    .from("notifications")
+    .select("id, ref_code, kind, title, body, link, data, created_at, dispatched_at")
+    .is("dispatched_at", null)
+    .order("created_at", { ascending: true })
+    .limit(DISPATCH_LIMIT);
+  if (error) throw error;
+
+  const counts = { botErrors, notifications: 0, sent: 0, failed: 0 };
+  for (const n of (data ?? []) as NotificationRow[]) {
+    try {
+      const results = await dispatchNotification(n);
+      counts.notifications++;
+      counts.sent += results.filter((r) => r.status === "sent").length;
+      counts.failed += results.filter((r) => r.status === "failed").length;
+    } catch (e: any) {
+      counts.failed++;
+      console.error("❌ 알림 발송 처리 실패:", n.id, e?.message ?? e);
+    }
+  }
+  return counts;
+}
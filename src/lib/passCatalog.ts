@@ -0,0 +1,35 @@
+// src/lib/passCatalog.ts
+// 패스 상품 타입 / 표시 (클라이언트 / 서버 공용)
+//   상품 목록은 pass_products 테이블 (서버: passProducts.ts, 화면: /api/pass-products)
+
+export type PassProduct = {
+  id: string;           // enrollments.product_id
+  price: number;        // USDT
+  months: number;
+  bonus_days: number;
+  unlimited: boolean;
+  active: boolean;
+  sort: number;
+  name_ko: string;      // enrollments.pass_type 으로도 저장 (수당 정책 pass_rules 키)
+  name_en: string | null;
+  image: string | null;
+};
+
+export type PassLocale = "ko" | "en";
+
+// 패스 결제 USDT 수신 지갑
+export const PASS_RECEIVER = "0x19f6De78084a3de630Ae698F31beaa09Aa399613";
+
+export function passName(p: Pick<PassProduct, "name_ko" | "name_en">, locale: PassLocale = "ko") {
+  return (locale === "en" && p.name_en) || p.name_ko;
+}
+
+/** "3개월 + 7일" / "3 months + 7 days" / "무제한" */
+export function passPeriodLabel(p: Pick<PassProduct, "months" | "bonus_days" | "unlimited">, locale: PassLocale = "ko") {
+  if (p.unlimited) return locale === "en" ? "Unlimited" : "무제한";
+  const parts =
+    locale === "en"
+      ? [p.months && `${p.months} month${p.months > 1 ? "s" : ""}`, p.bonus_days && `${p.bonus_days} day${p.bonus_days > 1 ? "s" : ""}`]
+      : [p.months && `${p.months}개월`, p.bonus_days && `${p.bonus_days}일`];
+  return parts.filter(Boolean).join(" + ");
+}
@@ -0,0 +1,172 @@
+// src/lib/passExpiry.ts
+// ───────────────────────────────────────────────────────────────
+// 패스 만료 작업 (서버 전용, 매시 5분 cron → /api/admin/passes/expiry — 원격 중지 실패분을 다음 시간에 재시도)
+//
+//  1) 만료 예정 알림 : 남은 일수가 7 / 3 / 1 일 이하로 들어온 단계마다 한 번 (cron 이 하루 빠져도 다음 날 보낸다)
+//  2) 만료 알림     : 최근 7일 안에 끝난 구독 (연장해 active 로 돌아온 회원은 subscriptions 뷰에서 빠진다)
+//  3) 봇 자동 중지  : bot_settings.enabled = true 인데 유효한 패스가 없으면
+//                     원격 /stop-bot → (성공 시) enabled = false → bot_status_history 에 사유 기록
+//                     원격 중지가 실패하면 enabled 를 그대로 두어 다음 실행에서 다시 시도한다
+//  알림은 notifications 에 dedupe_key 로 쌓이므로 같은 날 다시 실행해도 중복되지 않는다.
+// ───────────────────────────────────────────────────────────────
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { addDaysYYYYMMDD, getKSTDateString, getKSTISOString } from "@/lib/dateUtil";
+import { queueNotification } from "@/lib/notifications";
+import { callRemoteBot } from "@/lib/remoteBot";
+import type { Subscription } from "@/lib/subscriptions";
+
+// 만료 예정 알림 단계 (남은 일수)
+export const EXPIRY_REMINDER_DAYS = [7, 3, 1] as const;
+// 만료 알림을 보낼 최근 만료 범위 (일)
+const EXPIRED_NOTICE_DAYS = 7;
+
+type SubscriptionSlim = Pick<Subscription, "ref_code" | "pass_type" | "expires_at" | "active">;
+
+const SUB_COLUMNS = "ref_code, pass_type, expires_at, active";
+
+const daysBetween = (a: string, b: string) =>
+  Math.round((new Date(`${b}T00:00:00Z`).getTime() - new Date(`${a}T00:00:00Z`).getTime()) / 86400000);
+
+// 남은 일수가 들어온 가장 가까운 단계 (0일 = 오늘 만료 → D-1 단계)
+const reminderStage = (daysLeft: number) => EXPIRY_REMINDER_DAYS.filter((d) => daysLeft <= d).pop();
+
+async function queueExpiryReminders(today: string) {
+  const { data, error } = await supabaseAdmin
+    .from("subscriptions")
+    .select(SUB_COLUMNS)
+    .gte("expires_at", today)
+    .lte("expires_at", addDaysYYYYMMDD(today, EXPIRY_REMINDER_DAYS[0]));
+  if (error) throw error;
+
+  let queued = 0;
+  for (const s of (data ?? []) as SubscriptionSlim[]) {
+    const daysLeft = daysBetween(today, s.expires_at);
+    const stage = reminderStage(daysLeft);
+    if (!stage) continue;
+
+    const added = await queueNotification({
+      refCode: s.ref_code,
+      kind: "pass_expiring",
+      title: daysLeft === 0 ? "패스가 오늘 만료됩니다" : `패스 만료 ${daysLeft}일 전입니다`,
+      body: `${s.pass_type ?? "이모탈 멤버십"} 패스가 ${s.expires_at} 에 만료됩니다. 만료되면 봇이 자동으로 중지되니 스토어에서 연장해주세요.`,
+      link: "/store",
+      data: { expires_at: s.expires_at, days_left: daysLeft, stage },
+      dedupeKey: `pass_expiring:${s.ref_code}:${s.expires_at}:D-${stage}`,
+    });
+    if (added) queued++;
+  }
+  return queued;
+}
+
+async function queueExpiredNotices(today: string) {
+  const { data, error } = await supabaseAdmin
+    .from("subscriptions")
+    .select(SUB_COLUMNS)
+    .gte("expires_at", addDaysYYYYMMDD(today, -EXPIRED_NOTICE_DAYS))
+    .lt("expires_at", today);
+  if (error) throw error;
+
+  let queued = 0;
+  for (const s of (data ?? []) as SubscriptionSlim[]) {
+    const added = await queueNotification({
+      refCode: s.ref_code,
+      kind: "pass_expired",
+      title: "패스가 만료되었습니다",
+      body: `${s.pass_type ?? "이모탈 멤버십"} 패스가 ${s.expires_at} 에 만료되었습니다. 스토어에서 다시 구독하면 봇을 사용할 수 있습니다.`,
+      link: "/store",
+      data: { expires_at: s.expires_at },
+      dedupeKey: `pass_expired:${s.ref_code}:${s.expires_at}`,
+    });
+    if (added) queued++;
+  }
+  return queued;
+}
+
+/**
+ * 유효한 패스 없이 켜져 있는 봇 하나 중지. 원격 중지가 2xx 로 끝난 뒤에만 enabled = false —
+ * 실패하면 행을 그대로 두어 다음 실행이 다시 고른다 (원격 봇이 만료 패스로 계속 거래하지 않도록)
+ */
+async function stopLapsedBot(refCode: string, sub: SubscriptionSlim | undefined): Promise<boolean> {
+  let remoteError: string | null = null;
+  try {
+    const r = await callRemoteBot("stop-bot", refCode);
+    if (!r.ok) remoteError = `${r.status} ${await r.text().catch(() => "")}`.trim();
+  } catch (e: any) {
+    remoteError = e?.message ?? String(e);
+  }
+  if (remoteError) {
+    console.warn("⚠️ 만료 봇 원격 중지 실패 (다음 실행에서 재시도):", refCode, remoteError);
+    return false;
+  }
+
+  const { data: updated, error } = await supabaseAdmin
+    .from("bot_settings")
+    .update({ enabled: false, updated_at: getKSTISOString() })
+    .eq("ref_code", refCode)
+    .eq("enabled", true)
+    .select("ref_code");
+  if (error) throw error;
+  if (!updated?.length) return true; // 그 사이 사용자가 직접 끈 경우
+
+  const reason = sub
+    ? `패스 만료(${sub.expires_at})로 봇이 자동 중지되었습니다`
+    : "유효한 패스가 없어 봇이 자동 중지되었습니다";
+
+  const { error: histErr } = await supabaseAdmin.from("bot_status_history").insert({
+    ref_code: refCode,
+    status: "stopped",
+    message: reason,
+  });
+  if (histErr) console.warn("⚠️ 봇 상태 기록 오류:", refCode, histErr.message);
+
+  await queueNotification({
+    refCode,
+    kind: "bot_stopped",
+    title: "봇이 중지되었습니다",
+    body: `${reason}. 스토어에서 패스를 구독한 뒤 다시 시작해주세요.`,
+    link: "/store",
+    data: { expires_at: sub?.expires_at ?? null, reason: "pass_expired" },
+    dedupeKey: `bot_stopped:${refCode}:${sub?.expires_at ?? "none"}`,
+  });
+
+  console.log("🛑 만료 봇 중지:", refCode, sub?.expires_at ?? "패스 없음");
+  return true;
+}
+
+async function stopLapsedBots() {
+  const { data: bots, error } = await supabaseAdmin.from("bot_settings").select("ref_code").eq("enabled", true);
+  if (error) throw error;
+  const refCodes = (bots ?? []).map((b) => b.ref_code as string);
+  if (!refCodes.length) return { stopped: 0, stopFailed: 0 };
+
+  const { data: subs, error: subErr } = await supabaseAdmin
+    .from("subscriptions")
+    .select(SUB_COLUMNS)
+    .in("ref_code", refCodes);
+  if (subErr) throw subErr;
+  const subByRef = new Map(((subs ?? []) as SubscriptionSlim[]).map((s) => [s.ref_code, s]));
+
+  let stopped = 0;
+  let stopFailed = 0;
+  for (const refCode of refCodes) {
+    const sub = subByRef.get(refCode);
+    if (sub?.active) continue;
+    try {
+      if (await stopLapsedBot(refCode, sub)) stopped++;
+      else stopFailed++;
+    } catch (e: any) {
+      stopFailed++;
+      console.error("❌ 만료 봇 중지 실패:", refCode, e?.message ?? e);
+    }
+  }
+  return { stopped, stopFailed };
+}
+
+/** 만료 알림 + 만료 봇 중지 (cron / 관리자 수동 실행) */
+export async function runPassExpiry(at = new Date()) {
+  const today = getKSTDateString(at);
+  const reminders = await queueExpiryReminders(today);
+  const expired = await queueExpiredNotices(today);
+  const bots = await stopLapsedBots();
+  return { today, reminders, expired, ...bots };
+}
@@ -0,0 +1,40 @@
+// src/lib/passPeriod.ts
+// 패스 기간 계산 (months 개월 + bonus_days 일, 월 말 보정) — pass_products 의 구조화된 기간을 쓴다
+import type { PassProduct } from "@/lib/passCatalog";
+
+export type PassPeriod = Pick<PassProduct, "months" | "bonus_days" | "unlimited">;
+
+// Date에 개월/일 추가 (월 말 보정)
+function addMonthsAndDays(base: Date, months: number, days: number): Date {
+  const d = new Date(base);
+  const targetMonth = d.getMonth() + months;
+  const targetYear = d.getFullYear() + Math.floor(targetMonth / 12);
+  const normalizedMonth = ((targetMonth % 12) + 12) % 12;
+
+  const originalDate = d.getDate();
+  const endOfTargetMonth = new Date(targetYear, normalizedMonth + 1, 0).getDate();
+  const finalDate = Math.min(originalDate, endOfTargetMonth);
+
+  const afterMonths = new Date(
+    targetYear,
+    normalizedMonth,
+    finalDate,
+    d.getHours(),
+    d.getMinutes(),
+    d.getSeconds(),
+    d.getMilliseconds()
+  );
+
+  afterMonths.setDate(afterMonths.getDate() + days);
+  return afterMonths;
+}
+
+// 만료 시각 (무제한은 2099년)
+export function computeExpiry(period: PassPeriod, base = new Date()): Date {
+  if (period.unlimited) {
+    const d = new Date(base);
+    d.setFullYear(2099);
+    return d;
+  }
+  return addMonthsAndDays(base, period.months, period.bonus_days);
+}
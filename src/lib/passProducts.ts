@@ -0,0 +1,101 @@
+// src/lib/passProducts.ts
+// ───────────────────────────────────────────────────────────────
+// 패스 상품 카탈로그 (pass_products, 서버 전용)
+//
+//  - 스토어(/api/pass-products)는 판매 중(active)인 상품만, sort 순
+//  - 견적 / 결제 확인은 product_id 로 상품을 찾는다 (판매 중지 상품은 구매 불가)
+//  - 관리자(/admin/products)는 추가 / 수정 / 판매 중지만, 삭제는 하지 않는다 (enrollments.product_id 참조)
+// ───────────────────────────────────────────────────────────────
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { getKSTISOString } from "@/lib/dateUtil";
+import type { PassProduct } from "@/lib/passCatalog";
+
+const PRODUCT_COLUMNS = "id, price, months, bonus_days, unlimited, active, sort, name_ko, name_en, image";
+
+export type PassProductInput = Partial<Omit<PassProduct, "id">>;
+
+function toProduct(row: any): PassProduct {
+  return {
+    id: row.id,
+    price: Number(row.price),
+    months: Number(row.months ?? 0),
+    bonus_days: Number(row.bonus_days ?? 0),
+    unlimited: !!row.unlimited,
+    active: row.active !== false,
+    sort: Number(row.sort ?? 0),
+    name_ko: row.name_ko,
+    name_en: row.name_en ?? null,
+    image: row.image ?? null,
+  };
+}
+
+export async function listPassProducts(opts: { activeOnly?: boolean } = {}): Promise<PassProduct[]> {
+  let q = supabaseAdmin.from("pass_products").select(PRODUCT_COLUMNS).order("sort").order("price");
+  if (opts.activeOnly) q = q.eq("active", true);
+  const { data, error } = await q;
+  if (error) throw error;
+  return (data ?? []).map(toProduct);
+}
+
+/** 상품 조회 (activeOnly 면 판매 중지 상품은 null) */
+export async function getPassProduct(id: string, opts: { activeOnly?: boolean } = {}): Promise<PassProduct | null> {
+  if (!id) return null;
+  const { data, error } = await supabaseAdmin.from("pass_products").select(PRODUCT_COLUMNS).eq("id", id).maybeSingle();
+  if (error) throw error;
+  const product = data ? toProduct(data) : null;
+  return product && (!opts.activeOnly || product.active) ? product : null;
+}
+
+// 입력 검증 → DB 행 (수정 시에는 넘어온 필드만)
+function toRow(input: PassProductInput, creating: boolean) {
+  const row: Record<string, any> = {};
+  if (input.price !== undefined) {
+    if (!(Number(input.price) > 0)) throw new Error("가격은 0보다 커야 합니다");
+    row.price = Math.round(Number(input.price) * 100) / 100;
+  }
+  for (const key of ["months", "bonus_days", "sort"] as const) {
+    if (input[key] === undefined) continue;
+    const n = Number(input[key]);
+    if (!Number.isInteger(n) || (key !== "sort" && n < 0)) throw new Error(`${key} 값이 올바르지 않습니다`);
+    row[key] = n;
+  }
+  if (input.unlimited !== undefined) row.unlimited = !!input.unlimited;
+  if (input.active !== undefined) row.active = !!input.active;
+  if (input.name_ko !== undefined) {
+    const name = String(input.name_ko ?? "").trim();
+    if (!name) throw new Error("상품명(한국어)이 필요합니다");
+    row.name_ko = name;
+  }
+  if (input.name_en !== undefined) row.name_en = String(input.name_en ?? "").trim() || null;
+  if (input.image !== undefined) row.image = String(input.image ?? "").trim() || null;
+
+  if (creating && (row.price === undefined || row.name_ko === undefined)) {
+    throw new Error("price, name_ko 가 필요합니다");
+  }
+  return row;
+}
+
+export async function createPassProduct(id: string, input: PassProductInput): Promise<PassProduct> {
+  if (!/^[a-z0-9][a-z0-9-]{1,39}$/.test(id)) throw new Error("상품 ID 는 영문 소문자/숫자/- 2~40자입니다");
+  const { data, error } = await supabaseAdmin
+    .from("pass_products")
+    .insert({ id, ...toRow(input, true) })
+    .select(PRODUCT_COLUMNS)
+    .single();
+  if (error?.code === "23505") throw new Error("이미 존재하는 상품 ID 입니다");
+  if (error?.code === "23514") throw new Error("기간이 없습니다 (개월 / 추가 일수 / 무제한 중 하나는 필요)");
+  if (error) throw error;
+  return toProduct(data);
+}
+
+export async function updatePassProduct(id: string, input: PassProductInput): Promise<PassProduct | null> {
+  const { data, error } = await supabaseAdmin
+    .from("pass_products")
+    .update({ ...toRow(input, false), updated_at: getKSTISOString() })
+    .eq("id", id)
+    .select(PRODUCT_COLUMNS)
+    .maybeSingle();
+  if (error?.code === "23514") throw new Error("기간이 없습니다 (개월 / 추가 일수 / 무제한 중 하나는 필요)");
+  if (error) throw error;
+  return data ? toProduct(data) : null;
+}
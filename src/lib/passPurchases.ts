@@ -0,0 +1,178 @@
+// src/lib/passPurchases.ts
+// ───────────────────────────────────────────────────────────────
+// 패스 결제 검증 (서버 전용)
+//
+//  브라우저가 보낸 tx_hash 를 그대로 믿지 않고 체인에서 직접 확인한 뒤에만 enrollments 행을 만든다.
+//   1) 같은 tx_hash 로 만든 수강 내역이 있으면 거부 (enrollments.tx_hash unique, 본인 것이면 그 내역 반환)
+//   2) 영수증이 없거나 확인 블록이 부족하면 pending → 클라이언트가 잠시 후 다시 요청
+//      PURCHASE_START_BLOCK(도입 블록) 이전 tx 는 거부 — 옛 수강 내역에는 tx_hash 가 없어 재사용을 막을 수 없다
+//   3) 영수증 안에 결제 지갑 → PASS_RECEIVER, 견적 결제액과 정확히 같은 USDT Transfer 로그가 있어야 한다
+//   4) 기간 / 결제액은 서버 견적 (subscriptions.ts — 신규 / 연장 / 업그레이드)
+//      + 프로모션 코드 (promoCodes.ts — 견적 때와 같은 검사를 다시 한다)
+// ───────────────────────────────────────────────────────────────
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { getKSTISOString } from "@/lib/dateUtil";
+import { PASS_RECEIVER, type PassProduct } from "@/lib/passCatalog";
+import { quoteCandidates, supersedePasses, type PurchaseQuote } from "@/lib/subscriptions";
+import { applyPromoCode, redeemPromoCode } from "@/lib/promoCodes";
+import { findReceipt, getBlockNumber, hasUSDTTransferLog } from "@/lib/sendUSDT";
+import type { WalletUser } from "@/lib/walletAuth";
+
+// 영수증 블록 포함 확인 수 (1 = 영수증만 있으면 인정)
+export const PURCHASE_MIN_CONFIRMATIONS = Math.max(1, Number(process.env.PURCHASE_MIN_CONFIRMATIONS ?? 1));
+
+// 온체인 결제 확인을 도입한 블록 (배포 시점). 그 전 결제는 enrollments.tx_hash 가 없어
+// 이미 수강 내역으로 만들어졌는지 알 수 없으므로 자동으로 인정하지 않는다 (미설정이면 전부 거부)
+export const PURCHASE_START_BLOCK = /^\d+$/.test(process.env.PURCHASE_START_BLOCK ?? "")
+  ? BigInt(process.env.PURCHASE_START_BLOCK!)
+  : null;
+
+/** 결제 확인 도입 이후 블록의 결제인가 */
+export function isAfterPurchaseStart(blockNumber: bigint | number | null) {
+  if (PURCHASE_START_BLOCK === null) {
+    console.error("❌ PURCHASE_START_BLOCK 미설정 → 패스 결제를 자동 인정하지 않습니다");
+    return false;
+  }
+  return blockNumber !== null && BigInt(blockNumber) >= PURCHASE_START_BLOCK;
+}
+
+export type PurchasePayment = {
+  txHash: `0x${string}`;
+  wallet: string;
+};
+
+export type PurchaseResult =
+  | { ok: true; enrollment: any; reason?: undefined; message?: undefined }
+  | { ok: false; reason: "pending" | "duplicate" | "invalid"; message: string };
+
+type PaymentCheck =
+  | { ok: true; quote: PurchaseQuote; reason?: undefined; message?: undefined }
+  | { ok: false; reason: "pending" | "invalid"; message: string };
+
+export function isTxHash(value: string): value is `0x${string}` {
+  return /^0x[a-fA-F0-9]{64}$/.test(value);
+}
+
+export async function findEnrollmentByTx(txHash: string) {
+  const { data, error } = await supabaseAdmin
+    .from("enrollments")
+    .select("*")
+    .eq("tx_hash", txHash.toLowerCase())
+    .limit(1);
+  if (error) throw error;
+  return data?.[0] ?? null;
+}
+
+/** 체인에서 결제를 확인 (기록은 하지 않는다). 전송 금액과 맞는 견적을 돌려준다 */
+export async function verifyPassPayment(payment: PurchasePayment, quotes: PurchaseQuote[]): Promise<PaymentCheck> {
+  const receipt = await findReceipt(payment.txHash);
+  if (!receipt) return { ok: false, reason: "pending", message: "트랜잭션이 아직 블록에 포함되지 않았습니다" };
+
+  const confirmations = Number((await getBlockNumber()) - receipt.blockNumber) + 1;
+  if (confirmations < PURCHASE_MIN_CONFIRMATIONS) {
+    return { ok: false, reason: "pending", message: `블록 확인 대기 중 (${confirmations}/${PURCHASE_MIN_CONFIRMATIONS})` };
+  }
+  if (receipt.status !== "success") return { ok: false, reason: "invalid", message: "실패한 트랜잭션입니다" };
+  if (!isAfterPurchaseStart(receipt.blockNumber)) {
+    return { ok: false, reason: "invalid", message: "결제 확인 도입 이전의 트랜잭션은 사용할 수 없습니다" };
+  }
+
+  const quote = quotes.find((q) =>
+    hasUSDTTransferLog(receipt, { from: payment.wallet, to: PASS_RECEIVER, amount: q.amount_due })
+  );
+  if (!quote) {
+    return {
+      ok: false,
+      reason: "invalid",
+      message: `결제 지갑에서 수신 지갑으로 ${quotes[0].amount_due} USDT 가 전송된 기록이 없습니다`,
+    };
+  }
+  return { ok: true, quote };
+}
+
+/**
+ * 결제 확인된 tx 로 수강 내역 생성 (같은 tx 는 한 번만, 복구·관리자 배정 경위는 purchase_payments 에 남는다)
+ * 기간 / 결제액 / 업그레이드 크레딧은 견적(subscriptions.ts)을 그대로 따른다.
+ */
+export async function createPaidEnrollment(
+  user: WalletUser,
+  quote: PurchaseQuote,
+  payment: PurchasePayment,
+  opts: { ignorePromoLimits?: boolean } = {}
+): Promise<PurchaseResult> {
+  const { data, error } = await supabaseAdmin
+    .from("enrollments")
+    .insert({
+      ref_code: user.ref_code,
+      ref_by: user.ref_by,
+      center_id: user.center_id,
+      name: user.name,
+      inviter_name: user.inviter_name,
+      product_id: quote.product_id,
+      pass_type: quote.pass_type,
+      purchase_kind: quote.kind,
+      starts_at: quote.starts_at,
+      pass_expired_at: quote.expires_at, // date 컬럼 (YYYY-MM-DD)
+      memo: "결제 완료", // 수당 집계 / 패스 유효성 판정 기준 (rewardCalc, referralChain)
+      tuition: quote.amount_due, // 실제 결제액 (크레딧 / 할인 차감 후) → 수당 기준
+      credit_amount: quote.credit,
+      promo_code: quote.promo_code,
+      discount_amount: quote.discount,
+      tx_hash: payment.txHash.toLowerCase(),
+      payer_wallet: payment.wallet.toLowerCase(),
+      verified_at: getKSTISOString(),
+    })
+    .select("*")
+    .single();
+  if (error?.code === "23505") return { ok: false, reason: "duplicate", message: "이미 사용된 결제 트랜잭션입니다" };
+  if (error) throw error;
+
+  // 프로모션 한도는 사용 기록 시 DB 에서 확정 → 넘치면 방금 만든 수강 내역을 되돌린다
+  // (결제는 수신 결제 검토에 남아 관리자가 코드와 함께 배정)
+  let redeemed: Awaited<ReturnType<typeof redeemPromoCode>>;
+  try {
+    redeemed = await redeemPromoCode(quote, user.ref_code, data.id, payment.txHash, { ignoreLimits: opts.ignorePromoLimits });
+  } catch (e) {
+    await discardEnrollment(data.id);
+    throw e;
+  }
+  if (!redeemed.ok) {
+    await discardEnrollment(data.id);
+    return { ok: false, reason: "invalid", message: redeemed.message };
+  }
+
+  await supersedePasses(quote, data.id);
+  console.log("🎫 패스 결제 확인:", user.ref_code, quote.pass_type, quote.kind, payment.txHash);
+  return { ok: true, enrollment: data };
+}
+
+async function discardEnrollment(id: string) {
+  const { error } = await supabaseAdmin.from("enrollments").delete().eq("id", id);
+  if (error) console.error("❌ 수강 내역 되돌리기 실패:", id, error.message);
+}
+
+/** 검증 + 기록 (/api/purchases/verify) */
+export async function verifyPassPurchase(
+  user: WalletUser,
+  product: PassProduct,
+  payment: PurchasePayment,
+  promoCode?: string | null
+): Promise<PurchaseResult> {
+  const existing = await findEnrollmentByTx(payment.txHash);
+  // 자동 복구(purchaseReconcile)가 먼저 기록한 본인 결제면 그대로 성공
+  if (existing?.ref_code === user.ref_code) return { ok: true, enrollment: existing };
+  if (existing) return { ok: false, reason: "duplicate", message: "이미 사용된 결제 트랜잭션입니다" };
+
+  const priced = await applyPromoCode(await quoteCandidates(user.ref_code, product), promoCode, user);
+  if (!priced.ok) {
+    console.warn("⚠️ 패스 결제 프로모션 거부:", payment.txHash, promoCode, priced.message);
+    return { ok: false, reason: "invalid", message: priced.message };
+  }
+
+  const verified = await verifyPassPayment(payment, priced.quotes);
+  if (!verified.ok) {
+    if (verified.reason === "invalid") console.warn("⚠️ 패스 결제 검증 실패:", payment.txHash, verified.message);
+    return { ok: false, reason: verified.reason, message: verified.message };
+  }
+  return createPaidEnrollment(user, verified.quote, payment);
+}
@@ -0,0 +1,226 @@
+// src/lib/payoutApprovals.ts
+// ───────────────────────────────────────────────────────────────
+// 지급 승인 (maker / checker)
+//
+//  1) prepare : 관리자 A 가 정산일의 지급 대상 행을 묶는다 → 행마다 approval_id 기록 + batch_hash
+//  2) approve : 다른 관리자 B 가 화면에서 본 batch_hash 로 승인 (A 본인 승인 불가, DB 제약도 있음)
+//  3) execute : 송금은 승인된 묶음 단위로만 — 실행 직전에 현재 행으로 해시를 다시 계산해
+//               승인 이후 대상/금액/지갑이 하나라도 바뀌었으면 거부한다
+//  reject 로 폐기하면 아직 송금 안 된 행의 approval_id 가 해제되어 다시 묶을 수 있다
+//  실행된 묶음(executed)도 남은 행(보류 / 실패)은 같은 승인으로 이어서 송금할 수 있다.
+// ───────────────────────────────────────────────────────────────
+import { createHash } from "crypto";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { getKSTISOString } from "@/lib/dateUtil";
+import { LEDGER_COLUMNS, type RewardTransferRow } from "@/lib/payoutLedger";
+import { PAYABLE_STATUSES } from "@/lib/payoutStatus";
+
+export type ApprovalStatus = "prepared" | "approved" | "rejected" | "executed";
+
+export type PayoutApproval = {
+  id: string;
+  reward_date: string;
+  status: ApprovalStatus;
+  transfer_ids: string[];
+  row_count: number;
+  total_amount: number;
+  batch_hash: string;
+  prepared_by: string;
+  prepared_at: string;
+  approved_by: string | null;
+  approved_at: string | null;
+  rejected_by: string | null;
+  rejected_at: string | null;
+  reject_reason: string | null;
+  executed_at: string | null;
+  note: string | null;
+};
+
+export type ApprovalResult =
+  | { ok: true; approval: PayoutApproval; rows: RewardTransferRow[]; message?: undefined }
+  | { ok: false; message: string };
+
+// 송금 가능한 승인 상태
+export const EXECUTABLE_APPROVAL_STATUSES: readonly ApprovalStatus[] = ["approved", "executed"];
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** 묶음 해시: 정산일 + 행별 (id, ref_code, 지갑, 금액) — 상태는 제외 */
+export function hashApprovalRows(
+  rewardDate: string,
+  rows: Pick<RewardTransferRow, "id" | "ref_code" | "wallet_address" | "total_amount">[]
+) {
+  const payload = [...rows]
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .map((r) => [r.id, r.ref_code, (r.wallet_address ?? "").toLowerCase(), Number(r.total_amount ?? 0).toFixed(2)]);
+  return createHash("sha256").update(JSON.stringify([rewardDate, payload])).digest("hex");
+}
+
+export async function listApprovals(rewardDate?: string): Promise<PayoutApproval[]> {
+  let q = supabaseAdmin.from("payout_approvals").select("*").order("prepared_at", { ascending: false }).limit(100);
+  if (rewardDate) q = q.eq("reward_date", rewardDate);
+  const { data, error } = await q;
+  if (error) throw error;
+  return (data ?? []) as PayoutApproval[];
+}
+
+async function loadApproval(id: string): Promise<PayoutApproval | null> {
+  const { data, error } = await supabaseAdmin.from("payout_approvals").select("*").eq("id", id).maybeSingle();
+  if (error) throw error;
+  return (data as PayoutApproval) ?? null;
+}
+
+async function loadApprovalRows(id: string): Promise<RewardTransferRow[]> {
+  const { data, error } = await supabaseAdmin.from("reward_transfers").select(LEDGER_COLUMNS).eq("approval_id", id);
+  if (error) throw error;
+  return (data ?? []) as RewardTransferRow[];
+}
+
+/** 승인 묶음이 기대 상태이고, 현재 행들이 승인 당시와 정확히 같은지 확인 */
+export async function verifyApproval(
+  id: string,
+  statuses: readonly ApprovalStatus[] = EXECUTABLE_APPROVAL_STATUSES
+): Promise<ApprovalResult> {
+  const approval = await loadApproval(id);
+  if (!approval) return { ok: false, message: "승인 묶음을 찾을 수 없습니다" };
+  if (!statuses.includes(approval.status)) {
+    return { ok: false, message: `승인 묶음 상태가 ${approval.status} 입니다 (필요: ${statuses.join(", ")})` };
+  }
+
+  const rows = await loadApprovalRows(id);
+  if (hashApprovalRows(approval.reward_date, rows) !== approval.batch_hash) {
+    return { ok: false, message: "승인 이후 지급 대상 또는 금액이 바뀌었습니다. 반려 후 다시 준비하세요." };
+  }
+  return { ok: true, approval, rows };
+}
+
+/** maker: 정산일의 지급 대상(ids 생략 시 전체)을 승인 대기 묶음으로 만든다 */
+export async function prepareApproval(
+  rewardDate: string,
+  preparedBy: string,
+  opts: { ids?: string[]; note?: string } = {}
+): Promise<ApprovalResult> {
+  let q = supabaseAdmin
+    .from("reward_transfers")
+    .select(LEDGER_COLUMNS)
+    .eq("reward_date", rewardDate)
+    .in("status", PAYABLE_STATUSES)
+    .is("approval_id", null);
+  if (opts.ids?.length) q = q.in("id", opts.ids);
+
+  const { data, error } = await q;
+  if (error) throw error;
+
+  const rows = ((data ?? []) as RewardTransferRow[]).filter(
+    (r) => !!r.wallet_address && Number(r.total_amount) > 0
+  );
+  if (!rows.length) return { ok: false, message: "묶을 지급 대상이 없습니다 (이미 다른 묶음에 포함되었을 수 있음)" };
+
+  const ids = rows.map((r) => r.id);
+  const { data: created, error: insErr } = await supabaseAdmin
+    .from("payout_approvals")
+    .insert({
+      reward_date: rewardDate,
+      transfer_ids: ids,
+      row_count: rows.length,
+      total_amount: round2(rows.reduce((sum, r) => sum + Number(r.total_amount), 0)),
+      batch_hash: hashApprovalRows(rewardDate, rows),
+      prepared_by: preparedBy,
+      prepared_at: getKSTISOString(),
+      note: opts.note ?? null,
+    })
+    .select("*")
+    .single();
+  if (insErr) throw insErr;
+  const approval = created as PayoutApproval;
+
+  // 행 선점 (동시에 다른 묶음이 가져간 행이 있으면 전체 취소)
+  const { data: claimed, error: claimErr } = await supabaseAdmin
+    .from("reward_transfers")
+    .update({ approval_id: approval.id })
+    .in("id", ids)
+    .is("approval_id", null)
+    .in("status", PAYABLE_STATUSES)
+    .select("id");
+  if (claimErr) throw claimErr;
+
+  if ((claimed ?? []).length !== ids.length) {
+    await supabaseAdmin.from("reward_transfers").update({ approval_id: null }).eq("approval_id", approval.id);
+    await supabaseAdmin.from("payout_approvals").delete().eq("id", approval.id);
+    return { ok: false, message: "다른 묶음과 대상이 겹쳤습니다. 다시 준비하세요." };
+  }
+
+  console.log("📝 지급 묶음 준비:", approval.id, { rewardDate, rows: rows.length, by: preparedBy });
+  return { ok: true, approval, rows };
+}
+
+/** checker: 준비자와 다른 관리자가, 화면에서 확인한 batch_hash 로 승인 */
+export async function approveApproval(id: string, approvedBy: string, batchHash: string): Promise<ApprovalResult> {
+  const verified = await verifyApproval(id, ["prepared"]);
+  if (!verified.ok) return verified;
+
+  if (verified.approval.prepared_by === approvedBy) {
+    return { ok: false, message: "묶음을 준비한 관리자는 승인할 수 없습니다" };
+  }
+  if (verified.approval.batch_hash !== batchHash) {
+    return { ok: false, message: "확인한 묶음 해시가 현재 묶음과 다릅니다. 새로고침 후 다시 확인하세요." };
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("payout_approvals")
+    .update({ status: "approved", approved_by: approvedBy, approved_at: getKSTISOString() })
+    .eq("id", id)
+    .eq("status", "prepared")
+    .neq("prepared_by", approvedBy)
+    .select("*");
+  if (error) throw error;
+  if (!data?.length) return { ok: false, message: "이미 처리된 묶음입니다" };
+
+  console.log("✅ 지급 묶음 승인:", id, { by: approvedBy, hash: batchHash });
+  return { ok: true, approval: data[0] as PayoutApproval, rows: verified.rows };
+}
+
+/** 묶음 폐기 (실행된 묶음은 남은 행만 해제) → 아직 송금 안 된 행은 다시 묶을 수 있게 풀어준다 */
+export async function rejectApproval(id: string, rejectedBy: string, reason: string): Promise<ApprovalResult> {
+  const { data, error } = await supabaseAdmin
+    .from("payout_approvals")
+    .update({ status: "rejected", rejected_by: rejectedBy, rejected_at: getKSTISOString(), reject_reason: reason })
+    .eq("id", id)
+    .in("status", ["prepared", "approved", "executed"])
+    .select("*");
+  if (error) throw error;
+  if (!data?.length) return { ok: false, message: "반려할 수 없는 상태입니다" };
+
+  const { data: released, error: relErr } = await supabaseAdmin
+    .from("reward_transfers")
+    .update({ approval_id: null })
+    .eq("approval_id", id)
+    .in("status", PAYABLE_STATUSES)
+    .select(LEDGER_COLUMNS);
+  if (relErr) throw relErr;
+
+  console.log("↩️ 지급 묶음 반려:", id, { by: rejectedBy, reason });
+  return { ok: true, approval: data[0] as PayoutApproval, rows: (released ?? []) as RewardTransferRow[] };
+}
+
+/** 첫 실행 시 approved → executed */
+export async function markApprovalExecuted(id: string) {
+  const { error } = await supabaseAdmin
+    .from("payout_approvals")
+    .update({ status: "executed", executed_at: getKSTISOString() })
+    .eq("id", id)
+    .eq("status", "approved");
+  if (error) console.warn("⚠️ 승인 묶음 실행 기록 오류:", error.message);
+}
+
+/** 정산일의 송금 가능한 묶음 (cron / 수동 재시도용) */
+export async function listExecutableApprovals(rewardDate: string): Promise<PayoutApproval[]> {
+  const { data, error } = await supabaseAdmin
+    .from("payout_approvals")
+    .select("*")
+    .eq("reward_date", rewardDate)
+    .in("status", EXECUTABLE_APPROVAL_STATUSES)
+    .order("approved_at", { ascending: true });
+  if (error) throw error;
+  return (data ?? []) as PayoutApproval[];
+}
@@ -0,0 +1,24 @@
+// src/lib/payoutChain.ts
+// ───────────────────────────────────────────────────────────────
+// 리워드 지급 체인/토큰 설정
+// 기본값은 Polygon 메인넷 USDT. 로컬 테스트 시 아래 env 로 Anvil/Hardhat 노드를 가리킨다.
+//   PAYOUT_RPC_URL=http://127.0.0.1:8545
+//   PAYOUT_CHAIN_ID=31337
+//   PAYOUT_USDT_ADDRESS=<테스트 ERC-20 주소>
+//   MULTISEND_ADDRESS=<Disperse 컨트랙트 주소>
+// ───────────────────────────────────────────────────────────────
+import { defineChain } from "thirdweb";
+import { polygon } from "thirdweb/chains";
+
+export const payoutChain = process.env.PAYOUT_RPC_URL
+  ? defineChain({
+      id: Number(process.env.PAYOUT_CHAIN_ID ?? 31337),
+      rpc: process.env.PAYOUT_RPC_URL,
+    })
+  : polygon;
+
+export const USDT_ADDRESS =
+  process.env.PAYOUT_USDT_ADDRESS || "0xc2132D05D31c914a87C6611C10748AEb04B58e8F";
+
+// Disperse(disperseToken) 호환 멀티센드 컨트랙트
+export const MULTISEND_ADDRESS = process.env.MULTISEND_ADDRESS || "";
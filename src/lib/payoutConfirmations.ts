@@ -0,0 +1,157 @@
+// src/lib/payoutConfirmations.ts
+// ───────────────────────────────────────────────────────────────
+// broadcast 상태 리워드 지급의 온체인 확정 (confirmation worker)
+//
+//  - 영수증이 N 블록 이상 쌓이고, USDT Transfer 로그가 수신자/금액과 일치할 때만 completed
+//  - revert 면 사유와 함께 failed (nonce 가 소진되었으므로 재시도 안전)
+//  - 영수증이 없으면 같은 nonce 가 다른 tx 로 소진된 것이 확인될 때만 failed, 조회 오류면 broadcast 유지
+//  - 영수증이 사라지거나 block_hash 가 바뀌면 reorg 로 보고 확인 수를 0부터 다시 센다
+// ───────────────────────────────────────────────────────────────
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { refreshBatchStatuses } from "@/lib/multisend";
+import {
+  LEDGER_COLUMNS,
+  isNonceReplaced,
+  markCompleted,
+  markFailed,
+  type PayoutResult,
+  type RewardTransferRow,
+} from "@/lib/payoutLedger";
+import {
+  broadcastSignedTransaction,
+  findReceipt,
+  findTransaction,
+  getBlockNumber,
+  getRevertReason,
+  hasUSDTTransferLog,
+} from "@/lib/sendUSDT";
+
+// 확정에 필요한 확인 블록 수 (Polygon 기본 20)
+export const MIN_CONFIRMATIONS = Number(process.env.REWARD_MIN_CONFIRMATIONS ?? 20);
+
+export type ConfirmResult = PayoutResult & { confirmations?: number };
+
+async function updateChainState(
+  row: RewardTransferRow,
+  patch: { block_number: number | null; block_hash: string | null; confirmations: number; error_message?: string | null }
+) {
+  const { error } = await supabaseAdmin
+    .from("reward_transfers")
+    .update(patch)
+    .eq("id", row.id)
+    .eq("status", "broadcast");
+  if (error) console.warn("⚠️ reward_transfers 확인 상태 업데이트 오류:", error.message);
+}
+
+export async function confirmTransfer(
+  row: RewardTransferRow,
+  headBlock: bigint,
+  minConfirmations = MIN_CONFIRMATIONS
+): Promise<ConfirmResult> {
+  const txHash = row.tx_hash as `0x${string}`;
+  const pending: ConfirmResult = { id: row.id, ref_code: row.ref_code, status: "broadcast", tx_hash: txHash };
+
+  // 조회 오류는 throw → 호출 쪽에서 broadcast 유지 (오류를 "영수증 없음"으로 보지 않는다)
+  const receipt = await findReceipt(txHash);
+
+  // 1) 영수증 없음(노드가 확실히 not found): 아직 멤풀이거나, reorg 로 빠졌거나, 드롭됨
+  if (!receipt) {
+    if (row.block_hash) {
+      console.warn("⚠️ reorg 감지 (영수증 사라짐):", row.ref_code, txHash);
+    }
+    await updateChainState(row, { block_number: null, block_hash: null, confirmations: 0 });
+
+    if (await findTransaction(txHash)) return { ...pending, confirmations: 0 };
+
+    // nonce 가 넘어섰고, 그 뒤 다시 조회해도 이 해시가 없을 때만 (= 같은 nonce 의 다른 tx 가 채굴됨)
+    if (await isNonceReplaced(row)) {
+      return markFailed(row, `tx 드롭됨 (nonce ${row.nonce} 다른 tx 로 소진)`);
+    }
+
+    // 노드가 tx 를 잊어버린 경우 → 같은 서명 원문 재전송
+    if (row.signed_tx) {
+      await broadcastSignedTransaction(row.signed_tx as `0x${string}`).catch((e) =>
+        console.warn("⚠️ signed_tx 재전송 실패:", e?.message ?? e)
+      );
+    }
+    return { ...pending, confirmations: 0 };
+  }
+
+  // 2) 영수증 있음: 블록이 바뀌었으면 reorg → 새 블록 기준으로 다시 카운트
+  if (row.block_hash && row.block_hash !== receipt.blockHash) {
+    console.warn("⚠️ reorg 감지 (블록 변경):", row.ref_code, row.block_hash, "→", receipt.blockHash);
+  }
+
+  const confirmations = Number(headBlock - receipt.blockNumber) + 1;
+  await updateChainState(row, {
+    block_number: Number(receipt.blockNumber),
+    block_hash: receipt.blockHash,
+    confirmations,
+  });
+
+  if (confirmations < minConfirmations) return { ...pending, confirmations };
+
+  // 3) 확정 블록 도달
+  if (receipt.status !== "success") {
+    const reason = await getRevertReason(txHash, receipt.blockNumber);
+    return { ...(await markFailed(row, reason)), confirmations };
+  }
+
+  const matched = hasUSDTTransferLog(receipt, {
+    from: row.from_address!,
+    to: row.wallet_address!,
+    amount: Number(row.total_amount),
+  });
+  if (!matched) {
+    // ⚠️ 무언가 전송되었을 수 있으므로 failed(=재시도 가능)로 돌리지 않는다
+    await updateChainState(row, {
+      block_number: Number(receipt.blockNumber),
+      block_hash: receipt.blockHash,
+      confirmations,
+      error_message: "Transfer 로그 불일치 → 수동 확인 필요",
+    });
+    return { ...pending, confirmations, error: "Transfer 로그 불일치" };
+  }
+
+  return { ...(await markCompleted(row, txHash)), confirmations };
+}
+
+/** broadcast 상태 전체를 한 번 훑는다. (cron / 관리자 수동 실행) */
+export async function confirmBroadcastTransfers(opts: { rewardDate?: string; limit?: number } = {}) {
+  let q = supabaseAdmin
+    .from("reward_transfers")
+    .select(LEDGER_COLUMNS)
+    .eq("status", "broadcast")
+    .order("nonce", { ascending: true })
+    .limit(opts.limit ?? 500);
+  if (opts.rewardDate) q = q.eq("reward_date", opts.rewardDate);
+
+  const { data, error } = await q;
+  if (error) throw error;
+
+  const headBlock = await getBlockNumber();
+  const results: ConfirmResult[] = [];
+  for (const row of (data ?? []) as RewardTransferRow[]) {
+    try {
+      results.push(await confirmTransfer(row, headBlock));
+    } catch (e: any) {
+      console.error("❌ 확인 처리 오류:", row.ref_code, e?.message ?? e);
+      results.push({ id: row.id, ref_code: row.ref_code, status: "broadcast", tx_hash: row.tx_hash, error: e?.message ?? "confirm_failed" });
+    }
+  }
+
+  // 멀티센드 배치 상태 동기화
+  const batchIds = Array.from(
+    new Set(((data ?? []) as RewardTransferRow[]).map((r) => r.batch_id).filter(Boolean))
+  ) as string[];
+  if (batchIds.length) await refreshBatchStatuses(batchIds);
+
+  return {
+    headBlock: Number(headBlock),
+    checked: results.length,
+    completed: results.filter((r) => r.status === "completed").length,
+    failed: results.filter((r) => r.status === "failed").length,
+    waiting: results.filter((r) => r.status === "broadcast").length,
+    results,
+  };
+}
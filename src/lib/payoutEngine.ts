@@ -0,0 +1,211 @@
+// src/lib/payoutEngine.ts
+// ───────────────────────────────────────────────────────────────
+// 리워드 지급 엔진 — 모든 지급 라우트의 단일 진입점
+//   /api/send-rewards          (cron, 오늘 승인된 묶음의 pending + failed)
+//   /api/manual-send-rewards   (지정일 승인된 묶음의 failed 재시도)
+//   /api/admin/rewards/transfer (관리자 실행, 승인 묶음 지정, 건별/멀티센드)
+//
+// 송금은 승인된 지급 묶음(payoutApprovals) 단위로만 가능하며, 승인 당시의
+// 행/금액 스냅샷 그대로 보낸다. 송금 전에 payoutPreflight 로 잔액/가스/일일 한도를 점검한다.
+// 상태 전이 규칙은 payoutStatus.ts, 온체인 처리는 payoutLedger / multisend,
+// 최종 확정은 payoutConfirmations 가 담당한다.
+// ───────────────────────────────────────────────────────────────
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { getKSTISOString } from "@/lib/dateUtil";
+import {
+  payRewardTransfers,
+  resumeStaleTransfers,
+  type PayoutResult,
+  type RewardTransferRow,
+} from "@/lib/payoutLedger";
+import { payRewardTransfersBatched } from "@/lib/multisend";
+import { PAYABLE_STATUSES, sourcesOf, type PayoutStatus } from "@/lib/payoutStatus";
+import { preflightPayout, type PayoutPreflight, type ShortfallPolicy } from "@/lib/payoutPreflight";
+import { listExecutableApprovals, markApprovalExecuted, verifyApproval } from "@/lib/payoutApprovals";
+
+export type PayoutRunOptions = {
+  approvalId: string; // 승인된 지급 묶음
+  source: "cron" | "manual" | "admin";
+  statuses?: readonly PayoutStatus[]; // 대상 상태 (기본 pending + failed)
+  minAmount?: number;
+  limit?: number;
+  mode?: "single" | "batch";
+  dryRun?: boolean;
+  onShortfall?: ShortfallPolicy; // 잔액/한도 부족 시 (기본 PAYOUT_SHORTFALL_POLICY)
+};
+
+export type PayoutRunSummary = {
+  approvalId: string;
+  rewardDate: string;
+  source: PayoutRunOptions["source"];
+  mode: "single" | "batch";
+  dryRun: boolean;
+  processed: number;
+  broadcast: number;
+  failed: number;
+  skipped: number;
+  halted: boolean;
+  refused: boolean;  // 사전 점검 부족으로 전체 거부
+  deferred: number;  // 사전 점검 부족으로 이번 실행에서 보류된 행
+  preflight: PayoutPreflight | null;
+  batches: string[];
+  resumed: PayoutResult[];
+  results: (PayoutResult & { batch_id?: string | null })[];
+};
+
+const MAX_LIMIT = 1000;
+
+function isPayable(row: RewardTransferRow) {
+  return !!row.wallet_address && Number(row.total_amount) > 0;
+}
+
+// 지급 불가 데이터 → skipped 로 기록 (pending 에서만 전이 가능)
+async function skipTransfers(rows: RewardTransferRow[], reason: string): Promise<PayoutResult[]> {
+  if (!rows.length) return [];
+  const { error } = await supabaseAdmin
+    .from("reward_transfers")
+    .update({ status: "skipped", error_message: reason, executed_at: getKSTISOString() })
+    .in("id", rows.map((r) => r.id))
+    .in("status", sourcesOf("skipped"));
+  if (error) console.warn("⚠️ skipped 처리 오류:", error.message);
+
+  return rows.map((r) => ({ id: r.id, ref_code: r.ref_code, status: "skipped" as const, error: reason }));
+}
+
+// 승인 스냅샷 중 이번 실행 대상 (상태 / 최소 금액 / 건수 제한)
+function selectPayable(rows: RewardTransferRow[], opts: PayoutRunOptions) {
+  const statuses = (opts.statuses ?? PAYABLE_STATUSES).filter((s) => PAYABLE_STATUSES.includes(s));
+  const limit = Math.min(Number(opts.limit ?? 500), MAX_LIMIT);
+  const minAmount = Number(opts.minAmount ?? 0);
+
+  return rows
+    .filter((r) => statuses.includes(r.status as PayoutStatus))
+    .filter((r) => !(minAmount > 0) || Number(r.total_amount) > minAmount)
+    .sort((a, b) => Number(b.total_amount) - Number(a.total_amount))
+    .slice(0, limit);
+}
+
+export async function runPayout(opts: PayoutRunOptions): Promise<PayoutRunSummary> {
+  const mode = opts.mode ?? "single";
+  const dryRun = !!opts.dryRun;
+  console.log("▶ payout run", { ...opts, mode, dryRun });
+
+  // 승인 묶음 검증: 승인 이후 행/금액/지갑이 바뀌었으면 아무것도 보내지 않는다
+  const verified = await verifyApproval(opts.approvalId);
+  if (!verified.ok) throw new Error(verified.message);
+
+  const rows = selectPayable(verified.rows, opts);
+  const targets = rows.filter(isPayable);
+  const invalid = rows.filter((r) => !isPayable(r));
+
+  const summary: PayoutRunSummary = {
+    approvalId: opts.approvalId,
+    rewardDate: verified.approval.reward_date,
+    source: opts.source,
+    mode,
+    dryRun,
+    processed: 0,
+    broadcast: 0,
+    failed: 0,
+    skipped: invalid.length,
+    halted: false,
+    refused: false,
+    deferred: 0,
+    preflight: null,
+    batches: [],
+    resumed: [],
+    results: [],
+  };
+
+  let selected = targets;
+  if (targets.length) {
+    const { report, selected: subset } = await preflightPayout(targets, mode, opts.onShortfall);
+    selected = subset;
+    summary.preflight = report;
+    summary.deferred = report.deferredIds.length;
+    summary.refused = !report.ok && !subset.length;
+  }
+
+  if (dryRun) {
+    summary.processed = selected.length;
+    summary.results = selected.map((r) => ({ id: r.id, ref_code: r.ref_code, status: "pending" as const }));
+    return summary;
+  }
+
+  // 부족분 보류는 상태를 바꾸지 않는다 (다음 실행에서 다시 대상)
+  if (summary.refused) {
+    console.warn("🛑 지급 사전 점검 실패 → 실행 거부:", summary.preflight?.shortfalls);
+    return summary;
+  }
+
+  const skippedResults = await skipTransfers(invalid, "금액 또는 주소 오류");
+  if (!selected.length) return { ...summary, results: skippedResults };
+
+  await markApprovalExecuted(opts.approvalId);
+
+  const run =
+    mode === "batch"
+      ? await payRewardTransfersBatched(selected)
+      : { ...(await payRewardTransfers(selected)), batches: [] as string[] };
+
+  const results = [...run.results, ...skippedResults];
+  return {
+    ...summary,
+    processed: run.results.length,
+    broadcast: results.filter((r) => r.status === "broadcast").length,
+    failed: results.filter((r) => r.status === "failed").length,
+    skipped: results.filter((r) => r.status === "skipped").length,
+    halted: run.halted,
+    batches: run.batches,
+    resumed: run.resumed,
+    results,
+  };
+}
+
+/**
+ * 정산일의 승인된 묶음을 순서대로 실행 (cron / 수동 재시도).
+ * 검증에 실패한 묶음은 건너뛰고 사유를 남긴다.
+ */
+export async function runApprovedPayouts(
+  rewardDate: string,
+  opts: Omit<PayoutRunOptions, "approvalId">
+) {
+  const summaries: PayoutRunSummary[] = [];
+  const errors: { approvalId: string; message: string }[] = [];
+
+  for (const approval of await listExecutableApprovals(rewardDate)) {
+    try {
+      summaries.push(await runPayout({ ...opts, approvalId: approval.id }));
+    } catch (e: any) {
+      console.error("❌ 승인 묶음 실행 실패:", approval.id, e?.message ?? e);
+      errors.push({ approvalId: approval.id, message: e?.message ?? String(e) });
+    }
+  }
+
+  return {
+    rewardDate,
+    approvals: summaries.length,
+    processed: summaries.reduce((n, s) => n + s.processed, 0),
+    broadcast: summaries.reduce((n, s) => n + s.broadcast, 0),
+    failed: summaries.reduce((n, s) => n + s.failed, 0),
+    summaries,
+    errors,
+  };
+}
+
+// 중단된 지급(processing)만 정리
+export async function resumePayout(rewardDate?: string) {
+  return resumeStaleTransfers(rewardDate);
+}
+
+// 관리자 취소 (pending / failed / skipped → cancelled)
+export async function cancelTransfers(ids: string[], reason = "관리자 취소") {
+  const { data, error } = await supabaseAdmin
+    .from("reward_transfers")
+    .update({ status: "cancelled", error_message: reason, executed_at: getKSTISOString() })
+    .in("id", ids)
+    .in("status", sourcesOf("cancelled"))
+    .select("id");
+  if (error) throw error;
+  return (data ?? []).map((r) => r.id as string);
+}
@@ -0,0 +1,380 @@
+// src/lib/payoutLedger.ts
+// ───────────────────────────────────────────────────────────────
+// 리워드 지급 원장 (reward_transfers)
+//
+//  1) claim     : pending/failed → processing (+ idempotency_key) 조건부 업데이트 (claim_reward_transfer)
+//                 → 동시에 여러 라우트가 돌아도 한 곳만 선점, 일일 지급 한도도 여기서 원자적으로 확인
+//  2) reserve   : 발신 지갑 nonce 예약 (payout_nonces)
+//  3) sign      : 예약 nonce로 서명 → signed_tx / tx_hash 를 "전송 전에" 저장
+//  4) broadcast : 저장된 signed_tx 전송 → status "broadcast"
+//  5) reconcile : 중단된 processing 건을 tx_hash 로 체인 조회해 broadcast / failed 로 정리
+//  6) confirm   : broadcast 건의 최종 확정(completed / failed)은 payoutConfirmations.ts 담당
+//
+// 어느 단계에서 죽어도 재시도는 같은 signed_tx 재전송 또는
+// "nonce 소진이 확인된" 뒤의 failed 처리뿐이므로 이중 지급이 불가능하다.
+// ───────────────────────────────────────────────────────────────
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { sourcesOf, type PayoutStatus } from "@/lib/payoutStatus";
+import { addDaysYYYYMMDD, getKSTDateString, getKSTISOString } from "@/lib/dateUtil";
+import { notifyUser } from "@/lib/notifications";
+import {
+  broadcastSignedTransaction,
+  findReceipt,
+  findTransaction,
+  getPayoutAccount,
+  getChainNonce,
+  signUSDTTransfer,
+} from "@/lib/sendUSDT";
+
+export type RewardTransferRow = {
+  id: string;
+  ref_code: string;
+  wallet_address: string | null;
+  total_amount: number | null;
+  reward_date: string;
+  status: string;
+  tx_hash?: string | null;
+  nonce?: number | null;
+  signed_tx?: string | null;
+  from_address?: string | null;
+  claimed_at?: string | null;
+  batch_id?: string | null;
+  block_number?: number | null;
+  block_hash?: string | null;
+  confirmations?: number | null;
+};
+
+export type PayoutResult = {
+  id: string;
+  ref_code: string;
+  status: PayoutStatus;
+  tx_hash?: string | null;
+  batch_id?: string | null;
+  error?: string;
+};
+
+export const LEDGER_COLUMNS =
+  "id, ref_code, wallet_address, total_amount, reward_date, status, tx_hash, nonce, signed_tx, from_address, claimed_at, batch_id, block_number, block_hash, confirmations";
+
+// processing 상태가 이 시간 이상 지속되면 중단된 것으로 보고 재조정
+const STALE_CLAIM_MS = 10 * 60 * 1000;
+
+// 일일 지급 한도 (USDT, 0 또는 미설정 = 무제한)
+export const PAYOUT_DAILY_CAP = Number(process.env.PAYOUT_DAILY_CAP ?? 0) > 0 ? Number(process.env.PAYOUT_DAILY_CAP) : null;
+
+// 일일 한도 집계 구간 (claimed_at 기준, KST 날짜)
+export function payoutDayWindow(day = getKSTDateString()) {
+  return { start: `${day}T00:00:00.000Z`, end: `${addDaysYYYYMMDD(day, 1)}T00:00:00.000Z` };
+}
+
+// 같은 지급 건(수혜자 + 정산일)은 항상 같은 키
+export function idempotencyKeyFor(row: Pick<RewardTransferRow, "ref_code" | "reward_date">) {
+  return `reward:${row.ref_code}:${row.reward_date}`;
+}
+
+/* ------------------------- DB 헬퍼 ------------------------- */
+
+export type ClaimResult = "claimed" | "taken" | "over_cap";
+
+// 선점하지 못한 이유 (결과 메시지)
+export const CLAIM_SKIP_MESSAGES: Record<Exclude<ClaimResult, "claimed">, string> = {
+  taken: "이미 처리 중",
+  over_cap: "일일 지급 한도 초과 → 보류",
+};
+
+/**
+ * pending/failed → processing 선점. 일일 지급 한도도 같은 DB 트랜잭션에서 확인한다
+ * (claim_reward_transfer: 선점 직렬화 → 동시 실행이 함께 한도를 넘지 못함)
+ */
+export async function claimTransfer(row: RewardTransferRow): Promise<ClaimResult> {
+  const day = payoutDayWindow();
+  const { data, error } = await supabaseAdmin.rpc("claim_reward_transfer", {
+    p_id: row.id,
+    p_sources: sourcesOf("processing"),
+    p_idempotency_key: idempotencyKeyFor(row),
+    p_claimed_at: getKSTISOString(),
+    p_day_start: day.start,
+    p_day_end: day.end,
+    p_daily_cap: PAYOUT_DAILY_CAP,
+  });
+  if (error) throw error;
+  return data as ClaimResult;
+}
+
+export async function reserveNonce(address: string): Promise<number> {
+  const chainNonce = await getChainNonce(address, "pending");
+  const { data, error } = await supabaseAdmin.rpc("reserve_payout_nonce", {
+    p_address: address.toLowerCase(),
+    p_chain_nonce: chainNonce,
+  });
+  if (error) throw error;
+  return Number(data);
+}
+
+// 미해결(processing) 지급이 없을 때만 예약 nonce 를 체인 값으로 되돌림
+async function syncNonce(address: string) {
+  const chainNonce = await getChainNonce(address, "pending");
+  const { error } = await supabaseAdmin.rpc("sync_payout_nonce", {
+    p_address: address.toLowerCase(),
+    p_chain_nonce: chainNonce,
+  });
+  if (error) console.warn("⚠️ payout nonce 동기화 실패:", error.message);
+}
+
+export async function markBroadcast(row: RewardTransferRow): Promise<PayoutResult> {
+  const { error } = await supabaseAdmin
+    .from("reward_transfers")
+    .update({
+      status: "broadcast",
+      error_message: null,
+      executed_at: getKSTISOString(),
+    })
+    .eq("id", row.id)
+    .in("status", sourcesOf("broadcast"));
+  if (error) console.warn("⚠️ reward_transfers 전송 처리 오류:", error.message);
+
+  return { id: row.id, ref_code: row.ref_code, status: "broadcast", tx_hash: row.tx_hash ?? null };
+}
+
+export async function markCompleted(row: RewardTransferRow, txHash: string): Promise<PayoutResult> {
+  const { error } = await supabaseAdmin
+    .from("reward_transfers")
+    .update({
+      status: "completed",
+      tx_hash: txHash,
+      error_message: null,
+      confirmed_at: getKSTISOString(),
+    })
+    .eq("id", row.id)
+    .in("status", sourcesOf("completed"));
+  if (error) console.warn("⚠️ reward_transfers 완료 처리 오류:", error.message);
+
+  // ✅ USDT 입금 내역 기록 (tx_hash 기준 1회만)
+  const { data: existing } = await supabaseAdmin
+    .from("usdt_history")
+    .select("id")
+    .eq("tx_hash", txHash)
+    .eq("ref_code", row.ref_code)
+    .maybeSingle();
+
+  if (!existing) {
+    const { error: insertError } = await supabaseAdmin.from("usdt_history").insert({
+      ref_code: row.ref_code,
+      wallet_address: row.wallet_address?.toLowerCase() ?? null,
+      direction: "in", // ✅ 리워드는 입금 처리
+      purpose: "reward",
+      amount: Number(row.total_amount),
+      tx_hash: txHash,
+      status: "completed",
+      reward_date: getKSTDateString(),
+    });
+    if (insertError) console.warn("⚠️ usdt_history 저장 오류:", insertError.message);
+  }
+
+  await notifyUser({
+    refCode: row.ref_code,
+    kind: "reward_paid",
+    title: "리워드가 지급되었습니다",
+    body: `${row.reward_date} 정산 리워드 ${Number(row.total_amount)} USDT 가 지갑으로 입금되었습니다.`,
+    link: "/mypage/history/usdt",
+    data: { reward_date: row.reward_date, amount: Number(row.total_amount), tx_hash: txHash },
+    dedupeKey: `reward_paid:${row.id}`,
+  });
+
+  return { id: row.id, ref_code: row.ref_code, status: "completed", tx_hash: txHash };
+}
+
+export async function markFailed(row: RewardTransferRow, message: string): Promise<PayoutResult> {
+  const { error } = await supabaseAdmin
+    .from("reward_transfers")
+    .update({
+      status: "failed",
+      error_message: message,
+      signed_tx: null,
+      executed_at: getKSTISOString(),
+    })
+    .eq("id", row.id)
+    .in("status", sourcesOf("failed"));
+  if (error) console.warn("⚠️ reward_transfers 실패 처리 오류:", error.message);
+
+  return { id: row.id, ref_code: row.ref_code, status: "failed", tx_hash: row.tx_hash ?? null, error: message };
+}
+
+async function noteProcessingError(row: RewardTransferRow, message: string): Promise<PayoutResult> {
+  await supabaseAdmin
+    .from("reward_transfers")
+    .update({ error_message: message })
+    .eq("id", row.id)
+    .eq("status", "processing");
+  return { id: row.id, ref_code: row.ref_code, status: "processing", tx_hash: row.tx_hash ?? null, error: message };
+}
+
+/* ------------------------- 체인 대조 ------------------------- */
+
+/**
+ * processing 건 하나를 체인 상태와 대조해 정리한다.
+ *  - 영수증 있음 / 노드가 tx 를 앎 → broadcast (확정은 confirmation worker)
+ *  - nonce 가 다른 tx 로 소진       → 이 tx 는 영영 채굴될 수 없음 → failed (재시도 안전)
+ *  - 체인 조회 실패                → processing 유지 (조회 실패를 "tx 없음"으로 보지 않는다)
+ *  - 그 외                         → 같은 signed_tx 재전송
+ */
+export async function reconcileTransfer(row: RewardTransferRow): Promise<PayoutResult> {
+  if (!row.tx_hash || !row.signed_tx || row.nonce == null) {
+    // 서명 전 단계에서 중단 → 체인에 나간 트랜잭션이 없음
+    return markFailed(row, "지급 중단됨 (미전송) → 재시도 대기");
+  }
+
+  const txHash = row.tx_hash as `0x${string}`;
+  try {
+    if (await isKnownTransaction(txHash)) return markBroadcast(row);
+
+    if (await isNonceReplaced(row)) {
+      return markFailed(row, `nonce ${row.nonce} 다른 tx 로 사용됨 (tx 미채굴)`);
+    }
+  } catch (e: any) {
+    // 조회 실패는 "없음"이 아니다 → processing 유지, 다음 실행에서 다시 대조
+    return noteProcessingError(row, `체인 조회 실패: ${e?.message ?? e}`);
+  }
+
+  try {
+    await broadcastSignedTransaction(row.signed_tx as `0x${string}`);
+    console.log("🔁 signed_tx 재전송:", txHash);
+    return markBroadcast(row);
+  } catch (e: any) {
+    return noteProcessingError(row, `재전송 실패: ${e?.message ?? e}`);
+  }
+}
+
+// 노드가 이 해시를 아는가 (영수증 또는 멤풀). 조회 오류는 throw
+async function isKnownTransaction(txHash: `0x${string}`) {
+  return !!(await findReceipt(txHash)) || !!(await findTransaction(txHash));
+}
+
+// 발신 지갑의 채굴된 nonce 가 이 건의 nonce 를 넘어섰는가
+async function isNonceConsumed(row: RewardTransferRow) {
+  const minedNonce = await getChainNonce(row.from_address!, "latest");
+  return minedNonce > Number(row.nonce);
+}
+
+/**
+ * 이 건의 nonce 가 "다른" tx 로 소진되었는가 (= 이 tx 는 영영 채굴될 수 없음 → failed 로 돌려도 안전).
+ * nonce 를 확인한 "뒤에" 이 해시를 다시 조회한다 — 그 사이 이 tx 가 채굴되어 nonce 를 소진했을 수 있으므로.
+ * nonce 가 넘어섰는데도 노드가 이 해시를 모르면, 그 nonce 는 다른 해시의 tx 가 쓴 것이다.
+ */
+export async function isNonceReplaced(row: RewardTransferRow) {
+  if (!(await isNonceConsumed(row))) return false;
+  return !(await isKnownTransaction(row.tx_hash as `0x${string}`));
+}
+
+/* ------------------------- 지급 ------------------------- */
+
+export async function payRewardTransfer(row: RewardTransferRow): Promise<PayoutResult> {
+  const amount = Number(row.total_amount);
+  if (!row.wallet_address || !(amount > 0)) {
+    return { id: row.id, ref_code: row.ref_code, status: "skipped", error: "금액 또는 주소 오류" };
+  }
+
+  const claim = await claimTransfer(row);
+  if (claim !== "claimed") {
+    console.log("⏭️ 선점 안 함:", row.ref_code, row.reward_date, CLAIM_SKIP_MESSAGES[claim]);
+    return { id: row.id, ref_code: row.ref_code, status: "skipped", error: CLAIM_SKIP_MESSAGES[claim] };
+  }
+
+  const claimed: RewardTransferRow = { ...row, status: "processing" };
+
+  let signed: Awaited<ReturnType<typeof signUSDTTransfer>>;
+  try {
+    const nonce = await reserveNonce((await getPayoutAccount()).address);
+    signed = await signUSDTTransfer(row.wallet_address, amount, nonce);
+
+    // ⚠️ 전송 "전"에 서명 원문/해시 저장 → 이후 어떤 재시도도 같은 tx 만 보냄
+    const { error } = await supabaseAdmin
+      .from("reward_transfers")
+      .update({
+        nonce,
+        from_address: signed.from.toLowerCase(),
+        signed_tx: signed.signedTx,
+        tx_hash: signed.txHash,
+      })
+      .eq("id", row.id)
+      .eq("status", "processing");
+    if (error) throw error;
+
+    Object.assign(claimed, {
+      nonce,
+      from_address: signed.from.toLowerCase(),
+      signed_tx: signed.signedTx,
+      tx_hash: signed.txHash,
+    });
+  } catch (e: any) {
+    // 아직 아무것도 전송하지 않았으므로 실패 처리해도 안전
+    console.error("❌ 지급 준비 실패:", row.ref_code, e?.message ?? e);
+    return markFailed(claimed, `지급 준비 실패: ${e?.message ?? e}`);
+  }
+
+  console.log(`📤 송금 시작 - 대상: ${row.wallet_address}, 금액: ${amount}, nonce: ${claimed.nonce}`);
+
+  try {
+    await broadcastSignedTransaction(signed.signedTx);
+  } catch (e: any) {
+    // 타임아웃 등으로 실제 전송 여부가 불분명할 수 있음 → 체인 대조로 판단
+    console.error("❌ 브로드캐스트 오류:", row.ref_code, e?.message ?? e);
+    const result = await reconcileTransfer(claimed);
+    return result.status === "processing"
+      ? noteProcessingError(claimed, `브로드캐스트 오류: ${e?.message ?? e}`)
+      : result;
+  }
+
+  // ✅ 전송만 완료. 영수증/확인 블록 검증 후 completed 로 바뀜
+  return markBroadcast(claimed);
+}
+
+/**
+ * 이전 실행이 남긴 processing 건(중단된 배치)을 정리한다.
+ * 모든 지급 실행은 새 건을 보내기 전에 이 함수를 먼저 호출한다.
+ */
+export async function resumeStaleTransfers(rewardDate?: string): Promise<PayoutResult[]> {
+  const staleBefore = new Date(Date.now() - STALE_CLAIM_MS);
+
+  let q = supabaseAdmin
+    .from("reward_transfers")
+    .select(LEDGER_COLUMNS)
+    .eq("status", "processing")
+    .lt("claimed_at", getKSTISOString(staleBefore))
+    .order("nonce", { ascending: true, nullsFirst: true });
+  if (rewardDate) q = q.eq("reward_date", rewardDate);
+
+  const { data, error } = await q;
+  if (error) throw error;
+
+  const results: PayoutResult[] = [];
+  for (const row of (data ?? []) as RewardTransferRow[]) {
+    results.push(await reconcileTransfer(row));
+  }
+
+  if (results.length) console.log("🔧 중단된 지급 재조정:", results.length, "건");
+  await syncNonce((await getPayoutAccount()).address);
+  return results;
+}
+
+/**
+ * 대상 행들을 순서대로 지급한다.
+ * 전송 여부가 불분명한 건(processing + error)이 생기면 뒤 nonce 가 막히므로 즉시 중단.
+ */
+export async function payRewardTransfers(rows: RewardTransferRow[]) {
+  const resumed = await resumeStaleTransfers();
+  const results: PayoutResult[] = [];
+  let halted = false;
+
+  for (const row of rows) {
+    const r = await payRewardTransfer(row);
+    results.push(r);
+    if (r.status === "processing" && r.error) {
+      console.error("🛑 전송 상태 불명 → 배치 중단:", r.ref_code, r.error);
+      halted = true;
+      break;
+    }
+  }
+
+  return { resumed, results, halted };
+}
@@ -0,0 +1,163 @@
+// src/lib/payoutPreflight.ts
+// ───────────────────────────────────────────────────────────────
+// 지급 실행 전 사전 점검 (모든 지급 라우트 공통, runPayout 에서 호출)
+//
+//  1) 대상 합계 vs 관리자 지갑 USDT 잔액
+//  2) 예상 가스비(가스 추정 × gasPrice × 여유율) vs MATIC 잔액
+//  3) 일일 지급 한도(PAYOUT_DAILY_CAP) — 오늘(KST) 이미 선점/전송/확정된 금액 포함
+//     여기서는 예상치. 동시 실행까지 막는 실제 한도 확인은 선점(claimTransfer → claim_reward_transfer)에서
+//
+//  부족하면 정책에 따라
+//    - refuse  : 아무것도 보내지 않고 거부 (기본)
+//    - partial : 우선순위대로 예산 안에 들어가는 행만 지급, 나머지는 상태 그대로 보류
+//  우선순위 = failed(재시도) 먼저, 그다음 금액이 작은 순 → 가능한 많은 수혜자에게 지급
+// ───────────────────────────────────────────────────────────────
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { estimateBatchGas } from "@/lib/multisend";
+import { PAYOUT_DAILY_CAP, payoutDayWindow, type RewardTransferRow } from "@/lib/payoutLedger";
+import {
+  estimateUSDTTransferGas,
+  getAdminNativeBalance,
+  getAdminUSDTBalance,
+  getGasPrice,
+  getPayoutAccount,
+} from "@/lib/sendUSDT";
+
+export type ShortfallPolicy = "refuse" | "partial";
+
+export const DEFAULT_SHORTFALL_POLICY: ShortfallPolicy =
+  process.env.PAYOUT_SHORTFALL_POLICY === "partial" ? "partial" : "refuse";
+
+// 가스 추정 실패 시 USDT transfer 1건 기본값
+const DEFAULT_TRANSFER_GAS = BigInt(65_000);
+// gasPrice 변동 여유율 (%)
+const GAS_MARGIN_PCT = BigInt(130);
+
+// 오늘 지급 한도에 포함되는 상태 (failed / cancelled 는 실제로 나가지 않음, claim_reward_transfer 와 동일)
+const SPENT_STATUSES = ["processing", "broadcast", "completed"];
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export type PayoutPreflight = {
+  ok: boolean;              // 전체 대상 지급 가능 여부
+  policy: ShortfallPolicy;
+  wallet: string;
+  targetCount: number;
+  targetAmount: number;
+  usdtBalance: number;
+  maticBalance: number;
+  estimatedGas: string;     // 전체 대상 기준 (bigint → 문자열)
+  gasPriceGwei: number;
+  estimatedGasCost: number; // MATIC, 여유율 포함
+  dailyCap: number | null;
+  spentToday: number;
+  capRemaining: number | null;
+  shortfalls: string[];
+  selectedCount: number;
+  selectedAmount: number;
+  deferredIds: string[];
+};
+
+// 오늘(KST) 이미 나갔거나 나가는 중인 금액
+async function loadSpentToday(): Promise<number> {
+  const day = payoutDayWindow();
+  const { data, error } = await supabaseAdmin
+    .from("reward_transfers")
+    .select("total_amount")
+    .in("status", SPENT_STATUSES)
+    .gte("claimed_at", day.start)
+    .lt("claimed_at", day.end);
+  if (error) throw error;
+  return round2((data ?? []).reduce((sum, r) => sum + Number(r.total_amount ?? 0), 0));
+}
+
+function byPriority(a: RewardTransferRow, b: RewardTransferRow) {
+  const retry = Number(b.status === "failed") - Number(a.status === "failed");
+  return retry || Number(a.total_amount) - Number(b.total_amount);
+}
+
+/**
+ * 대상 행에 대한 사전 점검. selected 는 실제로 보낼 행
+ * (전체 가능 → 전체, refuse → 빈 배열, partial → 예산 안에 들어가는 부분집합)
+ */
+export async function preflightPayout(
+  rows: RewardTransferRow[],
+  mode: "single" | "batch",
+  policy: ShortfallPolicy = DEFAULT_SHORTFALL_POLICY
+): Promise<{ report: PayoutPreflight; selected: RewardTransferRow[] }> {
+  const wallet = (await getPayoutAccount()).address;
+
+  const [usdtBalance, maticBalance, gasPrice, spentToday] = await Promise.all([
+    getAdminUSDTBalance(wallet),
+    getAdminNativeBalance(wallet),
+    getGasPrice(),
+    loadSpentToday(),
+  ]);
+
+  // 건별 지급은 첫 행으로 transfer 1건 가스를 추정 (잔액 부족 등으로 실패하면 기본값)
+  let perTransferGas = DEFAULT_TRANSFER_GAS;
+  if (mode === "single" && rows[0]?.wallet_address) {
+    perTransferGas = await estimateUSDTTransferGas(rows[0].wallet_address, Number(rows[0].total_amount))
+      .catch(() => DEFAULT_TRANSFER_GAS);
+  }
+  const gasFor = (count: number) =>
+    mode === "batch" ? estimateBatchGas(count) : perTransferGas * BigInt(count);
+  const costOf = (gas: bigint) => Number((gas * gasPrice * GAS_MARGIN_PCT) / BigInt(100)) / 1e18;
+
+  const dailyCap = PAYOUT_DAILY_CAP;
+  const capRemaining = dailyCap === null ? null : round2(Math.max(0, dailyCap - spentToday));
+  const usdtBudget = Math.min(usdtBalance, capRemaining ?? Infinity);
+
+  const targetAmount = round2(rows.reduce((sum, r) => sum + Number(r.total_amount), 0));
+  const estimatedGas = gasFor(rows.length);
+  const estimatedGasCost = costOf(estimatedGas);
+
+  const shortfalls: string[] = [];
+  if (targetAmount > usdtBalance) {
+    shortfalls.push(`USDT 잔액 부족: 필요 ${targetAmount}, 보유 ${round2(usdtBalance)}`);
+  }
+  if (estimatedGasCost > maticBalance) {
+    shortfalls.push(`MATIC 잔액 부족: 예상 가스비 ${estimatedGasCost.toFixed(4)}, 보유 ${maticBalance.toFixed(4)}`);
+  }
+  if (capRemaining !== null && targetAmount > capRemaining) {
+    shortfalls.push(`일일 지급 한도 초과: 한도 ${dailyCap}, 오늘 지급 ${spentToday}, 요청 ${targetAmount}`);
+  }
+  const ok = shortfalls.length === 0;
+
+  let selected: RewardTransferRow[] = [];
+  if (ok) {
+    selected = rows;
+  } else if (policy === "partial") {
+    let amount = 0;
+    for (const row of [...rows].sort(byPriority)) {
+      const nextAmount = round2(amount + Number(row.total_amount));
+      if (nextAmount > usdtBudget || costOf(gasFor(selected.length + 1)) > maticBalance) break;
+      selected.push(row);
+      amount = nextAmount;
+    }
+  }
+
+  const selectedIds = new Set(selected.map((r) => r.id));
+  const report: PayoutPreflight = {
+    ok,
+    policy,
+    wallet,
+    targetCount: rows.length,
+    targetAmount,
+    usdtBalance: round2(usdtBalance),
+    maticBalance,
+    estimatedGas: estimatedGas.toString(),
+    gasPriceGwei: Number(gasPrice) / 1e9,
+    estimatedGasCost,
+    dailyCap,
+    spentToday,
+    capRemaining,
+    shortfalls,
+    selectedCount: selected.length,
+    selectedAmount: round2(selected.reduce((sum, r) => sum + Number(r.total_amount), 0)),
+    deferredIds: rows.filter((r) => !selectedIds.has(r.id)).map((r) => r.id),
+  };
+
+  if (!ok) console.warn("⚠️ 지급 사전 점검 부족:", shortfalls, { policy, selected: selected.length });
+  return { report, selected };
+}
@@ -0,0 +1,57 @@
+// src/lib/payoutStatus.ts
+// ───────────────────────────────────────────────────────────────
+// reward_transfers.status 상태 머신 (서버/관리자 화면 공용)
+//
+//   pending ──▶ processing ──▶ broadcast ──▶ completed
+//      │            │              │
+//      │            └──▶ failed ◀──┘
+//      │                   │
+//      │                   └──▶ processing (재시도)
+//      ├──▶ skipped   (금액/주소 오류 → 데이터 수정 후 pending 으로 복귀)
+//      └──▶ cancelled (관리자 취소, failed 에서도 가능)
+//
+//  pending    : 계산 완료, 지급 대기
+//  processing : 지급 실행이 선점 (nonce 예약/서명 저장, 전송 전후)
+//  broadcast  : 체인 전송 완료, 확인 블록 대기
+//  completed  : N 확인 + Transfer 로그 검증 완료 (최종)
+//  failed     : 전송되지 않았음이 확실한 실패 → 재시도 가능
+//  skipped    : 지급 불가 데이터 (지갑 없음, 금액 0 이하)
+//  cancelled  : 관리자 취소 (최종)
+// ───────────────────────────────────────────────────────────────
+
+export const PAYOUT_STATUSES = [
+  "pending",
+  "processing",
+  "broadcast",
+  "completed",
+  "failed",
+  "skipped",
+  "cancelled",
+] as const;
+
+export type PayoutStatus = (typeof PAYOUT_STATUSES)[number];
+
+export const PAYOUT_TRANSITIONS: Record<PayoutStatus, readonly PayoutStatus[]> = {
+  pending: ["processing", "skipped", "cancelled"],
+  processing: ["broadcast", "failed"],
+  broadcast: ["completed", "failed"],
+  completed: [],
+  failed: ["processing", "cancelled"],
+  skipped: ["pending", "cancelled"],
+  cancelled: [],
+};
+
+// 지급 실행이 새로 선점할 수 있는 상태
+export const PAYABLE_STATUSES: readonly PayoutStatus[] = ["pending", "failed"];
+
+export function canTransition(from: string, to: PayoutStatus) {
+  return (PAYOUT_TRANSITIONS[from as PayoutStatus] ?? []).includes(to);
+}
+
+// `to` 로 전이할 수 있는 출발 상태 목록 (조건부 UPDATE 의 .in("status", …) 용)
+export function sourcesOf(to: PayoutStatus): PayoutStatus[] {
+  return PAYOUT_STATUSES.filter((s) => PAYOUT_TRANSITIONS[s].includes(to));
+}
+
+// 재계산으로 금액을 덮어써도 되는 상태 (아직 아무것도 전송되지 않음)
+export const EDITABLE_STATUSES: readonly PayoutStatus[] = ["pending", "failed", "skipped"];
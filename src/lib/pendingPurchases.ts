@@ -0,0 +1,74 @@
+// src/lib/pendingPurchases.ts
+// 결제 확인 대기 목록 (클라이언트 전용, localStorage)
+//   USDT 전송 직후 저장 → /api/purchases/verify 성공(또는 409/400 확정)하면 제거
+//   창이 닫혀도 스토어에 다시 들어오면 retryPendingPurchases 로 이어서 확인한다
+import type { Account } from "thirdweb/wallets";
+import { walletFetch } from "@/lib/walletRequest";
+
+const STORAGE_KEY = "pending_purchases";
+
+export type PendingPurchase = {
+  tx_hash: string;
+  product_id: string;
+  promo_code?: string | null;
+  wallet: string;
+  created_at: string;
+};
+
+export type VerifyResponse = { enrollment?: any; pending?: boolean; error?: string };
+
+function load(): PendingPurchase[] {
+  try {
+    const list = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    return Array.isArray(list) ? list : [];
+  } catch {
+    return [];
+  }
+}
+
+function save(list: PendingPurchase[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(list));
+}
+
+export function addPendingPurchase(p: Omit<PendingPurchase, "created_at">) {
+  const list = load().filter((x) => x.tx_hash !== p.tx_hash);
+  save([...list, { ...p, wallet: p.wallet.toLowerCase(), created_at: new Date().toISOString() }]);
+}
+
+export function removePendingPurchase(txHash: string) {
+  save(load().filter((x) => x.tx_hash !== txHash));
+}
+
+/** 한 건 확인. pending 이면 기록 유지, 성공/확정 실패면 목록에서 제거 */
+export async function verifyPurchase(
+  account: Account,
+  p: Pick<PendingPurchase, "tx_hash" | "product_id" | "promo_code">
+) {
+  let data: VerifyResponse;
+  try {
+    data = await walletFetch<VerifyResponse>(account, "/api/purchases/verify", {
+      body: { tx_hash: p.tx_hash, product_id: p.product_id, promo_code: p.promo_code ?? null },
+    });
+  } catch (e: any) {
+    // 400(결제 불일치) / 409(이미 사용)는 재시도해도 같은 결과, 그 밖의 오류만 남겨둔다
+    if (e?.status === 400 || e?.status === 409) removePendingPurchase(p.tx_hash);
+    throw e;
+  }
+  if (!data.pending) removePendingPurchase(p.tx_hash);
+  return data;
+}
+
+/** 이 지갑의 확인 대기 결제를 다시 확인. 새로 기록된 수강 내역 수를 돌려준다 */
+export async function retryPendingPurchases(account: Account): Promise<number> {
+  const wallet = account.address.toLowerCase();
+  let created = 0;
+  for (const p of load().filter((x) => x.wallet === wallet)) {
+    try {
+      const data = await verifyPurchase(account, p);
+      if (data.enrollment) created++;
+    } catch (e: any) {
+      console.warn("⚠️ 결제 재확인 실패:", p.tx_hash, e?.message ?? e);
+    }
+  }
+  return created;
+}
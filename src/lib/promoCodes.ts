@@ -0,0 +1,280 @@
+// src/lib/promoCodes.ts
+// ───────────────────────────────────────────────────────────────
+// 프로모션 코드 (서버 전용)
+//
+//  견적(/api/purchases/quote)과 결제 확인(/api/purchases/verify)이 같은 검사를 한다.
+//   - 할인은 견적 결제액(업그레이드면 크레딧 차감 후)에 적용, bonus_days 는 만료일에 더한다
+//   - 할인 후 결제액이 결제 확인 기준 금액 → enrollments.tuition (수당도 이 금액 기준)
+//   - 사용 기록(promo_redemptions)은 결제가 확인되어 수강 내역이 만들어질 때만 남는다
+//     한도는 기록 시점에 DB 가 코드 행을 잠그고 다시 확인 (redeem_promo_code) — 넘치면 수강 내역을 되돌린다
+//  견적 이후 한도가 찼거나 기간이 끝나면 결제 확인이 거부된다 → 수신 결제 검토(purchaseReconcile)에서
+//  관리자가 코드와 함께 배정 (이때는 사용 중지·기간·한도를 보지 않는다)
+// ───────────────────────────────────────────────────────────────
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { addDaysYYYYMMDD, getKSTDateString, getKSTISOString } from "@/lib/dateUtil";
+import type { PurchaseQuote } from "@/lib/subscriptions";
+import type { WalletUser } from "@/lib/walletAuth";
+
+export type PromoDiscountType = "percent" | "fixed";
+
+export type PromoCode = {
+  code: string;
+  discount_type: PromoDiscountType;
+  discount_value: number;
+  bonus_days: number;
+  max_redemptions: number | null;
+  per_user_limit: number | null;
+  valid_from: string | null;  // YYYY-MM-DD (KST, 포함)
+  valid_until: string | null; // YYYY-MM-DD (KST, 포함)
+  referrer_codes: string[] | null;
+  center_ids: string[] | null;
+  active: boolean;
+  note: string | null;
+  created_by: string | null;
+  created_at: string;
+  redeemed_count?: number;
+};
+
+export type PromoCodeInput = Partial<Omit<PromoCode, "code" | "created_by" | "created_at" | "redeemed_count">>;
+
+export type PromoCheck =
+  | { ok: true; promo: PromoCode; message?: undefined }
+  | { ok: false; message: string };
+
+export type PromoQuote =
+  | { ok: true; quote: PurchaseQuote; message?: undefined }
+  | { ok: false; message: string };
+
+const PROMO_COLUMNS =
+  "code, discount_type, discount_value, bonus_days, max_redemptions, per_user_limit, valid_from, valid_until, referrer_codes, center_ids, active, note, created_by, created_at";
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export const normalizePromoCode = (code: string) => String(code ?? "").trim().toUpperCase();
+
+function toPromo(row: any): PromoCode {
+  return {
+    ...row,
+    discount_value: Number(row.discount_value ?? 0),
+    bonus_days: Number(row.bonus_days ?? 0),
+  } as PromoCode;
+}
+
+export async function getPromoCode(code: string): Promise<PromoCode | null> {
+  const normalized = normalizePromoCode(code);
+  if (!normalized) return null;
+  const { data, error } = await supabaseAdmin.from("promo_codes").select(PROMO_COLUMNS).eq("code", normalized).maybeSingle();
+  if (error) throw error;
+  return data ? toPromo(data) : null;
+}
+
+async function countRedemptions(code: string, refCode?: string) {
+  let q = supabaseAdmin.from("promo_redemptions").select("id", { count: "exact", head: true }).eq("code", code);
+  if (refCode) q = q.eq("ref_code", refCode);
+  const { count, error } = await q;
+  if (error) throw error;
+  return count ?? 0;
+}
+
+/**
+ * 회원이 지금(at) 쓸 수 있는 코드인지 확인.
+ * ignoreLimits: 관리자 배정 — 사용 중지 / 기간 / 횟수는 보지 않는다 (대상 제한은 그대로)
+ */
+export async function checkPromoCode(
+  code: string,
+  user: Pick<WalletUser, "ref_code" | "ref_by" | "center_id">,
+  opts: { at?: Date; ignoreLimits?: boolean } = {}
+): Promise<PromoCheck> {
+  const promo = await getPromoCode(code);
+  if (!promo || (!promo.active && !opts.ignoreLimits)) return { ok: false, message: "사용할 수 없는 프로모션 코드입니다" };
+
+  if (promo.referrer_codes?.length && !promo.referrer_codes.includes(user.ref_by ?? "")) {
+    return { ok: false, message: "이 프로모션 코드의 대상 회원이 아닙니다" };
+  }
+  if (promo.center_ids?.length && !promo.center_ids.includes(user.center_id ?? "")) {
+    return { ok: false, message: "이 프로모션 코드의 대상 센터가 아닙니다" };
+  }
+  if (opts.ignoreLimits) return { ok: true, promo };
+
+  const day = getKSTDateString(opts.at);
+  if (promo.valid_from && day < promo.valid_from) return { ok: false, message: `${promo.valid_from} 부터 사용할 수 있는 코드입니다` };
+  if (promo.valid_until && day > promo.valid_until) return { ok: false, message: "사용 기간이 끝난 코드입니다" };
+
+  if (promo.max_redemptions && (await countRedemptions(promo.code)) >= promo.max_redemptions) {
+    return { ok: false, message: "사용 한도가 모두 소진된 코드입니다" };
+  }
+  if (promo.per_user_limit && (await countRedemptions(promo.code, user.ref_code)) >= promo.per_user_limit) {
+    return { ok: false, message: "이미 사용한 프로모션 코드입니다" };
+  }
+  return { ok: true, promo };
+}
+
+/** 견적에 할인 / 추가 일수 적용 */
+export function applyPromo(quote: PurchaseQuote, promo: PromoCode): PromoQuote {
+  const discount = round2(
+    promo.discount_type === "percent"
+      ? (quote.amount_due * promo.discount_value) / 100
+      : Math.min(promo.discount_value, quote.amount_due)
+  );
+  const amountDue = round2(quote.amount_due - discount);
+  if (amountDue <= 0) return { ok: false, message: "할인 후 결제 금액이 없어 이 패스에는 사용할 수 없습니다" };
+
+  return {
+    ok: true,
+    quote: {
+      ...quote,
+      promo_code: promo.code,
+      discount,
+      bonus_days: promo.bonus_days,
+      amount_due: amountDue,
+      expires_at: promo.bonus_days ? addDaysYYYYMMDD(quote.expires_at, promo.bonus_days) : quote.expires_at,
+    },
+  };
+}
+
+/** 코드 확인 + 견적 적용 (code 가 비어 있으면 견적 그대로) */
+export async function applyPromoCode(
+  quotes: PurchaseQuote[],
+  code: string | null | undefined,
+  user: Pick<WalletUser, "ref_code" | "ref_by" | "center_id">,
+  opts: { at?: Date; ignoreLimits?: boolean } = {}
+): Promise<{ ok: true; quotes: PurchaseQuote[]; message?: undefined } | { ok: false; message: string }> {
+  if (!normalizePromoCode(code ?? "")) return { ok: true, quotes };
+
+  const checked = await checkPromoCode(code!, user, opts);
+  if (!checked.ok) return { ok: false, message: checked.message };
+
+  const applied: PurchaseQuote[] = [];
+  for (const quote of quotes) {
+    const result = applyPromo(quote, checked.promo);
+    if (!result.ok) return { ok: false, message: result.message };
+    applied.push(result.quote);
+  }
+  return { ok: true, quotes: applied };
+}
+
+const REDEEM_FAILURES: Record<string, string> = {
+  not_found: "사용할 수 없는 프로모션 코드입니다",
+  max_redemptions: "사용 한도가 모두 소진된 코드입니다",
+  per_user_limit: "이미 사용한 프로모션 코드입니다",
+};
+
+/**
+ * 결제 확인된 수강 내역의 코드 사용 기록. 한도는 DB(redeem_promo_code)가 코드 행을 잠근 채 다시 확인한다
+ * → 동시에 확인된 결제들이 함께 한도를 넘지 못한다. 거부되면 호출 쪽이 수강 내역을 되돌린다.
+ * ignoreLimits: 관리자 배정 (checkPromoCode 와 같은 의미)
+ */
+export async function redeemPromoCode(
+  quote: PurchaseQuote,
+  refCode: string,
+  enrollmentId: string,
+  txHash: string,
+  opts: { ignoreLimits?: boolean } = {}
+): Promise<{ ok: true; message?: undefined } | { ok: false; message: string }> {
+  if (!quote.promo_code) return { ok: true };
+
+  const { data, error } = await supabaseAdmin.rpc("redeem_promo_code", {
+    p_code: quote.promo_code,
+    p_ref_code: refCode,
+    p_enrollment_id: enrollmentId,
+    p_tx_hash: txHash.toLowerCase(),
+    p_product_id: quote.product_id,
+    p_list_amount: round2(quote.amount_due + quote.discount),
+    p_discount: quote.discount,
+    p_amount_paid: quote.amount_due,
+    p_bonus_days: quote.bonus_days,
+    p_ignore_limits: !!opts.ignoreLimits,
+  });
+  if (error) throw error;
+
+  if (data !== "redeemed") {
+    console.warn("⚠️ 프로모션 사용 거부:", quote.promo_code, refCode, data);
+    return { ok: false, message: REDEEM_FAILURES[data] ?? "사용할 수 없는 프로모션 코드입니다" };
+  }
+  console.log("🏷️ 프로모션 사용:", quote.promo_code, refCode, { discount: quote.discount, bonus_days: quote.bonus_days });
+  return { ok: true };
+}
+
+/* ------------------------- 관리 ------------------------- */
+
+export async function listPromoCodes(): Promise<PromoCode[]> {
+  const { data, error } = await supabaseAdmin.from("promo_codes").select(PROMO_COLUMNS).order("created_at", { ascending: false });
+  if (error) throw error;
+  return Promise.all(
+    (data ?? []).map(async (row) => ({ ...toPromo(row), redeemed_count: await countRedemptions(row.code) }))
+  );
+}
+
+const toDate = (v: any) => {
+  const s = String(v ?? "").trim();
+  if (!s) return null;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(s)) throw new Error("날짜는 YYYY-MM-DD 형식입니다");
+  return s;
+};
+const toLimit = (v: any, key: string) => {
+  if (v === null || v === "" || v === undefined) return null;
+  const n = Number(v);
+  if (!Number.isInteger(n) || n <= 0) throw new Error(`${key} 값이 올바르지 않습니다`);
+  return n;
+};
+const toList = (v: any) => {
+  const list = (Array.isArray(v) ? v : String(v ?? "").split(",")).map((s) => String(s).trim()).filter(Boolean);
+  return list.length ? list : null;
+};
+
+// 입력 검증 → DB 행 (수정 시에는 넘어온 필드만)
+function toRow(input: PromoCodeInput) {
+  const row: Record<string, any> = {};
+  if (input.discount_type !== undefined) {
+    if (input.discount_type !== "percent" && input.discount_type !== "fixed") throw new Error("discount_type 은 percent / fixed 입니다");
+    row.discount_type = input.discount_type;
+  }
+  if (input.discount_value !== undefined) {
+    const n = Number(input.discount_value);
+    if (!(n >= 0)) throw new Error("할인 값이 올바르지 않습니다");
+    row.discount_value = round2(n);
+  }
+  if (input.bonus_days !== undefined) {
+    const n = Number(input.bonus_days || 0);
+    if (!Number.isInteger(n) || n < 0) throw new Error("bonus_days 값이 올바르지 않습니다");
+    row.bonus_days = n;
+  }
+  if (input.max_redemptions !== undefined) row.max_redemptions = toLimit(input.max_redemptions, "max_redemptions");
+  if (input.per_user_limit !== undefined) row.per_user_limit = toLimit(input.per_user_limit, "per_user_limit");
+  if (input.valid_from !== undefined) row.valid_from = toDate(input.valid_from);
+  if (input.valid_until !== undefined) row.valid_until = toDate(input.valid_until);
+  if (input.referrer_codes !== undefined) row.referrer_codes = toList(input.referrer_codes);
+  if (input.center_ids !== undefined) row.center_ids = toList(input.center_ids);
+  if (input.active !== undefined) row.active = !!input.active;
+  if (input.note !== undefined) row.note = String(input.note ?? "").trim() || null;
+  return row;
+}
+
+function rethrowConstraint(error: any) {
+  if (error?.code === "23514") throw new Error("할인 설정이 올바르지 않습니다 (비율은 100% 미만, 할인 또는 추가 일수 중 하나는 필요)");
+  if (error) throw error;
+}
+
+export async function createPromoCode(code: string, input: PromoCodeInput, createdBy: string): Promise<PromoCode> {
+  const normalized = normalizePromoCode(code);
+  if (!/^[A-Z0-9][A-Z0-9_-]{2,31}$/.test(normalized)) throw new Error("코드는 영문/숫자/-/_ 3~32자입니다");
+  const { data, error } = await supabaseAdmin
+    .from("promo_codes")
+    .insert({ code: normalized, ...toRow(input), created_by: createdBy })
+    .select(PROMO_COLUMNS)
+    .single();
+  if (error?.code === "23505") throw new Error("이미 존재하는 코드입니다");
+  rethrowConstraint(error);
+  return toPromo(data);
+}
+
+export async function updatePromoCode(code: string, input: PromoCodeInput): Promise<PromoCode | null> {
+  const { data, error } = await supabaseAdmin
+    .from("promo_codes")
+    .update({ ...toRow(input), updated_at: getKSTISOString() })
+    .eq("code", normalizePromoCode(code))
+    .select(PROMO_COLUMNS)
+    .maybeSingle();
+  rethrowConstraint(error);
+  return data ? toPromo(data) : null;
+}
@@ -0,0 +1,395 @@
+// src/lib/purchaseReconcile.ts
+// ───────────────────────────────────────────────────────────────
+// 패스 결제 누락 복구 (서버 전용)
+//
+//  결제(USDT 전송) 후 /api/purchases/verify 전에 창이 닫히면 돈은 냈는데 수강 내역이 없다.
+//  PASS_RECEIVER 로 들어온 USDT Transfer 를 전부 purchase_payments 에 남기고 하나씩 대조한다.
+//
+//   수집 : Alchemy 웹훅(tx 해시만 믿고 영수증을 직접 다시 읽는다) + 주기적 로그 스캔(chain_scan_cursors)
+//   대조 : 이미 같은 tx 의 수강 내역 있음        → recorded
+//          결제 확인 도입(PURCHASE_START_BLOCK) 이전 블록 → review (옛 수강 내역엔 tx_hash 가 없어 중복을 못 가린다)
+//          보낸 지갑의 유저 1명 + 결제 시점 견적과 금액이 맞는 패스 1개 → 수강 내역 생성 (matched)
+//          그 밖 (미가입 지갑 / 금액 불일치 등)    → review, 관리자가 배정(resolved) 또는 무시(ignored)
+//   대조는 수신 후 RECONCILE_GRACE_MS 가 지난 건만 — 프로모션 할인 결제는 코드를 아는 결제 모달의 확인이 먼저 기록해야 한다
+//   (할인액이 다른 패스 정가와 같으면 엉뚱한 패스로 복구될 수 있음). 검토 중 결제 확인으로 기록된 건은 recorded 로 정리
+// ───────────────────────────────────────────────────────────────
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { getKSTISOString } from "@/lib/dateUtil";
+import { PASS_RECEIVER } from "@/lib/passCatalog";
+import { getPassProduct, listPassProducts } from "@/lib/passProducts";
+import {
+  PURCHASE_MIN_CONFIRMATIONS,
+  PURCHASE_START_BLOCK,
+  createPaidEnrollment,
+  findEnrollmentByTx,
+  isAfterPurchaseStart,
+} from "@/lib/passPurchases";
+import {
+  findReceipt,
+  getBlockNumber,
+  getUSDTTransfersInReceipt,
+  getUSDTTransfersTo,
+  toUSDTUnits,
+} from "@/lib/sendUSDT";
+import { quoteCandidates, quotePurchase, type PurchaseQuote } from "@/lib/subscriptions";
+import { applyPromoCode } from "@/lib/promoCodes";
+import { WALLET_USER_COLUMNS, type WalletUser } from "@/lib/walletAuth";
+
+export type ReceivedPaymentStatus = "received" | "matched" | "recorded" | "review" | "resolved" | "ignored";
+
+export type ReceivedPayment = {
+  id: string;
+  tx_hash: string;
+  log_index: number;
+  block_number: number | null;
+  from_wallet: string;
+  amount: number;
+  source: "webhook" | "scan";
+  status: ReceivedPaymentStatus;
+  review_reason: string | null;
+  ref_code: string | null;
+  product_id: string | null;
+  enrollment_id: string | null;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  note: string | null;
+  detected_at: string;
+};
+
+export type ReceivedPaymentResult =
+  | { ok: true; payment: ReceivedPayment; message?: undefined }
+  | { ok: false; message: string };
+
+type IncomingTransfer = {
+  txHash: string;
+  logIndex: number;
+  blockNumber: bigint | null;
+  from: string;
+  amount: number;
+};
+
+const SCAN_CURSOR = "pass_receiver";
+// 한 번에 조회할 블록 수 (RPC eth_getLogs 범위 제한)
+const SCAN_CHUNK = BigInt(Number(process.env.PURCHASE_SCAN_CHUNK ?? 2000));
+// 한 번 실행에서 스캔할 최대 구간 수 (밀린 구간은 다음 실행에서 이어서)
+const SCAN_MAX_CHUNKS = 20;
+// 한 번 실행에서 대조할 최대 건수
+const RECONCILE_LIMIT = 100;
+// 수신 후 자동 대조까지 기다리는 시간 (결제 모달의 /api/purchases/verify 우선)
+const RECONCILE_GRACE_MS = 10 * 60 * 1000;
+
+/* ------------------------- 수집 ------------------------- */
+
+async function recordTransfer(t: IncomingTransfer, source: ReceivedPayment["source"]) {
+  const { error } = await supabaseAdmin.from("purchase_payments").upsert(
+    {
+      tx_hash: t.txHash.toLowerCase(),
+      log_index: t.logIndex,
+      block_number: t.blockNumber === null ? null : Number(t.blockNumber),
+      from_wallet: t.from.toLowerCase(),
+      amount: t.amount,
+      source,
+    },
+    { onConflict: "tx_hash,log_index", ignoreDuplicates: true }
+  );
+  if (error) throw error;
+}
+
+/**
+ * 웹훅으로 알게 된 tx 의 수신 기록. 웹훅 본문은 믿지 않고 영수증에서 직접 Transfer 를 읽는다.
+ * 아직 확인 블록이 부족하면 건너뛴다 (다음 로그 스캔이 잡는다). 기록한 건수를 돌려준다.
+ */
+export async function recordPaymentsFromTx(txHash: `0x${string}`): Promise<number> {
+  const receipt = await findReceipt(txHash);
+  if (!receipt || receipt.status !== "success") return 0;
+
+  const confirmations = Number((await getBlockNumber()) - receipt.blockNumber) + 1;
+  if (confirmations < PURCHASE_MIN_CONFIRMATIONS) return 0;
+
+  const transfers = getUSDTTransfersInReceipt(receipt, PASS_RECEIVER);
+  for (const t of transfers) await recordTransfer(t, "webhook");
+  if (transfers.length) console.log("📥 패스 결제 수신(웹훅):", txHash, transfers.length);
+  return transfers.length;
+}
+
+async function loadCursor(): Promise<bigint | null> {
+  const { data, error } = await supabaseAdmin
+    .from("chain_scan_cursors")
+    .select("last_block")
+    .eq("name", SCAN_CURSOR)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? BigInt(data.last_block) : null;
+}
+
+async function saveCursor(block: bigint) {
+  const { error } = await supabaseAdmin
+    .from("chain_scan_cursors")
+    .upsert({ name: SCAN_CURSOR, last_block: Number(block), updated_at: getKSTISOString() });
+  if (error) throw error;
+}
+
+/**
+ * PASS_RECEIVER 로 들어온 USDT Transfer 로그를 커서 이후부터 스캔.
+ * 커서가 없으면 결제 확인 도입 블록(PURCHASE_START_BLOCK, 미설정이면 지금)부터 — 그 전 결제는 옛 결제 모달이 이미 기록했다
+ */
+export async function scanReceiverTransfers() {
+  const safeBlock = (await getBlockNumber()) - BigInt(PURCHASE_MIN_CONFIRMATIONS - 1);
+  const cursor = await loadCursor();
+  const startBlock = cursor !== null ? cursor + BigInt(1) : (PURCHASE_START_BLOCK ?? safeBlock);
+
+  let from = startBlock;
+  let found = 0;
+  for (let i = 0; i < SCAN_MAX_CHUNKS && from <= safeBlock; i++) {
+    const to = from + SCAN_CHUNK - BigInt(1) < safeBlock ? from + SCAN_CHUNK - BigInt(1) : safeBlock;
+    const transfers = await getUSDTTransfersTo(PASS_RECEIVER, from, to);
+    for (const t of transfers) await recordTransfer(t, "scan");
+    found += transfers.length;
+    await saveCursor(to);
+    from = to + BigInt(1);
+  }
+
+  return { fromBlock: startBlock.toString(), toBlock: (from - BigInt(1)).toString(), found };
+}
+
+/* ------------------------- 대조 ------------------------- */
+
+async function updatePayment(id: string, patch: Partial<ReceivedPayment>, fromStatus: ReceivedPaymentStatus) {
+  const { data, error } = await supabaseAdmin
+    .from("purchase_payments")
+    .update(patch)
+    .eq("id", id)
+    .eq("status", fromStatus)
+    .select("*")
+    .maybeSingle();
+  if (error) throw error;
+  return (data as ReceivedPayment) ?? null;
+}
+
+async function findUsersByWallet(wallet: string): Promise<WalletUser[]> {
+  const { data, error } = await supabaseAdmin
+    .from("users")
+    .select(WALLET_USER_COLUMNS)
+    .eq("wallet_address", wallet.toLowerCase())
+    .limit(2);
+  if (error) throw error;
+  return (data ?? []) as WalletUser[];
+}
+
+const review = (p: ReceivedPayment, reason: string) => {
+  console.warn("⚠️ 패스 결제 확인 필요:", p.tx_hash, reason);
+  return updatePayment(p.id, { status: "review", review_reason: reason }, "received");
+};
+
+/** received 한 건 대조 → matched / recorded / review */
+async function reconcilePayment(p: ReceivedPayment): Promise<ReceivedPaymentStatus> {
+  const existing = await findEnrollmentByTx(p.tx_hash);
+  if (existing) {
+    await updatePayment(
+      p.id,
+      { status: "recorded", ref_code: existing.ref_code, product_id: existing.product_id, enrollment_id: existing.id },
+      "received"
+    );
+    return "recorded";
+  }
+
+  // 도입 전 결제(웹훅으로 들어온 옛 tx 등)는 수강 내역에 tx_hash 가 없어 중복 여부를 알 수 없다 → 자동 복구하지 않음
+  if (!isAfterPurchaseStart(p.block_number)) {
+    await review(p, "결제 확인 도입 이전 결제입니다 (기존 수강 내역 확인 필요)");
+    return "review";
+  }
+
+  const users = await findUsersByWallet(p.from_wallet);
+  if (users.length !== 1) {
+    await review(p, users.length ? "같은 지갑의 회원이 여러 명입니다" : "가입되지 않은 지갑입니다");
+    return "review";
+  }
+
+  // 결제 시점 견적(신규·연장 = 정가, 업그레이드 = 크레딧 차감액)과 금액이 맞는 패스
+  const user = users[0];
+  const detectedAt = new Date(p.detected_at);
+  const matches: PurchaseQuote[] = [];
+  for (const product of await listPassProducts()) {
+    const quotes = await quoteCandidates(user.ref_code, product, detectedAt);
+    const quote = quotes.find((q) => toUSDTUnits(q.amount_due) === toUSDTUnits(Number(p.amount)));
+    if (quote) matches.push(quote);
+  }
+  if (matches.length !== 1) {
+    await review(p, matches.length ? "금액이 같은 패스가 여러 개입니다" : `금액과 일치하는 패스가 없습니다 (${p.amount} USDT)`);
+    return "review";
+  }
+
+  const created = await createPaidEnrollment(user, matches[0], {
+    txHash: p.tx_hash as `0x${string}`,
+    wallet: p.from_wallet,
+  });
+  if (!created.ok) {
+    // /api/purchases/verify 와 동시에 기록된 경우
+    const raced = await findEnrollmentByTx(p.tx_hash);
+    await updatePayment(
+      p.id,
+      { status: "recorded", ref_code: raced?.ref_code ?? null, product_id: raced?.product_id ?? null, enrollment_id: raced?.id ?? null },
+      "received"
+    );
+    return "recorded";
+  }
+
+  await updatePayment(
+    p.id,
+    { status: "matched", ref_code: user.ref_code, product_id: matches[0].product_id, enrollment_id: created.enrollment.id },
+    "received"
+  );
+  console.log("🩹 패스 결제 복구:", user.ref_code, matches[0].pass_type, matches[0].kind, p.tx_hash);
+  return "matched";
+}
+
+/** 로그 스캔 + received 대조 (cron / 관리자 수동 실행) */
+export async function runPurchaseReconcile() {
+  const scan = await scanReceiverTransfers();
+
+  const { data, error } = await supabaseAdmin
+    .from("purchase_payments")
+    .select("*")
+    .eq("status", "received")
+    .lt("detected_at", new Date(Date.now() - RECONCILE_GRACE_MS).toISOString())
+    .order("detected_at", { ascending: true })
+    .limit(RECONCILE_LIMIT);
+  if (error) throw error;
+
+  const counts = { matched: 0, recorded: 0, review: 0, failed: 0 };
+  for (const p of (data ?? []) as ReceivedPayment[]) {
+    try {
+      const status = await reconcilePayment(p);
+      if (status === "matched" || status === "recorded" || status === "review") counts[status]++;
+    } catch (e: any) {
+      counts.failed++;
+      console.error("❌ 패스 결제 대조 실패:", p.tx_hash, e?.message ?? e);
+    }
+  }
+  counts.recorded += await settleRecordedReviews();
+  return { scan, ...counts };
+}
+
+/** 검토 대기 중 결제 확인(/api/purchases/verify)으로 수강 내역이 생긴 건 → recorded */
+async function settleRecordedReviews(): Promise<number> {
+  const reviews = await listReceivedPayments("review");
+  if (!reviews.length) return 0;
+
+  const { data, error } = await supabaseAdmin
+    .from("enrollments")
+    .select("id, ref_code, product_id, tx_hash")
+    .in("tx_hash", reviews.map((p) => p.tx_hash));
+  if (error) throw error;
+
+  let settled = 0;
+  for (const e of data ?? []) {
+    const p = reviews.find((r) => r.tx_hash === e.tx_hash);
+    if (!p) continue;
+    const updated = await updatePayment(
+      p.id,
+      { status: "recorded", ref_code: e.ref_code, product_id: e.product_id, enrollment_id: e.id },
+      "review"
+    );
+    if (updated) settled++;
+  }
+  return settled;
+}
+
+/* ------------------------- 관리자 검토 ------------------------- */
+
+export async function listReceivedPayments(status?: ReceivedPaymentStatus): Promise<ReceivedPayment[]> {
+  let q = supabaseAdmin.from("purchase_payments").select("*").order("detected_at", { ascending: false }).limit(200);
+  if (status) q = q.eq("status", status);
+  const { data, error } = await q;
+  if (error) throw error;
+  return (data ?? []) as ReceivedPayment[];
+}
+
+async function loadReviewPayment(id: string): Promise<ReceivedPaymentResult> {
+  const { data, error } = await supabaseAdmin.from("purchase_payments").select("*").eq("id", id).maybeSingle();
+  if (error) throw error;
+  if (!data) return { ok: false, message: "결제 기록을 찾을 수 없습니다" };
+  if (data.status !== "review") return { ok: false, message: `검토 대기 상태가 아닙니다 (${data.status})` };
+  return { ok: true, payment: data as ReceivedPayment };
+}
+
+/**
+ * 관리자가 회원·패스를 지정해 수강 내역 생성 (결제 금액은 결제 시점 견적 이상이어야 한다)
+ * promoCode: 결제 확인이 거부된 할인 결제 — 대상 제한만 보고 사용 기간 / 한도는 보지 않는다
+ */
+export async function assignReceivedPayment(
+  id: string,
+  resolvedBy: string,
+  refCode: string,
+  productId: string,
+  note?: string,
+  promoCode?: string
+): Promise<ReceivedPaymentResult> {
+  const loaded = await loadReviewPayment(id);
+  if (!loaded.ok) return loaded;
+  const p = loaded.payment;
+
+  const product = await getPassProduct(productId);
+  if (!product) return { ok: false, message: "패스 상품을 찾을 수 없습니다" };
+
+  const { data: user, error } = await supabaseAdmin
+    .from("users")
+    .select(WALLET_USER_COLUMNS)
+    .eq("ref_code", refCode)
+    .maybeSingle();
+  if (error) throw error;
+  if (!user) return { ok: false, message: "회원을 찾을 수 없습니다" };
+
+  // 결제 시점 견적 기준 (업그레이드면 크레딧 차감액, 프로모션 할인 적용)
+  const detectedAt = new Date(p.detected_at);
+  const priced = await applyPromoCode(
+    [await quotePurchase(user.ref_code, product, detectedAt)],
+    promoCode,
+    user as WalletUser,
+    { at: detectedAt, ignoreLimits: true }
+  );
+  if (!priced.ok) return { ok: false, message: priced.message };
+  const quote = priced.quotes[0];
+  if (toUSDTUnits(Number(p.amount)) < toUSDTUnits(quote.amount_due)) {
+    return { ok: false, message: `결제 금액(${p.amount} USDT)이 결제할 금액(${quote.amount_due} USDT)보다 적습니다` };
+  }
+
+  const created = await createPaidEnrollment(
+    user as WalletUser,
+    quote,
+    { txHash: p.tx_hash as `0x${string}`, wallet: p.from_wallet },
+    { ignorePromoLimits: true }
+  );
+  if (!created.ok) return { ok: false, message: created.message };
+
+  const payment = await updatePayment(
+    id,
+    {
+      status: "resolved",
+      ref_code: refCode,
+      product_id: product.id,
+      enrollment_id: created.enrollment.id,
+      resolved_by: resolvedBy,
+      resolved_at: getKSTISOString(),
+      note: note ?? null,
+    },
+    "review"
+  );
+  if (!payment) return { ok: false, message: "이미 처리된 결제입니다" };
+
+  console.log("🩹 패스 결제 배정:", refCode, product.id, quote.kind, p.tx_hash, { by: resolvedBy, promo: quote.promo_code });
+  return { ok: true, payment };
+}
+
+/** 패스 결제가 아닌 입금으로 처리 */
+export async function ignoreReceivedPayment(id: string, resolvedBy: string, note: string): Promise<ReceivedPaymentResult> {
+  const payment = await updatePayment(
+    id,
+    { status: "ignored", resolved_by: resolvedBy, resolved_at: getKSTISOString(), note },
+    "review"
+  );
+  if (!payment) return { ok: false, message: "검토 대기 상태가 아닙니다" };
+
+  console.log("🙈 패스 결제 무시:", payment.tx_hash, { by: resolvedBy, note });
+  return { ok: true, payment };
+}
@@ -0,0 +1,121 @@
+// src/lib/referralChain.ts
+// ───────────────────────────────────────────────────────────────
+// 추천 계보(users.ref_by) 탐색 — 다단계 수당 계산용
+//
+//  - L1 은 enrollment.ref_by (결제 당시 추천인), 그 위는 users.ref_by 를 따라 올라간다
+//  - 순환(A→B→A) 감지 시 그 지점에서 중단
+//  - skipInactive: 결제 시점에 유효한 패스가 없는 후원자는 건너뛰고
+//    다음 유효 상위자가 그 단계를 받는다 (compression)
+//  - 최대 단계 수(levels)와 최대 탐색 거리(MAX_CHAIN_HOPS)로 제한
+// ───────────────────────────────────────────────────────────────
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+
+// 단계 상한 (정책의 level_rates 가 더 길어도 여기까지만)
+export const MAX_LEVELS = Number(process.env.REWARD_MAX_LEVELS ?? 10);
+// compression 으로 건너뛰는 것까지 포함한 최대 탐색 거리
+const MAX_CHAIN_HOPS = Number(process.env.REWARD_MAX_CHAIN_HOPS ?? 50);
+
+const IN_CHUNK = 500;
+
+type PassWindow = { created_at: string; pass_expired_at: string | null };
+
+export type ChainContext = {
+  uplines: Map<string, string | null>; // ref_code → ref_by
+  passes: Map<string, PassWindow[]>;   // ref_code → 결제 완료 패스 목록
+};
+
+export type UplineHit = {
+  level: number;       // 1 = 직추천
+  ref_code: string;
+  skipped: string[];   // 이 단계 직전에 건너뛴 비활성 후원자
+};
+
+async function selectIn<T>(table: string, columns: string, column: string, values: string[], extra?: (q: any) => any) {
+  const out: T[] = [];
+  for (let i = 0; i < values.length; i += IN_CHUNK) {
+    let q = supabaseAdmin.from(table).select(columns).in(column, values.slice(i, i + IN_CHUNK));
+    if (extra) q = extra(q);
+    const { data, error } = await q;
+    if (error) throw error;
+    out.push(...((data ?? []) as T[]));
+  }
+  return out;
+}
+
+/** 시작 후원자들로부터 위로 MAX_CHAIN_HOPS 까지 계보 + 패스 이력을 미리 로드 */
+export async function loadChainContext(firstSponsors: string[]): Promise<ChainContext> {
+  const uplines = new Map<string, string | null>();
+  let frontier = Array.from(new Set(firstSponsors.filter(Boolean)));
+
+  for (let hop = 0; hop < MAX_CHAIN_HOPS && frontier.length; hop++) {
+    const rows = await selectIn<{ ref_code: string; ref_by: string | null }>(
+      "users", "ref_code, ref_by", "ref_code", frontier
+    );
+    const found = new Set<string>();
+    for (const u of rows) {
+      uplines.set(u.ref_code, u.ref_by ?? null);
+      found.add(u.ref_code);
+    }
+    // users 에 없는 코드도 기록 (계보 끝)
+    for (const code of frontier) if (!found.has(code)) uplines.set(code, null);
+
+    frontier = Array.from(new Set(rows.map((u) => u.ref_by).filter((c): c is string => !!c && !uplines.has(c))));
+  }
+
+  const passes = new Map<string, PassWindow[]>();
+  const codes = Array.from(uplines.keys());
+  if (codes.length) {
+    const rows = await selectIn<PassWindow & { ref_code: string }>(
+      "enrollments", "ref_code, created_at, pass_expired_at", "ref_code", codes,
+      (q) => q.eq("memo", "결제 완료").is("refunded_at", null)
+    );
+    for (const p of rows) {
+      const list = passes.get(p.ref_code) ?? [];
+      list.push({ created_at: p.created_at, pass_expired_at: p.pass_expired_at });
+      passes.set(p.ref_code, list);
+    }
+  }
+
+  return { uplines, passes };
+}
+
+/** at 시점에 유효한 패스 보유 여부 (만료일 없는 과거 데이터는 유효로 간주) */
+export function hasActivePass(ctx: ChainContext, code: string, at: string) {
+  const t = new Date(at).getTime();
+  const day = at.slice(0, 10);
+  return (ctx.passes.get(code) ?? []).some(
+    (p) => new Date(p.created_at).getTime() <= t && (!p.pass_expired_at || p.pass_expired_at >= day)
+  );
+}
+
+/**
+ * 결제자(payer)의 상위 수혜자를 단계별로 반환한다.
+ * firstSponsor 가 없으면 users.ref_by 로 대체.
+ */
+export function walkUplines(
+  ctx: ChainContext,
+  opts: { payer: string; firstSponsor: string | null; at: string; levels: number; skipInactive: boolean }
+): { hits: UplineHit[]; cycle: boolean } {
+  const levels = Math.min(opts.levels, MAX_LEVELS);
+  const hits: UplineHit[] = [];
+  const visited = new Set<string>([opts.payer]);
+  let skipped: string[] = [];
+
+  let code = opts.firstSponsor ?? ctx.uplines.get(opts.payer) ?? null;
+  for (let hop = 0; code && hits.length < levels && hop < MAX_CHAIN_HOPS; hop++) {
+    if (visited.has(code)) {
+      console.warn("⚠️ 추천 계보 순환 감지:", opts.payer, "→", code);
+      return { hits, cycle: true };
+    }
+    visited.add(code);
+
+    if (opts.skipInactive && !hasActivePass(ctx, code, opts.at)) {
+      skipped.push(code);
+    } else {
+      hits.push({ level: hits.length + 1, ref_code: code, skipped });
+      skipped = [];
+    }
+    code = ctx.uplines.get(code) ?? null;
+  }
+  return { hits, cycle: false };
+}
@@ -0,0 +1,21 @@
+// src/lib/remoteBot.ts
+// 원격 봇 서버 호출 (서버 전용) — /api/start-bot, /api/stop-bot 프록시와 패스 만료 자동 중지(passExpiry.ts) 공용
+//   ref_code 는 호출하는 쪽이 정한다 (프록시: 로그인 세션, 만료 작업: bot_settings)
+
+const REMOTE = process.env.REMOTE_API_BASE || "https://snowmart.co.kr";
+const TIMEOUT_MS = 15000;
+
+export type RemoteBotAction = "start-bot" | "stop-bot";
+
+/** 원격 응답을 그대로 돌려준다 (네트워크 오류 / 타임아웃은 throw) */
+export async function callRemoteBot(action: RemoteBotAction, refCode: string): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), TIMEOUT_MS);
+
+  return fetch(`${REMOTE}/${action}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ref_code: refCode }),
+    signal: controller.signal,
+  }).finally(() => clearTimeout(timer));
+}
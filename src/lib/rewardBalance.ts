@@ -0,0 +1,61 @@
+// src/lib/rewardBalance.ts
+// ───────────────────────────────────────────────────────────────
+// 수혜자별 적립 잔액 (발생했지만 아직 지급되지 않은 수당)
+//
+//  - 최소 지급액(MIN_PAYOUT_AMOUNT) 미만은 calc 에서 carry_out → 다음 정산으로 이월
+//  - 잔액 = 지급 대기 중인 reward_transfers 합계 + 미상계 조정 항목(carry_in / clawback)
+// ───────────────────────────────────────────────────────────────
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import type { PayoutStatus } from "@/lib/payoutStatus";
+
+// 이 금액 미만이면 송금하지 않고 다음 정산으로 적립 (USDT)
+export const MIN_PAYOUT_AMOUNT = Number(process.env.REWARD_MIN_PAYOUT ?? 10);
+
+// 아직 지갑에 도착하지 않은 상태
+const UNPAID_STATUSES: PayoutStatus[] = ["pending", "processing", "broadcast", "failed"];
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export type RewardBalance = {
+  ref_code: string;
+  scheduled: number;  // 정산 확정, 송금 대기 중
+  carried: number;    // 다음 정산으로 이월된 금액 (회수분은 음수)
+  accrued: number;    // scheduled + carried
+  paid: number;       // 지급 완료 누적
+  min_payout: number;
+};
+
+export async function getRewardBalance(refCode: string): Promise<RewardBalance> {
+  const { data: transfers, error } = await supabaseAdmin
+    .from("reward_transfers")
+    .select("status, total_amount")
+    .eq("ref_code", refCode)
+    .in("status", [...UNPAID_STATUSES, "completed"]);
+  if (error) throw error;
+
+  const { data: items, error: itemErr } = await supabaseAdmin
+    .from("commission_items")
+    .select("amount")
+    .eq("beneficiary_ref_code", refCode)
+    .is("reward_transfer_id", null)
+    .in("kind", ["carry_in", "clawback"]);
+  if (itemErr) throw itemErr;
+
+  let scheduled = 0;
+  let paid = 0;
+  for (const t of transfers ?? []) {
+    const amount = Number(t.total_amount ?? 0);
+    if (t.status === "completed") paid += amount;
+    else scheduled += amount;
+  }
+  const carried = (items ?? []).reduce((sum, it) => sum + Number(it.amount ?? 0), 0);
+
+  return {
+    ref_code: refCode,
+    scheduled: round2(scheduled),
+    carried: round2(carried),
+    accrued: round2(scheduled + carried),
+    paid: round2(paid),
+    min_payout: MIN_PAYOUT_AMOUNT,
+  };
+}
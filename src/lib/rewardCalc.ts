@@ -0,0 +1,469 @@
+// src/lib/rewardCalc.ts
+// ───────────────────────────────────────────────────────────────
+// 리워드 계산 (enrollments → 수혜자별 버킷)
+//
+//  1) computeRewards : 집계만 수행 (DB 변경 없음) + 버킷별 근거(enrollment) 내역
+//  2) diffRewards    : 기존 reward_transfers 와 비교 → new / changed / unchanged / paid
+//  3) commitRewards  : 확정 저장 (이미 지급된 행은 거부) + commission_items 기록
+//  calc 라우트는 기본이 미리보기이며, 미리보기 해시가 일치하는 confirm 요청만 저장한다.
+// ───────────────────────────────────────────────────────────────
+import { createHash } from "crypto";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { getKSTISOString } from "@/lib/dateUtil";
+import { EDITABLE_STATUSES, canTransition, sourcesOf, type PayoutStatus } from "@/lib/payoutStatus";
+import { clearCommissionItems, findDoubleCounted, replaceCommissionItems } from "@/lib/commissionItems";
+import { loadCommissionPlans, planAt, resolveRule, type ResolvedRule } from "@/lib/commissionPlans";
+import { loadChainContext, walkUplines } from "@/lib/referralChain";
+import { rewardDateFor } from "@/lib/rewardPeriods";
+import { MIN_PAYOUT_AMOUNT } from "@/lib/rewardBalance";
+import {
+  loadConsumedCarrySources,
+  loadPendingAdjustments,
+  type AdjustmentItem,
+} from "@/lib/commissionAdjustments";
+
+export type RewardRange = {
+  gte: string;
+  lt: string;
+  period_start: string;
+  period_end: string;
+};
+
+type EnrollmentRow = {
+  id: string;
+  ref_code: string;
+  ref_by: string | null;
+  center_id: string | null;
+  pass_type: string | null;
+  tuition: number | null;
+  memo: string | null;
+  tx_hash: string | null;
+  created_at: string;
+};
+
+type UserSlim = {
+  ref_code: string;
+  name: string | null;
+  wallet_address: string | null;
+};
+
+// 버킷 금액의 근거 1건 (enrollment 1건 × 추천/센터)
+export type RewardItem = {
+  enrollment_id: string;
+  source_ref_code: string; // 결제한 회원
+  pass_type: string | null;
+  base_amount: number;
+  kind: "referral" | "center";
+  level: number | null;    // 추천 단계 (1 = 직추천), 센터는 null
+  skipped: string[];       // 압축으로 건너뛴 비활성 후원자
+  rate: number;
+  amount: number;
+  enrolled_at: string;
+  plan_version: number;
+};
+
+export type RewardBucket = {
+  ref_code: string;
+  name: string | null;
+  wallet_address: string | null;
+  referral_amount: number;
+  center_amount: number;
+  level_amounts: Record<string, number>; // 추천 수당 단계별 합계 { "1": 50, "2": 10 }
+  adjustment_amount: number;  // 상계된 조정(회수/이월) 합계, carry_out 포함
+  carry_out: number;          // 다음 정산으로 넘기는 금액 (0 이면 없음)
+  carry_reason: string | null;
+  carried_from: string | null; // 들어온 이월의 원 행
+  plan_versions: number[]; // 이 버킷을 만든 정책 버전들
+  items: RewardItem[];
+  adjustments: AdjustmentItem[];
+};
+
+export type RewardDiffKind = "new" | "changed" | "unchanged" | "paid";
+
+export type RewardDiffRow = {
+  kind: RewardDiffKind;
+  ref_code: string;
+  computed: Omit<RewardBucket, "items" | "adjustments">;
+  existing: ExistingTransfer | null;
+};
+
+type ExistingTransfer = {
+  id: string;
+  ref_code: string;
+  name: string | null;
+  wallet_address: string | null;
+  referral_amount: number | null;
+  center_amount: number | null;
+  level_amounts: Record<string, number> | null;
+  adjustment_amount: number | null;
+  plan_versions: number[] | null;
+  period_start: string | null;
+  period_end: string | null;
+  status: string;
+};
+
+const floor2 = (n: number) => Math.floor(n * 100) / 100; // 소수점 2자리 버림
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// 금액 결정: tuition(숫자) 우선
+function baseAmountOf(r: EnrollmentRow, rule: ResolvedRule) {
+  let base = Number(r.tuition ?? 0);
+
+  // 체인에서 확인된 결제는 tuition 이 실제 결제액 (업그레이드 크레딧 / 프로모션 할인 차감 후) → 그대로
+  if (r.tx_hash) return base;
+
+  // tuition 이 1~12 같은 '개월 수'로 들어오면 정책의 pass 가격과 곱해서 보정
+  const passPrice = rule.price;
+  if (passPrice > 0 && base > 0 && base <= 12) {
+    base = base * passPrice;
+  }
+  return base;
+}
+
+/**
+ * 범위 내 "결제 완료" enrollments 를 수혜자별로 집계한다. (DB 변경 없음)
+ * 비율/가격은 enrollment 생성 시점에 유효했던 commission_plans 버전을 따른다.
+ * 미상계 조정 항목(환불 회수, 이월)을 수혜자별로 상계하고, 음수가 되면 다음 정산으로 넘긴다.
+ */
+export async function computeRewards(range: RewardRange): Promise<RewardBucket[]> {
+  const plans = await loadCommissionPlans();
+  const rewardDate = rewardDateFor(range.period_end);
+
+  const { data: enrolls, error: loadErr } = await supabaseAdmin
+    .from("enrollments")
+    .select("id, ref_code, ref_by, center_id, pass_type, tuition, memo, tx_hash, created_at")
+    .gte("created_at", range.gte)
+    .lt("created_at", range.lt)
+    .eq("memo", "결제 완료")
+    .is("refunded_at", null);
+  if (loadErr) throw loadErr;
+  const rows = (enrolls ?? []) as EnrollmentRow[];
+
+  // 추천 계보 + 후원자 패스 이력 (결제자 본인부터 위로)
+  const chain = await loadChainContext(rows.flatMap((r) => [r.ref_code, r.ref_by ?? ""]));
+
+  // 수혜자별 합산 버킷 (추천 단계별 / 센터)
+  const buckets = new Map<string, RewardBucket>();
+  const bucketOf = (code: string) => {
+    const b = buckets.get(code) ?? {
+      ref_code: code,
+      name: null,
+      wallet_address: null,
+      referral_amount: 0,
+      center_amount: 0,
+      level_amounts: {},
+      adjustment_amount: 0,
+      carry_out: 0,
+      carry_reason: null,
+      carried_from: null,
+      plan_versions: [],
+      items: [],
+      adjustments: [],
+    };
+    buckets.set(code, b);
+    return b;
+  };
+
+  for (const r of rows) {
+    const plan = planAt(plans, r.created_at);
+    if (!plan) {
+      console.warn("⚠️ 적용 가능한 수당 정책 없음 → 집계 제외:", r.id, r.created_at);
+      continue;
+    }
+    const rule = resolveRule(plan, r.pass_type);
+
+    const base = baseAmountOf(r, rule);
+    if (!base || base <= 0) continue;
+
+    const item = {
+      enrollment_id: r.id,
+      source_ref_code: r.ref_code,
+      pass_type: r.pass_type,
+      base_amount: base,
+      enrolled_at: r.created_at,
+      plan_version: rule.plan_version,
+    };
+    const addItem = (code: string, it: RewardItem) => {
+      const b = bucketOf(code);
+      if (it.kind === "referral") {
+        b.referral_amount += it.amount;
+        b.level_amounts[String(it.level)] = (b.level_amounts[String(it.level)] ?? 0) + it.amount;
+      } else {
+        b.center_amount += it.amount;
+      }
+      if (!b.plan_versions.includes(it.plan_version)) b.plan_versions.push(it.plan_version);
+      b.items.push(it);
+    };
+
+    // 추천 (정책 level_rates 단계별, 계보를 따라 위로)
+    const { hits } = walkUplines(chain, {
+      payer: r.ref_code,
+      firstSponsor: r.ref_by,
+      at: r.created_at,
+      levels: rule.level_rates.length,
+      skipInactive: rule.skip_inactive,
+    });
+    for (const hit of hits) {
+      const rate = rule.level_rates[hit.level - 1] ?? 0;
+      if (rate <= 0) continue;
+      addItem(hit.ref_code, {
+        ...item,
+        kind: "referral",
+        level: hit.level,
+        skipped: hit.skipped,
+        rate,
+        amount: floor2(base * rate),
+      });
+    }
+
+    // 센터
+    if (r.center_id && rule.center_rate > 0) {
+      addItem(String(r.center_id), {
+        ...item,
+        kind: "center",
+        level: null,
+        skipped: [],
+        rate: rule.center_rate,
+        amount: floor2(base * rule.center_rate),
+      });
+    }
+  }
+
+  // 조정 항목 상계
+  for (const adj of await loadPendingAdjustments(rewardDate)) {
+    const b = bucketOf(adj.beneficiary_ref_code);
+    b.adjustment_amount += adj.amount;
+    b.adjustments.push(adj);
+    if (adj.kind === "carry_in" && adj.carried_from) b.carried_from = adj.carried_from;
+  }
+
+  if (!buckets.size) return [];
+
+  // 수혜자 프로필(name, wallet_address) 보강
+  const { data: benUsers, error: benErr } = await supabaseAdmin
+    .from("users")
+    .select("ref_code, name, wallet_address")
+    .in("ref_code", Array.from(buckets.keys()));
+  if (benErr) throw benErr;
+
+  const benMap = new Map(((benUsers ?? []) as UserSlim[]).map((u) => [u.ref_code, u]));
+
+  // 이월 판단: 이번 행은 0, 금액은 다음 정산으로
+  //  - 상계 후 음수 / 최소 지급액 미만 / 지갑 미등록
+  for (const b of buckets.values()) {
+    const net = round2(b.referral_amount + b.center_amount + b.adjustment_amount);
+    const reason =
+      net < 0 ? "상계 후 음수 잔액 이월"
+      : net > 0 && net < MIN_PAYOUT_AMOUNT ? `최소 지급액(${MIN_PAYOUT_AMOUNT}) 미만 이월`
+      : net > 0 && !benMap.get(b.ref_code)?.wallet_address ? "지갑 미등록 이월"
+      : null;
+    if (reason) {
+      b.carry_out = net;
+      b.carry_reason = reason;
+      b.adjustment_amount -= net;
+    }
+  }
+
+  return Array.from(buckets.values())
+    .map((b) => ({
+      ...b,
+      name: benMap.get(b.ref_code)?.name ?? null,
+      wallet_address: benMap.get(b.ref_code)?.wallet_address ?? null,
+      referral_amount: round2(b.referral_amount),
+      center_amount: round2(b.center_amount),
+      adjustment_amount: round2(b.adjustment_amount),
+      level_amounts: Object.fromEntries(
+        Object.entries(b.level_amounts)
+          .sort(([a], [c]) => Number(a) - Number(c))
+          .map(([lv, amt]) => [lv, round2(amt)])
+      ),
+      plan_versions: [...b.plan_versions].sort((x, y) => x - y),
+    }))
+    .sort((a, b) => a.ref_code.localeCompare(b.ref_code));
+}
+
+/** 미리보기와 확정 사이에 집계 결과가 바뀌지 않았는지 확인하기 위한 해시 */
+export function hashRewards(rewardDate: string, range: RewardRange, buckets: RewardBucket[]) {
+  const payload = buckets.map((b) => [b.ref_code, b.wallet_address, b.referral_amount, b.center_amount, b.adjustment_amount, b.carry_out, b.adjustments.map((a) => a.id).sort(), b.level_amounts, b.plan_versions]);
+  return createHash("sha256").update(JSON.stringify([rewardDate, range.period_start, range.period_end, payload])).digest("hex");
+}
+
+async function loadExisting(rewardDate: string) {
+  const { data, error } = await supabaseAdmin
+    .from("reward_transfers")
+    .select("id, ref_code, name, wallet_address, referral_amount, center_amount, adjustment_amount, level_amounts, plan_versions, period_start, period_end, status")
+    .eq("reward_date", rewardDate);
+  if (error) throw error;
+  return new Map(((data ?? []) as ExistingTransfer[]).map((r) => [r.ref_code, r]));
+}
+
+function isSame(b: RewardDiffRow["computed"], e: ExistingTransfer, range: RewardRange) {
+  return (
+    e.period_start === range.period_start &&
+    e.period_end === range.period_end &&
+    Number(e.referral_amount ?? 0) === b.referral_amount &&
+    Number(e.center_amount ?? 0) === b.center_amount &&
+    Number(e.adjustment_amount ?? 0) === b.adjustment_amount &&
+    (e.wallet_address ?? null) === b.wallet_address &&
+    (e.name ?? null) === b.name &&
+    JSON.stringify(e.level_amounts ?? {}) === JSON.stringify(b.level_amounts) &&
+    (e.plan_versions ?? []).join(",") === b.plan_versions.join(",")
+  );
+}
+
+/** 계산 결과와 기존 reward_transfers 비교 */
+export async function diffRewards(rewardDate: string, range: RewardRange, buckets: RewardBucket[]) {
+  const existing = await loadExisting(rewardDate);
+
+  const rows: RewardDiffRow[] = buckets.map((b) => {
+    const computed = {
+      ref_code: b.ref_code,
+      name: b.name,
+      wallet_address: b.wallet_address,
+      referral_amount: b.referral_amount,
+      center_amount: b.center_amount,
+      adjustment_amount: b.adjustment_amount,
+      carry_out: b.carry_out,
+      carry_reason: b.carry_reason,
+      carried_from: b.carried_from,
+      level_amounts: b.level_amounts,
+      plan_versions: b.plan_versions,
+    };
+    const e = existing.get(computed.ref_code) ?? null;
+    let kind: RewardDiffKind = "new";
+    if (e) {
+      if (isSame(computed, e, range)) kind = "unchanged";
+      else kind = EDITABLE_STATUSES.includes(e.status as any) ? "changed" : "paid";
+    }
+    return { kind, ref_code: computed.ref_code, computed, existing: e };
+  });
+
+  // 기존에는 있었지만 이번 계산에서 빠진 행 (확정 시 지급 전인 행만 취소)
+  const computedCodes = new Set(buckets.map((b) => b.ref_code));
+  const orphaned = Array.from(existing.values()).filter(
+    (e) => !computedCodes.has(e.ref_code) && e.status !== "cancelled"
+  );
+
+  const count = (k: RewardDiffKind) => rows.filter((r) => r.kind === k).length;
+  return {
+    rows,
+    orphaned,
+    summary: {
+      new: count("new"),
+      changed: count("changed"),
+      unchanged: count("unchanged"),
+      paid: count("paid"),
+      orphaned: orphaned.length,
+    },
+  };
+}
+
+/**
+ * 확정 저장. new 는 insert, changed 는 수정 가능한 상태일 때만 조건부 update.
+ * 이미 지급(진행)된 행은 덮어쓰지 않고 refused 로 돌려준다.
+ * 상태 머신에 없는 전이(failed → pending 등)는 금액만 고치고 상태는 두어 keptStatus 로 돌려준다 (운영자가 재시도 / 취소).
+ * 계산에서 빠진 수정 가능 행은 취소하고, 저장된 행의 commission_items 를 다시 쓴다.
+ * 다른 정산에 이미 귀속된 enrollment 가 있으면 아무것도 쓰지 않고 conflicts 를 돌려준다.
+ */
+export async function commitRewards(rewardDate: string, range: RewardRange, buckets: RewardBucket[]) {
+  const conflicts = await findDoubleCounted(rewardDate, buckets);
+  if (conflicts.length) {
+    return { inserted: [], updated: [], refused: [], cancelled: [], keptStatus: [], items: 0, conflicts };
+  }
+
+  const { rows, orphaned } = await diffRewards(rewardDate, range, buckets);
+  const nowIso = getKSTISOString();
+
+  // 이 행에서 나간 이월이 이미 다른 정산에서 상계됨 → 다시 쓰면 이월이 두 번 생긴다
+  const locked = await loadConsumedCarrySources(
+    [...rows.map((r) => r.existing?.id), ...orphaned.map((e) => e.id)].filter((id): id is string => !!id)
+  );
+  const isLocked = (id?: string) => !!id && locked.has(id);
+
+  // ⚠️ reward_transfers.total_amount 는 generated column이므로 넣지 않습니다.
+  const payloadOf = (c: RewardDiffRow["computed"]) => ({
+    ref_code: c.ref_code,
+    name: c.name,
+    wallet_address: c.wallet_address,
+    referral_amount: c.referral_amount,
+    center_amount: c.center_amount,
+    adjustment_amount: c.adjustment_amount,
+    carried_from: c.carried_from,
+    level_amounts: c.level_amounts,
+    plan_versions: c.plan_versions,
+    reward_date: rewardDate,
+    period_start: range.period_start,
+    period_end: range.period_end,
+  });
+  // 전액 이월된 행은 지급 대상이 아니다
+  const statusOf = (c: RewardDiffRow["computed"]): { status: PayoutStatus; error_message: string | null } =>
+    c.carry_out !== 0
+      ? { status: "skipped", error_message: `${c.carry_reason ?? "이월"} → 다음 정산` }
+      : { status: "pending", error_message: null };
+
+  const inserted: string[] = [];
+  const updated: string[] = [];
+  const keptStatus: string[] = [];
+  const refused: string[] = rows
+    .filter((r) => r.kind === "paid" || isLocked(r.existing?.id))
+    .map((r) => r.ref_code);
+  const itemTargets = new Map<string, string>(); // ref_code → reward_transfers.id
+
+  const news = rows.filter((r) => r.kind === "new");
+  if (news.length) {
+    const { data, error } = await supabaseAdmin
+      .from("reward_transfers")
+      .insert(news.map((r) => ({ ...payloadOf(r.computed), ...statusOf(r.computed), created_at: nowIso })))
+      .select("id, ref_code");
+    if (error) throw error;
+    for (const r of data ?? []) {
+      inserted.push(r.ref_code as string);
+      itemTargets.set(r.ref_code as string, r.id as string);
+    }
+  }
+
+  for (const r of rows.filter((r) => r.kind === "changed" && !isLocked(r.existing?.id))) {
+    const from = r.existing!.status;
+    const next = statusOf(r.computed);
+    // 허용된 전이만 상태를 바꾸고, 아니면(failed → pending / skipped) 지금 상태 그대로 금액만 갱신
+    const move = from === next.status || canTransition(from, next.status);
+    const { data, error } = await supabaseAdmin
+      .from("reward_transfers")
+      .update(move ? { ...payloadOf(r.computed), ...next } : payloadOf(r.computed))
+      .eq("id", r.existing!.id)
+      .in("status", move ? [next.status, ...sourcesOf(next.status)].filter((s) => EDITABLE_STATUSES.includes(s)) : [from])
+      .select("id");
+    if (error) throw error;
+    // 그 사이 지급이 시작되었으면 0건 → 거부로 처리
+    if (data?.length) {
+      updated.push(r.ref_code);
+      if (!move) keptStatus.push(r.ref_code);
+      itemTargets.set(r.ref_code, r.existing!.id);
+    } else {
+      refused.push(r.ref_code);
+    }
+  }
+
+  // 금액이 같아도 아직 지급 전이면 근거는 최신 계산으로 맞춘다
+  for (const r of rows.filter((r) => r.kind === "unchanged" && !isLocked(r.existing?.id))) {
+    if (EDITABLE_STATUSES.includes(r.existing!.status as any)) itemTargets.set(r.ref_code, r.existing!.id);
+  }
+
+  // 이번 계산에서 빠진 행 → 취소 (지급 전인 행만)
+  const cancelled: string[] = [];
+  const stale = orphaned.filter((e) => EDITABLE_STATUSES.includes(e.status as any) && !isLocked(e.id));
+  if (stale.length) {
+    const { data, error } = await supabaseAdmin
+      .from("reward_transfers")
+      .update({ status: "cancelled", error_message: "재계산 결과 지급 대상 아님", executed_at: nowIso })
+      .in("id", stale.map((e) => e.id))
+      .in("status", sourcesOf("cancelled"))
+      .select("id, ref_code");
+    if (error) throw error;
+    cancelled.push(...(data ?? []).map((r) => r.ref_code as string));
+    await clearCommissionItems((data ?? []).map((r) => r.id as string));
+  }
+
+  const items = await replaceCommissionItems(rewardDate, itemTargets, buckets);
+  return { inserted, updated, refused, cancelled, keptStatus, items, conflicts };
+}
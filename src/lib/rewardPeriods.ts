@@ -0,0 +1,84 @@
+// src/lib/rewardPeriods.ts
+// ───────────────────────────────────────────────────────────────
+// 정산 기간 (reward_periods)
+//
+//  - 기간은 양 끝 포함 날짜(KST), 정산일(reward_date) = period_end 다음날
+//  - 확정된 기간끼리는 겹칠 수 없다 (DB exclusion 제약 + 사전 검사)
+//    → enrollment 는 created_at 기준으로 정확히 한 기간에만 속한다
+//  - 같은 기간을 다시 계산하는 것은 허용 (미리보기 diff 로 변경분만 반영)
+// ───────────────────────────────────────────────────────────────
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { addDaysYYYYMMDD, getKSTDateString } from "@/lib/dateUtil";
+
+export type RewardPeriod = {
+  id: string;
+  period_start: string;
+  period_end: string;
+  reward_date: string;
+};
+
+// 한 번에 계산할 수 있는 최대 기간
+const MAX_PERIOD_DAYS = 92;
+
+const YMD = /^\d{4}-\d{2}-\d{2}$/;
+
+export function rewardDateFor(periodEnd: string) {
+  return addDaysYYYYMMDD(periodEnd, 1);
+}
+
+/** 기간 형식/범위 검사. 문제가 있으면 메시지, 없으면 null */
+export function validatePeriod(periodStart: string, periodEnd: string): string | null {
+  if (!YMD.test(periodStart) || !YMD.test(periodEnd)) return "기간은 YYYY-MM-DD 형식이어야 합니다";
+  if (periodStart > periodEnd) return "period_start 가 period_end 보다 늦습니다";
+  if (periodEnd >= getKSTDateString()) return "진행 중이거나 미래인 기간은 계산할 수 없습니다";
+
+  const days = (Date.parse(periodEnd) - Date.parse(periodStart)) / 86_400_000 + 1;
+  if (days > MAX_PERIOD_DAYS) return `기간은 최대 ${MAX_PERIOD_DAYS}일까지 가능합니다`;
+  return null;
+}
+
+/** 이미 확정된 기간 중 주어진 기간과 겹치는 것 (완전히 같은 기간은 제외) */
+export async function findOverlappingPeriods(periodStart: string, periodEnd: string): Promise<RewardPeriod[]> {
+  const { data, error } = await supabaseAdmin
+    .from("reward_periods")
+    .select("id, period_start, period_end, reward_date")
+    .lte("period_start", periodEnd)
+    .gte("period_end", periodStart);
+  if (error) throw error;
+
+  return ((data ?? []) as RewardPeriod[]).filter(
+    (p) => !(p.period_start === periodStart && p.period_end === periodEnd)
+  );
+}
+
+/** 기간 확정 기록 (같은 기간이면 기존 행 반환, 겹치면 오류) */
+export async function ensureRewardPeriod(periodStart: string, periodEnd: string): Promise<RewardPeriod> {
+  const rewardDate = rewardDateFor(periodEnd);
+
+  const { data: existing, error: loadErr } = await supabaseAdmin
+    .from("reward_periods")
+    .select("id, period_start, period_end, reward_date")
+    .eq("reward_date", rewardDate)
+    .maybeSingle();
+  if (loadErr) throw loadErr;
+
+  if (existing) {
+    if (existing.period_start !== periodStart || existing.period_end !== periodEnd) {
+      throw new Error(
+        `정산일 ${rewardDate} 은 이미 ${existing.period_start} ~ ${existing.period_end} 기간으로 확정되었습니다`
+      );
+    }
+    return existing as RewardPeriod;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("reward_periods")
+    .insert({ period_start: periodStart, period_end: periodEnd, reward_date: rewardDate })
+    .select("id, period_start, period_end, reward_date")
+    .single();
+
+  // 23P01 = exclusion_violation (동시에 겹치는 기간이 확정된 경우)
+  if (error?.code === "23P01") throw new Error("다른 정산 기간과 겹칩니다");
+  if (error) throw error;
+  return data as RewardPeriod;
+}
@@ -1,12 +1,29 @@
 import { client } from "@/lib/client";
-import { polygon } from "thirdweb/chains";
-import { getContract, prepareContractCall, sendTransaction } from "thirdweb";
-import { privateKeyToAccount } from "thirdweb/wallets";
-import { balanceOf } from "thirdweb/extensions/erc20";
-import { supabase } from "@/lib/supabaseClient";
-import { getKSTDateString, getKSTISOString } from "@/lib/dateUtil";
-
-const USDT_ADDRESS = "0xc2132D05D31c914a87C6611C10748AEb04B58e8F";
+import { payoutChain, USDT_ADDRESS } from "@/lib/payoutChain";
+import {
+  estimateGas,
+  getContract,
+  getContractEvents,
+  parseEventLogs,
+  prepareContractCall,
+  toSerializableTransaction,
+  waitForReceipt,
+  type PreparedTransaction,
+} from "thirdweb";
+import { balanceOf, transferEvent } from "thirdweb/extensions/erc20";
+import {
+  eth_blockNumber,
+  eth_call,
+  eth_gasPrice,
+  eth_getBalance,
+  eth_getTransactionByHash,
+  eth_getTransactionCount,
+  eth_getTransactionReceipt,
+  eth_sendRawTransaction,
+  getRpcClient,
+} from "thirdweb/rpc";
+import { keccak256 } from "thirdweb/utils";
+import { getSigner } from "@/lib/signer";
 
 const USDT_ABI = [
   {
@@ -23,119 +40,196 @@ const USDT_ABI = [
   }
 ] as const;
 
-export async function sendUSDT(to: string, amount: number) {
-  console.log("🚀 [sendUSDT] 호출됨");
-  console.log("📌 수신자 주소:", to);
-  console.log("📌 송금 금액:", amount);
+const rpc = () => getRpcClient({ client, chain: payoutChain });
+
+// ✅ 리워드 지급용 핫월렛 (서명자 설정은 signer.ts)
+export function getPayoutAccount() {
+  return getSigner("payout");
+}
+
+// USDT(6 decimals) 금액 → 정수 단위
+export function toUSDTUnits(amount: number): bigint {
+  return BigInt(Math.round(amount * 1_000_000));
+}
+
+export async function getAdminUSDTBalance(address: string): Promise<number> {
+  const balance = await balanceOf({
+    contract: getContract({ address: USDT_ADDRESS, chain: payoutChain, client }),
+    address,
+  });
+  return Number(balance) / 1e6;
+}
+
+// 관리자 지갑 네이티브 코인(MATIC) 잔액
+export async function getAdminNativeBalance(address: string): Promise<number> {
+  const wei = await eth_getBalance(rpc(), { address });
+  return Number(wei) / 1e18;
+}
+
+export async function getGasPrice() {
+  return eth_gasPrice(rpc());
+}
 
+// 체인 기준 nonce ("pending" = 멤풀 포함, "latest" = 채굴 완료분만)
+export async function getChainNonce(address: string, blockTag: "pending" | "latest" = "pending") {
+  return eth_getTransactionCount(rpc(), { address, blockTag });
+}
+
+// 준비된 트랜잭션을 지정 nonce 로 서명 (브로드캐스트 X)
+export async function signWithNonce(transaction: PreparedTransaction<any>, nonce: number) {
+  const adminWallet = await getPayoutAccount();
+  if (!adminWallet.signTransaction) {
+    throw new Error("관리자 지갑이 오프라인 서명을 지원하지 않습니다");
+  }
+
+  const serializable = await toSerializableTransaction({ transaction, from: adminWallet });
+  const signedTx = await adminWallet.signTransaction({ ...serializable, nonce });
+  const txHash = keccak256(signedTx);
+
+  return { from: adminWallet.address, signedTx, txHash, gas: serializable.gas };
+}
+
+/**
+ * USDT 전송 트랜잭션을 지정된 nonce로 "서명만" 한다. (브로드캐스트 X)
+ * 서명된 원문과 tx 해시를 먼저 DB에 남겨두면, 전송 도중 죽더라도
+ * 같은 nonce/같은 해시로만 재전송되므로 이중 지급이 발생하지 않는다.
+ */
+export async function signUSDTTransfer(to: string, amount: number, nonce: number) {
   if (!to || amount <= 0) {
     console.error("❌ 잘못된 주소 또는 금액:", to, amount);
     throw new Error("잘못된 주소 또는 금액");
   }
 
-  try {
-    const adminWallet = privateKeyToAccount({
-      client,
-      privateKey: process.env.ADMIN_PRIVATE_KEY!,
-    });
+  const contract = getContract({
+    address: USDT_ADDRESS,
+    chain: payoutChain,
+    client,
+    abi: USDT_ABI,
+  });
 
-    const adminAddress = adminWallet.address;
-    console.log("✅ 관리자 지갑 주소:", adminAddress);
+  const transaction = prepareContractCall({
+    contract,
+    method: "transfer",
+    params: [to, toUSDTUnits(amount)],
+  });
 
-    const balance = await balanceOf({
-      contract: {
-        address: USDT_ADDRESS,
-        chain: polygon,
-        client,
-      },
-      address: adminAddress,
-    });
+  return signWithNonce(transaction, nonce);
+}
 
-    console.log("💰 관리자 지갑 USDT 잔액:", Number(balance) / 1e6, "USDT");
+// USDT 전송 1건의 가스 추정 (서명 X)
+export async function estimateUSDTTransferGas(to: string, amount: number) {
+  const contract = getContract({ address: USDT_ADDRESS, chain: payoutChain, client, abi: USDT_ABI });
+  return estimateAdminGas(
+    prepareContractCall({ contract, method: "transfer", params: [to, toUSDTUnits(amount)] })
+  );
+}
 
-    const parsedAmount = BigInt(Math.round(amount * 1_000_000));
-    console.log("🔢 전송할 금액 (정수):", parsedAmount.toString());
+export async function broadcastSignedTransaction(signedTx: `0x${string}`) {
+  return eth_sendRawTransaction(rpc(), signedTx);
+}
 
-    const contract = getContract({
-      address: USDT_ADDRESS,
-      chain: polygon,
-      client,
-      abi: USDT_ABI,
-    });
+// thirdweb 은 노드가 null 을 돌려주면 "... not found." 로 throw 한다.
+// 그 경우만 null 로 바꾸고 RPC 오류(rate limit / timeout / 5xx)는 그대로 throw
+// → 호출 쪽이 "조회 실패"를 "tx 없음"으로 오인해 지급 건을 failed(=재지급 대상)로 돌리지 않도록
+const nullIfNotFound = (e: any) => {
+  if (/^Transaction (receipt )?not found\.$/.test(e?.message ?? "")) return null;
+  throw e;
+};
+
+// 해시로 영수증 조회 (아직 채굴 전이면 null, 조회 오류는 throw)
+export async function findReceipt(txHash: `0x${string}`) {
+  return eth_getTransactionReceipt(rpc(), { hash: txHash }).catch(nullIfNotFound);
+}
 
-    const transaction = prepareContractCall({
-      contract,
-      method: "transfer",
-      params: [to, parsedAmount],
-    });
+// 해시로 트랜잭션 조회 (노드가 모르는 트랜잭션이면 null, 조회 오류는 throw)
+export async function findTransaction(txHash: `0x${string}`) {
+  return eth_getTransactionByHash(rpc(), { hash: txHash }).catch(nullIfNotFound);
+}
 
-    const result = await sendTransaction({
-      transaction,
-      account: adminWallet,
-    });
+export async function getBlockNumber() {
+  return eth_blockNumber(rpc());
+}
 
-    const txHash = result.transactionHash;
-    if (!txHash) {
-      throw new Error("트랜잭션 해시 없음 → 전송 실패");
-    }
-
-    console.log("🎉 USDT 전송 성공! 트랜잭션 해시:", txHash);
-
-    const today = getKSTDateString();
-
-    const { data: user, error: userError } = await supabase
-      .from("users")
-      .select("ref_code")
-      .eq("wallet_address", to.toLowerCase())
-      .maybeSingle();
-
-    if (userError) {
-      console.warn("⚠️ 유저 조회 오류:", userError.message);
-    }
-
-    const refCode = user?.ref_code || "unknown";
-
-    // ✅ USDT 출금 내역 기록 (리워드 목적)
-    const { error: insertError } = await supabase.from("usdt_history").insert({
-      ref_code: refCode,
-      wallet_address: to.toLowerCase(),
-      direction: "in", // ✅ 리워드는 입금 처리
-      purpose: "reward", // ✅ 목적 명시
-      amount,
-      tx_hash: txHash,
-      status: "completed",
-      reward_date: today,
-    });
+type Receipt = NonNullable<Awaited<ReturnType<typeof findReceipt>>>;
+
+// 영수증 안에 기대한 USDT Transfer(from → to, amount) 로그가 있는지 확인
+export function hasUSDTTransferLog(
+  receipt: Receipt,
+  expected: { from: string; to: string; amount: number }
+) {
+  const logs = parseEventLogs({ logs: receipt.logs, events: [transferEvent()] });
+  const units = toUSDTUnits(expected.amount);
+  return logs.some(
+    (l) =>
+      l.address.toLowerCase() === USDT_ADDRESS.toLowerCase() &&
+      l.args.from.toLowerCase() === expected.from.toLowerCase() &&
+      l.args.to.toLowerCase() === expected.to.toLowerCase() &&
+      l.args.value === units
+  );
+}
 
-    if (insertError) {
-      console.warn("⚠️ usdt_history 저장 오류:", insertError.message);
-    }
-
-    // ✅ reward_transfers 상태 업데이트
-    if (refCode !== "unknown") {
-      const { error: updateError } = await supabase
-        .from("reward_transfers")
-        .update({
-          status: "success",
-          executed_at: getKSTISOString(),
-          tx_hash: txHash,
-        })
-        .eq("ref_code", refCode)
-        .eq("reward_date", today);
-
-      if (updateError) {
-        console.warn("⚠️ reward_transfers 업데이트 오류:", updateError.message);
-      } else {
-        console.log("✅ reward_transfers 상태 업데이트 완료");
-      }
-    } else {
-      console.warn("⚠️ ref_code를 찾을 수 없어 reward_transfers 업데이트 생략됨");
-    }
-
-    return { transactionHash: txHash };
-  } catch (error: any) {
-    const errMsg = error?.message || "알 수 없는 오류";
-    console.error("❌ [송금 실패]", errMsg);
-    throw new Error("USDT 전송 중 오류 발생: " + errMsg);
+// 영수증 안의 to 로 들어온 USDT Transfer 로그
+export function getUSDTTransfersInReceipt(receipt: Receipt, to: string) {
+  return parseEventLogs({ logs: receipt.logs, events: [transferEvent()] })
+    .filter(
+      (l) =>
+        l.address.toLowerCase() === USDT_ADDRESS.toLowerCase() &&
+        l.args.to.toLowerCase() === to.toLowerCase()
+    )
+    .map((l) => ({
+      txHash: l.transactionHash,
+      logIndex: Number(l.logIndex),
+      blockNumber: l.blockNumber,
+      from: l.args.from.toLowerCase(),
+      amount: Number(l.args.value) / 1e6,
+    }));
+}
+
+// 블록 구간 안에서 to 로 들어온 USDT Transfer 로그
+export async function getUSDTTransfersTo(to: string, fromBlock: bigint, toBlock: bigint) {
+  const logs = await getContractEvents({
+    contract: getContract({ address: USDT_ADDRESS, chain: payoutChain, client }),
+    events: [transferEvent({ to })],
+    fromBlock,
+    toBlock,
+    useIndexer: false,
+  });
+  return logs.map((l) => ({
+    txHash: l.transactionHash,
+    logIndex: Number(l.logIndex),
+    blockNumber: l.blockNumber,
+    from: l.args.from.toLowerCase(),
+    amount: Number(l.args.value) / 1e6,
+  }));
+}
+
+// revert 사유: 해당 블록 직전 상태에서 같은 호출을 재실행해 에러 메시지를 얻는다
+export async function getRevertReason(txHash: `0x${string}`, blockNumber: bigint) {
+  const tx = await findTransaction(txHash);
+  if (!tx) return "트랜잭션 revert";
+  try {
+    await eth_call(rpc(), {
+      from: tx.from,
+      to: tx.to ?? undefined,
+      data: tx.input,
+      blockNumber: blockNumber - BigInt(1),
+    });
+    return "트랜잭션 revert (사유 없음)";
+  } catch (e: any) {
+    return `트랜잭션 revert: ${e?.shortMessage ?? e?.message ?? e}`;
   }
 }
+
+export async function estimateAdminGas(transaction: PreparedTransaction<any>) {
+  return estimateGas({ transaction, from: (await getPayoutAccount()).address });
+}
+
+// 영수증 대기 (maxBlocks 동안 채굴되지 않으면 null)
+export async function waitForTxReceipt(txHash: `0x${string}`, maxBlocks = 30) {
+  return waitForReceipt({
+    client,
+    chain: payoutChain,
+    transactionHash: txHash,
+    maxBlocksWaitTime: maxBlocks,
+  }).catch(() => null);
+}
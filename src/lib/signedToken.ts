@@ -0,0 +1,66 @@
+// src/lib/signedToken.ts
+// ───────────────────────────────────────────────────────────────
+// 서명된 토큰 (세션 쿠키 공용: 관리자 세션 / 사용자 지갑 세션 / 로그인 nonce)
+//
+//  - 토큰 = base64url(JSON payload) + "." + base64url(HMAC-SHA256(payload, secret))
+//  - middleware(Edge) 와 라우트(Node) 양쪽에서 쓰므로 Web Crypto 만 사용한다
+//  - payload.exp(초)가 지나면 무효
+// ───────────────────────────────────────────────────────────────
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: Uint8Array) {
+  let bin = "";
+  for (const b of bytes) bin += String.fromCharCode(b);
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(s: string) {
+  const bin = atob(s.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(bin, (c) => c.charCodeAt(0));
+}
+
+async function hmac(secret: string, data: string) {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  return toBase64Url(new Uint8Array(await crypto.subtle.sign("HMAC", key, encoder.encode(data))));
+}
+
+// 길이가 같으면 끝까지 비교 (타이밍 차이 최소화)
+function safeEqual(a: string, b: string) {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+/** 환경변수 비밀키 (32자 이상) */
+export function tokenSecret(envName: string) {
+  const s = process.env[envName] ?? "";
+  if (s.length < 32) throw new Error(`${envName} 이 없거나 너무 짧습니다 (32자 이상)`);
+  return s;
+}
+
+export async function signToken(payload: { exp: number }, secret: string): Promise<string> {
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  return `${body}.${await hmac(secret, body)}`;
+}
+
+/** 서명/만료 검사. 유효하지 않으면 null */
+export async function verifyToken<T extends { exp: number }>(
+  token: string | undefined | null,
+  secret: string
+): Promise<T | null> {
+  if (!token) return null;
+  const [body, sig] = token.split(".");
+  if (!body || !sig) return null;
+
+  if (!safeEqual(sig, await hmac(secret, body))) return null;
+  const payload = JSON.parse(new TextDecoder().decode(fromBase64Url(body))) as T;
+  if (!payload?.exp || payload.exp * 1000 < Date.now()) return null;
+  return payload;
+}
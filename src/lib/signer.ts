@@ -0,0 +1,161 @@
+// src/lib/signer.ts
+// ───────────────────────────────────────────────────────────────
+// 서버 서명자 (Signer) — 용도별 핫월렛
+//
+//   payout : 리워드 USDT 지급 (sendUSDT / multisend)
+//   gas    : 신규 회원 가스(MATIC) 지급 (/api/grant-gas)
+//
+// 구현 (용도별로 {PREFIX}_SIGNER 로 선택, PREFIX = PAYOUT | GAS)
+//   keystore : 암호화된 keystore(JSON V3) 파일
+//              {PREFIX}_SIGNER_KEYSTORE=/path/keystore.json
+//              {PREFIX}_SIGNER_KEYSTORE_PASSWORD_FILE=/path/password (또는 _PASSWORD)
+//   remote   : 원격 서명 서비스 (KMS 류 HTTP) — 키는 Next.js 프로세스 밖에 있다
+//              {PREFIX}_SIGNER_URL, {PREFIX}_SIGNER_KEY_ID, {PREFIX}_SIGNER_TOKEN
+//              로컬에서는 scripts/remote-signer-stub.mjs 로 대체 가능
+//   env      : 개발 전용 평문 키 ({PREFIX}_SIGNER_PRIVATE_KEY), production 에서는 거부
+//
+// 모든 구현은 thirdweb Account 로 노출되므로 기존 서명/전송 코드는 그대로 동작한다.
+// ───────────────────────────────────────────────────────────────
+import { readFile } from "fs/promises";
+import { Wallet } from "ethers";
+import { defineChain, type Hex } from "thirdweb";
+import { privateKeyToAccount, type Account } from "thirdweb/wallets";
+import { eth_sendRawTransaction, getRpcClient } from "thirdweb/rpc";
+import { client } from "@/lib/client";
+
+export type SignerPurpose = "payout" | "gas";
+export type SignerKind = "keystore" | "remote" | "env";
+
+const PREFIX: Record<SignerPurpose, string> = { payout: "PAYOUT", gas: "GAS" };
+
+const REMOTE_TIMEOUT_MS = 10_000;
+
+const cache = new Map<SignerPurpose, Promise<Account>>();
+const loadedAddresses = new Map<SignerPurpose, string>();
+
+function env(purpose: SignerPurpose, key: string) {
+  return process.env[`${PREFIX[purpose]}_SIGNER${key}`] || undefined;
+}
+
+function kindOf(purpose: SignerPurpose): SignerKind {
+  const explicit = env(purpose, "");
+  if (explicit === "keystore" || explicit === "remote" || explicit === "env") return explicit;
+  if (explicit) throw new Error(`${PREFIX[purpose]}_SIGNER 값이 올바르지 않습니다: ${explicit}`);
+  if (env(purpose, "_URL")) return "remote";
+  if (env(purpose, "_KEYSTORE")) return "keystore";
+  return "env";
+}
+
+/* ------------------------- keystore ------------------------- */
+
+async function keystoreAccount(purpose: SignerPurpose): Promise<Account> {
+  const path = env(purpose, "_KEYSTORE");
+  if (!path) throw new Error(`${PREFIX[purpose]}_SIGNER_KEYSTORE 가 설정되지 않았습니다`);
+
+  const passwordFile = env(purpose, "_KEYSTORE_PASSWORD_FILE");
+  const password = passwordFile
+    ? (await readFile(passwordFile, "utf8")).trim()
+    : env(purpose, "_KEYSTORE_PASSWORD");
+  if (!password) throw new Error(`${PREFIX[purpose]} keystore 비밀번호가 설정되지 않았습니다`);
+
+  const wallet = await Wallet.fromEncryptedJson(await readFile(path, "utf8"), password);
+  return privateKeyToAccount({ client, privateKey: wallet.privateKey });
+}
+
+/* ------------------------- remote ------------------------- */
+
+// bigint 는 JSON 으로 보낼 수 없으므로 0x 16진수 문자열로
+const toJSON = (body: unknown) =>
+  JSON.stringify(body, (_k, v) => (typeof v === "bigint" ? `0x${v.toString(16)}` : v));
+
+async function remoteAccount(purpose: SignerPurpose): Promise<Account> {
+  const url = env(purpose, "_URL")?.replace(/\/$/, "");
+  const keyId = env(purpose, "_KEY_ID") ?? purpose;
+  const token = env(purpose, "_TOKEN");
+  if (!url) throw new Error(`${PREFIX[purpose]}_SIGNER_URL 이 설정되지 않았습니다`);
+
+  const call = async <T>(path: string, body?: Record<string, unknown>): Promise<T> => {
+    const res = await fetch(`${url}${path}`, {
+      method: body ? "POST" : "GET",
+      headers: {
+        "Content-Type": "application/json",
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: body ? toJSON({ keyId, ...body }) : undefined,
+      signal: AbortSignal.timeout(REMOTE_TIMEOUT_MS),
+      cache: "no-store",
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(`원격 서명 실패 (${path} ${res.status}): ${data?.error ?? "unknown"}`);
+    return data as T;
+  };
+
+  const { address } = await call<{ address: string }>(`/address?keyId=${encodeURIComponent(keyId)}`);
+  if (!/^0x[a-fA-F0-9]{40}$/.test(address ?? "")) throw new Error("원격 서명자 주소가 올바르지 않습니다");
+
+  const signTransaction = async (tx: Record<string, unknown>) =>
+    (await call<{ signedTx: Hex }>("/sign-transaction", { transaction: tx })).signedTx;
+
+  return {
+    address: address as Hex,
+    signTransaction,
+    // 서명만 원격, 전송은 우리 RPC 로
+    sendTransaction: async (tx) => {
+      const signedTx = await signTransaction(tx);
+      const rpc = getRpcClient({ client, chain: defineChain(tx.chainId) });
+      return { transactionHash: await eth_sendRawTransaction(rpc, signedTx) };
+    },
+    signMessage: async ({ message }) =>
+      (await call<{ signature: Hex }>("/sign-message", { message })).signature,
+    signTypedData: async (typedData) =>
+      (await call<{ signature: Hex }>("/sign-typed-data", { typedData })).signature,
+  };
+}
+
+/* ------------------------- env (개발 전용) ------------------------- */
+
+function envAccount(purpose: SignerPurpose): Account {
+  if (process.env.NODE_ENV === "production") {
+    throw new Error(`${PREFIX[purpose]} 서명자가 설정되지 않았습니다 (production 에서는 keystore 또는 remote 만 허용)`);
+  }
+  const privateKey = env(purpose, "_PRIVATE_KEY");
+  if (!privateKey) throw new Error(`${PREFIX[purpose]}_SIGNER_PRIVATE_KEY 가 설정되지 않았습니다`);
+  return privateKeyToAccount({ client, privateKey });
+}
+
+/* ------------------------- 진입점 ------------------------- */
+
+async function load(purpose: SignerPurpose): Promise<Account> {
+  if (process.env.ADMIN_PRIVATE_KEY) {
+    console.warn("⚠️ ADMIN_PRIVATE_KEY 는 더 이상 사용하지 않습니다. 환경변수에서 제거하세요.");
+  }
+
+  const kind = kindOf(purpose);
+  const account =
+    kind === "keystore" ? await keystoreAccount(purpose)
+    : kind === "remote" ? await remoteAccount(purpose)
+    : envAccount(purpose);
+
+  // 용도별 지갑 분리: 다른 용도와 같은 주소면 경고
+  const address = account.address.toLowerCase();
+  for (const [other, otherAddress] of loadedAddresses) {
+    if (other !== purpose && otherAddress === address) {
+      console.warn(`⚠️ ${purpose} / ${other} 서명자가 같은 지갑입니다. 용도별로 분리하세요.`);
+    }
+  }
+  loadedAddresses.set(purpose, address);
+
+  console.log(`🔐 ${purpose} 서명자 준비 (${kind}):`, account.address);
+  return account;
+}
+
+/** 용도별 서명자 (프로세스 내 1회 로드, 실패하면 다음 호출에서 재시도) */
+export function getSigner(purpose: SignerPurpose): Promise<Account> {
+  let pending = cache.get(purpose);
+  if (!pending) {
+    pending = load(purpose);
+    cache.set(purpose, pending);
+    pending.catch(() => cache.delete(purpose));
+  }
+  return pending;
+}
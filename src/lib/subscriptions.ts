@@ -0,0 +1,184 @@
+// src/lib/subscriptions.ts
+// ───────────────────────────────────────────────────────────────
+// 구독 연장 / 업그레이드 규칙 (서버 전용)
+//
+//  결제 전 견적(quotePurchase)과 결제 확인 후 기록(passPurchases.createPaidEnrollment)이 같은 규칙을 쓴다.
+//   new     : 유효한 패스 없음 → 오늘부터 패스 기간
+//   renewal : 현재 패스와 같은 가격 이하 → 현재 만료일부터 이어서 (남은 기간을 버리지 않는다)
+//   upgrade : 현재 패스보다 비싼 패스 → 유효한 패스들의 남은 기간 가치를 크레딧으로 차감하고 오늘부터,
+//             기존 패스는 오늘 날짜로 종료 (superseded_by)
+//  크레딧 = Σ (tuition + credit_amount) × 남은 일수 / 전체 일수  (패스 가치는 결제액 + 받은 크레딧)
+//  프로모션 코드는 견적 뒤에 적용한다 (promoCodes.ts) — 할인받은 금액은 패스 가치에 들어가지 않는다
+//  화면은 subscriptions 뷰(ref_code 별 현재 구독)를 읽는다.
+// ───────────────────────────────────────────────────────────────
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { addDaysYYYYMMDD, getKSTDateString, getKSTISOString } from "@/lib/dateUtil";
+import { computeExpiry } from "@/lib/passPeriod";
+import type { PassProduct } from "@/lib/passCatalog";
+import { getPassProduct } from "@/lib/passProducts";
+
+export type PurchaseKind = "new" | "renewal" | "upgrade";
+
+export type PurchaseQuote = {
+  kind: PurchaseKind;
+  product_id: string;
+  pass_type: string;    // 상품명 (enrollments.pass_type)
+  price: number;
+  credit: number;       // 업그레이드 크레딧 (USDT)
+  amount_due: number;   // 실제 결제 금액 = price - credit - discount
+  promo_code: string | null;
+  discount: number;     // 프로모션 할인 (USDT, promoCodes.ts)
+  bonus_days: number;   // 프로모션 추가 일수 (expires_at 에 포함)
+  starts_at: string;    // YYYY-MM-DD (KST)
+  expires_at: string;   // YYYY-MM-DD (KST)
+  supersedes: string[]; // 업그레이드로 종료되는 enrollments.id
+};
+
+export type Subscription = {
+  ref_code: string;
+  enrollment_id: string;
+  pass_type: string | null;
+  product_id: string | null;
+  purchase_kind: PurchaseKind | null;
+  purchased_at: string;
+  expires_at: string;
+  active: boolean;
+};
+
+type PaidEnrollment = {
+  id: string;
+  product_id: string | null;
+  tuition: number | null;
+  credit_amount: number | null;
+  starts_at: string | null;
+  created_at: string;
+  pass_expired_at: string;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const floor2 = (n: number) => Math.floor(n * 100) / 100;
+
+// YYYY-MM-DD 사이 일수 (b - a)
+const daysBetween = (a: string, b: string) =>
+  Math.round((new Date(`${b}T00:00:00Z`).getTime() - new Date(`${a}T00:00:00Z`).getTime()) / DAY_MS);
+
+// KST 날짜의 정오 → computeExpiry 가 서버 타임존과 무관하게 같은 KST 날짜에서 계산하도록
+const kstNoon = (yyyymmdd: string) => new Date(`${yyyymmdd}T12:00:00+09:00`);
+
+/** ref_code 의 현재 구독 (없으면 null) */
+export async function getSubscription(refCode: string): Promise<Subscription | null> {
+  const { data, error } = await supabaseAdmin.from("subscriptions").select("*").eq("ref_code", refCode).maybeSingle();
+  if (error) throw error;
+  return (data as Subscription) ?? null;
+}
+
+// day 에 아직 끝나지 않은 결제 완료 패스 (연장으로 쌓인 미래분 포함)
+async function loadUnexpiredPasses(refCode: string, day: string): Promise<PaidEnrollment[]> {
+  const { data, error } = await supabaseAdmin
+    .from("enrollments")
+    .select("id, product_id, tuition, credit_amount, starts_at, created_at, pass_expired_at")
+    .eq("ref_code", refCode)
+    .ilike("memo", "%결제 완료%")
+    .is("refunded_at", null)
+    .is("superseded_at", null)
+    .gte("pass_expired_at", day)
+    .order("pass_expired_at", { ascending: true });
+  if (error) throw error;
+  return (data ?? []) as PaidEnrollment[];
+}
+
+const startOf = (e: PaidEnrollment) => e.starts_at ?? getKSTDateString(new Date(e.created_at));
+
+// 지금 이용 중인 패스의 가격 (상품 연결이 없는 과거 패스는 결제액 기준)
+async function currentPrice(passes: PaidEnrollment[], day: string) {
+  const current = passes.find((e) => startOf(e) <= day) ?? passes[0];
+  const product = current.product_id ? await getPassProduct(current.product_id) : null;
+  return product?.price ?? Number(current.tuition ?? 0);
+}
+
+// 남은 기간 가치
+function remainingCredit(passes: PaidEnrollment[], day: string) {
+  let credit = 0;
+  for (const e of passes) {
+    const start = startOf(e);
+    const total = Math.max(1, daysBetween(start, e.pass_expired_at));
+    const remaining = Math.min(total, Math.max(0, daysBetween(start > day ? start : day, e.pass_expired_at)));
+    credit += (Number(e.tuition ?? 0) + Number(e.credit_amount ?? 0)) * (remaining / total);
+  }
+  return floor2(credit);
+}
+
+/** at 시점(KST 날짜) 기준 견적 */
+export async function quotePurchase(refCode: string, product: PassProduct, at = new Date()): Promise<PurchaseQuote> {
+  const day = getKSTDateString(at);
+  const passes = await loadUnexpiredPasses(refCode, day);
+  const base = {
+    product_id: product.id,
+    pass_type: product.name_ko,
+    price: product.price,
+    credit: 0,
+    amount_due: product.price,
+    promo_code: null,
+    discount: 0,
+    bonus_days: 0,
+    supersedes: [],
+  };
+
+  if (!passes.length) {
+    return {
+      ...base,
+      kind: "new",
+      starts_at: day,
+      expires_at: getKSTDateString(computeExpiry(product, kstNoon(day))),
+    };
+  }
+
+  if (product.price > (await currentPrice(passes, day))) {
+    const credit = remainingCredit(passes, day);
+    const amountDue = round2(product.price - credit);
+    if (amountDue > 0) {
+      return {
+        ...base,
+        kind: "upgrade",
+        credit,
+        amount_due: amountDue,
+        starts_at: day,
+        expires_at: getKSTDateString(computeExpiry(product, kstNoon(day))),
+        supersedes: passes.map((e) => e.id),
+      };
+    }
+    // 남은 가치가 새 패스 가격 이상이면 업그레이드 대신 연장
+  }
+
+  const lastExpiry = passes[passes.length - 1].pass_expired_at;
+  return {
+    ...base,
+    kind: "renewal",
+    starts_at: addDaysYYYYMMDD(lastExpiry, 1),
+    expires_at: getKSTDateString(computeExpiry(product, kstNoon(lastExpiry))),
+  };
+}
+
+/**
+ * 결제 확인 시점의 견적 후보: 오늘, 어제 (KST)
+ * 견적을 받은 뒤 자정을 넘겨 결제하면 업그레이드 크레딧이 하루치 달라지므로 전날 견적도 인정한다.
+ */
+export async function quoteCandidates(refCode: string, product: PassProduct, at = new Date()) {
+  return Promise.all([
+    quotePurchase(refCode, product, at),
+    quotePurchase(refCode, product, new Date(at.getTime() - DAY_MS)),
+  ]);
+}
+
+/** 업그레이드로 대체된 패스 종료 (새 패스 시작일까지만 유효) */
+export async function supersedePasses(quote: PurchaseQuote, enrollmentId: string) {
+  if (quote.kind !== "upgrade" || !quote.supersedes.length) return;
+  const { error } = await supabaseAdmin
+    .from("enrollments")
+    .update({ pass_expired_at: quote.starts_at, superseded_by: enrollmentId, superseded_at: getKSTISOString() })
+    .in("id", quote.supersedes)
+    .is("refunded_at", null);
+  if (error) throw error;
+  console.log("⬆️ 패스 업그레이드:", enrollmentId, { superseded: quote.supersedes, credit: quote.credit });
+}
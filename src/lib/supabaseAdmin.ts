@@ -0,0 +1,9 @@
+// src/lib/supabaseAdmin.ts
+import { createClient } from "@supabase/supabase-js";
+
+// ✅ 서버 전용: 서비스 롤 키 사용 (클라이언트 컴포넌트에서 import 금지)
+export const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  { auth: { persistSession: false } }
+);
@@ -0,0 +1,107 @@
+// src/lib/userSession.ts
+// ───────────────────────────────────────────────────────────────
+// 사용자 지갑 세션 (SIWE 방식 로그인)
+//
+//  1) GET  /api/auth/nonce?wallet=0x..  → 로그인 메시지 + nonce 쿠키(5분, 서명됨)
+//  2) 인앱 지갑으로 메시지 서명
+//  3) POST /api/auth/session { wallet, signature }
+//       nonce 쿠키로 메시지를 다시 만들어 서명 검증 → 지갑에 묶인 세션 쿠키 발급 (nonce 는 1회용)
+//
+//  세션은 지갑 주소만 담는다. ref_code 등 유저 정보는 요청마다 users 에서 다시 읽는다.
+// ───────────────────────────────────────────────────────────────
+import { signToken, tokenSecret, verifyToken } from "@/lib/signedToken";
+
+export type UserSession = {
+  sub: string;   // 지갑 주소 (소문자)
+  iat: number;
+  exp: number;
+};
+
+type LoginNonce = {
+  wallet: string;
+  nonce: string;
+  issuedAt: string;
+  domain: string;
+  exp: number;
+};
+
+export const USER_SESSION_COOKIE = "user_session";
+export const USER_NONCE_COOKIE = "user_login_nonce";
+export const USER_SESSION_TTL_SEC = 7 * 24 * 60 * 60;
+const NONCE_TTL_SEC = 5 * 60;
+
+const SECRET_ENV = "USER_SESSION_SECRET";
+
+export function isWalletAddress(v: unknown): v is string {
+  return typeof v === "string" && /^0x[a-fA-F0-9]{40}$/.test(v);
+}
+
+/** EIP-4361(SIWE) 형식을 따른 로그인 메시지 */
+export function loginMessage(p: Omit<LoginNonce, "exp">) {
+  return [
+    `${p.domain} wants you to sign in with your Ethereum account:`,
+    p.wallet,
+    "",
+    "이모탈 로그인 — 이 서명은 거래를 발생시키지 않습니다.",
+    "",
+    `URI: https://${p.domain}`,
+    "Version: 1",
+    "Chain ID: 137",
+    `Nonce: ${p.nonce}`,
+    `Issued At: ${p.issuedAt}`,
+  ].join("\n");
+}
+
+/** 로그인 nonce 발급 → { message, token(쿠키 값) } */
+export async function issueLoginNonce(wallet: string, domain: string) {
+  const nonce = Array.from(crypto.getRandomValues(new Uint8Array(16)))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+  const data: Omit<LoginNonce, "exp"> = { wallet: wallet.toLowerCase(), nonce, issuedAt: new Date().toISOString(), domain };
+  const token = await signToken(
+    { ...data, exp: Math.floor(Date.now() / 1000) + NONCE_TTL_SEC },
+    tokenSecret(SECRET_ENV)
+  );
+  return { message: loginMessage(data), token };
+}
+
+/** nonce 쿠키 검증 → 서명해야 했던 메시지 (무효면 null) */
+export async function loginMessageFromNonce(token: string | undefined | null, wallet: string) {
+  try {
+    const nonce = await verifyToken<LoginNonce>(token, tokenSecret(SECRET_ENV));
+    if (!nonce || nonce.wallet !== wallet.toLowerCase()) return null;
+    const { exp: _exp, ...data } = nonce;
+    return loginMessage(data);
+  } catch (e: any) {
+    console.warn("⚠️ 로그인 nonce 검증 실패:", e?.message ?? e);
+    return null;
+  }
+}
+
+export async function signUserSession(wallet: string): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  const payload: UserSession = { sub: wallet.toLowerCase(), iat: now, exp: now + USER_SESSION_TTL_SEC };
+  return signToken(payload, tokenSecret(SECRET_ENV));
+}
+
+/** 서명/만료 검사. 유효하지 않으면 null */
+export async function verifyUserSession(token: string | undefined | null): Promise<UserSession | null> {
+  try {
+    const payload = await verifyToken<UserSession>(token, tokenSecret(SECRET_ENV));
+    if (!payload || !isWalletAddress(payload.sub)) return null;
+    return payload;
+  } catch (e: any) {
+    console.warn("⚠️ 사용자 세션 검증 실패:", e?.message ?? e);
+    return null;
+  }
+}
+
+export const userSessionCookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production",
+  sameSite: "lax" as const,
+  path: "/",
+  maxAge: USER_SESSION_TTL_SEC,
+};
+
+export const userNonceCookieOptions = { ...userSessionCookieOptions, path: "/api/auth", maxAge: NONCE_TTL_SEC };
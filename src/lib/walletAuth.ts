@@ -0,0 +1,167 @@
+// src/lib/walletAuth.ts
+// ───────────────────────────────────────────────────────────────
+// 사용자 API 인증 (서버 전용)
+//
+//  requireUserSession : 지갑 세션 쿠키(userSession.ts) → 세션 지갑의 users 행
+//  requireWallet      : 요청별 지갑 서명 헤더, 없으면 세션 쿠키로 대체
+//    - 헤더(x-wallet-address / -signature / -timestamp / -nonce)와 본문으로 walletRequestMessage 를 다시 만들고
+//      thirdweb verifySignature 로 검증 (인앱 EOA + 스마트 계정 서명 모두)
+//    - 검증된 nonce 는 wallet_request_nonces 에 남겨 같은 서명의 재사용을 막는다
+//    - 라우트는 본문을 직접 req.json() 하지 말고 auth.body 를 쓴다 (본문도 서명 대상)
+// ───────────────────────────────────────────────────────────────
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+import { verifySignature } from "thirdweb/auth";
+import { polygon } from "thirdweb/chains";
+import { client } from "@/lib/client";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import {
+  WALLET_HEADER,
+  WALLET_NONCE_HEADER,
+  WALLET_SIGNATURE_HEADER,
+  WALLET_SIGNATURE_TTL_MS,
+  WALLET_TIMESTAMP_HEADER,
+  sha256Hex,
+  walletRequestMessage,
+} from "@/lib/walletRequest";
+import { USER_SESSION_COOKIE, verifyUserSession } from "@/lib/userSession";
+
+export type WalletUser = {
+  id: string;
+  ref_code: string;
+  ref_by: string | null;
+  center_id: string | null;
+  name: string | null;
+  inviter_name: string | null;
+  wallet_address: string;
+};
+
+export const WALLET_USER_COLUMNS = "id, ref_code, ref_by, center_id, name, inviter_name, wallet_address";
+
+type SessionAuth =
+  | { wallet: string; user: WalletUser | null; response?: undefined }
+  | { wallet?: undefined; user?: undefined; response: NextResponse };
+
+type WalletAuth =
+  | { wallet: string; user: WalletUser | null; body: any; response?: undefined }
+  | { wallet?: undefined; user?: undefined; body?: undefined; response: NextResponse };
+
+const deny = (error: string, status = 401) => ({ response: NextResponse.json({ error }, { status }) });
+
+/** nonce 를 사용 처리. 이미 쓰인 nonce 면 false */
+async function consumeRequestNonce(wallet: string, nonce: string) {
+  const { error } = await supabaseAdmin.from("wallet_request_nonces").insert({ wallet, nonce });
+  if (error?.code === "23505") return false;
+  if (error) throw error;
+
+  // 유효 시간이 지난 nonce 는 다시 와도 timestamp 에서 걸러지므로 정리
+  const cutoff = new Date(Date.now() - 2 * WALLET_SIGNATURE_TTL_MS).toISOString();
+  const { error: purgeErr } = await supabaseAdmin.from("wallet_request_nonces").delete().lt("used_at", cutoff);
+  if (purgeErr) console.warn("⚠️ 만료 nonce 정리 실패:", purgeErr.message);
+  return true;
+}
+
+async function loadWalletUser(wallet: string) {
+  const { data, error } = await supabaseAdmin.from("users").select(WALLET_USER_COLUMNS).eq("wallet_address", wallet).maybeSingle();
+  if (error) throw error;
+  return (data as WalletUser) ?? null;
+}
+
+/** 현재 요청의 세션 지갑 (없으면 null) */
+export async function getSessionWallet(): Promise<string | null> {
+  const store = await cookies();
+  const session = await verifyUserSession(store.get(USER_SESSION_COOKIE)?.value);
+  return session?.sub ?? null;
+}
+
+/**
+ * 지갑 세션 확인.
+ *   const auth = await requireUserSession({ requireUser: true });
+ *   if (auth.response) return auth.response;
+ *   auth.user.ref_code ...
+ * opts.requireUser 가 true 면 가입된 유저가 아닐 때 404
+ */
+export async function requireUserSession(opts: { requireUser?: boolean } = {}): Promise<SessionAuth> {
+  const wallet = await getSessionWallet();
+  if (!wallet) return deny("로그인이 필요합니다");
+
+  try {
+    const user = await loadWalletUser(wallet);
+    if (opts.requireUser && !user) return deny("가입된 유저가 아닙니다", 404);
+    return { wallet, user };
+  } catch (e: any) {
+    console.error("❌ 유저 조회 실패:", e?.message ?? e);
+    return deny("유저 조회 실패", 500);
+  }
+}
+
+/**
+ * 지갑 서명(또는 세션) 확인.
+ *   const auth = await requireWallet(req);
+ *   if (auth.response) return auth.response;
+ *   auth.wallet / auth.user / auth.body
+ * opts.requireUser 가 true 면 가입된 유저가 아닐 때 404
+ */
+export async function requireWallet(req: Request, opts: { requireUser?: boolean } = {}): Promise<WalletAuth> {
+  const wallet = req.headers.get(WALLET_HEADER)?.toLowerCase() ?? "";
+  const signature = req.headers.get(WALLET_SIGNATURE_HEADER) ?? "";
+  const timestamp = req.headers.get(WALLET_TIMESTAMP_HEADER) ?? "";
+  const nonce = req.headers.get(WALLET_NONCE_HEADER) ?? "";
+
+  // 서명 헤더가 없으면 로그인 세션으로
+  if (!wallet && !signature) {
+    const session = await requireUserSession(opts);
+    if (session.response) return { response: session.response };
+    let body: any = {};
+    try { body = await req.json(); } catch {}
+    return { wallet: session.wallet, user: session.user, body };
+  }
+
+  if (!/^0x[a-f0-9]{40}$/.test(wallet) || !signature || !timestamp || !/^[A-Za-z0-9-]{16,64}$/.test(nonce)) {
+    return deny("지갑 서명이 필요합니다");
+  }
+  const age = Date.now() - Number(timestamp);
+  if (!Number.isFinite(age) || Math.abs(age) > WALLET_SIGNATURE_TTL_MS) {
+    return deny("서명이 만료되었습니다. 다시 시도하세요.");
+  }
+
+  const raw = await req.text();
+  const message = walletRequestMessage({
+    method: req.method,
+    path: new URL(req.url).pathname,
+    wallet,
+    timestamp,
+    nonce,
+    bodyHash: await sha256Hex(raw),
+  });
+
+  const valid = await verifySignature({ message, signature, address: wallet, client, chain: polygon }).catch(
+    () => false
+  );
+  if (!valid) {
+    console.warn("⚠️ 지갑 서명 검증 실패:", wallet, req.method, new URL(req.url).pathname);
+    return deny("지갑 서명이 올바르지 않습니다");
+  }
+
+  let body: any = {};
+  try { body = raw ? JSON.parse(raw) : {}; } catch {}
+
+  try {
+    if (!(await consumeRequestNonce(wallet, nonce))) {
+      console.warn("⚠️ 지갑 서명 재사용:", wallet, req.method, new URL(req.url).pathname);
+      return deny("이미 사용된 서명입니다. 다시 시도하세요.");
+    }
+  } catch (e: any) {
+    console.error("❌ 서명 nonce 기록 실패:", e?.message ?? e);
+    return deny("서명 확인 실패", 500);
+  }
+
+  try {
+    const user = await loadWalletUser(wallet);
+    if (opts.requireUser && !user) return deny("가입된 유저가 아닙니다", 404);
+    return { wallet, user, body };
+  } catch (e: any) {
+    console.error("❌ 유저 조회 실패:", e?.message ?? e);
+    return deny("유저 조회 실패", 500);
+  }
+}
@@ -0,0 +1,138 @@
+// src/lib/walletRequest.ts
+// ───────────────────────────────────────────────────────────────
+// 지갑 서명 요청 (클라이언트 / 서버 공용)
+//
+//  사용자 쓰기 API(/api/purchases/verify, /api/withdrawals, /api/bot-settings, /api/users/me)는
+//  "클라이언트가 말하는 지갑 주소"를 믿지 않는다. 요청마다 아래 메시지를 지갑으로 서명해 보내고
+//  서버(src/lib/walletAuth.ts)가 서명 → 주소를 검증한 뒤 그 지갑의 유저로만 쓴다.
+//
+//   메시지 = 앱 이름 / METHOD path / wallet / timestamp / nonce / body sha256
+//   → 다른 경로·다른 본문에 재사용 불가, timestamp 로 유효 시간 제한,
+//     nonce 는 서버가 한 번 쓰면 기록해 두므로 같은 요청을 다시 보내도 거부된다
+//
+//  로그인 세션(ensureUserSession)이 있으면 서명 헤더 없이 쿠키만으로도 같은 라우트를 쓸 수 있다.
+// ───────────────────────────────────────────────────────────────
+import type { Account } from "thirdweb/wallets";
+
+export const WALLET_HEADER = "x-wallet-address";
+export const WALLET_SIGNATURE_HEADER = "x-wallet-signature";
+export const WALLET_TIMESTAMP_HEADER = "x-wallet-timestamp";
+export const WALLET_NONCE_HEADER = "x-wallet-nonce";
+
+// 서명 후 이 시간 안에 도착해야 한다
+export const WALLET_SIGNATURE_TTL_MS = 5 * 60 * 1000;
+
+export async function sha256Hex(text: string) {
+  const digest = await globalThis.crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export function walletRequestMessage(p: {
+  method: string;
+  path: string;
+  wallet: string;
+  timestamp: string;
+  nonce: string;
+  bodyHash: string;
+}) {
+  return [
+    "imokx 요청 서명",
+    `${p.method.toUpperCase()} ${p.path}`,
+    `wallet: ${p.wallet.toLowerCase()}`,
+    `timestamp: ${p.timestamp}`,
+    `nonce: ${p.nonce}`,
+    `body: ${p.bodyHash}`,
+  ].join("\n");
+}
+
+/**
+ * 지갑 서명을 붙여 내부 API 호출 (JSON 응답, 실패 시 throw — error.status 에 HTTP 상태)
+ *   await walletFetch(account, "/api/bot-settings", { method: "PATCH", body: { enabled: true } })
+ */
+export async function walletFetch<T = any>(
+  account: Account,
+  path: string,
+  init: { method?: string; body?: unknown } = {}
+): Promise<T> {
+  const method = (init.method ?? (init.body === undefined ? "GET" : "POST")).toUpperCase();
+  const body = init.body === undefined ? "" : JSON.stringify(init.body);
+  const timestamp = String(Date.now());
+  const nonce = globalThis.crypto.randomUUID();
+  const pathname = path.split("?")[0];
+
+  const message = walletRequestMessage({
+    method,
+    path: pathname,
+    wallet: account.address,
+    timestamp,
+    nonce,
+    bodyHash: await sha256Hex(body),
+  });
+  const signature = await account.signMessage({ message });
+
+  const res = await fetch(path, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      [WALLET_HEADER]: account.address.toLowerCase(),
+      [WALLET_SIGNATURE_HEADER]: signature,
+      [WALLET_TIMESTAMP_HEADER]: timestamp,
+      [WALLET_NONCE_HEADER]: nonce,
+    },
+    body: body || undefined,
+    cache: "no-store",
+  });
+
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw Object.assign(new Error(data?.error || `${method} ${pathname} ${res.status}`), { status: res.status });
+  }
+  return data as T;
+}
+
+/**
+ * 지갑 로그인 세션 확보 (SIWE 방식, src/lib/userSession.ts)
+ *   이미 같은 지갑으로 로그인되어 있으면 그대로, 아니면 nonce 메시지에 서명해 세션 쿠키를 받는다.
+ */
+let pendingLogin: { wallet: string; promise: Promise<string> } | null = null;
+
+export function ensureUserSession(account: Account): Promise<string> {
+  const wallet = account.address.toLowerCase();
+  // 여러 곳에서 동시에 불러도 nonce 는 한 번만 (nonce 쿠키가 덮어써지지 않게)
+  if (pendingLogin?.wallet === wallet) return pendingLogin.promise;
+
+  const promise = loginWithWallet(account, wallet).finally(() => {
+    if (pendingLogin?.promise === promise) pendingLogin = null;
+  });
+  pendingLogin = { wallet, promise };
+  return promise;
+}
+
+async function loginWithWallet(account: Account, wallet: string): Promise<string> {
+
+  const current = await fetch("/api/auth/session", { cache: "no-store" })
+    .then((res) => (res.ok ? res.json() : null))
+    .catch(() => null);
+  if (current?.wallet === wallet) return wallet;
+
+  const nonceRes = await fetch(`/api/auth/nonce?wallet=${wallet}`, { cache: "no-store" });
+  const { message, error } = await nonceRes.json();
+  if (!nonceRes.ok) throw new Error(error || "로그인 준비 실패");
+
+  const signature = await account.signMessage({ message });
+  const res = await fetch("/api/auth/session", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ wallet, signature }),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data?.error || "로그인 실패");
+  return wallet;
+}
+
+/** 지갑 로그인 세션 종료 */
+export async function clearUserSession() {
+  await fetch("/api/auth/session", { method: "DELETE" }).catch(() => {});
+}
@@ -0,0 +1,52 @@
+// src/middleware.ts
+// ───────────────────────────────────────────────────────────────
+// 관리자 영역 보호 — 세션 쿠키가 유효한지만 확인한다.
+// 역할(viewer / operator / treasurer / superadmin)은 각 API 라우트의 requireAdmin 에서 검사.
+//
+//  - /admin/*        : 세션 없으면 /admin/login 으로
+//  - /api/admin/*    : 세션 없으면 401 (로그인 API 제외)
+//  - CRON_PATHS      : 관리자 세션 또는 cron(Bearer CRON_SECRET)
+// ───────────────────────────────────────────────────────────────
+import { NextResponse, type NextRequest } from "next/server";
+import { ADMIN_SESSION_COOKIE, verifyAdminSession } from "@/lib/adminSession";
+
+// 로그인 없이 접근 가능한 경로
+const PUBLIC_PATHS = ["/admin/login", "/api/admin/session"];
+
+// Vercel cron 이 호출하는 경로 (vercel.json)
+const CRON_PATHS = [
+  "/api/send-rewards",
+  "/api/admin/rewards/confirm",
+  "/api/admin/purchases/reconcile",
+  "/api/admin/passes/expiry",
+  "/api/admin/notifications/dispatch",
+];
+
+export async function middleware(req: NextRequest) {
+  const { pathname } = req.nextUrl;
+  if (PUBLIC_PATHS.includes(pathname)) return NextResponse.next();
+
+  const cronSecret = process.env.CRON_SECRET;
+  if (
+    CRON_PATHS.includes(pathname) &&
+    cronSecret &&
+    req.headers.get("authorization") === `Bearer ${cronSecret}`
+  ) {
+    return NextResponse.next();
+  }
+
+  const session = await verifyAdminSession(req.cookies.get(ADMIN_SESSION_COOKIE)?.value);
+  if (session) return NextResponse.next();
+
+  if (pathname.startsWith("/api/")) {
+    return NextResponse.json({ message: "관리자 로그인이 필요합니다" }, { status: 401 });
+  }
+
+  const login = new URL("/admin/login", req.url);
+  login.searchParams.set("next", pathname);
+  return NextResponse.redirect(login);
+}
+
+export const config = {
+  matcher: ["/admin/:path*", "/api/admin/:path*", "/api/manual-send-rewards", "/api/send-rewards"],
+};
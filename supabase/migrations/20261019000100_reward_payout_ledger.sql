@@ -0,0 +1,60 @@
+-- 리워드 지급 원장: 선점(processing) → nonce 예약 → 서명 저장 → 전송 → 체인 대조
+
+alter table public.reward_transfers
+  add column if not exists idempotency_key text,
+  add column if not exists nonce bigint,
+  add column if not exists from_address text,
+  add column if not exists signed_tx text,
+  add column if not exists claimed_at timestamptz;
+
+create unique index if not exists reward_transfers_idempotency_key_uq
+  on public.reward_transfers (idempotency_key);
+
+-- 같은 발신 지갑 + nonce 로 서로 다른 지급 건이 서명되지 않도록
+create unique index if not exists reward_transfers_from_nonce_uq
+  on public.reward_transfers (from_address, nonce)
+  where status = 'processing';
+
+-- 발신 지갑별 다음 nonce
+create table if not exists public.payout_nonces (
+  address    text primary key,
+  next_nonce bigint not null,
+  updated_at timestamptz not null default now()
+);
+
+-- nonce 예약: max(저장값, 체인 pending nonce) 를 돌려주고 +1
+create or replace function public.reserve_payout_nonce(p_address text, p_chain_nonce bigint)
+returns bigint
+language plpgsql
+as $$
+declare
+  v_nonce bigint;
+begin
+  insert into public.payout_nonces (address, next_nonce)
+  values (lower(p_address), p_chain_nonce + 1)
+  on conflict (address) do update
+    set next_nonce = greatest(public.payout_nonces.next_nonce, p_chain_nonce) + 1,
+        updated_at = now()
+  returning next_nonce - 1 into v_nonce;
+
+  return v_nonce;
+end;
+$$;
+
+-- 미해결 processing 건이 없을 때만 체인 nonce 로 되돌림 (중단으로 생긴 nonce 공백 제거)
+create or replace function public.sync_payout_nonce(p_address text, p_chain_nonce bigint)
+returns void
+language sql
+as $$
+  update public.payout_nonces
+     set next_nonce = p_chain_nonce,
+         updated_at = now()
+   where address = lower(p_address)
+     and not exists (
+       select 1
+         from public.reward_transfers t
+        where t.status = 'processing'
+          and t.from_address = lower(p_address)
+          and t.nonce >= p_chain_nonce
+     );
+$$;
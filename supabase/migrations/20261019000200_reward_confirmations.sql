@@ -0,0 +1,34 @@
+-- 리워드 지급 온체인 확정: broadcast → (N confirmations + Transfer 로그 검증) → completed
+
+alter table public.reward_transfers
+  add column if not exists block_number bigint,
+  add column if not exists block_hash text,
+  add column if not exists confirmations integer not null default 0,
+  add column if not exists confirmed_at timestamptz;
+
+create index if not exists reward_transfers_broadcast_idx
+  on public.reward_transfers (status, nonce)
+  where status = 'broadcast';
+
+-- 전송된(broadcast) 건도 nonce 를 점유한다
+drop index if exists public.reward_transfers_from_nonce_uq;
+create unique index reward_transfers_from_nonce_uq
+  on public.reward_transfers (from_address, nonce)
+  where status in ('processing', 'broadcast');
+
+create or replace function public.sync_payout_nonce(p_address text, p_chain_nonce bigint)
+returns void
+language sql
+as $$
+  update public.payout_nonces
+     set next_nonce = p_chain_nonce,
+         updated_at = now()
+   where address = lower(p_address)
+     and not exists (
+       select 1
+         from public.reward_transfers t
+        where t.status in ('processing', 'broadcast')
+          and t.from_address = lower(p_address)
+          and t.nonce >= p_chain_nonce
+     );
+$$;
@@ -0,0 +1,32 @@
+-- 멀티센드 일괄 지급: 청크(트랜잭션) 1건 = reward_batches 1행
+
+create table if not exists public.reward_batches (
+  id               uuid primary key default gen_random_uuid(),
+  status           text not null default 'processing',
+  contract_address text not null,
+  recipient_count  integer not null,
+  total_amount     numeric(18, 2) not null,
+  from_address     text,
+  nonce            bigint,
+  signed_tx        text,
+  tx_hash          text,
+  error_message    text,
+  executed_at      timestamptz,
+  created_at       timestamptz not null default now()
+);
+
+alter table public.reward_transfers
+  add column if not exists batch_id uuid references public.reward_batches (id);
+
+create index if not exists reward_transfers_batch_idx
+  on public.reward_transfers (batch_id);
+
+-- 배치 행들은 nonce 를 공유하므로 단건 지급에만 (from_address, nonce) 유일성 적용
+drop index if exists public.reward_transfers_from_nonce_uq;
+create unique index reward_transfers_from_nonce_uq
+  on public.reward_transfers (from_address, nonce)
+  where status in ('processing', 'broadcast') and batch_id is null;
+
+create unique index if not exists reward_batches_from_nonce_uq
+  on public.reward_batches (from_address, nonce)
+  where status in ('processing', 'broadcast');
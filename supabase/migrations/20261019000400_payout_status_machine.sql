@@ -0,0 +1,11 @@
+-- reward_transfers.status 상태 머신 (src/lib/payoutStatus.ts 와 동일하게 유지)
+
+-- 구 라우트가 쓰던 'success' → completed
+update public.reward_transfers set status = 'completed' where status = 'success';
+
+alter table public.reward_transfers
+  drop constraint if exists reward_transfers_status_check;
+
+alter table public.reward_transfers
+  add constraint reward_transfers_status_check
+  check (status in ('pending', 'processing', 'broadcast', 'completed', 'failed', 'skipped', 'cancelled'));
@@ -0,0 +1,30 @@
+-- 수당 정책 버전 관리: enrollment 생성 시점에 유효했던 정책으로 계산
+
+create table if not exists public.commission_plans (
+  id             uuid primary key default gen_random_uuid(),
+  version        integer not null unique,
+  name           text,
+  effective_from timestamptz not null unique,
+  -- 추천 단계별 비율 [L1, L2, ...] (길이 = 최대 지급 단계)
+  level_rates    numeric[] not null default '{0.5}',
+  center_rate    numeric not null default 0.2,
+  -- pass_type 별 예외: { "100": { "price": 100, "level_rates": [0.5], "center_rate": 0.2 } }
+  pass_rules     jsonb not null default '{}'::jsonb,
+  created_at     timestamptz not null default now()
+);
+
+-- 기존 하드코딩 값 (추천 50% / 센터 20%, 100·300 패스 가격)
+insert into public.commission_plans (version, name, effective_from, level_rates, center_rate, pass_rules)
+values (
+  1,
+  '기본 정책',
+  '1970-01-01T00:00:00Z',
+  '{0.5}',
+  0.2,
+  '{"100": {"price": 100}, "300": {"price": 300}}'::jsonb
+)
+on conflict (version) do nothing;
+
+-- 각 지급 행을 만든 정책 버전 (기간 중 정책이 바뀌면 여러 개)
+alter table public.reward_transfers
+  add column if not exists plan_versions integer[] not null default '{}';
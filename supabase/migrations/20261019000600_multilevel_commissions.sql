@@ -0,0 +1,12 @@
+-- 다단계(uni-level) 추천 수당
+
+-- 유효 패스가 없는 후원자는 건너뛰고 다음 상위자에게 압축 지급
+alter table public.commission_plans
+  add column if not exists skip_inactive boolean not null default true;
+
+-- 기존 정책(v1)은 직추천만 지급하던 동작 그대로 유지
+update public.commission_plans set skip_inactive = false where version = 1;
+
+-- 추천 수당 단계별 내역 { "1": 50, "2": 10, ... } (referral_amount = 합계)
+alter table public.reward_transfers
+  add column if not exists level_amounts jsonb not null default '{}'::jsonb;
@@ -0,0 +1,42 @@
+-- 정산 기간: reward_transfers 가 어떤 기간을 집계했는지 명시 + 기간 중복 방지
+
+alter table public.reward_transfers
+  add column if not exists period_start date,
+  add column if not exists period_end date;
+
+-- 기존 행: 월요일 실행 → 전주 월~일
+update public.reward_transfers
+   set period_start = reward_date - 7,
+       period_end   = reward_date - 1
+ where period_start is null;
+
+-- 계산이 확정된 기간 (양 끝 포함). 기간끼리 겹칠 수 없다.
+create table if not exists public.reward_periods (
+  id           uuid primary key default gen_random_uuid(),
+  period_start date not null,
+  period_end   date not null,
+  reward_date  date not null unique,
+  created_at   timestamptz not null default now(),
+  check (period_start <= period_end),
+  constraint reward_periods_no_overlap
+    exclude using gist (daterange(period_start, period_end, '[]') with &&)
+);
+
+-- 기존 정산일 등록 (서로 겹치는 과거 데이터는 건너뜀)
+do $$
+declare r record;
+begin
+  for r in
+    select distinct reward_date, period_start, period_end
+      from public.reward_transfers
+     order by reward_date
+  loop
+    begin
+      insert into public.reward_periods (period_start, period_end, reward_date)
+      values (r.period_start, r.period_end, r.reward_date)
+      on conflict (reward_date) do nothing;
+    exception when exclusion_violation then
+      raise notice 'reward_periods 겹침 → 건너뜀: %', r.reward_date;
+    end;
+  end loop;
+end $$;
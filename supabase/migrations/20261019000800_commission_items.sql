@@ -0,0 +1,39 @@
+-- 수당 근거: enrollment 1건이 어떤 수혜자에게 얼마를 만들었는지 (calc 확정 시 기록)
+-- reward_transfers.referral_amount / center_amount = 해당 행 items 의 kind 별 합계
+
+create table if not exists public.commission_items (
+  id                   uuid primary key default gen_random_uuid(),
+  reward_transfer_id   uuid not null references public.reward_transfers (id) on delete cascade,
+  reward_date          date not null,
+  enrollment_id        text not null,            -- enrollments.id
+  source_ref_code      text not null,            -- 결제한 회원
+  beneficiary_ref_code text not null,            -- 수혜자 (= reward_transfers.ref_code)
+  kind                 text not null check (kind in ('referral', 'center')),
+  level                integer,                  -- 추천 단계 (센터는 null)
+  rate                 numeric not null,
+  base_amount          numeric(18, 2) not null,
+  amount               numeric(18, 2) not null,
+  plan_version         integer,
+  skipped_sponsors     text[] not null default '{}',
+  enrolled_at          timestamptz,
+  created_at           timestamptz not null default now()
+);
+
+-- enrollment 의 같은 단계 수당은 전 기간을 통틀어 한 번만
+create unique index if not exists commission_items_once_uq
+  on public.commission_items (enrollment_id, kind, coalesce(level, 0));
+
+create index if not exists commission_items_transfer_idx
+  on public.commission_items (reward_transfer_id);
+
+create index if not exists commission_items_beneficiary_source_idx
+  on public.commission_items (beneficiary_ref_code, source_ref_code);
+
+-- 검증용: 지급 행 금액과 items 합계
+create or replace view public.commission_item_totals as
+select reward_transfer_id,
+       sum(amount) filter (where kind = 'referral') as referral_amount,
+       sum(amount) filter (where kind = 'center')   as center_amount,
+       count(*)                                     as item_count
+  from public.commission_items
+ group by reward_transfer_id;
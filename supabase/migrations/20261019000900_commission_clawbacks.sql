@@ -0,0 +1,64 @@
+-- 환불/부정 결제 수당 회수(clawback) + 음수 잔액 이월
+
+-- 1) enrollments 환불 표시 (환불된 결제는 집계/유효 패스에서 제외)
+alter table public.enrollments
+  add column if not exists refunded_at timestamptz,
+  add column if not exists refund_reason text;
+
+-- 2) commission_items: 조정 항목 (수혜자 다음 정산에서 상계)
+--    clawback  : 지급된 수당의 회수 (음수, reverses_item_id = 원 항목)
+--    carry_out : 이번 행 금액을 다음 정산으로 넘김 (이번 행 합계를 0으로)
+--    carry_in  : 이전 행에서 넘어온 금액 (carried_from = 원 행)
+--    reward_transfer_id 가 null 이면 아직 상계되지 않은 항목
+alter table public.commission_items
+  alter column reward_transfer_id drop not null,
+  alter column reward_date drop not null,
+  alter column enrollment_id drop not null,
+  alter column source_ref_code drop not null,
+  alter column rate drop not null,
+  alter column base_amount drop not null,
+  add column if not exists reverses_item_id uuid references public.commission_items (id),
+  add column if not exists carried_from uuid references public.reward_transfers (id) on delete set null,
+  add column if not exists reason text;
+
+alter table public.commission_items
+  drop constraint if exists commission_items_kind_check;
+alter table public.commission_items
+  add constraint commission_items_kind_check
+  check (kind in ('referral', 'center', 'clawback', 'carry_out', 'carry_in'));
+
+-- 중복 집계 방지는 실제 수당 항목에만
+drop index if exists public.commission_items_once_uq;
+create unique index commission_items_once_uq
+  on public.commission_items (enrollment_id, kind, coalesce(level, 0))
+  where kind in ('referral', 'center');
+
+-- 같은 항목은 한 번만 회수
+create unique index if not exists commission_items_reverses_uq
+  on public.commission_items (reverses_item_id)
+  where reverses_item_id is not null;
+
+create index if not exists commission_items_unsettled_idx
+  on public.commission_items (beneficiary_ref_code)
+  where reward_transfer_id is null;
+
+-- 3) reward_transfers: 조정 합계 + 이월 출처, total_amount 재정의
+alter table public.reward_transfers
+  add column if not exists adjustment_amount numeric(18, 2) not null default 0,
+  add column if not exists carried_from uuid references public.reward_transfers (id) on delete set null;
+
+alter table public.reward_transfers drop column if exists total_amount;
+alter table public.reward_transfers
+  add column total_amount numeric(18, 2)
+  generated always as (coalesce(referral_amount, 0) + coalesce(center_amount, 0) + adjustment_amount) stored;
+
+drop view if exists public.commission_item_totals;
+create view public.commission_item_totals as
+select reward_transfer_id,
+       sum(amount) filter (where kind = 'referral')                            as referral_amount,
+       sum(amount) filter (where kind = 'center')                              as center_amount,
+       coalesce(sum(amount) filter (where kind in ('clawback', 'carry_out', 'carry_in')), 0) as adjustment_amount,
+       count(*)                                                                as item_count
+  from public.commission_items
+ where reward_transfer_id is not null
+ group by reward_transfer_id;
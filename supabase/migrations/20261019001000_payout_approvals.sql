@@ -0,0 +1,34 @@
+-- 지급 승인 (maker/checker): 한 관리자가 준비한 지급 묶음을 다른 관리자가 승인해야 송금 가능
+--   prepared → approved → executed
+--   prepared / approved → rejected (행의 approval_id 해제)
+
+create table if not exists public.payout_approvals (
+  id             uuid primary key default gen_random_uuid(),
+  reward_date    date not null,
+  status         text not null default 'prepared'
+                 check (status in ('prepared', 'approved', 'rejected', 'executed')),
+  transfer_ids   uuid[] not null,
+  row_count      integer not null,
+  total_amount   numeric(18, 2) not null,
+  batch_hash     text not null,   -- sha256(reward_date + [id, ref_code, wallet, amount]...)
+  prepared_by    text not null,
+  prepared_at    timestamptz not null default now(),
+  approved_by    text,
+  approved_at    timestamptz,
+  rejected_by    text,
+  rejected_at    timestamptz,
+  reject_reason  text,
+  executed_at    timestamptz,
+  note           text,
+  constraint payout_approvals_four_eyes check (approved_by is null or approved_by <> prepared_by)
+);
+
+create index if not exists payout_approvals_date_idx
+  on public.payout_approvals (reward_date, status);
+
+-- 행은 한 번에 하나의 승인 묶음에만 속한다
+alter table public.reward_transfers
+  add column if not exists approval_id uuid references public.payout_approvals (id);
+
+create index if not exists reward_transfers_approval_idx
+  on public.reward_transfers (approval_id);
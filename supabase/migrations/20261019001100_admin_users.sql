@@ -0,0 +1,15 @@
+-- 관리자 계정 (서버 세션 로그인 / 역할 기반 권한)
+--   viewer < operator < treasurer < superadmin  (src/lib/adminSession.ts 와 동일하게 유지)
+--   password_hash = scrypt$N$r$p$salt$hash (src/lib/adminAuth.ts)
+-- 첫 superadmin 은 scripts/create-admin.mjs 로 생성한다.
+
+create table if not exists public.admin_users (
+  id             uuid primary key default gen_random_uuid(),
+  username       text not null unique,
+  password_hash  text not null,
+  role           text not null default 'viewer'
+                 check (role in ('viewer', 'operator', 'treasurer', 'superadmin')),
+  active         boolean not null default true,
+  created_at     timestamptz not null default now(),
+  last_login_at  timestamptz
+);
@@ -0,0 +1,44 @@
+-- 관리자 감사 로그 (append-only)
+--   모든 관리자 변경 작업을 서버에서 기록한다 (src/lib/adminAudit.ts)
+--   수정/삭제는 트리거로 막는다 — 정정이 필요하면 새 행을 남긴다.
+
+create table if not exists public.admin_audit_log (
+  id            bigint generated always as identity primary key,
+  created_at    timestamptz not null default now(),
+  actor         text not null,          -- admin_users.username (cron 은 'cron')
+  actor_role    text,
+  action        text not null,          -- 예: users.update, rewards.calc.confirm, payout.transfer
+  target_table  text,
+  target_id     text,
+  before        jsonb,
+  after         jsonb,
+  meta          jsonb,                  -- 요청 파라미터 / 결과 요약
+  ip            text,
+  user_agent    text
+);
+
+create index if not exists admin_audit_log_created_idx on public.admin_audit_log (created_at desc);
+create index if not exists admin_audit_log_actor_idx on public.admin_audit_log (actor, created_at desc);
+create index if not exists admin_audit_log_action_idx on public.admin_audit_log (action, created_at desc);
+create index if not exists admin_audit_log_target_idx on public.admin_audit_log (target_table, target_id);
+
+create or replace function public.admin_audit_log_immutable()
+returns trigger language plpgsql as $$
+begin
+  raise exception 'admin_audit_log 는 수정/삭제할 수 없습니다';
+end;
+$$;
+
+drop trigger if exists admin_audit_log_no_update on public.admin_audit_log;
+create trigger admin_audit_log_no_update
+  before update or delete on public.admin_audit_log
+  for each row execute function public.admin_audit_log_immutable();
+
+drop trigger if exists admin_audit_log_no_truncate on public.admin_audit_log;
+create trigger admin_audit_log_no_truncate
+  before truncate on public.admin_audit_log
+  for each statement execute function public.admin_audit_log_immutable();
+
+-- 클라이언트(anon / authenticated)에서는 접근 불가, 서비스 롤로만 기록/조회
+alter table public.admin_audit_log enable row level security;
+revoke all on public.admin_audit_log from anon, authenticated;
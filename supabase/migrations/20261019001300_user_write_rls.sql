@@ -0,0 +1,30 @@
+-- 사용자 테이블 쓰기를 서버(service role)로만 제한
+--   브라우저(anon / authenticated)의 insert / update / delete 는 막고 조회만 허용한다.
+--   쓰기는 지갑 서명을 검증하는 서버 라우트가 담당:
+--     enrollments  → /api/purchases/verify
+--     usdt_history → /api/withdrawals, /api/alchemy-webhook
+--     bot_settings → /api/bot-settings
+--     users        → /api/register, /api/users/me, /api/admin/users/:id
+--   service role 은 RLS 를 우회하므로 서버 라우트에는 영향 없음.
+
+alter table public.users        enable row level security;
+alter table public.enrollments  enable row level security;
+alter table public.usdt_history enable row level security;
+alter table public.bot_settings enable row level security;
+
+drop policy if exists users_read on public.users;
+create policy users_read on public.users for select to anon, authenticated using (true);
+
+drop policy if exists enrollments_read on public.enrollments;
+create policy enrollments_read on public.enrollments for select to anon, authenticated using (true);
+
+drop policy if exists usdt_history_read on public.usdt_history;
+create policy usdt_history_read on public.usdt_history for select to anon, authenticated using (true);
+
+drop policy if exists bot_settings_read on public.bot_settings;
+create policy bot_settings_read on public.bot_settings for select to anon, authenticated using (true);
+
+revoke insert, update, delete on public.users        from anon, authenticated;
+revoke insert, update, delete on public.enrollments  from anon, authenticated;
+revoke insert, update, delete on public.usdt_history from anon, authenticated;
+revoke insert, update, delete on public.bot_settings from anon, authenticated;
@@ -0,0 +1,12 @@
+-- 패스 결제 검증 (/api/purchases/verify)
+--   enrollments 는 체인에서 확인된 USDT 전송이 있을 때만 만들어진다 (이 마이그레이션 이전 행은 tx_hash 없음)
+--   같은 트랜잭션으로 두 번 수강 내역을 만들 수 없도록 tx_hash 유일 제약
+
+alter table public.enrollments
+  add column if not exists tx_hash      text,
+  add column if not exists payer_wallet text,
+  add column if not exists verified_at  timestamptz;
+
+create unique index if not exists enrollments_tx_hash_key
+  on public.enrollments (tx_hash)
+  where tx_hash is not null;
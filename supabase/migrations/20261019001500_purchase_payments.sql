@@ -0,0 +1,44 @@
+-- 패스 결제 수신 기록 / 누락 복구
+--   PASS_RECEIVER 로 들어온 USDT Transfer 를 (Alchemy 웹훅 또는 로그 스캔으로) 모두 남기고
+--   보낸 지갑의 유저 + 금액이 맞는 패스로 수강 내역이 없으면 만든다.
+--   received : 기록만 됨, 아직 대조 전
+--   matched  : 복구로 수강 내역 생성
+--   recorded : 이미 /api/purchases/verify 로 기록됨
+--   review   : 유저 / 패스를 특정할 수 없음 → /admin/subscriptions 에서 관리자 배정 또는 무시
+--   resolved : 관리자가 유저·패스를 지정해 수강 내역 생성
+--   ignored  : 관리자가 패스 결제가 아닌 것으로 처리
+
+create table if not exists public.purchase_payments (
+  id             uuid primary key default gen_random_uuid(),
+  tx_hash        text not null,
+  log_index      integer not null,
+  block_number   bigint,
+  from_wallet    text not null,
+  amount         numeric(18, 6) not null,
+  source         text not null check (source in ('webhook', 'scan')),
+  status         text not null default 'received'
+                 check (status in ('received', 'matched', 'recorded', 'review', 'resolved', 'ignored')),
+  review_reason  text,
+  ref_code       text,
+  enrollment_id  text,            -- enrollments.id
+  resolved_by    text,
+  resolved_at    timestamptz,
+  note           text,
+  detected_at    timestamptz not null default now(),
+  unique (tx_hash, log_index)
+);
+
+create index if not exists purchase_payments_status_idx
+  on public.purchase_payments (status, detected_at desc);
+
+-- 로그 스캔 진행 위치
+create table if not exists public.chain_scan_cursors (
+  name        text primary key,
+  last_block  bigint not null,
+  updated_at  timestamptz not null default now()
+);
+
+alter table public.purchase_payments  enable row level security;
+alter table public.chain_scan_cursors enable row level security;
+revoke all on public.purchase_payments  from anon, authenticated;
+revoke all on public.chain_scan_cursors from anon, authenticated;
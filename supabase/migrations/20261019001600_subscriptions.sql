@@ -0,0 +1,33 @@
+-- 구독 연장 / 업그레이드 (src/lib/subscriptions.ts)
+--   new     : 유효한 패스 없음 → 오늘부터
+--   renewal : 같은 등급 이하 → 현재 만료일부터 이어서 (남은 기간 유지)
+--   upgrade : 더 비싼 패스 → 남은 기간 가치를 크레딧으로 빼고 오늘부터,
+--             기존 패스는 오늘 날짜로 종료(superseded)
+--   tuition 은 실제 결제 금액, credit_amount 는 업그레이드 때 차감된 크레딧
+
+alter table public.enrollments
+  add column if not exists starts_at      date,
+  add column if not exists purchase_kind  text check (purchase_kind in ('new', 'renewal', 'upgrade')),
+  add column if not exists credit_amount  numeric(18, 2) not null default 0,
+  add column if not exists superseded_by  text,          -- enrollments.id (업그레이드로 대체한 행)
+  add column if not exists superseded_at  timestamptz;
+
+-- ref_code 별 현재 구독 (store / PassCard / bot 화면이 읽는 단일 기준)
+--   결제 완료 + 환불 안 됨 중 만료일이 가장 늦은 행 (연장분이 쌓여 있으면 마지막 행)
+create or replace view public.subscriptions
+  with (security_invoker = true) as
+select distinct on (e.ref_code)
+  e.ref_code,
+  e.id                as enrollment_id,
+  e.pass_type,
+  e.purchase_kind,
+  e.created_at        as purchased_at,
+  e.pass_expired_at   as expires_at,
+  e.pass_expired_at >= (now() at time zone 'Asia/Seoul')::date as active
+from public.enrollments e
+where e.memo = '결제 완료'
+  and e.refunded_at is null
+  and e.pass_expired_at is not null
+order by e.ref_code, e.pass_expired_at desc, e.created_at desc;
+
+grant select on public.subscriptions to anon, authenticated;
@@ -0,0 +1,64 @@
+-- 패스 상품 카탈로그 (src/lib/passProducts.ts, /api/pass-products, /admin/products)
+--   기간은 구조화된 값으로: months 개월 + bonus_days 일 (unlimited 면 무기한)
+--   가격·기간 변경은 이후 구매부터 적용 (이미 만든 enrollments 는 그대로)
+--   상품은 삭제하지 않고 active = false 로 판매 중지
+
+create table if not exists public.pass_products (
+  id          text primary key,                 -- 예: pass-300 (enrollments.product_id)
+  price       numeric(18, 2) not null check (price > 0),
+  months      integer not null default 0 check (months >= 0),
+  bonus_days  integer not null default 0 check (bonus_days >= 0),
+  unlimited   boolean not null default false,
+  active      boolean not null default true,
+  sort        integer not null default 0,
+  name_ko     text not null,
+  name_en     text,
+  image       text,
+  created_at  timestamptz not null default now(),
+  updated_at  timestamptz not null default now(),
+  constraint pass_products_period check (unlimited or months > 0 or bonus_days > 0)
+);
+
+-- 기존 스토어 하드코딩 목록 (추가 증정 "1개월" / "3개월" 은 30 / 90일로)
+insert into public.pass_products (id, price, months, bonus_days, sort, name_ko, name_en, image) values
+  ('pass-100',  1,    1,  0,  10, '100 USDT',  '100 USDT Pass',  '/pass-300.png'),
+  ('pass-300',  300,  3,  7,  20, '300 USDT',  '300 USDT Pass',  '/pass-1800.png'),
+  ('pass-600',  600,  6,  30, 30, '600 USDT',  '600 USDT Pass',  '/pass-3600.png'),
+  ('pass-1200', 1200, 12, 90, 40, '1200 USDT', '1200 USDT Pass', '/pass-vip.png')
+on conflict (id) do nothing;
+
+alter table public.enrollments
+  add column if not exists product_id text references public.pass_products (id);
+alter table public.purchase_payments
+  add column if not exists product_id text references public.pass_products (id);
+
+-- 기존 수강 내역은 pass_type(상품명)으로 연결
+update public.enrollments e
+   set product_id = p.id
+  from public.pass_products p
+ where e.product_id is null
+   and trim(e.pass_type) = p.name_ko;
+
+create index if not exists enrollments_product_idx on public.enrollments (product_id);
+
+-- subscriptions 뷰에 product_id 추가 (열은 끝에만 추가 가능)
+create or replace view public.subscriptions
+  with (security_invoker = true) as
+select distinct on (e.ref_code)
+  e.ref_code,
+  e.id                as enrollment_id,
+  e.pass_type,
+  e.purchase_kind,
+  e.created_at        as purchased_at,
+  e.pass_expired_at   as expires_at,
+  e.pass_expired_at >= (now() at time zone 'Asia/Seoul')::date as active,
+  e.product_id
+from public.enrollments e
+where e.memo = '결제 완료'
+  and e.refunded_at is null
+  and e.pass_expired_at is not null
+order by e.ref_code, e.pass_expired_at desc, e.created_at desc;
+
+-- 카탈로그는 /api/pass-products 로만 (판매 중인 상품만 노출)
+alter table public.pass_products enable row level security;
+revoke all on public.pass_products from anon, authenticated;
@@ -0,0 +1,51 @@
+-- 프로모션 코드 (src/lib/promoCodes.ts, /admin/promos)
+--   할인은 견적 결제액(업그레이드면 크레딧 차감 후)에 적용: percent = 비율, fixed = USDT
+--   bonus_days 는 만료일에 더한다
+--   사용 조건: 기간(KST 날짜, 포함), 전체 / 회원별 사용 횟수, 추천인(users.ref_by) / 센터(users.center_id) 제한
+--   검증은 견적과 결제 확인에서 서버가 하고, 결제 확인된 건만 promo_redemptions 에 남는다
+
+create table if not exists public.promo_codes (
+  code            text primary key check (code = upper(code)),
+  discount_type   text not null default 'percent' check (discount_type in ('percent', 'fixed')),
+  discount_value  numeric(18, 2) not null default 0 check (discount_value >= 0),
+  bonus_days      integer not null default 0 check (bonus_days >= 0),
+  max_redemptions integer check (max_redemptions > 0),   -- null = 무제한
+  per_user_limit  integer default 1 check (per_user_limit > 0), -- null = 무제한
+  valid_from      date,
+  valid_until     date,
+  referrer_codes  text[],                                -- null = 제한 없음
+  center_ids      text[],                                -- null = 제한 없음
+  active          boolean not null default true,
+  note            text,
+  created_by      text,
+  created_at      timestamptz not null default now(),
+  updated_at      timestamptz not null default now(),
+  constraint promo_codes_percent check (discount_type <> 'percent' or discount_value < 100),
+  constraint promo_codes_benefit check (discount_value > 0 or bonus_days > 0)
+);
+
+create table if not exists public.promo_redemptions (
+  id             uuid primary key default gen_random_uuid(),
+  code           text not null references public.promo_codes (code),
+  ref_code       text not null,
+  enrollment_id  text not null unique,
+  tx_hash        text,
+  product_id     text,
+  list_amount    numeric(18, 2) not null,  -- 할인 전 결제액
+  discount       numeric(18, 2) not null,
+  amount_paid    numeric(18, 2) not null,
+  bonus_days     integer not null default 0,
+  redeemed_at    timestamptz not null default now()
+);
+
+create index if not exists promo_redemptions_code_idx on public.promo_redemptions (code, ref_code);
+
+alter table public.enrollments
+  add column if not exists promo_code      text,
+  add column if not exists discount_amount numeric(18, 2) not null default 0;
+
+-- 서버(service role)만 접근
+alter table public.promo_codes enable row level security;
+alter table public.promo_redemptions enable row level security;
+revoke all on public.promo_codes from anon, authenticated;
+revoke all on public.promo_redemptions from anon, authenticated;
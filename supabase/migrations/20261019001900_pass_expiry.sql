@@ -0,0 +1,24 @@
+-- 패스 만료 작업 (src/lib/passExpiry.ts, /api/admin/passes/expiry — 매일 00:05 KST cron)
+--   D-7 / D-3 / D-1 만료 예정 알림과 만료 알림을 notifications 에 쌓고 (발송은 별도)
+--   만료되었는데 봇이 켜져 있으면 bot_settings.enabled = false + 원격 /stop-bot + bot_status_history 기록
+--
+--   notifications.dedupe_key : 같은 알림을 두 번 쌓지 않도록 (예: pass_expiring:RC123:2026-11-01:D-3)
+
+create table if not exists public.notifications (
+  id          uuid primary key default gen_random_uuid(),
+  ref_code    text not null,
+  kind        text not null,           -- pass_expiring / pass_expired / bot_stopped / ...
+  title       text not null,
+  body        text not null,
+  link        text,                    -- 앱 안 이동 경로 (예: /store)
+  data        jsonb,
+  dedupe_key  text unique,
+  created_at  timestamptz not null default now(),
+  read_at     timestamptz
+);
+
+create index if not exists notifications_ref_code_idx on public.notifications (ref_code, created_at desc);
+
+-- 서버(service role)만 접근
+alter table public.notifications enable row level security;
+revoke all on public.notifications from anon, authenticated;
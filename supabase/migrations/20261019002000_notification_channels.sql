@@ -0,0 +1,55 @@
+-- 알림 발송 채널 (src/lib/notifications.ts, src/lib/notificationChannels.ts)
+--   notifications 에 쌓인 알림을 cron(/api/admin/notifications/dispatch)이 회원 설정에 따라 채널별로 보낸다
+--   채널: email(SMTP) / telegram(Bot API) / push(Web Push, VAPID)
+--   notification_deliveries : 알림 × 채널 1행 — 실패하면 최대 3회까지 다음 실행에서 재시도
+--   notifications.dispatched_at : 모든 채널 처리가 끝난 시각 (null = 발송 대기)
+
+create table if not exists public.notification_preferences (
+  ref_code          text primary key,
+  email             text,
+  email_enabled     boolean not null default false,
+  telegram_chat_id  text,
+  telegram_enabled  boolean not null default false,
+  push_enabled      boolean not null default false,
+  muted_kinds       text[] not null default '{}',   -- 받지 않을 알림 종류 (notifications.kind)
+  updated_at        timestamptz not null default now()
+);
+
+create table if not exists public.push_subscriptions (
+  id          uuid primary key default gen_random_uuid(),
+  ref_code    text not null,
+  endpoint    text not null unique,
+  p256dh      text not null,
+  auth        text not null,
+  user_agent  text,
+  created_at  timestamptz not null default now()
+);
+
+create index if not exists push_subscriptions_ref_code_idx on public.push_subscriptions (ref_code);
+
+create table if not exists public.notification_deliveries (
+  id               uuid primary key default gen_random_uuid(),
+  notification_id  uuid not null references public.notifications (id) on delete cascade,
+  channel          text not null check (channel in ('email', 'telegram', 'push')),
+  status           text not null check (status in ('sent', 'failed')),
+  attempts         integer not null default 0,
+  last_error       text,
+  sent_at          timestamptz,
+  updated_at       timestamptz not null default now(),
+  unique (notification_id, channel)
+);
+
+alter table public.notifications
+  add column if not exists dispatched_at timestamptz;
+
+create index if not exists notifications_pending_idx
+  on public.notifications (created_at)
+  where dispatched_at is null;
+
+-- 서버(service role)만 접근 (설정 변경은 /api/notifications/*)
+alter table public.notification_preferences enable row level security;
+alter table public.push_subscriptions enable row level security;
+alter table public.notification_deliveries enable row level security;
+revoke all on public.notification_preferences from anon, authenticated;
+revoke all on public.push_subscriptions from anon, authenticated;
+revoke all on public.notification_deliveries from anon, authenticated;
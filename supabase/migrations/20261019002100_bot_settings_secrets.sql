@@ -0,0 +1,8 @@
+-- bot_settings 의 OKX API 키 3종을 브라우저(anon / authenticated)에서 읽지 못하게 한다
+--   20261019001300 의 bot_settings_read 정책은 모든 행을 열어 두므로, 테이블 SELECT 권한을 거두고
+--   비밀이 아닌 컬럼만 컬럼 단위로 다시 준다 (봇 화면 / 실시간 구독 / 관리자 KPI 가 쓰는 컬럼).
+--   키 등록 여부는 /api/bot-settings (GET, 로그인 세션) 가 has_api 로만 알려준다.
+
+revoke select on public.bot_settings from anon, authenticated;
+grant select (ref_code, inst_id, coin_qty, leverage, tp_diff, sl_diff, enabled, updated_at)
+  on public.bot_settings to anon, authenticated;
@@ -0,0 +1,59 @@
+-- 일일 지급 한도(PAYOUT_DAILY_CAP)를 선점과 같은 트랜잭션에서 확인한다
+--   사전 점검(payoutPreflight.ts)은 "오늘 지급액"을 읽은 뒤 따로 선점하므로,
+--   cron 과 수동 지급이 동시에 돌면 둘 다 통과해 한도를 넘을 수 있다.
+--   선점을 advisory lock 으로 직렬화하고, 잠금 안에서 오늘 금액 + 이 건이 한도 이내일 때만 processing 으로 바꾼다.
+--   반환: 'claimed' | 'taken' (다른 실행이 먼저 선점 / 상태 변경) | 'over_cap' (상태 그대로 보류)
+
+create or replace function public.claim_reward_transfer(
+  p_id              uuid,
+  p_sources         text[],      -- processing 으로 전이할 수 있는 상태 (payoutStatus.ts sourcesOf)
+  p_idempotency_key text,
+  p_claimed_at      timestamptz,
+  p_day_start       timestamptz, -- 한도 집계 구간 (claimed_at 기준)
+  p_day_end         timestamptz,
+  p_daily_cap       numeric      -- null = 무제한
+)
+returns text
+language plpgsql
+as $$
+declare
+  v_amount numeric;
+  v_spent  numeric;
+begin
+  if p_daily_cap is not null then
+    -- 트랜잭션이 끝나면 자동 해제
+    perform pg_advisory_xact_lock(hashtext('reward_transfers_daily_cap'));
+
+    select total_amount into v_amount from public.reward_transfers where id = p_id;
+
+    -- 오늘 나갔거나 나가는 중인 금액 (payoutPreflight.ts SPENT_STATUSES 와 동일)
+    select coalesce(sum(total_amount), 0) into v_spent
+      from public.reward_transfers
+     where status in ('processing', 'broadcast', 'completed')
+       and claimed_at >= p_day_start
+       and claimed_at <  p_day_end
+       and id <> p_id;
+
+    if v_spent + coalesce(v_amount, 0) > p_daily_cap then
+      return 'over_cap';
+    end if;
+  end if;
+
+  update public.reward_transfers
+     set status          = 'processing',
+         idempotency_key = p_idempotency_key,
+         claimed_at      = p_claimed_at,
+         error_message   = null,
+         tx_hash         = null,
+         signed_tx       = null,
+         nonce           = null,
+         batch_id        = null
+   where id = p_id
+     and status = any (p_sources);
+
+  return case when found then 'claimed' else 'taken' end;
+end;
+$$;
+
+revoke execute on function public.claim_reward_transfer(uuid, text[], text, timestamptz, timestamptz, timestamptz, numeric)
+  from public, anon, authenticated;
@@ -0,0 +1,53 @@
+-- 프로모션 코드 사용 한도(max_redemptions / per_user_limit)를 DB 에서 보장한다
+--   견적 / 결제 확인의 checkPromoCode 는 "사용 횟수를 센 뒤" 따로 기록하므로
+--   동시에 확인된 결제들이 함께 한도를 넘을 수 있다.
+--   redeem_promo_code 는 promo_codes 행을 잠근 채(for update) 횟수를 다시 세고, 한도 안일 때만 사용 기록을 남긴다.
+--   반환: 'redeemed' | 'not_found' | 'max_redemptions' | 'per_user_limit'
+--   p_ignore_limits: 관리자 배정 (수신 결제 검토) — 한도를 보지 않는다
+
+create or replace function public.redeem_promo_code(
+  p_code          text,
+  p_ref_code      text,
+  p_enrollment_id text,
+  p_tx_hash       text,
+  p_product_id    text,
+  p_list_amount   numeric,
+  p_discount      numeric,
+  p_amount_paid   numeric,
+  p_bonus_days    integer,
+  p_ignore_limits boolean default false
+)
+returns text
+language plpgsql
+as $$
+declare
+  v_promo public.promo_codes%rowtype;
+begin
+  select * into v_promo from public.promo_codes where code = p_code for update;
+  if not found then
+    return 'not_found';
+  end if;
+
+  if not p_ignore_limits then
+    if v_promo.max_redemptions is not null
+       and (select count(*) from public.promo_redemptions where code = p_code) >= v_promo.max_redemptions then
+      return 'max_redemptions';
+    end if;
+    if v_promo.per_user_limit is not null
+       and (select count(*) from public.promo_redemptions where code = p_code and ref_code = p_ref_code) >= v_promo.per_user_limit then
+      return 'per_user_limit';
+    end if;
+  end if;
+
+  insert into public.promo_redemptions
+    (code, ref_code, enrollment_id, tx_hash, product_id, list_amount, discount, amount_paid, bonus_days)
+  values
+    (p_code, p_ref_code, p_enrollment_id, p_tx_hash, p_product_id, p_list_amount, p_discount, p_amount_paid, p_bonus_days)
+  on conflict (enrollment_id) do nothing;
+
+  return 'redeemed';
+end;
+$$;
+
+revoke execute on function public.redeem_promo_code(text, text, text, text, text, numeric, numeric, numeric, integer, boolean)
+  from public, anon, authenticated;
@@ -0,0 +1,19 @@
+-- subscriptions 뷰의 결제 완료 판정을 기존 규칙(memo ilike '%결제 완료%')으로 되돌린다
+--   과거 행의 memo 는 '결제 완료' 앞뒤에 다른 문구가 붙어 있을 수 있어,
+--   정확히 일치(=) 조건이면 유효한 패스가 뷰에서 빠지고 만료 크론이 봇을 끄게 된다
+create or replace view public.subscriptions
+  with (security_invoker = true) as
+select distinct on (e.ref_code)
+  e.ref_code,
+  e.id                as enrollment_id,
+  e.pass_type,
+  e.purchase_kind,
+  e.created_at        as purchased_at,
+  e.pass_expired_at   as expires_at,
+  e.pass_expired_at >= (now() at time zone 'Asia/Seoul')::date as active,
+  e.product_id
+from public.enrollments e
+where e.memo ilike '%결제 완료%'
+  and e.refunded_at is null
+  and e.pass_expired_at is not null
+order by e.ref_code, e.pass_expired_at desc, e.created_at desc;
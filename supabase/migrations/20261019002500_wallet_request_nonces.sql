@@ -0,0 +1,17 @@
+-- 지갑 서명 요청의 1회용 nonce (src/lib/walletAuth.ts requireWallet)
+--   서명 메시지에 nonce 를 넣고, 검증에 성공한 요청의 nonce 를 여기 남긴다
+--   같은 (wallet, nonce) 로 다시 오면 PK 충돌 → 재사용(재전송 공격)으로 거부
+--   서명 유효 시간(5분)이 지난 행은 요청 처리 중에 정리한다
+
+create table if not exists public.wallet_request_nonces (
+  wallet   text not null,
+  nonce    text not null,
+  used_at  timestamptz not null default now(),
+  primary key (wallet, nonce)
+);
+
+create index if not exists wallet_request_nonces_used_at_idx on public.wallet_request_nonces (used_at);
+
+-- 서버(service role)만 접근
+alter table public.wallet_request_nonces enable row level security;
+revoke all on public.wallet_request_nonces from anon, authenticated;